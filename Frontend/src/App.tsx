@@ -4,11 +4,18 @@ import { GlobalStyle, Container, Header, Nav, Logo, Main, Footer } from './style
 import { SecurityProvider } from './components/SecurityProvider';
 import { LoginForm } from './components/Auth/LoginForm';
 import { RegisterForm } from './components/Auth/RegisterForm';
+import { MfaLoginStep, MfaLoginChallenge, mfaChallengeFrom } from './components/Auth/MfaLoginStep';
+import { StepUpPrompt } from './components/Auth/StepUpPrompt';
+import { ForgotPasswordForm } from './components/Auth/ForgotPasswordForm';
+import { ResetPasswordForm } from './components/Auth/ResetPasswordForm';
 import { Dashboard } from './components/Dashboard/Dashboard';
 import { EmployeeLogin } from './components/Employee/EmployeeLogin';
 import { EmployeeDashboard } from './components/Employee/EmployeeDashboard';
 import { SecureStorage } from './utils/security';
-import { apiService } from './services/api';
+import { apiService, SESSION_EXPIRED_EVENT } from './services/api';
+import { getPasskeyAssertion } from './utils/webauthn';
+
+type StepUpResult = { stepUpToken: string; expiresAt: string } | null;
 
 interface User {
   firstName: string;
@@ -16,14 +23,20 @@ interface User {
   email: string;
   accountNumber: string;
   role?: 'customer' | 'employee';
+  mfaEnabled?: boolean;
 }
 
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [authMode, setAuthMode] = useState<'login' | 'register' | 'employee'>('login');
+  const [authMode, setAuthMode] = useState<'login' | 'register' | 'employee' | 'forgot' | 'reset'>('login');
+  // Token from an emailed password reset link (/reset-password?token=...)
+  const [resetToken, setResetToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [notice, setNotice] = useState<string | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaLoginChallenge | null>(null);
+  // Pending step-up from the API service; resolved by the prompt
+  const [stepUpRequest, setStepUpRequest] = useState<{ resolve: (result: StepUpResult) => void } | null>(null);
 
   useEffect(() => {
     // Set security headers
@@ -46,6 +59,14 @@ function App() {
       document.head.appendChild(meta);
     });
 
+    // Opened from a password reset email: keep the token in memory and drop it from the address bar
+    const linkToken = new URLSearchParams(window.location.search).get('token');
+    if (window.location.pathname === '/reset-password' && linkToken) {
+      setResetToken(linkToken);
+      setAuthMode('reset');
+      window.history.replaceState(null, '', '/');
+    }
+
     // Check for existing session
     const savedUser = SecureStorage.getItem('currentUser');
     if (savedUser) {
@@ -61,16 +82,46 @@ function App() {
     setIsLoading(false);
   }, []);
 
+  useEffect(() => {
+    // The refresh token was rejected (expired, revoked or reused): back to the login screen
+    const onSessionExpired = () => {
+      setIsAuthenticated(false);
+      setCurrentUser(null);
+      SecureStorage.clear();
+      setNotice('Your session has expired. Please log in again.');
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, onSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, onSessionExpired);
+  }, []);
+
+  useEffect(() => {
+    // Sensitive actions answered with STEP_UP_REQUIRED wait here for the user to confirm
+    apiService.setStepUpHandler(() => new Promise<StepUpResult>(resolve => setStepUpRequest({ resolve })));
+    return () => apiService.setStepUpHandler(null);
+  }, []);
+
+  const completeLogin = (data: any) => {
+    const { user, token, refreshToken } = data;
+
+    SecureStorage.setItem('authToken', token);
+    SecureStorage.setItem('refreshToken', refreshToken);
+    SecureStorage.setItem('currentUser', JSON.stringify(user));
+    setCurrentUser(user);
+    setIsAuthenticated(true);
+    setMfaChallenge(null);
+    setNotice(null);
+  };
+
   const handleLogin = async (credentials: { email: string; password: string }) => {
     try {
       const resp = await apiService.login(credentials.email, credentials.password);
-      const { user, token } = resp.data;
-
-      SecureStorage.setItem('authToken', token);
-      SecureStorage.setItem('currentUser', JSON.stringify(user));
-      setCurrentUser(user);
-      setIsAuthenticated(true);
-      setNotice(null);
+      const challenge = mfaChallengeFrom(resp.data);
+      if (challenge) {
+        setMfaChallenge(challenge);
+        setNotice(null);
+        return;
+      }
+      completeLogin(resp.data);
     } catch (error: any) {
       const msg = error?.response?.data?.message || error?.message || 'Login failed.';
       if (msg.toLowerCase().includes('not verified')) {
@@ -81,6 +132,17 @@ function App() {
     }
   };
 
+  const handlePasskeyLogin = async () => {
+    try {
+      const options = await apiService.getPasskeyLoginOptions();
+      const credential = await getPasskeyAssertion(options.data);
+      const resp = await apiService.loginWithPasskey(credential);
+      completeLogin(resp.data);
+    } catch (error: any) {
+      setNotice(error?.message || 'Passkey login failed.');
+    }
+  };
+
   const handleRegister = async (userData: any) => {
     try {
       const resp = await apiService.register({
@@ -99,11 +161,12 @@ function App() {
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = (message?: string) => {
     setIsAuthenticated(false);
     setCurrentUser(null);
     SecureStorage.clear();
     setAuthMode('login');
+    setNotice(message || null);
   };
 
   if (isLoading) {
@@ -193,12 +256,24 @@ function App() {
                     {notice}
                   </div>
                 )}
-                {authMode === 'employee' ? (
+                {authMode === 'reset' && resetToken ? (
+                  <ResetPasswordForm
+                    token={resetToken}
+                    onReset={(message) => { setResetToken(null); setAuthMode('login'); setNotice(message); }}
+                    onRequestNewLink={() => { setResetToken(null); setAuthMode('forgot'); setNotice(null); }}
+                  />
+                ) : authMode === 'forgot' ? (
+                  <ForgotPasswordForm onBackToLogin={() => setAuthMode('login')} />
+                ) : authMode === 'employee' ? (
                   <EmployeeLogin onLoggedIn={(user) => { setCurrentUser(user); setIsAuthenticated(true); }} />
+                ) : authMode === 'login' && mfaChallenge ? (
+                  <MfaLoginStep challenge={mfaChallenge} onComplete={completeLogin} onCancel={() => setMfaChallenge(null)} />
                 ) : authMode === 'login' ? (
                   <LoginForm 
                     onLogin={handleLogin}
                     onSwitchToRegister={() => setAuthMode('register')}
+                    onPasskeyLogin={handlePasskeyLogin}
+                    onForgotPassword={() => { setAuthMode('forgot'); setNotice(null); }}
                   />
                 ) : (
                   <RegisterForm 
@@ -211,6 +286,13 @@ function App() {
           </Container>
         </Main>
 
+        {stepUpRequest && (
+          <StepUpPrompt onDone={(result) => {
+            stepUpRequest.resolve(result);
+            setStepUpRequest(null);
+          }} />
+        )}
+
         <Footer>
           <Container>
             <p>&copy; 2024 SecurePay Portal. All rights reserved. | Secured with SSL/TLS encryption</p>
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import {
+  Card,
+  Button,
+  Input,
+  FormGroup,
+  Label,
+  ErrorMessage,
+  Alert
+} from '../../styles/GlobalStyles';
+import { validateInput } from '../../utils/validation';
+import { apiService } from '../../services/api';
+import { PasswordStrengthIndicator } from '../common/PasswordStrengthIndicator';
+
+const schema = yup.object({
+  currentPassword: yup
+    .string()
+    .required('Current password is required'),
+  newPassword: yup
+    .string()
+    .required('New password is required')
+    .test('password-format', 'Password must be at least 8 characters with uppercase, lowercase, number and special character', (value) =>
+      value ? validateInput(value, 'password') : false
+    )
+    .notOneOf([yup.ref('currentPassword')], 'New password must be different from the current password'),
+  confirmPassword: yup
+    .string()
+    .required('Please confirm your new password')
+    .oneOf([yup.ref('newPassword')], 'Passwords must match')
+});
+
+interface ChangePasswordFormData {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+interface ChangePasswordFormProps {
+  // Called after the change: the server has revoked every session, including this one
+  onChanged: (message: string) => void;
+}
+
+export const ChangePasswordForm: React.FC<ChangePasswordFormProps> = ({ onChanged }) => {
+  const [error, setError] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<ChangePasswordFormData>({
+    resolver: yupResolver(schema),
+    mode: 'onBlur'
+  });
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setError('');
+    if (!window.confirm('Change your password? You will be logged out on all devices.')) return;
+
+    setIsSaving(true);
+    try {
+      const resp = await apiService.changePassword(data.currentPassword, data.newPassword);
+      onChanged(resp.message || 'Password changed. Please log in again with your new password.');
+    } catch (err: any) {
+      setError(err?.data?.errors?.[0]?.message || err?.message || 'Failed to change password');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <details>
+        <summary style={{ cursor: 'pointer', color: '#495057', fontWeight: 600 }}>Change password</summary>
+        <form onSubmit={handleSubmit(onSubmit)} noValidate style={{ marginTop: '1rem' }}>
+          {error && <Alert type="error">{error}</Alert>}
+
+          <FormGroup>
+            <Label htmlFor="currentPassword">Current password</Label>
+            <Input
+              id="currentPassword"
+              type="password"
+              hasError={!!errors.currentPassword}
+              autoComplete="current-password"
+              {...register('currentPassword')}
+            />
+            {errors.currentPassword && <ErrorMessage>⚠️ {errors.currentPassword.message}</ErrorMessage>}
+          </FormGroup>
+
+          <FormGroup>
+            <Label htmlFor="newPassword">New password</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              hasError={!!errors.newPassword}
+              autoComplete="new-password"
+              {...register('newPassword')}
+            />
+            <PasswordStrengthIndicator password={watch('newPassword') || ''} />
+            {errors.newPassword && <ErrorMessage>⚠️ {errors.newPassword.message}</ErrorMessage>}
+          </FormGroup>
+
+          <FormGroup>
+            <Label htmlFor="confirmPassword">Confirm new password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              hasError={!!errors.confirmPassword}
+              autoComplete="new-password"
+              {...register('confirmPassword')}
+            />
+            {errors.confirmPassword && <ErrorMessage>⚠️ {errors.confirmPassword.message}</ErrorMessage>}
+          </FormGroup>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <Button type="submit" disabled={isSaving}>{isSaving ? 'Saving...' : 'Change password'}</Button>
+          </div>
+        </form>
+      </details>
+    </Card>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Card, Button, Input, FormGroup, Label, ErrorMessage, LoadingSpinner, Alert } from '../../styles/GlobalStyles';
+import { validateInput } from '../../utils/validation';
+import { apiService } from '../../services/api';
+
+const schema = yup.object({
+  email: yup
+    .string()
+    .required('Email is required')
+    .test('email-format', 'Invalid email format', (value) => value ? validateInput(value, 'email') : false)
+});
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+interface ForgotPasswordFormProps {
+  onBackToLogin: () => void;
+}
+
+// First reset step: ask for the email; the server answers the same whether or not it is registered
+export const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onBackToLogin }) => {
+  const [sentMessage, setSentMessage] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { register, handleSubmit, formState: { errors } } = useForm<ForgotPasswordFormData>({
+    resolver: yupResolver(schema)
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const resp = await apiService.forgotPassword(data.email);
+      setSentMessage(resp.message || 'If an account exists for this email, a password reset link has been sent.');
+    } catch (err: any) {
+      setError(err?.message || 'Could not send the reset link. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <h2 style={{ textAlign: 'center', marginBottom: '1rem', color: '#4f46e5' }}>
+        Forgot your password?
+      </h2>
+
+      {sentMessage ? (
+        <Alert type="success">{sentMessage} The link works once and expires shortly.</Alert>
+      ) : (
+        <>
+          <p style={{ color: '#6c757d', textAlign: 'center', marginBottom: '1.5rem' }}>
+            Enter your account email and we will send you a link to choose a new password.
+          </p>
+
+          {error && <Alert type="error">{error}</Alert>}
+
+          <form onSubmit={handleSubmit(onSubmit)} noValidate>
+            <FormGroup>
+              <Label htmlFor="forgotEmail">Email Address</Label>
+              <Input id="forgotEmail" type="email" placeholder="Enter your email" hasError={!!errors.email} autoComplete="email" {...register('email')} />
+              {errors.email && <ErrorMessage>⚠️ {errors.email.message}</ErrorMessage>}
+            </FormGroup>
+
+            <Button type="submit" disabled={isLoading} style={{ width: '100%' }}>
+              {isLoading ? (<><LoadingSpinner /> Sending...</>) : 'Send reset link'}
+            </Button>
+          </form>
+        </>
+      )}
+
+      <div style={{ marginTop: '1rem', textAlign: 'center' }}>
+        <Button type="button" variant="secondary" onClick={onBackToLogin} style={{ width: '100%' }}>
+          Back to login
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -14,6 +14,7 @@ import {
 } from '../../styles/GlobalStyles';
 import { validateInput, rateLimiter } from '../../utils/validation';
 import { useSecurity } from '../SecurityProvider';
+import { isWebAuthnSupported } from '../../utils/webauthn';
 
 const schema = yup.object({
   email: yup
@@ -36,9 +37,12 @@ interface LoginFormData {
 interface LoginFormProps {
   onLogin: (credentials: { email: string; password: string }) => Promise<void>;
   onSwitchToRegister: () => void;
+  // Passwordless login; the button is hidden when omitted or unsupported by the browser
+  onPasskeyLogin?: () => Promise<void>;
+  onForgotPassword?: () => void;
 }
 
-export const LoginForm: React.FC<LoginFormProps> = ({ onLogin, onSwitchToRegister }) => {
+export const LoginForm: React.FC<LoginFormProps> = ({ onLogin, onSwitchToRegister, onPasskeyLogin, onForgotPassword }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [loginError, setLoginError] = useState<string>('');
   const [rateLimitError, setRateLimitError] = useState<string>('');
@@ -136,6 +140,17 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onLogin, onSwitchToRegiste
               ⚠️ {errors.password.message}
             </ErrorMessage>
           )}
+          {onForgotPassword && (
+            <div style={{ textAlign: 'right', marginTop: '0.5rem', fontSize: '14px' }}>
+              <button
+                type="button"
+                onClick={onForgotPassword}
+                style={{ background: 'transparent', border: 'none', color: '#4f46e5', cursor: 'pointer', padding: 0 }}
+              >
+                Forgot your password?
+              </button>
+            </div>
+          )}
         </FormGroup>
 
         <Button 
@@ -152,6 +167,25 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onLogin, onSwitchToRegiste
           )}
         </Button>
 
+        {onPasskeyLogin && isWebAuthnSupported() && (
+          <Button
+            type="button"
+            variant="secondary"
+            disabled={isLoading}
+            onClick={async () => {
+              setIsLoading(true);
+              try {
+                await onPasskeyLogin();
+              } finally {
+                setIsLoading(false);
+              }
+            }}
+            style={{ width: '100%', marginBottom: '1rem' }}
+          >
+            🔑 Sign in with a passkey
+          </Button>
+        )}
+
         <div style={{ textAlign: 'center' }}>
           <p style={{ color: '#6c757d', marginBottom: '1rem' }}>
             Don't have an account?
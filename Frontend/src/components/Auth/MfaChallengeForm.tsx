@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Card, Button, Input, FormGroup, Label, LoadingSpinner, Alert } from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+
+interface MfaChallengeFormProps {
+  // Challenge token from the mfa_required login response
+  mfaToken: string;
+  onVerified: (data: any) => void;
+  onCancel: () => void;
+}
+
+// Second login step: a code from the authenticator app, or one of the recovery codes
+export const MfaChallengeForm: React.FC<MfaChallengeFormProps> = ({ mfaToken, onVerified, onCancel }) => {
+  const [code, setCode] = useState<string>('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      const resp = await apiService.verifyMfa(mfaToken, useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+      onVerified(resp.data);
+    } catch (err: any) {
+      setError(err?.message || 'Verification failed.');
+      setCode('');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <h2 style={{ textAlign: 'center', marginBottom: '1rem', color: '#4f46e5' }}>
+        Two-factor authentication
+      </h2>
+      <p style={{ color: '#6c757d', textAlign: 'center', marginBottom: '1.5rem' }}>
+        {useRecoveryCode
+          ? 'Enter one of your recovery codes. Each code can be used once.'
+          : 'Enter the 6-digit code from your authenticator app.'}
+      </p>
+
+      {error && <Alert type="error">{error}</Alert>}
+
+      <form onSubmit={onSubmit} noValidate>
+        <FormGroup>
+          <Label htmlFor="mfaCode">{useRecoveryCode ? 'Recovery code' : 'Authentication code'}</Label>
+          <Input
+            id="mfaCode"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            maxLength={useRecoveryCode ? 11 : 6}
+            autoFocus
+          />
+        </FormGroup>
+
+        <Button type="submit" disabled={isLoading || !code.trim()} style={{ width: '100%' }}>
+          {isLoading ? (<><LoadingSpinner /> Verifying...</>) : 'Verify'}
+        </Button>
+      </form>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '1rem', fontSize: '14px' }}>
+        <button
+          type="button"
+          onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError(''); }}
+          style={{ background: 'transparent', border: 'none', color: '#4f46e5', cursor: 'pointer', padding: 0 }}
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{ background: 'transparent', border: 'none', color: '#6c757d', cursor: 'pointer', padding: 0 }}
+        >
+          Back to login
+        </button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Button, Input, FormGroup, Label, Alert } from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+
+interface MfaEnrollmentProps {
+  // Enrolment challenge token when enrolling from the login screen; omitted when signed in
+  mfaToken?: string;
+  // Called once the user has seen the recovery codes, with the enable response data
+  onEnabled: (data: any) => void;
+}
+
+// Authenticator app enrolment: show the key, confirm a code, then show the recovery codes once
+export const MfaEnrollment: React.FC<MfaEnrollmentProps> = ({ mfaToken, onEnabled }) => {
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState<string>('');
+  const [result, setResult] = useState<any>(null);
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const start = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const resp = await apiService.setupMfa(mfaToken);
+      setSetup(resp.data);
+    } catch (err: any) {
+      setError(err?.message || 'Could not start two-factor setup.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const confirm = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const resp = await apiService.enableMfa(code.trim(), mfaToken);
+      setResult(resp.data);
+    } catch (err: any) {
+      setError(err?.message || 'Could not enable two-factor authentication.');
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div>
+        <Alert type="warning">
+          Save these recovery codes somewhere safe. Each one can be used once if you lose your authenticator app;
+          they will not be shown again.
+        </Alert>
+        <ul style={{ fontFamily: 'monospace', columns: 2, listStyle: 'none', padding: 0, fontSize: '15px' }}>
+          {(result.recoveryCodes || []).map((c: string) => <li key={c}>{c}</li>)}
+        </ul>
+        <Button onClick={() => onEnabled(result)} style={{ width: '100%' }}>I have saved my recovery codes</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {error && <Alert type="error">{error}</Alert>}
+      {!setup ? (
+        <Button onClick={start} disabled={isLoading} style={{ width: '100%' }}>
+          {isLoading ? 'Starting...' : 'Set up authenticator app'}
+        </Button>
+      ) : (
+        <>
+          <p style={{ color: '#495057', fontSize: '14px' }}>
+            Add this key to your authenticator app (Google Authenticator, Microsoft Authenticator, 1Password, ...),
+            or <a href={setup.otpauthUri}>open it in the app</a> on this device.
+          </p>
+          <p style={{ fontFamily: 'monospace', fontSize: '16px', letterSpacing: '2px', wordBreak: 'break-all', background: '#f8f9fa', padding: '0.75rem', borderRadius: '6px' }}>
+            {setup.secret.match(/.{1,4}/g)?.join(' ')}
+          </p>
+          <FormGroup>
+            <Label htmlFor="mfaEnrollCode">Code from the app</Label>
+            <Input
+              id="mfaEnrollCode"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              maxLength={6}
+            />
+          </FormGroup>
+          <Button onClick={confirm} disabled={isLoading || code.trim().length !== 6} style={{ width: '100%' }}>
+            {isLoading ? 'Confirming...' : 'Confirm and enable'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Card } from '../../styles/GlobalStyles';
+import { MfaChallengeForm } from './MfaChallengeForm';
+import { MfaEnrollment } from './MfaEnrollment';
+
+export interface MfaLoginChallenge {
+  status: 'mfa_required' | 'mfa_enrollment_required';
+  mfaToken: string;
+}
+
+// A login response that still needs a second factor, or null when it carries the session
+export const mfaChallengeFrom = (data: any): MfaLoginChallenge | null => (
+  data?.status === 'mfa_required' || data?.status === 'mfa_enrollment_required'
+    ? { status: data.status, mfaToken: data.mfaToken }
+    : null
+);
+
+interface MfaLoginStepProps {
+  challenge: MfaLoginChallenge;
+  // Receives the session data (user, token, refreshToken)
+  onComplete: (data: any) => void;
+  onCancel: () => void;
+}
+
+// The step after the password: enter a code, or enrol first where MFA is mandatory
+export const MfaLoginStep: React.FC<MfaLoginStepProps> = ({ challenge, onComplete, onCancel }) => {
+  if (challenge.status === 'mfa_required') {
+    return <MfaChallengeForm mfaToken={challenge.mfaToken} onVerified={onComplete} onCancel={onCancel} />;
+  }
+
+  return (
+    <Card>
+      <h2 style={{ textAlign: 'center', marginBottom: '1rem', color: '#4f46e5' }}>
+        Set up two-factor authentication
+      </h2>
+      <p style={{ color: '#6c757d', marginBottom: '1.5rem' }}>
+        Your account requires a code from an authenticator app at every login. Set it up now to continue.
+      </p>
+      <MfaEnrollment mfaToken={challenge.mfaToken} onEnabled={onComplete} />
+      <div style={{ marginTop: '1rem', textAlign: 'center' }}>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{ background: 'transparent', border: 'none', color: '#6c757d', cursor: 'pointer', padding: 0, fontSize: '14px' }}
+        >
+          Back to login
+        </button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { Card, Button, Input, FormGroup, Label, Alert } from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+import { createPasskey, isWebAuthnSupported } from '../../utils/webauthn';
+
+interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// Passkeys for passwordless login and step-up; adding and removing one both need a step-up
+export const PasskeySettings: React.FC = () => {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [name, setName] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = async () => {
+    try {
+      const resp = await apiService.getPasskeys();
+      setPasskeys(resp.data?.credentials || []);
+    } catch (err: any) {
+      setError(err?.message || 'Could not load passkeys.');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setSuccess('');
+    setIsSaving(true);
+    try {
+      await action();
+      await load();
+    } catch (err: any) {
+      setError(err?.message || 'Request failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const add = () => run(async () => {
+    const options = await apiService.getPasskeyRegistrationOptions();
+    const credential = await createPasskey(options.data);
+    const resp = await apiService.registerPasskey(credential, name.trim() || 'Passkey');
+    setName('');
+    setSuccess(resp.message || 'Passkey registered.');
+  });
+
+  const remove = (passkey: Passkey) => run(async () => {
+    if (!window.confirm(`Remove the passkey "${passkey.name}"?`)) return;
+    const resp = await apiService.deletePasskey(passkey.id);
+    setSuccess(resp.message || 'Passkey removed.');
+  });
+
+  return (
+    <Card>
+      <details>
+        <summary style={{ cursor: 'pointer', color: '#495057', fontWeight: 600 }}>
+          Passkeys ({passkeys.length})
+        </summary>
+        <div style={{ marginTop: '1rem' }}>
+          {error && <Alert type="error">{error}</Alert>}
+          {success && <Alert type="success">{success}</Alert>}
+
+          {passkeys.length === 0 ? (
+            <p style={{ color: '#6c757d', fontSize: '14px' }}>
+              No passkeys yet. A passkey lets you sign in with your device's fingerprint, face or PIN instead of a password.
+            </p>
+          ) : (
+            <ul style={{ listStyle: 'none', padding: 0 }}>
+              {passkeys.map(p => (
+                <li key={p.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '0.5rem 0', borderBottom: '1px solid #e9ecef' }}>
+                  <span>
+                    <strong>{p.name}</strong>
+                    <span style={{ color: '#6c757d', fontSize: '13px', marginLeft: '0.5rem' }}>
+                      added {new Date(p.createdAt).toLocaleDateString()}
+                      {p.lastUsedAt && `, last used ${new Date(p.lastUsedAt).toLocaleString()}`}
+                    </span>
+                  </span>
+                  <Button variant="danger" onClick={() => remove(p)} disabled={isSaving}>Remove</Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isWebAuthnSupported() ? (
+            <>
+              <FormGroup>
+                <Label htmlFor="passkeyName">Name for a new passkey</Label>
+                <Input id="passkeyName" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Work laptop" maxLength={100} />
+              </FormGroup>
+              <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <Button onClick={add} disabled={isSaving}>Add a passkey</Button>
+              </div>
+            </>
+          ) : (
+            <Alert type="info">This browser does not support passkeys.</Alert>
+          )}
+        </div>
+      </details>
+    </Card>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Card, Button, Input, FormGroup, Label, ErrorMessage, LoadingSpinner, Alert } from '../../styles/GlobalStyles';
+import { validateInput } from '../../utils/validation';
+import { apiService } from '../../services/api';
+import { PasswordStrengthIndicator } from '../common/PasswordStrengthIndicator';
+
+const schema = yup.object({
+  newPassword: yup
+    .string()
+    .required('New password is required')
+    .test('password-format', 'Password must be at least 8 characters with uppercase, lowercase, number and special character', (value) =>
+      value ? validateInput(value, 'password') : false
+    ),
+  confirmPassword: yup
+    .string()
+    .required('Please confirm your new password')
+    .oneOf([yup.ref('newPassword')], 'Passwords must match')
+});
+
+interface ResetPasswordFormData {
+  newPassword: string;
+  confirmPassword: string;
+}
+
+interface ResetPasswordFormProps {
+  // Token from the emailed link
+  token: string;
+  onReset: (message: string) => void;
+  onRequestNewLink: () => void;
+}
+
+// Second reset step, opened from the emailed link
+export const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ token, onReset, onRequestNewLink }) => {
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<ResetPasswordFormData>({
+    resolver: yupResolver(schema),
+    mode: 'onBlur'
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const resp = await apiService.resetPassword(token, data.newPassword);
+      onReset(resp.message || 'Password reset. Please log in with your new password.');
+    } catch (err: any) {
+      setError(err?.data?.errors?.[0]?.message || err?.message || 'Failed to reset password');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <h2 style={{ textAlign: 'center', marginBottom: '1rem', color: '#4f46e5' }}>
+        Choose a new password
+      </h2>
+      <p style={{ color: '#6c757d', textAlign: 'center', marginBottom: '1.5rem' }}>
+        You will be signed out everywhere and can then log in with the new password.
+      </p>
+
+      {error && <Alert type="error">{error}</Alert>}
+
+      <form onSubmit={handleSubmit(onSubmit)} noValidate>
+        <FormGroup>
+          <Label htmlFor="resetNewPassword">New password</Label>
+          <Input id="resetNewPassword" type="password" hasError={!!errors.newPassword} autoComplete="new-password" {...register('newPassword')} />
+          <PasswordStrengthIndicator password={watch('newPassword') || ''} />
+          {errors.newPassword && <ErrorMessage>⚠️ {errors.newPassword.message}</ErrorMessage>}
+        </FormGroup>
+
+        <FormGroup>
+          <Label htmlFor="resetConfirmPassword">Confirm new password</Label>
+          <Input id="resetConfirmPassword" type="password" hasError={!!errors.confirmPassword} autoComplete="new-password" {...register('confirmPassword')} />
+          {errors.confirmPassword && <ErrorMessage>⚠️ {errors.confirmPassword.message}</ErrorMessage>}
+        </FormGroup>
+
+        <Button type="submit" disabled={isLoading} style={{ width: '100%' }}>
+          {isLoading ? (<><LoadingSpinner /> Saving...</>) : 'Reset password'}
+        </Button>
+      </form>
+
+      <div style={{ marginTop: '1rem', textAlign: 'center', fontSize: '14px' }}>
+        <button
+          type="button"
+          onClick={onRequestNewLink}
+          style={{ background: 'transparent', border: 'none', color: '#4f46e5', cursor: 'pointer', padding: 0 }}
+        >
+          Link expired? Request a new one
+        </button>
+      </div>
+    </Card>
+  );
+};
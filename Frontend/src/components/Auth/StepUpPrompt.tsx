@@ -0,0 +1,116 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, Button, Input, FormGroup, Label, LoadingSpinner, Alert } from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+import { getPasskeyAssertion, isWebAuthnSupported } from '../../utils/webauthn';
+
+type StepUpMethod = 'webauthn' | 'totp' | 'password';
+
+interface StepUpPromptProps {
+  // The step-up token on success, null when cancelled
+  onDone: (result: { stepUpToken: string; expiresAt: string } | null) => void;
+}
+
+// Shown when a sensitive action needs the user to prove who they are again
+export const StepUpPrompt: React.FC<StepUpPromptProps> = ({ onDone }) => {
+  const [methods, setMethods] = useState<StepUpMethod[]>([]);
+  const [passkeyOptions, setPasskeyOptions] = useState<any>(null);
+  const [secret, setSecret] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Passkey challenges are single-use, so options are fetched again after a failed attempt
+  const loadOptions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const resp = await apiService.getStepUpOptions();
+      setMethods(resp.data?.methods || []);
+      setPasskeyOptions(resp.data?.webauthn || null);
+    } catch (err: any) {
+      setError(err?.message || 'Could not start confirmation.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  const confirm = async (proof: Parameters<typeof apiService.confirmStepUp>[0]) => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const resp = await apiService.confirmStepUp(proof);
+      onDone(resp.data);
+    } catch (err: any) {
+      setError(err?.message || 'Confirmation failed.');
+      setSecret('');
+      await loadOptions();
+    }
+  };
+
+  const confirmWithPasskey = async () => {
+    try {
+      const webauthn = await getPasskeyAssertion(passkeyOptions);
+      await confirm({ webauthn });
+    } catch (err: any) {
+      setError(err?.message || 'Passkey confirmation was cancelled.');
+      await loadOptions();
+    }
+  };
+
+  const submitSecret = (e: React.FormEvent) => {
+    e.preventDefault();
+    confirm(methods.includes('totp') ? { code: secret.trim() } : { password: secret });
+  };
+
+  const canUsePasskey = methods.includes('webauthn') && !!passkeyOptions && isWebAuthnSupported();
+  const secretMethod = methods.includes('totp') ? 'totp' : methods.includes('password') ? 'password' : null;
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.35)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}>
+      <Card style={{ width: 420, maxWidth: '95vw', marginBottom: 0 }}>
+        <h3 style={{ marginTop: 0, color: '#4f46e5' }}>Confirm it's you</h3>
+        <p style={{ color: '#6c757d', fontSize: '14px' }}>
+          This action needs a fresh confirmation. It stays valid for a few minutes.
+        </p>
+
+        {error && <Alert type="error">{error}</Alert>}
+        {!isLoading && methods.length > 0 && !canUsePasskey && !secretMethod && (
+          <Alert type="warning">Confirm with your passkey from a browser that supports passkeys.</Alert>
+        )}
+
+        {canUsePasskey && (
+          <Button onClick={confirmWithPasskey} disabled={isLoading} style={{ width: '100%', marginBottom: '1rem' }}>
+            {isLoading ? (<><LoadingSpinner /> Waiting...</>) : 'Use a passkey'}
+          </Button>
+        )}
+
+        {secretMethod && (
+          <form onSubmit={submitSecret} noValidate>
+            <FormGroup>
+              <Label htmlFor="stepUpSecret">{secretMethod === 'totp' ? 'Code from your authenticator app' : 'Password'}</Label>
+              <Input
+                id="stepUpSecret"
+                type={secretMethod === 'totp' ? 'text' : 'password'}
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                inputMode={secretMethod === 'totp' ? 'numeric' : 'text'}
+                autoComplete={secretMethod === 'totp' ? 'one-time-code' : 'current-password'}
+                maxLength={secretMethod === 'totp' ? 6 : undefined}
+                autoFocus={!canUsePasskey}
+              />
+            </FormGroup>
+            <Button type="submit" disabled={isLoading || !secret.trim()} style={{ width: '100%' }}>
+              Confirm
+            </Button>
+          </form>
+        )}
+
+        <div style={{ textAlign: 'right', marginTop: '1rem' }}>
+          <Button variant="secondary" onClick={() => onDone(null)}>Cancel</Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
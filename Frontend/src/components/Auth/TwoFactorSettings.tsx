@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Card, Button, Input, FormGroup, Label, Alert } from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+import { SecureStorage } from '../../utils/security';
+import { MfaEnrollment } from './MfaEnrollment';
+
+interface TwoFactorSettingsProps {
+  enabled: boolean;
+  // False where MFA is mandatory (employees)
+  canDisable: boolean;
+}
+
+// Keep the cached user in step so a reload shows the current state
+const rememberMfaEnabled = (mfaEnabled: boolean) => {
+  const saved = SecureStorage.getItem('currentUser');
+  if (saved) SecureStorage.setItem('currentUser', JSON.stringify({ ...JSON.parse(saved), mfaEnabled }));
+};
+
+export const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ enabled: initiallyEnabled, canDisable }) => {
+  const [enabled, setEnabled] = useState(initiallyEnabled);
+  const [code, setCode] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setSuccess('');
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err?.message || 'Request failed');
+    } finally {
+      setCode('');
+      setPassword('');
+      setIsSaving(false);
+    }
+  };
+
+  const regenerate = () => run(async () => {
+    const resp = await apiService.regenerateRecoveryCodes(code.trim());
+    setRecoveryCodes(resp.data?.recoveryCodes || []);
+    setSuccess(resp.message || 'New recovery codes generated.');
+  });
+
+  const disable = () => run(async () => {
+    if (!window.confirm('Turn off two-factor authentication?')) return;
+    const resp = await apiService.disableMfa(password, code.trim());
+    setEnabled(false);
+    setRecoveryCodes([]);
+    rememberMfaEnabled(false);
+    setSuccess(resp.message || 'Two-factor authentication disabled.');
+  });
+
+  return (
+    <Card>
+      <details>
+        <summary style={{ cursor: 'pointer', color: '#495057', fontWeight: 600 }}>
+          Two-factor authentication: {enabled ? 'on' : 'off'}
+        </summary>
+        <div style={{ marginTop: '1rem' }}>
+          {error && <Alert type="error">{error}</Alert>}
+          {success && <Alert type="success">{success}</Alert>}
+
+          {!enabled ? (
+            <MfaEnrollment onEnabled={() => {
+              setEnabled(true);
+              rememberMfaEnabled(true);
+              setSuccess('Two-factor authentication enabled.');
+            }} />
+          ) : (
+            <>
+              {recoveryCodes.length > 0 && (
+                <ul style={{ fontFamily: 'monospace', columns: 2, listStyle: 'none', padding: 0 }}>
+                  {recoveryCodes.map(c => <li key={c}>{c}</li>)}
+                </ul>
+              )}
+              <FormGroup>
+                <Label htmlFor="mfaSettingsCode">Code from your authenticator app</Label>
+                <Input id="mfaSettingsCode" value={code} onChange={(e) => setCode(e.target.value)} inputMode="numeric" autoComplete="one-time-code" maxLength={6} />
+              </FormGroup>
+              {canDisable && (
+                <FormGroup>
+                  <Label htmlFor="mfaSettingsPassword">Password (to turn off)</Label>
+                  <Input id="mfaSettingsPassword" type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="current-password" />
+                </FormGroup>
+              )}
+              <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                <Button variant="secondary" onClick={regenerate} disabled={isSaving || code.trim().length !== 6}>New recovery codes</Button>
+                {canDisable && (
+                  <Button variant="danger" onClick={disable} disabled={isSaving || code.trim().length !== 6 || !password}>Turn off</Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </details>
+    </Card>
+  );
+};
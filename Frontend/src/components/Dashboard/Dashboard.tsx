@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Card, 
   Button, 
@@ -7,6 +7,10 @@ import {
   LoadingSpinner
 } from '../../styles/GlobalStyles';
 import { PaymentForm } from '../Payment/PaymentForm';
+import { BulkPaymentUpload } from '../Payment/BulkPaymentUpload';
+import { ChangePasswordForm } from '../Auth/ChangePasswordForm';
+import { TwoFactorSettings } from '../Auth/TwoFactorSettings';
+import { PasskeySettings } from '../Auth/PasskeySettings';
 import { SecureStorage } from '../../utils/security';
 import { apiService } from '../../services/api';
 
@@ -15,6 +19,7 @@ interface User {
   lastName: string;
   email: string;
   accountNumber: string;
+  mfaEnabled?: boolean;
 }
 
 interface PaymentTransaction {
@@ -23,21 +28,68 @@ interface PaymentTransaction {
   amount: string;
   currency: string;
   reference: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'on_hold' | 'processing' | 'awaiting_second_approval' | 'completed' | 'failed' | 'cancelled';
   date: string;
   failureReason?: string;
+  fees?: { currency: string; deductedFromAmount: boolean; lines: { ruleId: string; description: string; amount: number }[] } | null;
+}
+
+const toPaymentTransaction = (p: any): PaymentTransaction => ({
+  id: p.transactionId || p._id,
+  recipientName: p.recipientName,
+  amount: String(p.amount),
+  currency: p.currency,
+  reference: p.reference,
+  status: p.status,
+  date: p.createdAt,
+  failureReason: p.failureReason || undefined,
+  fees: p.fees || null,
+});
+
+interface ScheduledPayment {
+  _id: string;
+  template: {
+    recipientName: string;
+    amount: number;
+    currency: string;
+    reference: string;
+  };
+  recurrence: {
+    frequency: 'once' | 'weekly' | 'monthly' | 'end_of_month';
+    endDate?: string | null;
+    count?: number | null;
+  };
+  status: 'active' | 'paused' | 'completed' | 'cancelled';
+  nextRunAt?: string | null;
+  occurrences: Array<{ index: number; outcome: 'created' | 'skipped' | 'failed' }>;
+}
+
+const frequencyLabels: Record<ScheduledPayment['recurrence']['frequency'], string> = {
+  once: 'One-off',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  end_of_month: 'End of month',
+};
+
+interface AccountBalance {
+  currency: string;
+  balance: number;
+  heldAmount: number;
 }
 
 interface DashboardProps {
   user: User;
-  onLogout: () => void;
+  onLogout: (notice?: string) => void;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'payment' | 'history'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'payment' | 'history' | 'scheduled'>('overview');
   const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string>('');
+  const [balances, setBalances] = useState<AccountBalance[]>([]);
+  const [schedules, setSchedules] = useState<ScheduledPayment[]>([]);
+  const [scheduleError, setScheduleError] = useState<string>('');
 
   // Debug: Log user data on component mount
   console.log('Dashboard loaded for user:', user);
@@ -52,16 +104,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
       try {
         const resp = await apiService.getPayments();
         const payments = (resp.data || resp) as any[];
-        const mapped: PaymentTransaction[] = payments.map(p => ({
-          id: p.transactionId || p._id,
-          recipientName: p.recipientName,
-          amount: String(p.amount),
-          currency: p.currency,
-          reference: p.reference,
-          status: p.status,
-          date: p.createdAt,
-          failureReason: p.failureReason || undefined,
-        }));
+        const mapped: PaymentTransaction[] = payments.map(toPaymentTransaction);
         setTransactions(mapped);
       } catch (error) {
         console.error('Error fetching payments:', error);
@@ -72,7 +115,55 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
     loadPayments();
   }, []);
 
-  const handlePaymentSubmit = async (paymentData: any) => {
+  const loadBalances = useCallback(async () => {
+    try {
+      const resp = await apiService.getAccountBalance();
+      setBalances(resp.data?.balances || []);
+    } catch (error) {
+      console.error('Error fetching balances:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  // Reload payments and balances after a bulk upload
+  const refreshPayments = useCallback(async () => {
+    try {
+      const resp = await apiService.getPayments();
+      const payments = (resp.data || resp) as any[];
+      setTransactions(payments.map(toPaymentTransaction));
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+    }
+    loadBalances();
+  }, [loadBalances]);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const resp = await apiService.getScheduledPayments();
+      setSchedules(resp.data?.schedules || []);
+    } catch (error) {
+      console.error('Error fetching scheduled payments:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const handleScheduleAction = async (id: string, action: 'pause' | 'resume' | 'skip' | 'cancel') => {
+    setScheduleError('');
+    try {
+      await apiService.scheduledPaymentAction(id, action);
+      await loadSchedules();
+    } catch (error: any) {
+      setScheduleError(error?.message || 'Could not update the scheduled payment.');
+    }
+  };
+
+  const handlePaymentSubmit = async (paymentData: any, idempotencyKey: string) => {
     setIsLoading(true);
     console.log('Submitting payment:', paymentData);
     try {
@@ -93,23 +184,37 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
         currency: String(paymentData.currency).toUpperCase(),
         reference: paymentData.reference,
         purpose: paymentData.purpose,
+        ...(paymentData.beneficiaryId && { beneficiaryId: paymentData.beneficiaryId }),
+        ...(paymentData.confirmDuplicate && { confirmDuplicate: true }),
+        ...(paymentData.fxQuoteId && { fxQuoteId: paymentData.fxQuoteId }),
+        ...(paymentData.chargeBearer && { chargeBearer: paymentData.chargeBearer }),
+        ...(paymentData.executionDate && { executionDate: paymentData.executionDate }),
+        ...(paymentData.frequency && {
+          recurrence: {
+            frequency: paymentData.frequency,
+            ...(paymentData.endDate && { endDate: paymentData.endDate }),
+            ...(paymentData.occurrences && { count: Number(paymentData.occurrences) }),
+          },
+        }),
       };
 
-      await apiService.createPayment(payload);
+      const created = await apiService.createPayment(payload, idempotencyKey);
+      if (created?.data?.schedule) {
+        await loadSchedules();
+        setSuccessMessage('Payment scheduled successfully!');
+        setActiveTab('scheduled');
+        setTimeout(() => setSuccessMessage(''), 5000);
+        return;
+      }
+      const createdTransactionId = created?.data?.payment?.transactionId;
       const resp = await apiService.getPayments();
       const payments = (resp.data || resp) as any[];
-      const mapped: PaymentTransaction[] = payments.map(p => ({
-        id: p.transactionId || p._id,
-        recipientName: p.recipientName,
-        amount: String(p.amount),
-        currency: p.currency,
-        reference: p.reference,
-        status: p.status,
-        date: p.createdAt,
-        failureReason: p.failureReason || undefined,
-      }));
+      const mapped: PaymentTransaction[] = payments.map(toPaymentTransaction);
       setTransactions(mapped);
-      setSuccessMessage('Payment submitted successfully!');
+      loadBalances();
+      setSuccessMessage(createdTransactionId
+        ? `Payment submitted successfully! Transaction ID: ${createdTransactionId}`
+        : 'Payment submitted successfully!');
       setActiveTab('history');
       setTimeout(() => setSuccessMessage(''), 5000);
   } catch (error) {
@@ -122,9 +227,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
   };
 
   const handleLogout = () => {
+    // Revoke the refresh token server-side; the request reads the tokens before they are cleared
+    apiService.logout().catch(() => undefined);
+
     // Clear all session data
     SecureStorage.removeItem('currentUser');
     SecureStorage.removeItem('authToken');
+    SecureStorage.removeItem('refreshToken');
     SecureStorage.removeItem('transactions');
     
     // Debug: Log logout event
@@ -132,18 +241,35 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
     
     onLogout();
   };
+  // The server revoked every token on password change; only local state is left to clear
+  const handlePasswordChanged = (message: string) => {
+    SecureStorage.removeItem('currentUser');
+    SecureStorage.removeItem('authToken');
+    SecureStorage.removeItem('refreshToken');
+    SecureStorage.removeItem('transactions');
+    onLogout(message);
+  };
+
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return '#28a745';
       case 'pending': return '#ffc107';
-      case 'processing': return '#17a2b8';
+      case 'on_hold': return '#fd7e14';
+      case 'processing':
+      case 'awaiting_second_approval': return '#17a2b8';
       case 'failed': return '#dc3545';
       case 'cancelled': return '#6c757d';
       default: return '#6c757d';
     }
   };
 
+  // Held payments are shown neutrally; the customer is not told why a payment is being reviewed.
+  // Internal approval steps read as processing.
+  const getStatusLabel = (status: string) => (
+    status === 'on_hold' ? 'UNDER REVIEW' : status === 'awaiting_second_approval' ? 'PROCESSING' : status.toUpperCase()
+  );
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -201,6 +327,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
           >
             Transaction History
           </Button>
+          <Button
+            variant={activeTab === 'scheduled' ? 'primary' : 'secondary'}
+            onClick={() => setActiveTab('scheduled')}
+          >
+            Scheduled
+          </Button>
         </div>
       </Card>
 
@@ -216,6 +348,25 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
               <p><strong>Account Type:</strong> International Transfer Account</p>
               <p><strong>Status:</strong> <span style={{ color: '#28a745' }}>Active</span></p>
             </div>
+            <h4 style={{ color: '#495057', margin: '1rem 0 0.5rem' }}>Balances</h4>
+            {balances.length === 0 ? (
+              <p style={{ color: '#6c757d' }}>No funded accounts yet.</p>
+            ) : (
+              balances.map(b => (
+                <div
+                  key={b.currency}
+                  style={{ display: 'flex', justifyContent: 'space-between', padding: '0.5rem 0', borderBottom: '1px solid #e9ecef' }}
+                >
+                  <strong>{b.currency}</strong>
+                  <div style={{ textAlign: 'right' }}>
+                    <div>Available: {(b.balance - b.heldAmount).toFixed(2)}</div>
+                    <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                      Balance {b.balance.toFixed(2)} · On hold {b.heldAmount.toFixed(2)}
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
           </Card>
 
           <Card>
@@ -255,7 +406,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
                         color: getStatusColor(transaction.status),
                         fontWeight: '600'
                       }}>
-                        {transaction.status.toUpperCase()}
+                        {getStatusLabel(transaction.status)}
                       </p>
                     </div>
                   </div>
@@ -276,11 +427,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
         </Grid>
       )}
 
+      {activeTab === 'overview' && (
+        <>
+          <TwoFactorSettings enabled={!!user.mfaEnabled} canDisable />
+          <PasskeySettings />
+          <ChangePasswordForm onChanged={handlePasswordChanged} />
+        </>
+      )}
+
       {activeTab === 'payment' && (
-        <PaymentForm 
-          onSubmitPayment={handlePaymentSubmit}
-          userEmail={user.email}
-        />
+        <>
+          <PaymentForm 
+            onSubmitPayment={handlePaymentSubmit}
+            userEmail={user.email}
+          />
+          <BulkPaymentUpload onBatchCreated={refreshPayments} />
+        </>
       )}
 
       {activeTab === 'history' && (
@@ -312,38 +474,52 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
                 </thead>
                 <tbody>
                   {transactions.map(transaction => (
-                    <tr key={transaction.id} style={{ borderBottom: '1px solid #e9ecef' }}>
-                      <td style={{ padding: '1rem', color: '#6c757d' }}>
-                        {formatDate(transaction.date)}
-                      </td>
-                      <td style={{ padding: '1rem', fontWeight: '600' }}>
-                        {transaction.recipientName}
-                      </td>
-                      <td style={{ padding: '1rem', color: '#6c757d' }}>
-                        {transaction.reference}
-                      </td>
-                      <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
-                        {transaction.amount} {transaction.currency}
-                      </td>
-                      <td style={{ padding: '1rem', textAlign: 'center' }}>
-                        <span style={{ 
-                          padding: '0.25rem 0.5rem',
-                          borderRadius: '4px',
-                          fontSize: '12px',
-                          fontWeight: '600',
-                          color: 'white',
-                          backgroundColor: getStatusColor(transaction.status)
-                        }}>
-                          {transaction.status.toUpperCase()}
-                        </span>
-                      </td>
-                      <td style={{ padding: '1rem', textAlign: 'center', fontFamily: 'monospace', fontSize: '12px', color: '#6c757d' }}>
-                        {transaction.id}
-                      </td>
-                      <td style={{ padding: '1rem', color: '#6c757d' }}>
-                        {(transaction as any).reason || (transaction as any).failureReason || '-'}
-                      </td>
-                    </tr>
+                    <React.Fragment key={transaction.id}>
+                      <tr style={{ borderBottom: '1px solid #e9ecef' }}>
+                        <td style={{ padding: '1rem', color: '#6c757d' }}>
+                          {formatDate(transaction.date)}
+                        </td>
+                        <td style={{ padding: '1rem', fontWeight: '600' }}>
+                          {transaction.recipientName}
+                        </td>
+                        <td style={{ padding: '1rem', color: '#6c757d' }}>
+                          {transaction.reference}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
+                          {transaction.amount} {transaction.currency}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{ 
+                            padding: '0.25rem 0.5rem',
+                            borderRadius: '4px',
+                            fontSize: '12px',
+                            fontWeight: '600',
+                            color: 'white',
+                            backgroundColor: getStatusColor(transaction.status)
+                          }}>
+                            {getStatusLabel(transaction.status)}
+                          </span>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center', fontFamily: 'monospace', fontSize: '12px', color: '#6c757d' }}>
+                          {transaction.id}
+                        </td>
+                        <td style={{ padding: '1rem', color: '#6c757d' }}>
+                          {(transaction as any).reason || (transaction as any).failureReason || '-'}
+                        </td>
+                      </tr>
+                      {(transaction.fees?.lines || []).map(fee => (
+                        <tr key={`${transaction.id}-${fee.ruleId}`} style={{ borderBottom: '1px solid #e9ecef', fontSize: '14px' }}>
+                          <td style={{ padding: '0.5rem 1rem' }}></td>
+                          <td colSpan={2} style={{ padding: '0.5rem 1rem', color: '#6c757d' }}>
+                            {fee.description}{transaction.fees!.deductedFromAmount && ' (deducted from amount)'}
+                          </td>
+                          <td style={{ padding: '0.5rem 1rem', textAlign: 'right', color: '#6c757d' }}>
+                            {fee.amount} {transaction.fees!.currency}
+                          </td>
+                          <td colSpan={3}></td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
                   ))}
                 </tbody>
               </table>
@@ -352,6 +528,94 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
         </Card>
       )}
 
+      {activeTab === 'scheduled' && (
+        <Card>
+          <h3 style={{ color: '#495057', marginBottom: '1.5rem' }}>Scheduled Payments</h3>
+
+          {scheduleError && (
+            <Alert type="error">
+              {scheduleError}
+            </Alert>
+          )}
+
+          {schedules.length === 0 ? (
+            <div style={{ textAlign: 'center', padding: '3rem' }}>
+              <p style={{ color: '#6c757d', fontSize: '18px', marginBottom: '1rem' }}>
+                No scheduled payments
+              </p>
+              <Button onClick={() => setActiveTab('payment')}>
+                Schedule a Payment
+              </Button>
+            </div>
+          ) : (
+            <div style={{ overflowX: 'auto' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ borderBottom: '2px solid #e9ecef' }}>
+                    <th style={{ padding: '1rem', textAlign: 'left', color: '#495057' }}>Recipient</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', color: '#495057' }}>Amount</th>
+                    <th style={{ padding: '1rem', textAlign: 'left', color: '#495057' }}>Repeats</th>
+                    <th style={{ padding: '1rem', textAlign: 'left', color: '#495057' }}>Next Payment</th>
+                    <th style={{ padding: '1rem', textAlign: 'center', color: '#495057' }}>Status</th>
+                    <th style={{ padding: '1rem', textAlign: 'right', color: '#495057' }}>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedules.map(schedule => {
+                    const open = schedule.status === 'active' || schedule.status === 'paused';
+                    return (
+                      <tr key={schedule._id} style={{ borderBottom: '1px solid #e9ecef' }}>
+                        <td style={{ padding: '1rem' }}>
+                          <div style={{ fontWeight: '600' }}>{schedule.template.recipientName}</div>
+                          <div style={{ fontSize: '12px', color: '#6c757d' }}>{schedule.template.reference}</div>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right', fontWeight: '600' }}>
+                          {schedule.template.amount} {schedule.template.currency}
+                        </td>
+                        <td style={{ padding: '1rem', color: '#6c757d' }}>
+                          {frequencyLabels[schedule.recurrence.frequency]}
+                          {schedule.recurrence.count && ` · ${schedule.occurrences.length}/${schedule.recurrence.count}`}
+                          {schedule.recurrence.endDate && ` · until ${schedule.recurrence.endDate.slice(0, 10)}`}
+                        </td>
+                        <td style={{ padding: '1rem', color: '#6c757d' }}>
+                          {schedule.nextRunAt ? schedule.nextRunAt.slice(0, 10) : '-'}
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'center' }}>
+                          <span style={{
+                            padding: '0.25rem 0.5rem',
+                            borderRadius: '4px',
+                            fontSize: '12px',
+                            fontWeight: '600',
+                            color: 'white',
+                            backgroundColor: schedule.status === 'active' ? '#17a2b8' : schedule.status === 'paused' ? '#ffc107' : '#6c757d'
+                          }}>
+                            {schedule.status.toUpperCase()}
+                          </span>
+                        </td>
+                        <td style={{ padding: '1rem', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                          {schedule.status === 'active' && (
+                            <Button variant="secondary" onClick={() => handleScheduleAction(schedule._id, 'pause')}>Pause</Button>
+                          )}
+                          {schedule.status === 'paused' && (
+                            <Button variant="secondary" onClick={() => handleScheduleAction(schedule._id, 'resume')}>Resume</Button>
+                          )}
+                          {open && schedule.nextRunAt && (
+                            <Button variant="secondary" onClick={() => handleScheduleAction(schedule._id, 'skip')} style={{ marginLeft: '0.5rem' }}>Skip next</Button>
+                          )}
+                          {open && (
+                            <Button variant="danger" onClick={() => handleScheduleAction(schedule._id, 'cancel')} style={{ marginLeft: '0.5rem' }}>Cancel</Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      )}
+
       {/* Security Notice */}
       <Card>
         <div style={{ background: '#e8f5e8', padding: '1rem', borderRadius: '8px', border: '1px solid #c3e6c3' }}>
@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Card,
+  Button,
+  Input,
+  FormGroup,
+  Label,
+  Alert
+} from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+
+interface AmlRuleSet {
+  version: number;
+  escalateScore: number;
+  holdScore: number;
+  rules: Array<Record<string, any>>;
+  changeNote: string;
+  createdByName?: string | null;
+  createdAt: string;
+}
+
+// Rules are data: editors change the JSON and publish it as a new version
+export const AmlRulesPanel: React.FC = () => {
+  const [ruleSet, setRuleSet] = useState<AmlRuleSet | null>(null);
+  const [draft, setDraft] = useState<string>('');
+  const [changeNote, setChangeNote] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [success, setSuccess] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const resp = await apiService.getAmlRules();
+      const current: AmlRuleSet = resp.data.ruleSet;
+      setRuleSet(current);
+      setDraft(JSON.stringify({ escalateScore: current.escalateScore, holdScore: current.holdScore, rules: current.rules }, null, 2));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load AML rules');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const publish = async () => {
+    if (!ruleSet || isSaving) return;
+    setError('');
+    setErrors([]);
+    setSuccess('');
+
+    let definition: any;
+    try {
+      definition = JSON.parse(draft);
+    } catch {
+      setError('Rules must be valid JSON.');
+      return;
+    }
+    if (changeNote.trim().length < 5) {
+      setError('Describe the change in at least 5 characters.');
+      return;
+    }
+    if (!window.confirm(`Publish these rules as version ${ruleSet.version + 1}? Step-up confirmation required.`)) return;
+
+    setIsSaving(true);
+    try {
+      const resp = await apiService.updateAmlRules({ ...definition, changeNote: changeNote.trim(), baseVersion: ruleSet.version });
+      setSuccess(resp.message || 'AML rules updated.');
+      setChangeNote('');
+      await loadRules();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to publish AML rules');
+      setErrors(Array.isArray(err?.data?.errors) ? err.data.errors : []);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <details>
+        <summary style={{ cursor: 'pointer', color: '#495057', fontWeight: 600 }}>
+          AML rules {ruleSet && `— version ${ruleSet.version}`}
+        </summary>
+        {ruleSet && (
+          <p style={{ color: '#6c757d', fontSize: '12px' }}>
+            Published {new Date(ruleSet.createdAt).toLocaleString()} by {ruleSet.createdByName || 'System'}: {ruleSet.changeNote}
+          </p>
+        )}
+        {error && <Alert type="error">{error}</Alert>}
+        {errors.length > 0 && (
+          <ul style={{ color: '#dc3545', fontSize: '12px' }}>
+            {errors.map((e, i) => <li key={i}>{e}</li>)}
+          </ul>
+        )}
+        {success && <Alert type="success">{success}</Alert>}
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={16}
+          spellCheck={false}
+          style={{ width: '100%', padding: '0.5rem', border: '1px solid #ced4da', borderRadius: '6px', fontFamily: 'monospace', fontSize: '12px' }}
+        />
+        <FormGroup>
+          <Label>Change note</Label>
+          <Input value={changeNote} onChange={(e) => setChangeNote(e.target.value)} placeholder="Why are the rules changing?" />
+        </FormGroup>
+        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+          <Button variant="secondary" onClick={loadRules} disabled={isSaving}>Discard changes</Button>
+          <Button onClick={publish} disabled={isSaving}>{isSaving ? 'Publishing...' : 'Publish new version'}</Button>
+        </div>
+      </details>
+    </Card>
+  );
+};
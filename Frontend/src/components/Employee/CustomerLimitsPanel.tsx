@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  Button,
+  Input,
+  FormGroup,
+  Label,
+  Alert,
+  Grid
+} from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+
+type Caps = { perTransaction: number | null; daily: number | null; monthly: number | null };
+
+interface CustomerLimits {
+  tier: string;
+  baseCurrency: string;
+  limits: Caps;
+  usage: { daily: number; monthly: number };
+  remaining: Caps;
+  override: (Caps & { expiresAt: string | null; reason: string }) | null;
+  history: Array<Caps & { action: 'set' | 'removed'; expiresAt: string | null; reason: string; actorName: string | null; timestamp: string }>;
+}
+
+const PERIODS: Array<keyof Caps> = ['perTransaction', 'daily', 'monthly'];
+
+const formatCap = (value: number | null): string => (value === null ? 'none' : value.toFixed(2));
+
+// Look up a customer's transfer limits and override the tier caps for them
+export const CustomerLimitsPanel: React.FC = () => {
+  const [userId, setUserId] = useState<string>('');
+  const [customer, setCustomer] = useState<CustomerLimits | null>(null);
+  const [draft, setDraft] = useState<Record<keyof Caps, string>>({ perTransaction: '', daily: '', monthly: '' });
+  const [expiresAt, setExpiresAt] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = async (id: string = userId.trim()) => {
+    if (!id) return;
+    setError('');
+    try {
+      const resp = await apiService.getCustomerLimits(id);
+      const data: CustomerLimits = resp.data;
+      setCustomer(data);
+      setDraft({
+        perTransaction: data.override?.perTransaction != null ? String(data.override.perTransaction) : '',
+        daily: data.override?.daily != null ? String(data.override.daily) : '',
+        monthly: data.override?.monthly != null ? String(data.override.monthly) : '',
+      });
+      setExpiresAt(data.override?.expiresAt ? data.override.expiresAt.slice(0, 10) : '');
+    } catch (err) {
+      setCustomer(null);
+      setError(err instanceof Error ? err.message : 'Failed to load customer limits');
+    }
+  };
+
+  const run = async (action: () => Promise<any>) => {
+    if (isSaving) return;
+    setError('');
+    setSuccess('');
+    if (reason.trim().length < 10) {
+      setError('Give a reason of at least 10 characters.');
+      return;
+    }
+    if (!window.confirm('Change this customer\'s transfer limits? Step-up confirmation required.')) return;
+
+    setIsSaving(true);
+    try {
+      const resp = await action();
+      setSuccess(resp.message || 'Limits updated.');
+      setReason('');
+      await load();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to update limits');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveOverride = () => run(() => apiService.setCustomerLimitOverride(userId.trim(), {
+    perTransaction: draft.perTransaction ? parseFloat(draft.perTransaction) : null,
+    daily: draft.daily ? parseFloat(draft.daily) : null,
+    monthly: draft.monthly ? parseFloat(draft.monthly) : null,
+    expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59Z`).toISOString() : null,
+    reason: reason.trim(),
+  }));
+
+  const removeOverride = () => run(() => apiService.removeCustomerLimitOverride(userId.trim(), reason.trim()));
+
+  return (
+    <Card>
+      <details>
+        <summary style={{ cursor: 'pointer', color: '#495057', fontWeight: 600 }}>Customer transfer limits</summary>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-end', marginTop: '0.5rem' }}>
+          <FormGroup style={{ flex: 1, marginBottom: 0 }}>
+            <Label>Customer user ID</Label>
+            <Input value={userId} onChange={(e) => setUserId(e.target.value)} placeholder="User ID" />
+          </FormGroup>
+          <Button variant="secondary" onClick={() => load()} disabled={!userId.trim()}>Look up</Button>
+        </div>
+        {error && <Alert type="error">{error}</Alert>}
+        {success && <Alert type="success">{success}</Alert>}
+        {customer && (
+          <>
+            <p style={{ color: '#495057', fontSize: '13px' }}>
+              Tier <strong>{customer.tier}</strong> ({customer.baseCurrency}) — per payment {formatCap(customer.limits.perTransaction)},
+              daily {formatCap(customer.limits.daily)} (used {customer.usage.daily.toFixed(2)}),
+              monthly {formatCap(customer.limits.monthly)} (used {customer.usage.monthly.toFixed(2)})
+              {customer.override && <span style={{ color: '#d9480f' }}> · override active{customer.override.expiresAt && ` until ${new Date(customer.override.expiresAt).toLocaleDateString()}`}</span>}
+            </p>
+            <Grid columns={4}>
+              {PERIODS.map(period => (
+                <FormGroup key={period}>
+                  <Label>{period} ({customer.baseCurrency})</Label>
+                  <Input type="number" min="1" step="0.01" value={draft[period]} onChange={(e) => setDraft({ ...draft, [period]: e.target.value })} placeholder="Tier default" />
+                </FormGroup>
+              ))}
+              <FormGroup>
+                <Label>Expires</Label>
+                <Input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+              </FormGroup>
+            </Grid>
+            <FormGroup>
+              <Label>Reason</Label>
+              <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Why are the limits changing?" />
+            </FormGroup>
+            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+              {customer.override && <Button variant="secondary" onClick={removeOverride} disabled={isSaving}>Remove override</Button>}
+              <Button onClick={saveOverride} disabled={isSaving}>{isSaving ? 'Saving...' : 'Save override'}</Button>
+            </div>
+            {customer.history.length > 0 && (
+              <ul style={{ fontSize: '12px', color: '#6c757d' }}>
+                {[...customer.history].reverse().map((h, i) => (
+                  <li key={i}>
+                    {new Date(h.timestamp).toLocaleString()} — {h.actorName || 'Employee'} {h.action === 'set'
+                      ? `set per payment ${formatCap(h.perTransaction)}, daily ${formatCap(h.daily)}, monthly ${formatCap(h.monthly)}`
+                      : 'removed the override'}: {h.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </details>
+    </Card>
+  );
+};
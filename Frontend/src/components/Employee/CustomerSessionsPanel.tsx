@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Card, Button, Input, FormGroup, Label, Alert } from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+
+// End every session of a customer, e.g. after a reported lost device or suspected account takeover
+export const CustomerSessionsPanel: React.FC = () => {
+  const [userId, setUserId] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const forceLogout = async () => {
+    if (isSaving) return;
+    setError('');
+    setSuccess('');
+    if (reason.trim().length < 10) {
+      setError('Give a reason of at least 10 characters.');
+      return;
+    }
+    if (!window.confirm('Log this customer out of every session? Step-up confirmation required.')) return;
+
+    setIsSaving(true);
+    try {
+      const resp = await apiService.employeeForceLogout(userId.trim(), reason.trim());
+      setSuccess(resp.message || 'Customer logged out.');
+      setReason('');
+    } catch (err: any) {
+      setError(err?.message || 'Failed to log the customer out');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <details>
+        <summary style={{ cursor: 'pointer', color: '#495057', fontWeight: 600 }}>Customer sessions</summary>
+        {error && <Alert type="error">{error}</Alert>}
+        {success && <Alert type="success">{success}</Alert>}
+        <FormGroup style={{ marginTop: '0.5rem' }}>
+          <Label>Customer user ID</Label>
+          <Input value={userId} onChange={(e) => setUserId(e.target.value)} placeholder="User ID" />
+        </FormGroup>
+        <FormGroup>
+          <Label>Reason</Label>
+          <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Why are the sessions being ended?" />
+        </FormGroup>
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <Button variant="secondary" onClick={forceLogout} disabled={isSaving || !userId.trim()}>
+            {isSaving ? 'Logging out...' : 'Force logout'}
+          </Button>
+        </div>
+      </details>
+    </Card>
+  );
+};
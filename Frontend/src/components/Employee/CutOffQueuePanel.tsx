@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Card, Button, Alert } from '../../styles/GlobalStyles';
+import { apiService } from '../../services/api';
+
+interface CutOffGroup {
+  currency: string;
+  cutOffAt: string;
+  count: number;
+  totalAmount: number;
+  missed: boolean;
+}
+
+interface CutOffPayment {
+  _id: string;
+  transactionId?: string;
+  recipientName: string;
+  amount: number;
+  currency: string;
+  status: string;
+  cutOffAt: string;
+  valueDate: string | null;
+  missedCutOff: boolean;
+}
+
+// Payments that must be released before today's cut-offs, so they settle on their value date
+export const CutOffQueuePanel: React.FC = () => {
+  const [groups, setGroups] = useState<CutOffGroup[]>([]);
+  const [payments, setPayments] = useState<CutOffPayment[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const load = async () => {
+    setError('');
+    try {
+      const resp = await apiService.getCutOffQueue();
+      setGroups(resp.data?.cutOffs || []);
+      setPayments(resp.data?.payments || []);
+      setLoaded(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the cut-off queue');
+    }
+  };
+
+  return (
+    <Card>
+      <details onToggle={(e) => { if ((e.target as HTMLDetailsElement).open && !loaded) load(); }}>
+        <summary style={{ cursor: 'pointer', color: '#495057', fontWeight: 600 }}>Today's cut-off queue</summary>
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '0.5rem' }}>
+          <Button variant="secondary" onClick={load}>Refresh</Button>
+        </div>
+        {error && <Alert type="error">{error}</Alert>}
+        {loaded && payments.length === 0 && <p style={{ color: '#6c757d' }}>No open payments are due for today's cut-offs.</p>}
+        {groups.length > 0 && (
+          <p style={{ color: '#495057', fontSize: '13px' }}>
+            {groups.map((g, i) => (
+              <span key={i} style={{ marginRight: '1rem', color: g.missed ? '#c92a2a' : '#495057' }}>
+                {g.currency} {g.missed ? 'missed cut-off' : `by ${new Date(g.cutOffAt).toLocaleTimeString()}`}: {g.count} ({g.totalAmount.toFixed(2)})
+              </span>
+            ))}
+          </p>
+        )}
+        {payments.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+            <thead>
+              <tr style={{ borderBottom: '2px solid #e9ecef', textAlign: 'left' }}>
+                <th style={{ padding: '0.5rem' }}>Transaction</th>
+                <th style={{ padding: '0.5rem' }}>Recipient</th>
+                <th style={{ padding: '0.5rem', textAlign: 'right' }}>Amount</th>
+                <th style={{ padding: '0.5rem' }}>Status</th>
+                <th style={{ padding: '0.5rem' }}>Cut-off</th>
+                <th style={{ padding: '0.5rem' }}>Value date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {payments.map(p => (
+                <tr key={p._id} style={{ borderBottom: '1px solid #e9ecef', color: p.missedCutOff ? '#c92a2a' : undefined }}>
+                  <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>{p.transactionId || p._id}</td>
+                  <td style={{ padding: '0.5rem' }}>{p.recipientName}</td>
+                  <td style={{ padding: '0.5rem', textAlign: 'right' }}>{p.amount} {p.currency}</td>
+                  <td style={{ padding: '0.5rem' }}>{p.status}</td>
+                  <td style={{ padding: '0.5rem' }}>
+                    {new Date(p.cutOffAt).toLocaleString()}{p.missedCutOff && ' (missed)'}
+                  </td>
+                  <td style={{ padding: '0.5rem' }}>{p.valueDate ? p.valueDate.slice(0, 10) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </details>
+    </Card>
+  );
+};
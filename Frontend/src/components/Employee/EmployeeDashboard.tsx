@@ -2,6 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { Card, Button, Alert, Grid, LoadingSpinner, Input, FormGroup, Label } from '../../styles/GlobalStyles';
 import { apiService } from '../../services/api';
 import { SecureStorage } from '../../utils/security';
+import { AmlRulesPanel } from './AmlRulesPanel';
+import { CustomerLimitsPanel } from './CustomerLimitsPanel';
+import { CutOffQueuePanel } from './CutOffQueuePanel';
+import { CustomerSessionsPanel } from './CustomerSessionsPanel';
+import { TwoFactorSettings } from '../Auth/TwoFactorSettings';
+import { PasskeySettings } from '../Auth/PasskeySettings';
 
 interface EmployeeUser {
   firstName: string;
@@ -20,6 +26,7 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
   const [isLoading, setIsLoading] = useState(false);
   const [payments, setPayments] = useState<any[]>([]);
   const [error, setError] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
   const [actionLoadingId, setActionLoadingId] = useState<string>('');
   const [editingReasonId, setEditingReasonId] = useState<string>('');
   const [editingReasonText, setEditingReasonText] = useState<string>('');
@@ -39,6 +46,9 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
   const [includeDeleted, setIncludeDeleted] = useState<boolean>(false);
   const [onlyMine, setOnlyMine] = useState<boolean>(false);
   const [escalatedOnly, setEscalatedOnly] = useState<boolean>(false);
+  const [reconciliationFilter, setReconciliationFilter] = useState<string>('');
+  const [duplicatesOnly, setDuplicatesOnly] = useState<boolean>(false);
+  const [screeningNotes, setScreeningNotes] = useState<Record<string, string>>({});
 
   useEffect(() => {
     const fetchPayments = async () => {
@@ -54,7 +64,9 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
           maxAmount: maxAmountFilter || '',
           includeDeleted,
           assignedTo: onlyMine ? 'me' : '',
-          escalated: escalatedOnly
+          escalated: escalatedOnly,
+          reconciliation: reconciliationFilter || '',
+          duplicates: duplicatesOnly
         });
         setPayments(resp.data || resp);
         const reasonsResp = await apiService.getReasonCodes();
@@ -66,7 +78,7 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
       }
     };
     fetchPayments();
-  }, [statusFilter, keywordFilter, startDateFilter, endDateFilter, minAmountFilter, maxAmountFilter, includeDeleted, onlyMine, escalatedOnly]);
+  }, [statusFilter, keywordFilter, startDateFilter, endDateFilter, minAmountFilter, maxAmountFilter, includeDeleted, onlyMine, escalatedOnly, reconciliationFilter, duplicatesOnly]);
 
   const refreshPayments = async () => {
     try {
@@ -79,7 +91,9 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
         maxAmount: maxAmountFilter || '',
         includeDeleted,
         assignedTo: onlyMine ? 'me' : '',
-        escalated: escalatedOnly
+        escalated: escalatedOnly,
+        reconciliation: reconciliationFilter || '',
+        duplicates: duplicatesOnly
       });
       setPayments(resp.data || resp);
     } catch (err) {
@@ -89,9 +103,12 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
 
   const handleValidate = async (id: string) => {
     setError('');
+    setNotice('');
     setActionLoadingId(id);
     try {
-      await apiService.employeeValidatePayment(id);
+      const resp = await apiService.employeeValidatePayment(id);
+      // Above the four-eyes threshold the first validation only records an approval
+      if (resp?.data?.payment?.status === 'awaiting_second_approval') setNotice(resp.message);
       await refreshPayments();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to validate payment');
@@ -100,6 +117,29 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
     }
   };
 
+  const handleScreeningDecision = async (id: string, decision: 'clear' | 'confirm') => {
+    const note = (screeningNotes[id] || '').trim();
+    if (note.length < 10) {
+      setError('Document the screening decision in a note of at least 10 characters.');
+      return;
+    }
+    const ok = window.confirm(decision === 'clear'
+      ? 'Clear this screening hit as a false positive and release the payment? Step-up confirmation required.'
+      : 'Confirm this sanctions match and stop the payment? Step-up confirmation required.');
+    if (!ok) return;
+    setError('');
+    setActionLoadingId(id);
+    try {
+      await apiService.employeeScreeningDecision(id, decision, note);
+      setScreeningNotes(prev => ({ ...prev, [id]: '' }));
+      await refreshPayments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record screening decision');
+    } finally {
+      setActionLoadingId('');
+    }
+  };
+
   const openReasonDialog = (action: 'reject' | 'cancel', id?: string) => {
     setError('');
     setReasonDialogAction(action);
@@ -245,8 +285,10 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
   };
 
   const handleLogout = () => {
+    apiService.logout().catch(() => undefined);
     SecureStorage.removeItem('currentUser');
     SecureStorage.removeItem('authToken');
+    SecureStorage.removeItem('refreshToken');
     onLogout();
   };
 
@@ -267,6 +309,15 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
       </Card>
 
       {error && <Alert type="error">{error}</Alert>}
+      {notice && <Alert type="info">{notice}</Alert>}
+
+      <CutOffQueuePanel />
+      <AmlRulesPanel />
+      <CustomerLimitsPanel />
+      <CustomerSessionsPanel />
+      {/* Mandatory for employees: recovery codes can be replaced but MFA cannot be turned off */}
+      <TwoFactorSettings enabled canDisable={false} />
+      <PasskeySettings />
 
       <Card>
         <h3 style={{ color: '#495057', marginBottom: '1rem' }}>Filters</h3>
@@ -276,7 +327,9 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
             <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} style={{ padding: '0.5rem', border: '1px solid #ced4da', borderRadius: '6px' }}>
               <option value="">Any</option>
               <option value="pending">Pending</option>
+              <option value="on_hold">On hold (screening)</option>
               <option value="processing">Processing</option>
+              <option value="awaiting_second_approval">Awaiting second approval</option>
               <option value="completed">Completed</option>
               <option value="failed">Rejected</option>
               <option value="cancelled">Cancelled</option>
@@ -284,7 +337,7 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
           </FormGroup>
           <FormGroup>
             <Label>Keyword</Label>
-            <Input value={keywordFilter} onChange={(e) => setKeywordFilter(e.target.value)} placeholder="Recipient or reference" />
+            <Input value={keywordFilter} onChange={(e) => setKeywordFilter(e.target.value)} placeholder="Recipient, reference or transaction ID" />
           </FormGroup>
           <FormGroup>
             <Label>Start Date</Label>
@@ -295,7 +348,7 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
             <Input type="date" value={endDateFilter} onChange={(e) => setEndDateFilter(e.target.value)} />
           </FormGroup>
         </Grid>
-        <Grid columns={4}>
+        <Grid columns={5}>
           <FormGroup>
             <Label>Min Amount</Label>
             <Input value={minAmountFilter} onChange={(e) => setMinAmountFilter(e.target.value)} placeholder="0" />
@@ -309,12 +362,22 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
             <input type="checkbox" checked={includeDeleted} onChange={(e) => setIncludeDeleted(e.target.checked)} />
           </FormGroup>
           <FormGroup>
-            <Label>My Queue / Escalated</Label>
+            <Label>My Queue / Escalated / Duplicates</Label>
             <div style={{ display: 'flex', gap: '1rem' }}>
               <label style={{ fontSize: '12px' }}><input type="checkbox" checked={onlyMine} onChange={(e) => setOnlyMine(e.target.checked)} /> Only mine</label>
               <label style={{ fontSize: '12px' }}><input type="checkbox" checked={escalatedOnly} onChange={(e) => setEscalatedOnly(e.target.checked)} /> Escalated only</label>
+              <label style={{ fontSize: '12px' }}><input type="checkbox" checked={duplicatesOnly} onChange={(e) => setDuplicatesOnly(e.target.checked)} /> Possible duplicates</label>
             </div>
           </FormGroup>
+          <FormGroup>
+            <Label>Reconciliation</Label>
+            <select value={reconciliationFilter} onChange={(e) => setReconciliationFilter(e.target.value)} style={{ padding: '0.5rem', border: '1px solid #ced4da', borderRadius: '6px' }}>
+              <option value="">All</option>
+              <option value="matched">Settled</option>
+              <option value="mismatched">Mismatched</option>
+              <option value="unreconciled">Not yet on a statement</option>
+            </select>
+          </FormGroup>
         </Grid>
       </Card>
 
@@ -339,13 +402,52 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
                   <div>
                     <label style={{ marginRight: '0.5rem' }}><input type="checkbox" checked={selectedIds.includes(p._id)} onChange={() => toggleSelected(p._id)} /></label>
                     <strong>{p.recipientName}</strong>
-                    <div style={{ color: '#6c757d', fontSize: '12px' }}>{p.reference}</div>
+                    <div style={{ color: '#6c757d', fontSize: '12px' }}>{p.reference}{p.transactionId && <span style={{ marginLeft: '0.5rem', fontFamily: 'monospace' }}>{p.transactionId}</span>}</div>
                     {(p.status === 'failed' || p.status === 'cancelled') && p.failureReason && (
                       <div style={{ color: '#dc3545', fontSize: '12px', marginTop: '0.25rem' }}>
                         Reason: {p.failureReason}
                         {p.reasonCode && <span style={{ marginLeft: '0.5rem', color: '#6c757d' }}>(Code: {p.reasonCode})</span>}
                       </div>
                     )}
+                    {p.screening && (
+                      <div style={{ marginTop: '0.5rem', padding: '0.5rem', borderRadius: 6, background: p.screening.state === 'open' ? '#fff4e6' : '#f8f9fa', fontSize: '12px' }}>
+                        <strong style={{ color: p.screening.state === 'open' ? '#d9480f' : '#495057' }}>
+                          Compliance review: {p.screening.state === 'open' ? 'payment held' : p.screening.state}
+                        </strong>
+                        {(p.screening.matches || []).map((m: any, i: number) => (
+                          <div key={i} style={{ color: '#343a40' }}>
+                            {m.type === 'country'
+                              ? <>Sanctioned jurisdiction: <strong>{(m.countries || []).join(', ')}</strong></>
+                              : m.type === 'rule'
+                              ? <>{m.source}: <strong>{m.listedName}</strong> — {m.detail} (+{m.score})</>
+                              : <><strong>{m.matchedName}</strong>{m.listedName && m.listedName !== m.matchedName ? ` (alias of ${m.listedName})` : ''} — score {m.score}, {m.source} {m.entryId}{(m.programs || []).length > 0 ? `, ${m.programs.join(', ')}` : ''}{m.countryMatch ? ', country match' : ''}</>}
+                          </div>
+                        ))}
+                        {p.screening.state !== 'open' && (
+                          <div style={{ color: '#6c757d' }}>
+                            {p.screening.decidedByName || p.screening.decidedBy} on {p.screening.decidedAt && new Date(p.screening.decidedAt).toLocaleString()}: {p.screening.decisionNote}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {p.possibleDuplicateOf && (
+                      <div style={{ marginTop: '0.25rem', fontSize: '12px', color: '#d9480f' }}>
+                        Possible duplicate of{' '}
+                        {p.duplicateOf?.transactionId ? (
+                          <button
+                            type="button"
+                            onClick={() => setKeywordFilter(p.duplicateOf.transactionId)}
+                            style={{ background: 'none', border: 'none', padding: 0, color: '#4f46e5', textDecoration: 'underline', cursor: 'pointer', fontFamily: 'monospace', fontSize: '12px' }}
+                          >{p.duplicateOf.transactionId}</button>
+                        ) : p.possibleDuplicateOf}
+                        {p.duplicateOf && ` (${p.duplicateOf.status}, ${new Date(p.duplicateOf.createdAt).toLocaleString()})`} — confirmed by customer
+                      </div>
+                    )}
+                    {p.risk && p.risk.triggered.length > 0 && (
+                      <div style={{ marginTop: '0.25rem', fontSize: '12px', color: p.risk.action === 'allow' ? '#6c757d' : '#d9480f' }}>
+                        Risk score {p.risk.score} ({p.risk.action}, rules v{p.risk.ruleSetVersion}): {p.risk.triggered.map((t: any) => `${t.name} — ${t.detail}`).join('; ')}
+                      </div>
+                    )}
                     {/* Validation badges */}
                     <div style={{ marginTop: '0.25rem', display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
                       <span style={{ fontSize: '11px', padding: '2px 6px', borderRadius: 12, background: p.recipientIBAN && p.recipientIBAN.length > 14 ? '#e6ffed' : '#ffe6e6', color: p.recipientIBAN && p.recipientIBAN.length > 14 ? '#267a38' : '#a12626' }}>IBAN {p.recipientIBAN && p.recipientIBAN.length > 14 ? 'valid' : 'check'}</span>
@@ -400,7 +502,22 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
                     )}
                   </div>
                   <div style={{ textAlign: 'right' }}>
-                    <span style={{ color: p.status === 'completed' ? '#28a745' : p.status === 'failed' ? '#dc3545' : p.status === 'cancelled' ? '#6c757d' : '#ffc107' }}>{p.status}</span>
+                    <span style={{ color: p.status === 'completed' ? '#28a745' : p.status === 'failed' ? '#dc3545' : p.status === 'cancelled' ? '#6c757d' : p.status === 'on_hold' ? '#fd7e14' : p.status === 'awaiting_second_approval' ? '#4f46e5' : '#ffc107' }}>{p.status}</span>
+                    {(p.approvals || []).length > 0 && (
+                      <div style={{ color: '#6c757d', fontSize: '12px', marginTop: '0.25rem' }}>
+                        {p.approvals.map((a: any, i: number) => (
+                          <div key={i}>{i === 0 ? 'Approved' : 'Second approval'} by {a.actorName || a.actorId}, {new Date(a.timestamp).toLocaleString()}</div>
+                        ))}
+                      </div>
+                    )}
+                    {p.status === 'completed' && (
+                      <div style={{ marginTop: '0.25rem' }}>
+                        <span
+                          title={p.reconciledAt ? `Bank statement checked ${new Date(p.reconciledAt).toLocaleString()}` : 'Not yet seen on a bank statement'}
+                          style={{ fontSize: '11px', padding: '2px 6px', borderRadius: 12, background: p.reconciliationStatus === 'matched' ? '#e6ffed' : p.reconciliationStatus === 'mismatched' ? '#ffe6e6' : '#f1f3f5', color: p.reconciliationStatus === 'matched' ? '#267a38' : p.reconciliationStatus === 'mismatched' ? '#a12626' : '#6c757d' }}
+                        >{p.reconciliationStatus === 'matched' ? 'Settled' : p.reconciliationStatus === 'mismatched' ? 'Statement mismatch' : 'Unreconciled'}</span>
+                      </div>
+                    )}
                     {(p.status === 'pending' || p.status === 'processing') && (
                       <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
                         <Button 
@@ -419,6 +536,50 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
                         >{actionLoadingId === p._id ? 'Cancelling...' : 'Cancel'}</Button>
                       </div>
                     )}
+                    {p.status === 'awaiting_second_approval' && (
+                      <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                        {(p.approvals || []).some((a: any) => a.actorName === user.email) ? (
+                          <span style={{ color: '#6c757d', fontSize: '12px', alignSelf: 'center' }}>Waiting for another employee to approve</span>
+                        ) : (
+                          <Button
+                            disabled={actionLoadingId === p._id}
+                            onClick={() => handleValidate(p._id)}
+                          >{actionLoadingId === p._id ? 'Approving...' : 'Second approval'}</Button>
+                        )}
+                        <Button
+                          variant="secondary"
+                          disabled={actionLoadingId === p._id}
+                          onClick={() => openReasonDialog('reject', p._id)}
+                        >Reject</Button>
+                        <Button
+                          variant="secondary"
+                          disabled={actionLoadingId === p._id}
+                          onClick={() => handleCancel(p._id)}
+                        >Cancel</Button>
+                      </div>
+                    )}
+                    {p.status === 'on_hold' && p.screening?.state === 'open' && (
+                      <div style={{ marginTop: '0.5rem', display: 'grid', gap: '0.5rem' }}>
+                        <textarea
+                          value={screeningNotes[p._id] || ''}
+                          onChange={(e) => setScreeningNotes(prev => ({ ...prev, [p._id]: e.target.value }))}
+                          placeholder="Decision rationale (required)"
+                          rows={2}
+                          style={{ width: '100%', padding: '0.5rem', border: '1px solid #ced4da', borderRadius: '6px', fontSize: '14px' }}
+                        />
+                        <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                          <Button
+                            disabled={actionLoadingId === p._id}
+                            onClick={() => handleScreeningDecision(p._id, 'clear')}
+                          >Clear (false positive)</Button>
+                          <Button
+                            variant="secondary"
+                            disabled={actionLoadingId === p._id}
+                            onClick={() => handleScreeningDecision(p._id, 'confirm')}
+                          >Confirm match</Button>
+                        </div>
+                      </div>
+                    )}
                     {(p.status === 'cancelled' || p.status === 'failed') && (
                       <div style={{ marginTop: '0.5rem' }}>
                         {editingReasonId === p._id ? (
@@ -525,7 +686,7 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({ user, onLo
           <li>All requests authenticated via JWT</li>
           <li>Role-based authorization enforced server-side</li>
           <li>Rate limiting active on state-changing operations</li>
-          <li>Step-up confirmation required for destructive actions</li>
+          <li>Step-up re-authentication (passkey, authenticator code or password) required for destructive actions</li>
         </ul>
       </Card>
     </div>
@@ -7,6 +7,8 @@ import { validateInput, rateLimiter } from '../../utils/validation';
 import { useSecurity } from '../SecurityProvider';
 import { apiService } from '../../services/api';
 import { SecureStorage } from '../../utils/security';
+import { MfaLoginStep, MfaLoginChallenge, mfaChallengeFrom } from '../Auth/MfaLoginStep';
+import { getPasskeyAssertion, isWebAuthnSupported } from '../../utils/webauthn';
 
 const schema = yup.object({
   email: yup
@@ -32,12 +34,30 @@ export const EmployeeLogin: React.FC<EmployeeLoginProps> = ({ onLoggedIn }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [loginError, setLoginError] = useState<string>('');
   const [rateLimitError, setRateLimitError] = useState<string>('');
+  const [mfaChallenge, setMfaChallenge] = useState<MfaLoginChallenge | null>(null);
   const { csrfToken } = useSecurity();
 
   const { register, handleSubmit, formState: { errors }, reset, setValue } = useForm<EmployeeLoginFormData>({
     resolver: yupResolver(schema)
   });
 
+  const completeLogin = (data: any) => {
+    const { user, token, refreshToken } = data;
+
+    // Ensure employee role
+    if (user.role !== 'employee') {
+      setMfaChallenge(null);
+      setLoginError('Access denied: not an employee account');
+      return;
+    }
+
+    SecureStorage.setItem('authToken', token);
+    SecureStorage.setItem('refreshToken', refreshToken);
+    SecureStorage.setItem('currentUser', JSON.stringify(user));
+    reset();
+    onLoggedIn(user);
+  };
+
   const onSubmit = async (data: EmployeeLoginFormData) => {
     setLoginError('');
     setRateLimitError('');
@@ -50,17 +70,13 @@ export const EmployeeLogin: React.FC<EmployeeLoginProps> = ({ onLoggedIn }) => {
     setIsLoading(true);
     try {
       const resp = await apiService.login(data.email, data.password);
-      const { user, token } = resp.data;
-
-      // Ensure employee role
-      if (user.role !== 'employee') {
-        throw new Error('Access denied: not an employee account');
+      // Employees always need a second factor; the session only comes after it
+      const challenge = mfaChallengeFrom(resp.data);
+      if (challenge) {
+        setMfaChallenge(challenge);
+        return;
       }
-
-      SecureStorage.setItem('authToken', token);
-      SecureStorage.setItem('currentUser', JSON.stringify(user));
-      reset();
-      onLoggedIn(user);
+      completeLogin(resp.data);
     } catch (error) {
       setLoginError(error instanceof Error ? error.message : 'Login failed. Please try again.');
     } finally {
@@ -68,6 +84,26 @@ export const EmployeeLogin: React.FC<EmployeeLoginProps> = ({ onLoggedIn }) => {
     }
   };
 
+  // A user-verified passkey counts as both factors, so there is no code step after it
+  const onPasskeyLogin = async () => {
+    setLoginError('');
+    setIsLoading(true);
+    try {
+      const options = await apiService.getPasskeyLoginOptions();
+      const credential = await getPasskeyAssertion(options.data);
+      const resp = await apiService.loginWithPasskey(credential);
+      completeLogin(resp.data);
+    } catch (error) {
+      setLoginError(error instanceof Error ? error.message : 'Passkey login failed.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (mfaChallenge) {
+    return <MfaLoginStep challenge={mfaChallenge} onComplete={completeLogin} onCancel={() => setMfaChallenge(null)} />;
+  }
+
   return (
     <Card>
       <h2 style={{ textAlign: 'center', marginBottom: '2rem', color: '#4f46e5' }}>
@@ -96,6 +132,12 @@ export const EmployeeLogin: React.FC<EmployeeLoginProps> = ({ onLoggedIn }) => {
           {isLoading ? (<><LoadingSpinner /> Signing In...</>) : ('Sign In')}
         </Button>
 
+        {isWebAuthnSupported() && (
+          <Button type="button" variant="secondary" onClick={onPasskeyLogin} disabled={isLoading} style={{ width: '100%', marginTop: '0.75rem' }}>
+            🔑 Sign in with a passkey
+          </Button>
+        )}
+
         <div style={{ marginTop: '0.75rem', padding: '0.75rem', background: '#f8f9fa', borderRadius: '8px', border: '1px solid #e9ecef' }}>
           <div style={{ fontSize: '13px', color: '#374151', marginBottom: '0.5rem' }}>
             <strong>Seeded Employee (for local testing):</strong>
@@ -127,6 +169,7 @@ export const EmployeeLogin: React.FC<EmployeeLoginProps> = ({ onLoggedIn }) => {
           <li>CSRF token validation</li>
           <li>Input sanitization</li>
           <li>JWT-based sessions</li>
+          <li>Mandatory two-factor authentication</li>
         </ul>
       </div>
     </Card>
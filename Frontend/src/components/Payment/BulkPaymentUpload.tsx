@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Card,
+  Button,
+  Input,
+  FormGroup,
+  Label,
+  LoadingSpinner,
+  Alert
+} from '../../styles/GlobalStyles';
+import { generateSecureToken } from '../../utils/security';
+import { apiService } from '../../services/api';
+
+interface RowError {
+  row: number | null;
+  field: string;
+  message: string;
+}
+
+interface PaymentBatch {
+  _id: string;
+  fileName?: string | null;
+  rowCount: number;
+  totals: Array<{ currency: string; amount: number }>;
+  status: string;
+  counts: Record<string, number>;
+  createdAt: string;
+}
+
+interface BulkPaymentUploadProps {
+  onBatchCreated: () => void;
+}
+
+const CSV_COLUMNS = 'recipientName,recipientEmail,recipientIBAN,recipientSWIFT,recipientAddress,recipientCity,recipientCountry,amount,currency,reference,purpose';
+
+export const BulkPaymentUpload: React.FC<BulkPaymentUploadProps> = ({ onBatchCreated }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [rowErrors, setRowErrors] = useState<RowError[]>([]);
+  const [success, setSuccess] = useState<string>('');
+  const [batches, setBatches] = useState<PaymentBatch[]>([]);
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const resp = await apiService.getPaymentBatches();
+      setBatches(resp.data?.batches || []);
+    } catch (err) {
+      console.error('Error fetching payment batches:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  const upload = async () => {
+    if (!file || isLoading) return;
+    setError('');
+    setRowErrors([]);
+    setSuccess('');
+    setIsLoading(true);
+    try {
+      const text = await file.text();
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const resp = await apiService.batchCreatePayments({ format, file: text, fileName: file.name }, generateSecureToken());
+      setSuccess(resp.message || 'Batch created.');
+      setFile(null);
+      await loadBatches();
+      onBatchCreated();
+    } catch (err: any) {
+      setError(err?.message || 'Batch upload failed.');
+      setRowErrors(Array.isArray(err?.data?.errors) ? err.data.errors : []);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <h3 style={{ color: '#495057', marginBottom: '1rem' }}>Bulk Payment Upload</h3>
+      <p style={{ color: '#6c757d', fontSize: '14px' }}>
+        Upload a CSV with the columns <code>{CSV_COLUMNS}</code>, or a JSON array of payments.
+        Every row is validated; if any row fails, no payments are created.
+      </p>
+
+      <FormGroup>
+        <Label htmlFor="batchFile">Payment File</Label>
+        <Input
+          id="batchFile"
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+        />
+      </FormGroup>
+
+      {success && <Alert type="success">{success}</Alert>}
+      {error && (
+        <Alert type="error">
+          {error}
+          {rowErrors.length > 0 && (
+            <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1rem' }}>
+              {rowErrors.map((e, i) => (
+                <li key={i}>{e.row ? `Row ${e.row}` : 'File'} · {e.field}: {e.message}</li>
+              ))}
+            </ul>
+          )}
+        </Alert>
+      )}
+
+      <Button onClick={upload} disabled={!file || isLoading}>
+        {isLoading ? (
+          <>
+            <LoadingSpinner /> Uploading...
+          </>
+        ) : (
+          'Upload Batch'
+        )}
+      </Button>
+
+      {batches.length > 0 && (
+        <div style={{ marginTop: '1.5rem' }}>
+          <h4 style={{ color: '#495057', marginBottom: '0.5rem' }}>Recent Batches</h4>
+          {batches.map(batch => (
+            <div
+              key={batch._id}
+              style={{ display: 'flex', justifyContent: 'space-between', padding: '0.5rem 0', borderBottom: '1px solid #e9ecef' }}
+            >
+              <div>
+                <strong>{batch.fileName || 'Batch'}</strong>
+                <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                  {new Date(batch.createdAt).toLocaleString()} · {batch.rowCount} payments · {batch.totals.map(t => `${t.amount} ${t.currency}`).join(', ')}
+                </div>
+              </div>
+              <span style={{ fontWeight: '600', fontSize: '12px' }}>
+                {batch.status.replace('_', ' ').toUpperCase()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
@@ -15,11 +15,16 @@ import {
   Grid
 } from '../../styles/GlobalStyles';
 import { validateInput, rateLimiter } from '../../utils/validation';
+import { generateSecureToken } from '../../utils/security';
 import { useSecurity } from '../SecurityProvider';
+import { apiService } from '../../services/api';
 
 // TODO: Add form validation library (Formik or react-hook-form)
 // FIXME: Currency conversion rates should come from API
 
+// Calendar date in UTC, matching how the server interprets execution dates
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
 const schema = yup.object().shape({
   recipientName: yup
     .string()
@@ -71,9 +76,6 @@ const schema = yup.object().shape({
     )
     .test('amount-min', 'Minimum amount is 1.00', (value) => 
       value ? parseFloat(value) >= 1 : false
-    )
-    .test('amount-max', 'Maximum amount is 50000.00', (value) => 
-      value ? parseFloat(value) <= 50000 : false
     ),
   currency: yup
     .string()
@@ -89,7 +91,32 @@ const schema = yup.object().shape({
     ),
   purpose: yup
     .string()
-    .required('Payment purpose is required')
+    .required('Payment purpose is required'),
+  executionDate: yup
+    .string()
+    .test('execution-date', 'Execution date cannot be in the past', (value) =>
+      !value || value >= todayIso()
+    ),
+  frequency: yup.string(),
+  endDate: yup
+    .string()
+    .test('end-date', 'End date cannot be before the execution date', function (value) {
+      return !value || value >= (this.parent.executionDate || todayIso());
+    }),
+  occurrences: yup
+    .string()
+    .test('occurrences', 'Enter a number of payments between 1 and 120', (value) =>
+      !value || (/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 120)
+    )
+    .test('series-end', 'Recurring payments need an end date or a number of payments', function (value) {
+      return !this.parent.frequency || !!value || !!this.parent.endDate;
+    }),
+  payFromCurrency: yup
+    .string()
+    .test('pay-from-immediate', 'Converted payments cannot be scheduled', function (value) {
+      return !value || value === this.parent.currency || (!this.parent.executionDate && !this.parent.frequency);
+    }),
+  chargeBearer: yup.string()
 });
 
 interface PaymentFormData {
@@ -104,10 +131,81 @@ interface PaymentFormData {
   currency: string;
   reference: string;
   purpose: string;
+  beneficiaryId?: string;
+  executionDate?: string;
+  frequency?: '' | 'weekly' | 'monthly' | 'end_of_month';
+  endDate?: string;
+  occurrences?: string;
+  // Set once the customer has seen the possible-duplicate warning and wants to send anyway
+  confirmDuplicate?: boolean;
+  // Fund the payment from another currency at a quoted rate
+  payFromCurrency?: string;
+  fxQuoteId?: string;
+  // Who pays the charges: shared (SHA) unless the customer chooses otherwise
+  chargeBearer?: 'SHA' | 'OUR' | 'BEN';
+}
+
+interface FxQuote {
+  quoteId: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+  sourceAmount: number;
+  targetAmount: number;
+  rate: number;
+  expiresAt: string;
+}
+
+interface PaymentFees {
+  currency: string;
+  lines: { ruleId: string; description: string; amount: number }[];
+  total: number;
+  deductedFromAmount: boolean;
+  settlementAmount: number;
+}
+
+interface ValueDate {
+  valueDate: string;
+  cutOffAt: string;
+  nextBusinessDay: boolean;
+}
+
+interface PossibleDuplicate {
+  transactionId: string;
+  amount: number;
+  currency: string;
+  reference: string;
+  status: string;
+  createdAt: string;
+}
+
+interface TransferLimits {
+  tier: string;
+  baseCurrency: string;
+  remaining: { perTransaction: number | null; daily: number | null; monthly: number | null };
+}
+
+interface Beneficiary {
+  _id: string;
+  nickname?: string | null;
+  name: string;
+  email: string;
+  iban: string;
+  swift: string;
+  address: string;
+  city: string;
+  country: string;
+  coolingOff: boolean;
+  coolingOffUntil: string;
+}
+
+interface BicSuggestion {
+  bic: string;
+  institution: string;
+  city: string;
 }
 
 interface PaymentFormProps {
-  onSubmitPayment: (paymentData: PaymentFormData) => Promise<void>;
+  onSubmitPayment: (paymentData: PaymentFormData, idempotencyKey: string) => Promise<void>;
   userEmail: string;
 }
 
@@ -145,6 +243,19 @@ const countries = [
   { code: 'ZA', name: 'South Africa' }
 ];
 
+const chargeBearers = [
+  { value: 'SHA', label: 'Shared - I pay my bank\'s fees, the recipient pays theirs' },
+  { value: 'OUR', label: 'I pay all fees - the recipient receives the full amount' },
+  { value: 'BEN', label: 'Recipient pays all fees - deducted from the amount sent' }
+];
+
+const frequencies = [
+  { value: '', label: 'Does not repeat' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'end_of_month', label: 'Last day of each month' }
+];
+
 const paymentPurposes = [
   'Personal Transfer',
   'Business Payment',
@@ -164,6 +275,17 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
   const [rateLimitError, setRateLimitError] = useState<string>('');
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [formData, setFormData] = useState<PaymentFormData | null>(null);
+  // One key per reviewed payment so double-clicks and retries are not submitted twice
+  const [idempotencyKey, setIdempotencyKey] = useState<string>('');
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+  const [beneficiarySearch, setBeneficiarySearch] = useState<string>('');
+  const [selectedBeneficiary, setSelectedBeneficiary] = useState<Beneficiary | null>(null);
+  const [bicSuggestion, setBicSuggestion] = useState<BicSuggestion | null>(null);
+  const [possibleDuplicate, setPossibleDuplicate] = useState<PossibleDuplicate | null>(null);
+  const [limits, setLimits] = useState<TransferLimits | null>(null);
+  const [fxQuote, setFxQuote] = useState<FxQuote | null>(null);
+  const [fees, setFees] = useState<PaymentFees | null>(null);
+  const [valueDate, setValueDate] = useState<ValueDate | null>(null);
   const { csrfToken } = useSecurity();
 
   const {
@@ -171,13 +293,89 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
     handleSubmit,
     formState: { errors },
     reset,
+    setValue,
     watch
   } = useForm<PaymentFormData>({
     resolver: yupResolver(schema)
   });
 
+  useEffect(() => {
+    const loadBeneficiaries = async () => {
+      try {
+        const resp = await apiService.getBeneficiaries();
+        setBeneficiaries(resp.data?.beneficiaries || []);
+      } catch (error) {
+        console.error('Error fetching beneficiaries:', error);
+      }
+    };
+    loadBeneficiaries();
+  }, []);
+
+  // Upper bounds come from the customer's tier limits, so show what is left rather than a fixed maximum
+  const loadLimits = useCallback(async () => {
+    try {
+      const resp = await apiService.getTransferLimits();
+      setLimits(resp.data || null);
+    } catch (error) {
+      console.error('Error fetching transfer limits:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLimits();
+  }, [loadLimits]);
+
+  const filteredBeneficiaries = beneficiaries.filter(b => {
+    const q = beneficiarySearch.trim().toLowerCase();
+    if (!q) return true;
+    return [b.name, b.nickname || '', b.iban].some(v => v.toLowerCase().includes(q));
+  });
+
+  // Fill the recipient fields from a saved beneficiary; the server uses its stored details
+  const selectBeneficiary = (beneficiary: Beneficiary) => {
+    setSelectedBeneficiary(beneficiary);
+    setBicSuggestion(null);
+    setValue('recipientName', beneficiary.name, { shouldValidate: true });
+    setValue('recipientEmail', beneficiary.email, { shouldValidate: true });
+    setValue('recipientIban', beneficiary.iban, { shouldValidate: true });
+    setValue('recipientSwift', beneficiary.swift, { shouldValidate: true });
+    setValue('recipientAddress', beneficiary.address, { shouldValidate: true });
+    setValue('recipientCity', beneficiary.city, { shouldValidate: true });
+    setValue('recipientCountry', beneficiary.country, { shouldValidate: true });
+  };
+
+  const clearBeneficiary = () => {
+    setSelectedBeneficiary(null);
+    setValue('recipientName', '');
+    setValue('recipientEmail', '');
+    setValue('recipientIban', '');
+    setValue('recipientSwift', '');
+    setValue('recipientAddress', '');
+    setValue('recipientCity', '');
+    setValue('recipientCountry', '');
+  };
+
+  const recipientLocked = !!selectedBeneficiary;
+
+  // Look the IBAN's bank code up in the BIC directory and offer the matching BIC
+  const suggestBicForIban = async (iban: string) => {
+    setBicSuggestion(null);
+    if (recipientLocked || iban.replace(/\s/g, '').length < 15) return;
+    try {
+      const resp = await apiService.validateIBAN(iban);
+      const suggestion: BicSuggestion | null = resp.data?.suggestedBIC || null;
+      setBicSuggestion(suggestion);
+      if (suggestion && !watch('recipientSwift')) {
+        setValue('recipientSwift', suggestion.bic, { shouldValidate: true });
+      }
+    } catch {
+      // Invalid IBANs are reported by the form validation and on submit
+    }
+  };
+
   const watchedAmount = watch('amount');
   const watchedCurrency = watch('currency');
+  const watchedFrequency = watch('frequency');
 
   const onSubmit = async (data: PaymentFormData) => {
     setPaymentError('');
@@ -189,22 +387,106 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
       return;
     }
 
-    setFormData(data);
+    setFxQuote(null);
+    setFees(null);
+    let quote: FxQuote | null = null;
+    if (data.payFromCurrency && data.payFromCurrency !== data.currency) {
+      quote = await requestFxQuote(data);
+      if (!quote) return;
+    }
+    if (!await requestFees(data, quote)) return;
+    requestValueDate(data);
+
+    setFormData(selectedBeneficiary ? { ...data, beneficiaryId: selectedBeneficiary._id } : data);
+    setIdempotencyKey(generateSecureToken());
+    setPossibleDuplicate(null);
     setShowConfirmation(true);
   };
 
-  const confirmPayment = async () => {
-    if (!formData) return;
+  // The rate is locked for a short time; the customer sees it before confirming
+  const requestFxQuote = async (data: PaymentFormData): Promise<FxQuote | null> => {
+    try {
+      const resp = await apiService.getFxQuote({
+        sourceCurrency: data.payFromCurrency!,
+        targetCurrency: data.currency,
+        targetAmount: parseFloat(data.amount),
+      });
+      const quote: FxQuote = resp.data.quote;
+      setFxQuote(quote);
+      return quote;
+    } catch (error) {
+      setPaymentError(error instanceof Error ? error.message : 'Could not get an exchange rate. Please try again.');
+      return null;
+    }
+  };
+
+  // Fees are shown before the customer confirms, in the currency they are charged in
+  const requestFees = async (data: PaymentFormData, quote: FxQuote | null): Promise<PaymentFees | null> => {
+    try {
+      const resp = await apiService.getPaymentFees({
+        amount: data.amount,
+        currency: data.currency,
+        recipientIBAN: data.recipientIban,
+        recipientCountry: data.recipientCountry,
+        chargeBearer: data.chargeBearer || 'SHA',
+        ...(quote && { fxQuoteId: quote.quoteId }),
+      });
+      const preview: PaymentFees = resp.data.fees;
+      setFees(preview);
+      return preview;
+    } catch (error) {
+      setPaymentError(error instanceof Error ? error.message : 'Could not calculate the fees. Please try again.');
+      return null;
+    }
+  };
+
+  // When the recipient is credited depends on the currency's cut-off and business days
+  const requestValueDate = async (data: PaymentFormData) => {
+    setValueDate(null);
+    try {
+      const resp = await apiService.getValueDate(data.currency, data.executionDate || undefined);
+      setValueDate(resp.data || null);
+    } catch (error) {
+      console.error('Error fetching value date:', error);
+    }
+  };
+
+  const confirmPayment = async (confirmDuplicate: boolean = false) => {
+    if (!formData || isLoading) return;
 
     setIsLoading(true);
+    setPaymentError('');
     try {
-      await onSubmitPayment(formData);
+      await onSubmitPayment({
+        ...formData,
+        ...(confirmDuplicate && { confirmDuplicate: true }),
+        ...(fxQuote && { fxQuoteId: fxQuote.quoteId }),
+      }, idempotencyKey);
       reset();
+      setSelectedBeneficiary(null);
       setShowConfirmation(false);
       setFormData(null);
+      setIdempotencyKey('');
+      setPossibleDuplicate(null);
+      setFxQuote(null);
+      setFees(null);
+      setValueDate(null);
+      loadLimits();
     } catch (error) {
-      // Display detailed backend validation errors if available
       const err = error as any;
+      if (err?.data?.error === 'POSSIBLE_DUPLICATE') {
+        setPossibleDuplicate(err.data.data?.possibleDuplicateOf || null);
+        return;
+      }
+      if (err?.data?.error === 'QUOTE_EXPIRED' && formData) {
+        const quote = await requestFxQuote(formData);
+        if (quote && await requestFees(formData, quote)) {
+          setIdempotencyKey(generateSecureToken());
+          setPaymentError('The exchange rate expired. Please review the new rate and confirm again.');
+        }
+        return;
+      }
+      // Display detailed backend validation errors if available
       const baseMessage = err?.message || 'Payment failed. Please try again.';
       const details = err?.data?.errors;
       if (Array.isArray(details) && details.length > 0) {
@@ -221,6 +503,11 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
   const cancelPayment = () => {
     setShowConfirmation(false);
     setFormData(null);
+    setIdempotencyKey('');
+    setPossibleDuplicate(null);
+    setFxQuote(null);
+    setFees(null);
+    setValueDate(null);
   };
 
   if (showConfirmation && formData) {
@@ -249,8 +536,52 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
             <div>
               <h4 style={{ color: '#495057', marginBottom: '1rem' }}>Payment Details</h4>
               <p><strong>Amount:</strong> {formData.amount} {formData.currency}</p>
+              {fxQuote && (
+                <p>
+                  <strong>You pay:</strong> {fxQuote.sourceAmount} {fxQuote.sourceCurrency}
+                  {' '}(1 {fxQuote.sourceCurrency} = {fxQuote.rate} {fxQuote.targetCurrency}, rate held until {new Date(fxQuote.expiresAt).toLocaleTimeString()})
+                </p>
+              )}
+              <p><strong>Charges:</strong> {chargeBearers.find(c => c.value === (formData.chargeBearer || 'SHA'))?.label}</p>
+              {fees && (
+                <div style={{ marginBottom: '1rem' }}>
+                  {fees.lines.length === 0 && <p>No fees for this payment.</p>}
+                  {fees.lines.map(line => (
+                    <p key={line.ruleId} style={{ margin: '0.25rem 0' }}>
+                      {line.description}: {line.amount} {fees.currency}
+                    </p>
+                  ))}
+                  {fees.lines.length > 0 && (
+                    <p>
+                      <strong>Total fees:</strong> {fees.total} {fees.currency}
+                      {fees.deductedFromAmount ? ' (deducted from the amount sent)' : ' (charged to your account)'}
+                    </p>
+                  )}
+                  <p>
+                    <strong>Sent to the recipient:</strong> {fees.settlementAmount} {formData.currency}
+                    {(formData.chargeBearer || 'SHA') === 'SHA' && ' (their bank may charge its own fees)'}
+                  </p>
+                </div>
+              )}
+              {valueDate && (
+                <p>
+                  <strong>Value date:</strong> {new Date(valueDate.valueDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                  {valueDate.nextBusinessDay
+                    ? ' (after the cut-off or on a bank holiday, so it is sent on the next business day)'
+                    : ` (cut-off ${new Date(valueDate.cutOffAt).toLocaleTimeString()})`}
+                  {formData.frequency && ' for the first payment'}
+                </p>
+              )}
               <p><strong>Reference:</strong> {formData.reference}</p>
               <p><strong>Purpose:</strong> {formData.purpose}</p>
+              {(formData.executionDate || formData.frequency) && (
+                <p>
+                  <strong>Schedule:</strong> {formData.executionDate || 'Today'}
+                  {formData.frequency && `, ${frequencies.find(f => f.value === formData.frequency)?.label.toLowerCase()}`}
+                  {formData.endDate && ` until ${formData.endDate}`}
+                  {formData.occurrences && ` (${formData.occurrences} payments)`}
+                </p>
+              )}
             </div>
           </Grid>
         </div>
@@ -261,6 +592,15 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
           </Alert>
         )}
 
+        {possibleDuplicate && (
+          <Alert type="warning">
+            You sent {possibleDuplicate.amount} {possibleDuplicate.currency} to this account with reference
+            "{possibleDuplicate.reference}" on {new Date(possibleDuplicate.createdAt).toLocaleString()}
+            {' '}(transaction {possibleDuplicate.transactionId}, {possibleDuplicate.status}).
+            Is this a new payment?
+          </Alert>
+        )}
+
         <Grid columns={2}>
           <Button 
             variant="secondary" 
@@ -270,13 +610,15 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
             Cancel
           </Button>
           <Button 
-            onClick={confirmPayment}
+            onClick={() => confirmPayment(!!possibleDuplicate)}
             disabled={isLoading}
           >
             {isLoading ? (
               <>
                 <LoadingSpinner /> Processing...
               </>
+            ) : possibleDuplicate ? (
+              'Yes, Send Again'
             ) : (
               'Confirm Payment'
             )}
@@ -305,12 +647,71 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
           Recipient Information
         </h3>
 
+        {beneficiaries.length > 0 && (
+          <FormGroup>
+            <Label htmlFor="beneficiarySearch">Saved Beneficiaries</Label>
+            {selectedBeneficiary ? (
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', background: '#f8f9fa', padding: '0.75rem', borderRadius: '8px' }}>
+                <span>
+                  <strong>{selectedBeneficiary.nickname || selectedBeneficiary.name}</strong> · {selectedBeneficiary.iban}
+                </span>
+                <Button type="button" variant="secondary" onClick={clearBeneficiary}>
+                  Enter new recipient
+                </Button>
+              </div>
+            ) : (
+              <>
+                <Input
+                  id="beneficiarySearch"
+                  type="text"
+                  placeholder="Search by name, nickname or IBAN"
+                  value={beneficiarySearch}
+                  onChange={(e) => setBeneficiarySearch(e.target.value)}
+                />
+                <div style={{ maxHeight: '180px', overflowY: 'auto', border: '1px solid #e9ecef', borderRadius: '8px', marginTop: '0.5rem' }}>
+                  {filteredBeneficiaries.length === 0 ? (
+                    <p style={{ color: '#6c757d', padding: '0.75rem', margin: 0 }}>No matching beneficiaries.</p>
+                  ) : (
+                    filteredBeneficiaries.map(b => (
+                      <button
+                        key={b._id}
+                        type="button"
+                        disabled={b.coolingOff}
+                        onClick={() => selectBeneficiary(b)}
+                        style={{
+                          display: 'block',
+                          width: '100%',
+                          textAlign: 'left',
+                          padding: '0.75rem',
+                          border: 'none',
+                          borderBottom: '1px solid #e9ecef',
+                          background: 'white',
+                          cursor: b.coolingOff ? 'not-allowed' : 'pointer',
+                          color: b.coolingOff ? '#adb5bd' : 'inherit'
+                        }}
+                      >
+                        <strong>{b.nickname || b.name}</strong> · {b.iban}
+                        {b.coolingOff && (
+                          <span style={{ display: 'block', fontSize: '12px' }}>
+                            Available from {new Date(b.coolingOffUntil).toLocaleString()}
+                          </span>
+                        )}
+                      </button>
+                    ))
+                  )}
+                </div>
+              </>
+            )}
+          </FormGroup>
+        )}
+
         <FormGroup>
           <Label htmlFor="recipientName">Recipient Full Name</Label>
           <Input
             id="recipientName"
             type="text"
             placeholder="Enter recipient's full name"
+            readOnly={recipientLocked}
             hasError={!!errors.recipientName}
             {...register('recipientName')}
           />
@@ -327,6 +728,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
             id="recipientEmail"
             type="email"
             placeholder="Enter recipient's email"
+            readOnly={recipientLocked}
             hasError={!!errors.recipientEmail}
             {...register('recipientEmail')}
           />
@@ -344,8 +746,9 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
               id="recipientIban"
               type="text"
               placeholder="GB29 NWBK 6016 1331 9268 19"
+              readOnly={recipientLocked}
               hasError={!!errors.recipientIban}
-              {...register('recipientIban')}
+              {...register('recipientIban', { onBlur: (e) => suggestBicForIban(e.target.value) })}
             />
             {errors.recipientIban && (
               <ErrorMessage>
@@ -360,6 +763,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
               id="recipientSwift"
               type="text"
               placeholder="NWBKGB2L"
+              readOnly={recipientLocked}
               hasError={!!errors.recipientSwift}
               {...register('recipientSwift')}
             />
@@ -368,6 +772,18 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
                 ⚠️ {errors.recipientSwift.message}
               </ErrorMessage>
             )}
+            {bicSuggestion && !recipientLocked && (
+              <div style={{ fontSize: '12px', color: '#6c757d', marginTop: '0.25rem' }}>
+                {bicSuggestion.institution}, {bicSuggestion.city}
+                {watch('recipientSwift')?.toUpperCase() !== bicSuggestion.bic && (
+                  <button
+                    type="button"
+                    onClick={() => setValue('recipientSwift', bicSuggestion.bic, { shouldValidate: true })}
+                    style={{ marginLeft: '0.5rem', background: 'none', border: 'none', color: '#4f46e5', cursor: 'pointer', padding: 0 }}
+                  >Use {bicSuggestion.bic}</button>
+                )}
+              </div>
+            )}
           </FormGroup>
         </Grid>
 
@@ -377,6 +793,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
             id="recipientAddress"
             type="text"
             placeholder="Enter recipient's address"
+            readOnly={recipientLocked}
             hasError={!!errors.recipientAddress}
             {...register('recipientAddress')}
           />
@@ -394,6 +811,7 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
               id="recipientCity"
               type="text"
               placeholder="Enter city"
+              readOnly={recipientLocked}
               hasError={!!errors.recipientCity}
               {...register('recipientCity')}
             />
@@ -408,6 +826,9 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
             <Label htmlFor="recipientCountry">Country</Label>
             <Select
               id="recipientCountry"
+              // Not `disabled`: react-hook-form drops disabled fields from the submitted values
+              tabIndex={recipientLocked ? -1 : undefined}
+              style={recipientLocked ? { pointerEvents: 'none', background: '#f8f9fa' } : undefined}
               hasError={!!errors.recipientCountry}
               {...register('recipientCountry')}
             >
@@ -438,7 +859,6 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
               type="number"
               step="0.01"
               min="1"
-              max="50000"
               placeholder="0.00"
               hasError={!!errors.amount}
               {...register('amount')}
@@ -448,6 +868,12 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
                 ⚠️ {errors.amount.message}
               </ErrorMessage>
             )}
+            {limits && limits.remaining.perTransaction !== null && (
+              <small style={{ color: '#6c757d' }}>
+                Up to {limits.remaining.perTransaction.toFixed(2)} {limits.baseCurrency} (or equivalent) available now
+                {limits.remaining.monthly !== null && ` · ${limits.remaining.monthly.toFixed(2)} ${limits.baseCurrency} left this month`}
+              </small>
+            )}
           </FormGroup>
 
           <FormGroup>
@@ -472,6 +898,42 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
           </FormGroup>
         </Grid>
 
+        <FormGroup>
+          <Label htmlFor="payFromCurrency">Pay From</Label>
+          <Select
+            id="payFromCurrency"
+            hasError={!!errors.payFromCurrency}
+            {...register('payFromCurrency')}
+          >
+            <option value="">Same currency as the payment</option>
+            {currencies.map(currency => (
+              <option key={currency.code} value={currency.code}>
+                {currency.code} account - converted at a quoted rate
+              </option>
+            ))}
+          </Select>
+          {errors.payFromCurrency && (
+            <ErrorMessage>
+              ⚠️ {errors.payFromCurrency.message}
+            </ErrorMessage>
+          )}
+        </FormGroup>
+
+        <FormGroup>
+          <Label htmlFor="chargeBearer">Charges</Label>
+          <Select
+            id="chargeBearer"
+            hasError={!!errors.chargeBearer}
+            {...register('chargeBearer')}
+          >
+            {chargeBearers.map(bearer => (
+              <option key={bearer.value} value={bearer.value}>
+                {bearer.label}
+              </option>
+            ))}
+          </Select>
+        </FormGroup>
+
         {watchedAmount && watchedCurrency && (
           <Alert type="info">
             You are sending {watchedAmount} {watchedCurrency}
@@ -515,6 +977,81 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ onSubmitPayment, userE
           )}
         </FormGroup>
 
+        <h3 style={{ color: '#495057', marginBottom: '1rem', marginTop: '2rem', borderBottom: '2px solid #e9ecef', paddingBottom: '0.5rem' }}>
+          Schedule (optional)
+        </h3>
+
+        <Grid columns={2}>
+          <FormGroup>
+            <Label htmlFor="executionDate">Execution Date</Label>
+            <Input
+              id="executionDate"
+              type="date"
+              min={todayIso()}
+              hasError={!!errors.executionDate}
+              {...register('executionDate')}
+            />
+            {errors.executionDate && (
+              <ErrorMessage>
+                ⚠️ {errors.executionDate.message}
+              </ErrorMessage>
+            )}
+          </FormGroup>
+
+          <FormGroup>
+            <Label htmlFor="frequency">Repeat</Label>
+            <Select
+              id="frequency"
+              hasError={!!errors.frequency}
+              {...register('frequency')}
+            >
+              {frequencies.map(f => (
+                <option key={f.value} value={f.value}>
+                  {f.label}
+                </option>
+              ))}
+            </Select>
+          </FormGroup>
+        </Grid>
+
+        {watchedFrequency && (
+          <Grid columns={2}>
+            <FormGroup>
+              <Label htmlFor="endDate">Ends On</Label>
+              <Input
+                id="endDate"
+                type="date"
+                min={todayIso()}
+                hasError={!!errors.endDate}
+                {...register('endDate')}
+              />
+              {errors.endDate && (
+                <ErrorMessage>
+                  ⚠️ {errors.endDate.message}
+                </ErrorMessage>
+              )}
+            </FormGroup>
+
+            <FormGroup>
+              <Label htmlFor="occurrences">Number of Payments</Label>
+              <Input
+                id="occurrences"
+                type="number"
+                min="1"
+                max="120"
+                placeholder="e.g. 12"
+                hasError={!!errors.occurrences}
+                {...register('occurrences')}
+              />
+              {errors.occurrences && (
+                <ErrorMessage>
+                  ⚠️ {errors.occurrences.message}
+                </ErrorMessage>
+              )}
+            </FormGroup>
+          </Grid>
+        )}
+
         <Button 
           type="submit" 
           style={{ width: '100%', marginTop: '1rem' }}
@@ -3,11 +3,24 @@ import { SecureStorage } from '../utils/security';
 const RAW_API_BASE = process.env.REACT_APP_API_BASE_URL || process.env.REACT_APP_API_URL || 'http://localhost:5001';
 const API_BASE_URL = RAW_API_BASE.endsWith('/api') ? RAW_API_BASE : `${RAW_API_BASE}/api`;
 
-// TODO: Add retry logic for failed requests
 // FIXME: Error handling could be more specific
 
+// Dispatched on window when the refresh token is rejected and the user has to log in again
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+// 401s from the auth middleware about the access token itself; other 401s (wrong password or code) are final
+const SESSION_TOKEN_ERRORS = ['TOKEN_EXPIRED', 'TOKEN_REVOKED', 'TOKEN_INVALID'];
+
+// Result of the step-up prompt: a short-lived token for the X-Step-Up-Token header, or null if cancelled
+export type StepUpHandler = () => Promise<{ stepUpToken: string; expiresAt: string } | null>;
+
 class ApiService {
   private baseURL: string;
+  // Shared so concurrent 401s trigger a single refresh; each refresh token can only be used once
+  private refreshing: Promise<boolean> | null = null;
+  private stepUpHandler: StepUpHandler | null = null;
+  // Prompts queue so only one is shown at a time
+  private confirming: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.baseURL = API_BASE_URL;
@@ -17,16 +30,48 @@ class ApiService {
   }
 
   public async request(endpoint: string, options: RequestInit = {}): Promise<any> {
+    try {
+      return await this.sendWithStepUp(endpoint, options);
+    } catch (error: any) {
+      // Access tokens are short-lived: renew once with the refresh token and retry
+      if (error?.status === 401 && SESSION_TOKEN_ERRORS.includes(error.data?.error) && await this.refreshSession()) {
+        return this.sendWithStepUp(endpoint, options);
+      }
+      throw error;
+    }
+  }
+
+  // Registered by the app shell, which asks the user to confirm their identity
+  public setStepUpHandler(handler: StepUpHandler | null) {
+    this.stepUpHandler = handler;
+  }
+
+  private async sendWithStepUp(endpoint: string, options: RequestInit): Promise<any> {
+    try {
+      return await this.send(endpoint, options);
+    } catch (error: any) {
+      if (error?.status !== 401 || error.data?.error !== 'STEP_UP_REQUIRED') throw error;
+      // Sensitive actions: confirm identity, then retry once with the step-up token
+      const stepUpToken = await this.confirmIdentity();
+      if (!stepUpToken) throw error;
+      return this.send(endpoint, {
+        ...options,
+        headers: { ...(options.headers as Record<string, string>), 'X-Step-Up-Token': stepUpToken },
+      });
+    }
+  }
+
+  private async send(endpoint: string, options: RequestInit): Promise<any> {
     const url = `${this.baseURL}${endpoint}`;
     const token = SecureStorage.getItem('authToken');
 
     const config: RequestInit = {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
         ...(token && { Authorization: `Bearer ${token}` }),
         ...options.headers,
       },
-      ...options,
     };
 
     // Debug: Log outgoing requests
@@ -54,6 +99,46 @@ class ApiService {
     }
   }
 
+  private refreshSession(): Promise<boolean> {
+    const refreshToken = SecureStorage.getItem('refreshToken');
+    if (!refreshToken) return Promise.resolve(false);
+
+    if (!this.refreshing) {
+      this.refreshing = this.send('/auth/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+      })
+        .then((resp) => {
+          SecureStorage.setItem('authToken', resp.data.token);
+          SecureStorage.setItem('refreshToken', resp.data.refreshToken);
+          return true;
+        })
+        .catch(() => {
+          SecureStorage.removeItem('authToken');
+          SecureStorage.removeItem('refreshToken');
+          window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+          return false;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  // A step-up token authorises one action, so every blocked action gets its own prompt
+  private confirmIdentity(): Promise<string | null> {
+    const handler = this.stepUpHandler;
+    if (!handler) return Promise.resolve(null);
+
+    const prompt = this.confirming
+      .then(() => handler())
+      .then((result) => result?.stepUpToken || null)
+      .catch(() => null);
+    this.confirming = prompt;
+    return prompt;
+  }
+
   // Authentication endpoints
   async login(email: string, password: string) {
     return this.request('/auth/login', {
@@ -78,6 +163,109 @@ class ApiService {
     
     return this.request('/auth/logout', {
       method: 'POST',
+      body: JSON.stringify({ refreshToken: SecureStorage.getItem('refreshToken') }),
+    });
+  }
+
+  // Second login step after a mfa_required response
+  async verifyMfa(mfaToken: string, factor: { code: string } | { recoveryCode: string }) {
+    return this.request('/auth/mfa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ mfaToken, ...factor }),
+    });
+  }
+
+  // Enrolment works signed in, or with the challenge token from a mfa_enrollment_required login
+  async setupMfa(mfaToken?: string) {
+    return this.request('/auth/mfa/setup', {
+      method: 'POST',
+      body: JSON.stringify(mfaToken ? { mfaToken } : {}),
+    });
+  }
+
+  async enableMfa(code: string, mfaToken?: string) {
+    return this.request('/auth/mfa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code, ...(mfaToken && { mfaToken }) }),
+    });
+  }
+
+  async regenerateRecoveryCodes(code: string) {
+    return this.request('/auth/mfa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async disableMfa(password: string, code: string) {
+    return this.request('/auth/mfa/disable', {
+      method: 'POST',
+      body: JSON.stringify({ password, code }),
+    });
+  }
+
+  // Passkeys (WebAuthn); credentials are passed as produced by utils/webauthn
+  async getPasskeyLoginOptions() {
+    return this.request('/auth/webauthn/login/options', { method: 'POST' });
+  }
+
+  async loginWithPasskey(credential: any) {
+    return this.request('/auth/webauthn/login', {
+      method: 'POST',
+      body: JSON.stringify({ credential }),
+    });
+  }
+
+  async getPasskeyRegistrationOptions() {
+    return this.request('/auth/webauthn/register/options', { method: 'POST' });
+  }
+
+  async registerPasskey(credential: any, name: string) {
+    return this.request('/auth/webauthn/register', {
+      method: 'POST',
+      body: JSON.stringify({ credential, name }),
+    });
+  }
+
+  async getPasskeys() {
+    return this.request('/auth/webauthn/credentials');
+  }
+
+  async deletePasskey(credentialId: string) {
+    return this.request(`/auth/webauthn/credentials/${encodeURIComponent(credentialId)}`, { method: 'DELETE' });
+  }
+
+  // Step-up: the methods on offer, then one of a passkey assertion, an authenticator code or the password
+  async getStepUpOptions() {
+    return this.request('/auth/step-up/options', { method: 'POST' });
+  }
+
+  async confirmStepUp(proof: { webauthn: any } | { code: string } | { password: string }) {
+    return this.request('/auth/step-up', {
+      method: 'POST',
+      body: JSON.stringify(proof),
+    });
+  }
+
+  // Password reset: the email step always succeeds; the token comes from the emailed link
+  async forgotPassword(email: string) {
+    return this.request('/auth/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, newPassword: string) {
+    return this.request('/auth/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, newPassword }),
+    });
+  }
+
+  async changePassword(currentPassword: string, newPassword: string) {
+    return this.request('/auth/password', {
+      method: 'PUT',
+      body: JSON.stringify({ currentPassword, newPassword }),
     });
   }
 
@@ -94,7 +282,7 @@ class ApiService {
   }
 
   // Payment endpoints
-  async createPayment(paymentData: any) {
+  async createPayment(paymentData: any, idempotencyKey?: string) {
     // Debug: Log payment creation
     console.log('Creating payment:', { 
       amount: paymentData.amount, 
@@ -104,6 +292,7 @@ class ApiService {
     
     return this.request('/payments', {
       method: 'POST',
+      ...(idempotencyKey && { headers: { 'Idempotency-Key': idempotencyKey } }),
       body: JSON.stringify(paymentData),
     });
   }
@@ -116,6 +305,47 @@ class ApiService {
     return this.request(`/payments/${id}`);
   }
 
+  // Scheduled and recurring payment endpoints
+  async getScheduledPayments() {
+    return this.request('/payments/scheduled');
+  }
+
+  async scheduledPaymentAction(id: string, action: 'pause' | 'resume' | 'skip' | 'cancel') {
+    return this.request(`/payments/scheduled/${id}/${action}`, {
+      method: 'PUT',
+    });
+  }
+
+  // Beneficiary (address book) endpoints
+  async getBeneficiaries(query?: string) {
+    return this.request(`/beneficiaries${query ? `?q=${encodeURIComponent(query)}` : ''}`);
+  }
+
+  async createBeneficiary(beneficiary: any) {
+    return this.request('/beneficiaries', {
+      method: 'POST',
+      body: JSON.stringify(beneficiary),
+    });
+  }
+
+  async updateBeneficiary(id: string, changes: any) {
+    return this.request(`/beneficiaries/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async deleteBeneficiary(id: string) {
+    return this.request(`/beneficiaries/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Account ledger endpoints
+  async getAccountBalance(currency?: string) {
+    return this.request(`/accounts/balance${currency ? `?currency=${encodeURIComponent(currency)}` : ''}`);
+  }
+
   // Employee endpoints
   async employeeGetAllPayments(page: number = 1, limit: number = 20, filters: Record<string, string | number | boolean> = {}) {
     const params = new URLSearchParams({ page: String(page), limit: String(limit) });
@@ -156,8 +386,14 @@ class ApiService {
 
   async employeeDeletePayment(id: string) {
     return this.request(`/employee/payments/${id}`, {
-      method: 'DELETE',
-      headers: { 'x-action-confirm': 'true' }
+      method: 'DELETE'
+    });
+  }
+
+  async employeeScreeningDecision(id: string, decision: 'clear' | 'confirm', note: string) {
+    return this.request(`/employee/payments/${id}/screening/${decision}`, {
+      method: 'PUT',
+      body: JSON.stringify({ note })
     });
   }
 
@@ -168,7 +404,6 @@ class ApiService {
   async employeeBulkAction(action: 'reject' | 'cancel' | 'trash' | 'restore', ids: string[], reason?: string, reasonCode?: string) {
     return this.request(`/employee/payments/bulk`, {
       method: 'POST',
-      headers: { 'x-action-confirm': 'true' },
       body: JSON.stringify({ action, ids, reason, reasonCode })
     });
   }
@@ -221,6 +456,67 @@ class ApiService {
     return this.request('/employee/reasons');
   }
 
+  async getFxQuote(request: { sourceCurrency?: string; targetCurrency: string; targetAmount: number }) {
+    return this.request('/fx/quote', {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  }
+
+  async getPaymentFees(params: { amount: string; currency: string; recipientIBAN: string; recipientCountry?: string; chargeBearer?: string; fxQuoteId?: string }) {
+    const query = new URLSearchParams(Object.entries(params).filter(([, v]) => !!v) as [string, string][]);
+    return this.request(`/payments/fees?${query.toString()}`);
+  }
+
+  async getValueDate(currency: string, executionDate?: string) {
+    const query = new URLSearchParams({ currency, ...(executionDate && { executionDate }) });
+    return this.request(`/payments/value-date?${query.toString()}`);
+  }
+
+  async getCutOffQueue() {
+    return this.request('/employee/payments/cut-off');
+  }
+
+  async getTransferLimits() {
+    return this.request('/payments/limits');
+  }
+
+  async getCustomerLimits(userId: string) {
+    return this.request(`/employee/customers/${encodeURIComponent(userId)}/limits`);
+  }
+
+  async setCustomerLimitOverride(userId: string, override: { perTransaction: number | null; daily: number | null; monthly: number | null; expiresAt: string | null; reason: string }) {
+    return this.request(`/employee/customers/${encodeURIComponent(userId)}/limits`, {
+      method: 'PUT',
+      body: JSON.stringify(override)
+    });
+  }
+
+  async removeCustomerLimitOverride(userId: string, reason: string) {
+    return this.request(`/employee/customers/${encodeURIComponent(userId)}/limits`, {
+      method: 'DELETE',
+      body: JSON.stringify({ reason })
+    });
+  }
+
+  async employeeForceLogout(userId: string, reason: string) {
+    return this.request(`/employee/customers/${encodeURIComponent(userId)}/logout`, {
+      method: 'POST',
+      body: JSON.stringify({ reason })
+    });
+  }
+
+  async getAmlRules() {
+    return this.request('/employee/aml/rules');
+  }
+
+  async updateAmlRules(ruleSet: { escalateScore: number; holdScore: number; rules: any[]; changeNote: string; baseVersion: number }) {
+    return this.request('/employee/aml/rules', {
+      method: 'PUT',
+      body: JSON.stringify(ruleSet)
+    });
+  }
+
   // Validation endpoints
   async validateIBAN(iban: string) {
     // Debug: Log IBAN validation
@@ -242,15 +538,18 @@ class ApiService {
     });
   }
 
-  // Experimental: Batch operations (not implemented yet)
-  /*
-  async batchCreatePayments(payments: any[]) {
+  // Bulk payment uploads
+  async batchCreatePayments(batch: { format: 'csv' | 'json'; file?: string; fileName?: string; payments?: any[] }, idempotencyKey?: string) {
     return this.request('/payments/batch', {
       method: 'POST',
-      body: JSON.stringify({ payments }),
+      ...(idempotencyKey && { headers: { 'Idempotency-Key': idempotencyKey } }),
+      body: JSON.stringify(batch),
     });
   }
-  */
+
+  async getPaymentBatches() {
+    return this.request('/payments/batches');
+  }
 }
 
 export const apiService = new ApiService();
\ No newline at end of file
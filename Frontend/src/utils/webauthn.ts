@@ -0,0 +1,76 @@
+// Browser side of WebAuthn: the API sends options with base64url strings where the browser
+// wants ArrayBuffers, and expects the credential back in the same encoding.
+
+export const isWebAuthnSupported = (): boolean => (
+  typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials
+);
+
+const fromBase64Url = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+const toBase64Url = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const toDescriptors = (credentials: Array<{ id: string; type: string; transports?: string[] }> = []) => (
+  credentials.map(c => ({ ...c, id: fromBase64Url(c.id) })) as PublicKeyCredentialDescriptor[]
+);
+
+/**
+ * Register a passkey with options from /auth/webauthn/register/options
+ */
+export const createPasskey = async (options: any) => {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      user: { ...options.user, id: fromBase64Url(options.user.id) },
+      excludeCredentials: toDescriptors(options.excludeCredentials),
+    },
+  }) as PublicKeyCredential | null;
+  if (!credential) throw new Error('Passkey registration was cancelled.');
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: typeof response.getTransports === 'function' ? response.getTransports() : [],
+    },
+  };
+};
+
+/**
+ * Sign a login or step-up challenge with a passkey
+ */
+export const getPasskeyAssertion = async (options: any) => {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      allowCredentials: toDescriptors(options.allowCredentials),
+    },
+  }) as PublicKeyCredential | null;
+  if (!credential) throw new Error('Passkey sign-in was cancelled.');
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+    },
+  };
+};
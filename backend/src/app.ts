@@ -25,6 +25,15 @@ import paymentRoutes from './routes/payment';
 import employeeRoutes from './routes/employee';
 import validationRoutes from './routes/validation';
 import transactionRoutes from './routes/transaction';
+import accountRoutes from './routes/account';
+import beneficiaryRoutes from './routes/beneficiary';
+import fxRoutes from './routes/fx';
+import { scheduleTrialBalance } from './jobs/trialBalance';
+import { scheduleDuePaymentProcessing } from './jobs/scheduledPayments';
+import { loadBicDirectory } from './utils/bicDirectory';
+import { loadSanctionsList } from './utils/sanctionsScreening';
+import { loadFxRates } from './utils/fxRates';
+import { loadHolidayCalendars } from './utils/businessCalendar';
 
 // Create Express app
 const app: Application = express();
@@ -66,6 +75,9 @@ app.use('/api/auth', authRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/employee', employeeRoutes);
 app.use('/api/transactions', transactionRoutes);
+app.use('/api/accounts', accountRoutes);
+app.use('/api/beneficiaries', beneficiaryRoutes);
+app.use('/api/fx', fxRoutes);
 app.use('/api/validate', validationRoutes);
 
 // 404 handler
@@ -109,6 +121,32 @@ export const startServer = async (): Promise<void> => {
     // Initialize databases
     await initializeFirebase();
     await connectDB();
+
+    // Reference data: without a directory, BICs are only checked for shape
+    try {
+      loadBicDirectory();
+    } catch (error) {
+      logger.warn('BIC directory not loaded; BIC existence checks are disabled:', error);
+    }
+    try {
+      loadSanctionsList();
+    } catch (error) {
+      logger.warn('Sanctions list not loaded; recipients are only screened by country:', error);
+    }
+    try {
+      loadFxRates();
+    } catch (error) {
+      logger.warn('FX rate table not loaded; FX quotes are unavailable until rates are provided:', error);
+    }
+    try {
+      loadHolidayCalendars();
+    } catch (error) {
+      logger.warn('Holiday calendars not loaded; value dates only skip weekends:', error);
+    }
+
+    // Background jobs
+    scheduleTrialBalance();
+    scheduleDuePaymentProcessing();
     
     // Start server
     const PORT = config.port || 5001;
@@ -0,0 +1,108 @@
+export const AML_RULE_TYPES = ['velocity', 'amount_threshold', 'new_beneficiary_amount', 'high_risk_country', 'round_amount'] as const;
+
+export type AmlRuleType = typeof AML_RULE_TYPES[number];
+
+// Ordered by severity: the most severe action of any triggered rule wins
+export const AML_ACTIONS = ['allow', 'escalate', 'hold'] as const;
+
+export type AmlAction = typeof AML_ACTIONS[number];
+
+export interface IAmlRule {
+  // Stable key, referenced from risk assessments across versions
+  id: string;
+  name: string;
+  type: AmlRuleType;
+  enabled: boolean;
+  // Added to the payment's risk score when the rule triggers
+  score: number;
+  action: AmlAction;
+  params: Record<string, any>;
+}
+
+export interface IAmlRuleSetDefinition {
+  // Total scores at which a payment is escalated or held, whatever the individual rule actions
+  escalateScore: number;
+  holdScore: number;
+  rules: IAmlRule[];
+}
+
+/**
+ * Parameters per rule type. Amounts are in the payment's currency unless `currency` is set,
+ * in which case the rule only applies to payments in that currency.
+ * - velocity: windowMinutes, maxCount and/or maxAmount over the customer's recent payments
+ * - amount_threshold: minAmount, purposes (keywords matched in the purpose; empty = any), currency?
+ * - new_beneficiary_amount: minAmount, maxBeneficiaryAgeHours (ad-hoc payees never paid before also count), currency?
+ * - high_risk_country: countries (recipient, IBAN or BIC country)
+ * - round_amount: multiple, minAmount, windowHours, minCount (round payments in the window, this one included)
+ */
+export const DEFAULT_AML_RULE_SET: IAmlRuleSetDefinition = {
+  escalateScore: 40,
+  holdScore: 80,
+  rules: [
+    { id: 'velocity-hourly', name: 'More than 5 payments in an hour', type: 'velocity', enabled: true, score: 30, action: 'escalate', params: { windowMinutes: 60, maxCount: 5 } },
+    { id: 'velocity-daily-amount', name: 'More than 50,000 sent in 24 hours', type: 'velocity', enabled: true, score: 40, action: 'escalate', params: { windowMinutes: 1440, maxAmount: 50000 } },
+    { id: 'large-personal', name: 'Large personal transfer', type: 'amount_threshold', enabled: true, score: 50, action: 'hold', params: { minAmount: 50000, purposes: ['personal'] } },
+    { id: 'large-any', name: 'Payment of 100,000 or more', type: 'amount_threshold', enabled: true, score: 40, action: 'escalate', params: { minAmount: 100000, purposes: [] } },
+    { id: 'new-beneficiary-high', name: 'High amount to a new beneficiary', type: 'new_beneficiary_amount', enabled: true, score: 35, action: 'escalate', params: { minAmount: 10000, maxBeneficiaryAgeHours: 72 } },
+    { id: 'high-risk-country', name: 'High-risk jurisdiction', type: 'high_risk_country', enabled: true, score: 40, action: 'escalate', params: { countries: ['AF', 'MM', 'YE', 'LY', 'SO', 'SS', 'VE'] } },
+    { id: 'round-structuring', name: 'Repeated round amounts (possible structuring)', type: 'round_amount', enabled: true, score: 30, action: 'escalate', params: { multiple: 1000, minAmount: 1000, windowHours: 72, minCount: 3 } },
+  ],
+};
+
+const isPositive = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const REQUIRED_PARAMS: Record<AmlRuleType, string[]> = {
+  velocity: ['windowMinutes'],
+  amount_threshold: ['minAmount'],
+  new_beneficiary_amount: ['minAmount', 'maxBeneficiaryAgeHours'],
+  high_risk_country: [],
+  round_amount: ['multiple', 'windowHours', 'minCount'],
+};
+
+/**
+ * Check a rule set submitted for publication. Returns one message per problem found.
+ */
+export const validateAmlRuleSet = (input: any): string[] => {
+  const errors: string[] = [];
+  if (!input || typeof input !== 'object') return ['Rule set must be an object.'];
+  if (!isPositive(input.escalateScore)) errors.push('escalateScore must be a positive number.');
+  if (!isPositive(input.holdScore)) errors.push('holdScore must be a positive number.');
+  if (isPositive(input.escalateScore) && isPositive(input.holdScore) && input.holdScore < input.escalateScore) {
+    errors.push('holdScore must not be lower than escalateScore.');
+  }
+  if (!Array.isArray(input.rules) || input.rules.length === 0) return [...errors, 'rules must be a non-empty array.'];
+
+  const ids = new Set<string>();
+  input.rules.forEach((rule: any, i: number) => {
+    const at = `rules[${i}]`;
+    if (!rule || typeof rule !== 'object') { errors.push(`${at} must be an object.`); return; }
+    if (typeof rule.id !== 'string' || !/^[a-z0-9][a-z0-9-]{0,49}$/.test(rule.id)) errors.push(`${at}.id must be 1-50 lowercase letters, digits or hyphens.`);
+    else if (ids.has(rule.id)) errors.push(`${at}.id "${rule.id}" is used more than once.`);
+    else ids.add(rule.id);
+    if (typeof rule.name !== 'string' || !rule.name.trim() || rule.name.length > 100) errors.push(`${at}.name is required (max 100 characters).`);
+    if (!AML_RULE_TYPES.includes(rule.type)) { errors.push(`${at}.type must be one of ${AML_RULE_TYPES.join(', ')}.`); return; }
+    if (!AML_ACTIONS.includes(rule.action)) errors.push(`${at}.action must be one of ${AML_ACTIONS.join(', ')}.`);
+    if (typeof rule.enabled !== 'boolean') errors.push(`${at}.enabled must be true or false.`);
+    if (typeof rule.score !== 'number' || !Number.isFinite(rule.score) || rule.score < 0 || rule.score > 100) errors.push(`${at}.score must be between 0 and 100.`);
+
+    const params = rule.params;
+    if (!params || typeof params !== 'object' || Array.isArray(params)) { errors.push(`${at}.params must be an object.`); return; }
+    REQUIRED_PARAMS[rule.type as AmlRuleType]
+      .filter(key => !isPositive(params[key]))
+      .forEach(key => errors.push(`${at}.params.${key} must be a positive number.`));
+    if (rule.type === 'velocity' && !isPositive(params.maxCount) && !isPositive(params.maxAmount)) {
+      errors.push(`${at}.params needs maxCount and/or maxAmount.`);
+    }
+    if (rule.type === 'high_risk_country' && (!Array.isArray(params.countries) || params.countries.length === 0 || !params.countries.every((c: unknown) => typeof c === 'string' && /^[A-Z]{2}$/.test(c)))) {
+      errors.push(`${at}.params.countries must be a non-empty list of ISO country codes.`);
+    }
+    if (params.purposes !== undefined && (!Array.isArray(params.purposes) || !params.purposes.every((p: unknown) => typeof p === 'string'))) {
+      errors.push(`${at}.params.purposes must be a list of keywords.`);
+    }
+    if (params.currency !== undefined && (typeof params.currency !== 'string' || !/^[A-Z]{3}$/.test(params.currency))) {
+      errors.push(`${at}.params.currency must be an ISO currency code.`);
+    }
+  });
+
+  return errors;
+};
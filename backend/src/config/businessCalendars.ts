@@ -0,0 +1,23 @@
+export interface ICurrencyCalendar {
+  // Holiday calendars (data/holidays/*.json) the currency settles on; a day must be open in all of them
+  calendars: string[];
+  // IANA time zone the cut-off is expressed in
+  timeZone: string;
+  // HH:MM local time; payments submitted later are sent on the next business day
+  cutOff: string;
+  // Business days from the day the payment is sent until the recipient is credited
+  settlementDays: number;
+}
+
+// Sunday = 0 ... Saturday = 6
+export const WEEKEND_DAYS = [0, 6];
+
+export const CURRENCY_CALENDARS: Record<string, ICurrencyCalendar> = {
+  ZAR: { calendars: ['ZA'], timeZone: 'Africa/Johannesburg', cutOff: '15:00', settlementDays: 0 },
+  EUR: { calendars: ['TARGET2'], timeZone: 'Europe/Brussels', cutOff: '16:00', settlementDays: 1 },
+  USD: { calendars: ['US'], timeZone: 'America/New_York', cutOff: '17:00', settlementDays: 1 },
+  GBP: { calendars: ['GB'], timeZone: 'Europe/London', cutOff: '15:30', settlementDays: 1 },
+};
+
+// Currencies without their own calendar: weekends only, sent by midday UTC, settled in two days
+export const DEFAULT_CURRENCY_CALENDAR: ICurrencyCalendar = { calendars: [], timeZone: 'UTC', cutOff: '12:00', settlementDays: 2 };
@@ -0,0 +1,65 @@
+// Who pays the charges: OUR (the customer pays all), SHA (shared), BEN (the recipient pays all)
+export const CHARGE_BEARERS = ['OUR', 'SHA', 'BEN'] as const;
+
+export type ChargeBearer = typeof CHARGE_BEARERS[number];
+
+export const DEFAULT_CHARGE_BEARER: ChargeBearer = 'SHA';
+
+export const FEE_TYPES = ['flat', 'percentage', 'tiered'] as const;
+
+export type FeeType = typeof FEE_TYPES[number];
+
+// Each component is charged once: the first matching rule for it applies
+export const FEE_COMPONENTS = ['transfer', 'correspondent'] as const;
+
+export type FeeComponent = typeof FEE_COMPONENTS[number];
+
+export interface IFeeTier {
+  // Upper bound of the payment amount for this tier; null for the top tier
+  upTo: number | null;
+  amount?: number;
+  percent?: number;
+}
+
+export interface IFeeRule {
+  id: string;
+  // Shown to the customer on the fee line
+  description: string;
+  component: FeeComponent;
+  type: FeeType;
+  bearers: ChargeBearer[];
+  // Payment currencies and destination countries the rule is limited to; empty means any
+  currencies: string[];
+  countries: string[];
+  amount?: number;
+  percent?: number;
+  tiers?: IFeeTier[];
+  min?: number;
+  max?: number;
+}
+
+const SEPA_COUNTRIES = [
+  'AT', 'BE', 'BG', 'CH', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GB', 'GR', 'HR', 'HU', 'IE', 'IS',
+  'IT', 'LI', 'LT', 'LU', 'LV', 'MC', 'MT', 'NL', 'NO', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK', 'SM',
+];
+
+/**
+ * The bank's tariff. Money values are in the payment currency, so flat amounts, tier
+ * amounts, min and max belong on rules restricted to one currency; rules for any
+ * currency are percentage-based. More specific rules come first.
+ */
+export const FEE_SCHEDULE: IFeeRule[] = [
+  { id: 'domestic-zar', description: 'Domestic transfer fee', component: 'transfer', type: 'flat', bearers: ['OUR', 'SHA', 'BEN'], currencies: ['ZAR'], countries: ['ZA'], amount: 15 },
+  { id: 'sepa-eur', description: 'SEPA transfer fee', component: 'transfer', type: 'flat', bearers: ['OUR', 'SHA', 'BEN'], currencies: ['EUR'], countries: SEPA_COUNTRIES, amount: 2.5 },
+  {
+    id: 'intl-usd', description: 'International transfer fee', component: 'transfer', type: 'tiered', bearers: ['OUR', 'SHA', 'BEN'], currencies: ['USD'], countries: [],
+    tiers: [{ upTo: 1000, amount: 15 }, { upTo: 10000, amount: 25 }, { upTo: null, percent: 0.25 }], max: 150,
+  },
+  { id: 'intl-gbp', description: 'International transfer fee', component: 'transfer', type: 'percentage', bearers: ['OUR', 'SHA', 'BEN'], currencies: ['GBP'], countries: [], percent: 0.3, min: 10, max: 100 },
+  { id: 'intl-default', description: 'International transfer fee', component: 'transfer', type: 'percentage', bearers: ['OUR', 'SHA', 'BEN'], currencies: [], countries: [], percent: 0.35 },
+  // Paid up front so the recipient's and intermediary banks deduct nothing; SEPA has no intermediaries
+  { id: 'our-sepa', description: 'Correspondent bank charges (OUR)', component: 'correspondent', type: 'flat', bearers: ['OUR'], currencies: ['EUR'], countries: SEPA_COUNTRIES, amount: 0 },
+  { id: 'our-usd', description: 'Correspondent bank charges (OUR)', component: 'correspondent', type: 'flat', bearers: ['OUR'], currencies: ['USD'], countries: [], amount: 20 },
+  { id: 'our-eur', description: 'Correspondent bank charges (OUR)', component: 'correspondent', type: 'flat', bearers: ['OUR'], currencies: ['EUR'], countries: [], amount: 15 },
+  { id: 'our-default', description: 'Correspondent bank charges (OUR)', component: 'correspondent', type: 'percentage', bearers: ['OUR'], currencies: [], countries: [], percent: 0.1 },
+];
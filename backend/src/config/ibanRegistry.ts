@@ -0,0 +1,96 @@
+// IBAN structure per country, after the SWIFT IBAN Registry.
+// `bban` lists the BBAN segments in order as name:length+type, where the type is
+// n (digits), a (upper-case letters) or c (upper-case alphanumeric).
+// `length` is the full IBAN length including country code and check digits.
+
+export type IbanSegmentName = 'bank' | 'branch' | 'account' | 'check' | 'type' | 'currency' | 'reserved';
+
+export type NationalCheckAlgorithm = 'BE' | 'ES' | 'FR' | 'IT' | 'NO' | 'MOD97_10';
+
+export interface IIbanCountrySpec {
+  name: string;
+  length: number;
+  bban: string;
+  nationalCheck?: NationalCheckAlgorithm;
+}
+
+export const IBAN_REGISTRY: Record<string, IIbanCountrySpec> = {
+  AD: { name: 'Andorra', length: 24, bban: 'bank:4n branch:4n account:12c' },
+  AE: { name: 'United Arab Emirates', length: 23, bban: 'bank:3n account:16n' },
+  AL: { name: 'Albania', length: 28, bban: 'bank:3n branch:4n check:1n account:16c' },
+  AT: { name: 'Austria', length: 20, bban: 'bank:5n account:11n' },
+  AZ: { name: 'Azerbaijan', length: 28, bban: 'bank:4a account:20c' },
+  BA: { name: 'Bosnia and Herzegovina', length: 20, bban: 'bank:3n branch:3n account:8n check:2n', nationalCheck: 'MOD97_10' },
+  BE: { name: 'Belgium', length: 16, bban: 'bank:3n account:7n check:2n', nationalCheck: 'BE' },
+  BG: { name: 'Bulgaria', length: 22, bban: 'bank:4a branch:4n type:2n account:8c' },
+  BH: { name: 'Bahrain', length: 22, bban: 'bank:4a account:14c' },
+  BR: { name: 'Brazil', length: 29, bban: 'bank:8n branch:5n account:10n type:1a reserved:1c' },
+  BY: { name: 'Belarus', length: 28, bban: 'bank:4c type:4n account:16c' },
+  CH: { name: 'Switzerland', length: 21, bban: 'bank:5n account:12c' },
+  CR: { name: 'Costa Rica', length: 22, bban: 'reserved:1n bank:3n account:14n' },
+  CY: { name: 'Cyprus', length: 28, bban: 'bank:3n branch:5n account:16c' },
+  CZ: { name: 'Czech Republic', length: 24, bban: 'bank:4n account:16n' },
+  DE: { name: 'Germany', length: 22, bban: 'bank:8n account:10n' },
+  DK: { name: 'Denmark', length: 18, bban: 'bank:4n account:10n' },
+  DO: { name: 'Dominican Republic', length: 28, bban: 'bank:4c account:20n' },
+  EE: { name: 'Estonia', length: 20, bban: 'bank:2n account:14n' },
+  EG: { name: 'Egypt', length: 29, bban: 'bank:4n branch:4n account:17n' },
+  ES: { name: 'Spain', length: 24, bban: 'bank:4n branch:4n check:2n account:10n', nationalCheck: 'ES' },
+  FI: { name: 'Finland', length: 18, bban: 'bank:3n account:11n' },
+  FO: { name: 'Faroe Islands', length: 18, bban: 'bank:4n account:10n' },
+  FR: { name: 'France', length: 27, bban: 'bank:5n branch:5n account:11c check:2n', nationalCheck: 'FR' },
+  GB: { name: 'United Kingdom', length: 22, bban: 'bank:4a branch:6n account:8n' },
+  GE: { name: 'Georgia', length: 22, bban: 'bank:2a account:16n' },
+  GI: { name: 'Gibraltar', length: 23, bban: 'bank:4a account:15c' },
+  GL: { name: 'Greenland', length: 18, bban: 'bank:4n account:10n' },
+  GR: { name: 'Greece', length: 27, bban: 'bank:3n branch:4n account:16c' },
+  GT: { name: 'Guatemala', length: 28, bban: 'bank:4c account:20c' },
+  HR: { name: 'Croatia', length: 21, bban: 'bank:7n account:10n' },
+  HU: { name: 'Hungary', length: 28, bban: 'bank:3n branch:4n check:1n account:16n' },
+  IE: { name: 'Ireland', length: 22, bban: 'bank:4a branch:6n account:8n' },
+  IL: { name: 'Israel', length: 23, bban: 'bank:3n branch:3n account:13n' },
+  IQ: { name: 'Iraq', length: 23, bban: 'bank:4a branch:3n account:12n' },
+  IS: { name: 'Iceland', length: 26, bban: 'bank:4n type:2n account:16n' },
+  IT: { name: 'Italy', length: 27, bban: 'check:1a bank:5n branch:5n account:12c', nationalCheck: 'IT' },
+  JO: { name: 'Jordan', length: 30, bban: 'bank:4a branch:4n account:18c' },
+  KW: { name: 'Kuwait', length: 30, bban: 'bank:4a account:22c' },
+  KZ: { name: 'Kazakhstan', length: 20, bban: 'bank:3n account:13c' },
+  LB: { name: 'Lebanon', length: 28, bban: 'bank:4n account:20c' },
+  LC: { name: 'Saint Lucia', length: 32, bban: 'bank:4a account:24c' },
+  LI: { name: 'Liechtenstein', length: 21, bban: 'bank:5n account:12c' },
+  LT: { name: 'Lithuania', length: 20, bban: 'bank:5n account:11n' },
+  LU: { name: 'Luxembourg', length: 20, bban: 'bank:3n account:13c' },
+  LV: { name: 'Latvia', length: 21, bban: 'bank:4a account:13c' },
+  LY: { name: 'Libya', length: 25, bban: 'bank:3n branch:3n account:15n' },
+  MC: { name: 'Monaco', length: 27, bban: 'bank:5n branch:5n account:11c check:2n', nationalCheck: 'FR' },
+  MD: { name: 'Moldova', length: 24, bban: 'bank:2c account:18c' },
+  ME: { name: 'Montenegro', length: 22, bban: 'bank:3n account:13n check:2n', nationalCheck: 'MOD97_10' },
+  MK: { name: 'North Macedonia', length: 19, bban: 'bank:3n account:10c check:2n' },
+  MR: { name: 'Mauritania', length: 27, bban: 'bank:5n branch:5n account:11n check:2n' },
+  MT: { name: 'Malta', length: 31, bban: 'bank:4a branch:5n account:18c' },
+  MU: { name: 'Mauritius', length: 30, bban: 'bank:6c branch:2n account:12n reserved:3n currency:3a' },
+  NL: { name: 'Netherlands', length: 18, bban: 'bank:4a account:10n' },
+  NO: { name: 'Norway', length: 15, bban: 'bank:4n account:7n', nationalCheck: 'NO' },
+  PK: { name: 'Pakistan', length: 24, bban: 'bank:4a account:16c' },
+  PL: { name: 'Poland', length: 28, bban: 'bank:8n account:16n' },
+  PS: { name: 'Palestine', length: 29, bban: 'bank:4a account:21c' },
+  PT: { name: 'Portugal', length: 25, bban: 'bank:4n branch:4n account:11n check:2n', nationalCheck: 'MOD97_10' },
+  QA: { name: 'Qatar', length: 29, bban: 'bank:4a account:21c' },
+  RO: { name: 'Romania', length: 24, bban: 'bank:4a account:16c' },
+  RS: { name: 'Serbia', length: 22, bban: 'bank:3n account:13n check:2n', nationalCheck: 'MOD97_10' },
+  SA: { name: 'Saudi Arabia', length: 24, bban: 'bank:2n account:18c' },
+  SC: { name: 'Seychelles', length: 31, bban: 'bank:4a branch:4n account:16n currency:3a' },
+  SD: { name: 'Sudan', length: 18, bban: 'bank:2n account:12n' },
+  SE: { name: 'Sweden', length: 24, bban: 'bank:3n account:17n' },
+  SI: { name: 'Slovenia', length: 19, bban: 'bank:5n account:8n check:2n', nationalCheck: 'MOD97_10' },
+  SK: { name: 'Slovakia', length: 24, bban: 'bank:4n account:16n' },
+  SM: { name: 'San Marino', length: 27, bban: 'check:1a bank:5n branch:5n account:12c', nationalCheck: 'IT' },
+  SV: { name: 'El Salvador', length: 28, bban: 'bank:4a account:20n' },
+  TL: { name: 'Timor-Leste', length: 23, bban: 'bank:3n account:14n check:2n', nationalCheck: 'MOD97_10' },
+  TN: { name: 'Tunisia', length: 24, bban: 'bank:2n branch:3n account:15n' },
+  TR: { name: 'Turkey', length: 26, bban: 'bank:5n reserved:1n account:16c' },
+  UA: { name: 'Ukraine', length: 29, bban: 'bank:6n account:19c' },
+  VA: { name: 'Vatican City', length: 22, bban: 'bank:3n account:15n' },
+  VG: { name: 'British Virgin Islands', length: 24, bban: 'bank:4a account:16n' },
+  XK: { name: 'Kosovo', length: 20, bban: 'bank:4n account:10n check:2n' },
+};
@@ -27,7 +27,7 @@ export const config: IAppConfig = {
   nodeEnv: process.env['NODE_ENV'] || 'development',
   mongoUri: process.env['MONGODB_URI'] || 'mongodb://localhost:27017/secure_payment_portal',
   jwtSecret: process.env['JWT_SECRET'] as string,
-  jwtExpiresIn: process.env['JWT_EXPIRES_IN'] || '24h',
+  jwtExpiresIn: process.env['JWT_EXPIRES_IN'] || '15m',
   frontendUrl: process.env['FRONTEND_URL'] || 'http://localhost:3000',
   backendUrl: process.env['API_BASE_URL'] || process.env['BACKEND_URL'] || `http://localhost:${process.env['PORT'] || '5001'}`,
   allowedOrigins: (process.env['ALLOWED_ORIGINS'] || 'http://localhost:3000').split(','),
@@ -39,7 +39,7 @@ export const config: IAppConfig = {
 export const securityConfig = {
   jwtSecret: process.env['JWT_SECRET'] as string,
   jwtRefreshSecret: process.env['JWT_REFRESH_SECRET'] as string,
-  jwtExpiresIn: process.env['JWT_EXPIRES_IN'] || '24h',
+  jwtExpiresIn: process.env['JWT_EXPIRES_IN'] || '15m',
   jwtRefreshExpiresIn: process.env['JWT_REFRESH_EXPIRES_IN'] || '7d',
   encryptionKey: process.env['ENCRYPTION_KEY'] as string,
   encryptionIv: process.env['ENCRYPTION_IV'] || 'defaultiv1234567',
@@ -79,10 +79,12 @@ export const corsConfig = {
     'Accept',
     'Authorization',
     'X-CSRF-Token',
+    'Idempotency-Key',
+    'X-Step-Up-Token',
     'X-Forwarded-For',
     'User-Agent'
   ],
-  exposedHeaders: ['X-CSRF-Token'],
+  exposedHeaders: ['X-CSRF-Token', 'Idempotent-Replayed'],
   maxAge: 86400, // 24 hours
 };
 
@@ -115,10 +117,9 @@ export const validationConfig = {
     requireSpecialChars: true,
   },
   
-  // Payment limits
+  // Payment amounts; upper limits per customer tier live in config/transferLimits.ts
   payment: {
     minAmount: 1.00,
-    maxAmount: 50000.00,
     supportedCurrencies: ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'SEK', 'NZD', 'ZAR', 'BRL', 'INR', 'KRW', 'PLN'],
   },
   
@@ -133,6 +134,134 @@ export const validationConfig = {
   },
 };
 
+// Idempotency configuration
+export const idempotencyConfig = {
+  headerName: 'Idempotency-Key',
+  ttlMs: parseInt(process.env['IDEMPOTENCY_KEY_TTL_HOURS'] || '24', 10) * 60 * 60 * 1000,
+  maxKeyLength: 255,
+};
+
+// Ledger configuration
+export const ledgerConfig = {
+  // Owner ID used for the bank's own clearing and funding accounts
+  bankOwnerId: 'bank',
+  allowOverdraft: process.env['LEDGER_ALLOW_OVERDRAFT'] === 'true',
+  trialBalanceHourUtc: parseInt(process.env['TRIAL_BALANCE_HOUR_UTC'] || '2', 10),
+};
+
+// Beneficiary (address book) configuration
+export const beneficiaryConfig = {
+  // New beneficiaries, or ones whose account details change, cannot be paid until this has elapsed
+  coolingOffMs: parseInt(process.env['BENEFICIARY_COOLING_OFF_HOURS'] || '24', 10) * 60 * 60 * 1000,
+  maxPerUser: 200,
+};
+
+// Scheduled and recurring payments
+export const scheduledPaymentConfig = {
+  pollIntervalMs: parseInt(process.env['SCHEDULED_PAYMENTS_POLL_MINUTES'] || '15', 10) * 60 * 1000,
+  // Furthest a first execution date may be set in the future
+  maxHorizonDays: 365,
+  maxOccurrences: 120,
+};
+
+// Bulk payment uploads
+export const paymentBatchConfig = {
+  maxRows: parseInt(process.env['PAYMENT_BATCH_MAX_ROWS'] || '500', 10),
+};
+
+// Duplicate payment detection: same payee, amount and currency with a similar reference
+export const duplicatePaymentConfig = {
+  windowHours: parseInt(process.env['DUPLICATE_PAYMENT_WINDOW_HOURS'] || '24', 10),
+  // Jaro-Winkler similarity (0-1) at which two references count as the same
+  referenceSimilarity: 0.85,
+};
+
+// Transfer limits per customer tier (see config/transferLimits.ts)
+export const transferLimitConfig = {
+  // Currency the tier caps are expressed in; other currencies are converted at the reference rates
+  baseCurrency: (process.env['LIMITS_BASE_CURRENCY'] || 'EUR').toUpperCase(),
+};
+
+// Maker-checker: validating a payment above the threshold (limits base currency) takes two different employees
+export const approvalConfig = {
+  secondApprovalThreshold: parseFloat(process.env['SECOND_APPROVAL_THRESHOLD'] || '10000'),
+};
+
+// Foreign exchange: customers pay from their account currency at a quoted rate
+export const fxConfig = {
+  // JSON rate table (base, rates per base unit, spreads in basis points); defaults to data/fx-rates.json
+  ratesPath: process.env['FX_RATES_PATH'] || '',
+  quoteTtlSeconds: parseInt(process.env['FX_QUOTE_TTL_SECONDS'] || '60', 10),
+  // Account currency for customers who have not been given one
+  defaultAccountCurrency: (process.env['DEFAULT_ACCOUNT_CURRENCY'] || 'ZAR').toUpperCase(),
+};
+
+// Business calendars for cut-offs and value dates (see config/businessCalendars.ts)
+export const calendarConfig = {
+  // Directory of holiday calendar JSON files; defaults to data/holidays
+  holidaysPath: process.env['HOLIDAY_CALENDARS_PATH'] || '',
+};
+
+// Identity of the bank itself, used as debtor agent / sender in outgoing payment messages
+export const bankConfig = {
+  name: process.env['BANK_NAME'] || 'Secure Banking Payment Portal',
+  bic: (process.env['BANK_BIC'] || 'SBPPZAJJXXX').toUpperCase(),
+};
+
+// BIC directory CSV; defaults to the copy bundled in data/. Replace the file and reload to update.
+export const bicDirectoryConfig = {
+  path: process.env['BIC_DIRECTORY_PATH'] || '',
+};
+
+// Sanctions screening of payment recipients against a local list (CSV, OFAC sdn.csv or EU consolidated XML)
+export const sanctionsConfig = {
+  // Comma-separated list files; defaults to the sample list bundled in data/
+  listPaths: (process.env['SANCTIONS_LIST_PATHS'] || '').split(',').map(p => p.trim()).filter(Boolean),
+  // Name similarity (0-1) at or above which a list entry is treated as a potential match
+  matchThreshold: parseFloat(process.env['SANCTIONS_MATCH_THRESHOLD'] || '0.88'),
+  // Comprehensively sanctioned jurisdictions: any payment touching one is held
+  blockedCountries: (process.env['SANCTIONED_COUNTRIES'] || 'CU,IR,KP,SY').split(',').map(c => c.trim().toUpperCase()).filter(Boolean),
+};
+
+// AML rules engine
+export const amlConfig = {
+  // Employees (user IDs or emails) allowed to publish rule changes; empty allows every employee
+  ruleEditors: (process.env['AML_RULE_EDITORS'] || '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean),
+};
+
+// Two-factor authentication (TOTP, RFC 6238)
+export const mfaConfig = {
+  // Shown in authenticator apps next to the account name
+  issuer: process.env['MFA_ISSUER'] || 'Secure Payment Portal',
+  // Roles that cannot log in without a second factor; other users can opt in
+  requiredRoles: (process.env['MFA_REQUIRED_ROLES'] || 'employee').split(',').map(r => r.trim()).filter(Boolean),
+  // Lifetime of the challenge token between the password step and the code step
+  challengeExpiresIn: process.env['MFA_CHALLENGE_EXPIRES_IN'] || '5m',
+  recoveryCodeCount: 10,
+};
+
+// WebAuthn (passkeys): the relying party is the frontend's host
+export const webauthnConfig = {
+  rpId: process.env['WEBAUTHN_RP_ID'] || new URL(config.frontendUrl).hostname,
+  rpName: process.env['WEBAUTHN_RP_NAME'] || bankConfig.name,
+  // Origins allowed in clientDataJSON; defaults to the CORS origins
+  origins: process.env['WEBAUTHN_ORIGINS'] ? process.env['WEBAUTHN_ORIGINS'].split(',').map(o => o.trim()) : config.allowedOrigins,
+  challengeTtlSeconds: parseInt(process.env['WEBAUTHN_CHALLENGE_TTL_SECONDS'] || '300', 10),
+};
+
+// Step-up: sensitive actions need a fresh passkey, TOTP or password check, proven by a short-lived token
+export const stepUpConfig = {
+  tokenExpiresIn: process.env['STEP_UP_TOKEN_EXPIRES_IN'] || '5m',
+  // Customer payments above this amount (limits base currency) need a step-up
+  paymentThreshold: parseFloat(process.env['STEP_UP_PAYMENT_THRESHOLD'] || '5000'),
+};
+
+// Password reset links: how long a link works, and the frontend page it opens
+export const passwordResetConfig = {
+  tokenExpiresIn: process.env['PASSWORD_RESET_TOKEN_EXPIRES_IN'] || '30m',
+  resetUrl: `${config.frontendUrl.replace(/\/$/, '')}/reset-password`,
+};
+
 // Email configuration
 export const emailConfig = {
   smtp: {
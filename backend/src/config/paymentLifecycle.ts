@@ -0,0 +1,48 @@
+export const PAYMENT_STATUSES = ['pending', 'on_hold', 'processing', 'awaiting_second_approval', 'completed', 'failed', 'cancelled'] as const;
+
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+export type PaymentActorRole = 'customer' | 'employee' | 'system';
+
+export interface IPaymentTransition {
+  from: PaymentStatus;
+  to: PaymentStatus;
+  action: string;
+  roles: PaymentActorRole[];
+  // Only reachable when the caller names this action, never by matching on from/to alone
+  explicit?: boolean;
+}
+
+// Single source of truth for the payment lifecycle. Any status change not listed here is rejected by the Payment model.
+export const PAYMENT_TRANSITIONS: IPaymentTransition[] = [
+  { from: 'pending', to: 'processing', action: 'process', roles: ['employee', 'system'] },
+  { from: 'pending', to: 'completed', action: 'validate', roles: ['employee'] },
+  { from: 'pending', to: 'failed', action: 'reject', roles: ['employee'] },
+  { from: 'pending', to: 'cancelled', action: 'cancel', roles: ['customer', 'employee'] },
+  { from: 'processing', to: 'completed', action: 'validate', roles: ['employee'] },
+  { from: 'processing', to: 'failed', action: 'reject', roles: ['employee', 'system'] },
+  { from: 'processing', to: 'cancelled', action: 'cancel', roles: ['employee'] },
+  // Four-eyes: payments above the approval threshold need a second, different employee to validate
+  { from: 'pending', to: 'awaiting_second_approval', action: 'first_approval', roles: ['employee'] },
+  { from: 'processing', to: 'awaiting_second_approval', action: 'first_approval', roles: ['employee'] },
+  { from: 'awaiting_second_approval', to: 'completed', action: 'second_approval', roles: ['employee'] },
+  { from: 'awaiting_second_approval', to: 'failed', action: 'reject', roles: ['employee'] },
+  { from: 'awaiting_second_approval', to: 'cancelled', action: 'cancel', roles: ['employee'] },
+  // Sanctions screening hits wait here for a documented compliance decision
+  // (explicit, so plain or bulk reject cannot bypass the screening case)
+  { from: 'on_hold', to: 'pending', action: 'clear_screening', roles: ['employee'], explicit: true },
+  { from: 'on_hold', to: 'failed', action: 'confirm_screening', roles: ['employee'], explicit: true },
+];
+
+// Statuses from which no further transition is possible
+export const TERMINAL_STATUSES: PaymentStatus[] = PAYMENT_STATUSES.filter(
+  s => !PAYMENT_TRANSITIONS.some(t => t.from === s)
+);
+
+export const findTransition = (from: string, to: string, action?: string): IPaymentTransition | undefined => {
+  return PAYMENT_TRANSITIONS.find(t => t.from === from && t.to === to && (action ? t.action === action : !t.explicit));
+};
+
+export const isPaymentStatus = (value?: string): value is PaymentStatus => {
+  return !!value && (PAYMENT_STATUSES as readonly string[]).includes(value);
+};
@@ -0,0 +1,62 @@
+export const CUSTOMER_TIERS = ['standard', 'premium', 'business'] as const;
+
+export type CustomerTier = typeof CUSTOMER_TIERS[number];
+
+export const DEFAULT_CUSTOMER_TIER: CustomerTier = 'standard';
+
+export const LIMIT_PERIODS = ['perTransaction', 'daily', 'monthly'] as const;
+
+export type LimitPeriod = typeof LIMIT_PERIODS[number];
+
+// A cap left null is not enforced
+export type ITransferLimits = Record<LimitPeriod, number | null>;
+
+export interface ITierLimits {
+  // In the limits base currency; payments in other currencies are converted first
+  base: ITransferLimits;
+  // Additional caps in the payment's own currency, counting only payments in that currency
+  currencies: Partial<Record<string, Partial<ITransferLimits>>>;
+}
+
+/**
+ * Reference rates used to normalise amounts for limit checks only: units of each
+ * currency per 1 EUR. Payments are not converted with these.
+ */
+export const LIMIT_REFERENCE_RATES: Record<string, number> = {
+  EUR: 1,
+  USD: 1.08,
+  GBP: 0.85,
+  JPY: 162,
+  CAD: 1.47,
+  AUD: 1.65,
+  CHF: 0.95,
+  CNY: 7.8,
+  SEK: 11.4,
+  NZD: 1.8,
+  ZAR: 20,
+  BRL: 5.6,
+  INR: 90,
+  KRW: 1450,
+  PLN: 4.3,
+};
+
+// Daily and monthly periods are UTC calendar days and months
+export const TIER_LIMITS: Record<CustomerTier, ITierLimits> = {
+  standard: {
+    base: { perTransaction: 10000, daily: 20000, monthly: 50000 },
+    currencies: {},
+  },
+  premium: {
+    base: { perTransaction: 50000, daily: 100000, monthly: 250000 },
+    currencies: {},
+  },
+  business: {
+    base: { perTransaction: 250000, daily: 500000, monthly: 2000000 },
+    // Cross-border volumes in emerging-market currencies are capped separately
+    currencies: {
+      BRL: { daily: 1000000 },
+      INR: { daily: 20000000 },
+      ZAR: { daily: 5000000 },
+    },
+  },
+};
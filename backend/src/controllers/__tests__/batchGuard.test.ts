@@ -0,0 +1,88 @@
+// Payments of a batch that is still being created or rolled back cannot be changed by
+// employees or customers until the batch has settled.
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+const payment: any = {};
+jest.mock('../../models/Payment', () => ({
+  ...jest.requireActual('../../models/Payment'),
+  Payment: {
+    findById: jest.fn(async () => payment),
+    findOne: jest.fn(async () => payment),
+  },
+}));
+jest.mock('../../utils/paymentBatchService', () => ({
+  isInUnsettledBatch: jest.fn(async () => true),
+  unsettledBatchIds: jest.fn(async () => []),
+}));
+jest.mock('../../utils/ledgerService', () => ({ ...jest.requireActual('../../utils/ledgerService'), releaseHold: jest.fn() }));
+jest.mock('../../utils/transferLimits', () => ({ ...jest.requireActual('../../utils/transferLimits'), releaseTransferLimits: jest.fn() }));
+
+import { employeeBulkAction, employeeCancelPayment, employeeRejectPayment, employeeValidatePayment } from '../employeeController';
+import { cancelPayment } from '../paymentController';
+import { isInUnsettledBatch } from '../../utils/paymentBatchService';
+import { releaseHold } from '../../utils/ledgerService';
+
+const ID = '665f1c2e9b1e8a0012345678';
+
+const call = async (handler: (req: any, res: any) => Promise<void>, body: unknown = {}) => {
+  const res: any = { status: jest.fn(() => res), json: jest.fn(() => res) };
+  await handler({ user: { userId: 'user-1', role: 'employee' }, params: { id: ID }, body }, res);
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+};
+
+const rejection = { reasonCode: 'Duplicate payment', reason: 'Duplicate of another payment' };
+
+describe('payments in an unsettled batch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (isInUnsettledBatch as jest.Mock).mockResolvedValue(true);
+    Object.assign(payment, {
+      _id: ID,
+      batchId: 'batch-1',
+      status: 'pending',
+      applyTransition: jest.fn(),
+      updateStatus: jest.fn(),
+      save: jest.fn(),
+    });
+  });
+
+  it.each([
+    ['employee validation', employeeValidatePayment, {}],
+    ['employee cancellation', employeeCancelPayment, rejection],
+    ['employee rejection', employeeRejectPayment, rejection],
+    ['customer cancellation', cancelPayment, {}],
+  ])('blocks %s with 409', async (_label, handler, body) => {
+    const { status, body: response } = await call(handler, body);
+
+    expect(status).toBe(409);
+    expect(response.error).toBe('BATCH_NOT_CREATED');
+    expect(payment.applyTransition).not.toHaveBeenCalled();
+    expect(payment.updateStatus).not.toHaveBeenCalled();
+    expect(payment.save).not.toHaveBeenCalled();
+    expect(releaseHold).not.toHaveBeenCalled();
+  });
+
+  it.each(['cancel', 'reject', 'trash', 'restore'])('skips them in a bulk %s', async action => {
+    const { status, body } = await call(employeeBulkAction, { action, ids: [ID], ...rejection });
+
+    expect(status).toBe(200);
+    expect(body.data.results).toEqual([{ id: ID, ok: false, error: 'BATCH_NOT_CREATED' }]);
+    expect(payment.save).not.toHaveBeenCalled();
+  });
+
+  it('lets them through once the batch has settled', async () => {
+    (isInUnsettledBatch as jest.Mock).mockResolvedValue(false);
+
+    const { status } = await call(employeeRejectPayment, rejection);
+
+    expect(status).toBe(200);
+    expect(payment.applyTransition).toHaveBeenCalledWith('failed', expect.anything(), 'reasonCode=Duplicate payment');
+    expect(releaseHold).toHaveBeenCalledWith(payment);
+  });
+});
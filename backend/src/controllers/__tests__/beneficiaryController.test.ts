@@ -0,0 +1,91 @@
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+const stored: any = {};
+jest.mock('../../models/Beneficiary', () => ({
+  Beneficiary: {
+    findOne: jest.fn(async () => stored),
+    countDocuments: jest.fn(async () => 0),
+    create: jest.fn(async (fields: any) => ({ ...fields, toJSON: () => fields, isCoolingOff: () => true })),
+  },
+}));
+
+import { createBeneficiary, updateBeneficiary } from '../beneficiaryController';
+import { Beneficiary } from '../../models/Beneficiary';
+
+const ID = '665f1c2e9b1e8a0012345678';
+
+const details = {
+  name: 'Jan de Vries',
+  email: 'jan@example.com',
+  iban: 'NL91ABNA0417164300',
+  swift: 'ABNANL2A',
+  address: 'Damrak 1',
+  city: 'Amsterdam',
+  country: 'NL',
+};
+
+const call = async (handler: typeof createBeneficiary, body: unknown) => {
+  const res: any = { status: jest.fn(() => res), json: jest.fn(() => res) };
+  await handler({ user: { userId: 'user-1' }, params: { id: ID }, body } as any, res);
+  return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+};
+
+describe('beneficiaryController', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(stored, {
+      ...details,
+      nickname: 'Jan',
+      save: jest.fn(async () => stored),
+      toJSON: () => ({ nickname: stored.nickname, name: stored.name }),
+      isCoolingOff: () => false,
+    });
+  });
+
+  describe('updateBeneficiary', () => {
+    it('clears the nickname when it is null', async () => {
+      const { status } = await call(updateBeneficiary, { nickname: null });
+
+      expect(status).toBe(200);
+      expect(stored.nickname).toBeNull();
+      expect(stored.save).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['name', 123],
+      ['name', null],
+      ['email', ['jan@example.com']],
+      ['iban', { value: 'NL91ABNA0417164300' }],
+      ['nickname', 42],
+      ['country', true],
+    ])('rejects %s set to %p with 400', async (field, value) => {
+      const { status, body } = await call(updateBeneficiary, { [field]: value });
+
+      expect(status).toBe(400);
+      expect(body.errors).toEqual([{ field, message: `${field} must be text.` }]);
+      expect(stored.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createBeneficiary', () => {
+    it('saves a beneficiary without a nickname', async () => {
+      const { status } = await call(createBeneficiary, { ...details, nickname: null });
+
+      expect(status).toBe(201);
+      expect(Beneficiary.create).toHaveBeenCalledWith(expect.objectContaining({ nickname: null, name: 'Jan de Vries' }));
+    });
+
+    it('rejects non-text fields with 400 instead of failing on them', async () => {
+      const { status, body } = await call(createBeneficiary, { ...details, name: 123, city: null });
+
+      expect(status).toBe(400);
+      expect(body.errors.map((e: any) => e.field)).toEqual(['name', 'city']);
+      expect(Beneficiary.create).not.toHaveBeenCalled();
+    });
+  });
+});
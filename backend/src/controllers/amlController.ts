@@ -0,0 +1,66 @@
+import { Response } from 'express';
+import { AmlRuleSet } from '../models/AmlRuleSet';
+import { RiskAssessment } from '../models/RiskAssessment';
+import { AML_ACTIONS, AML_RULE_TYPES } from '../config/amlRules';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { getActiveRuleSet, publishRuleSet, AmlRuleError } from '../utils/amlRulesEngine';
+
+/**
+ * Rule set in force, with the rule types and actions an editor can choose from
+ */
+export const getAmlRules = async (_req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const ruleSet = await getActiveRuleSet();
+    res.status(200).json({ success: true, data: { ruleSet, ruleTypes: AML_RULE_TYPES, actions: AML_ACTIONS }, message: `AML rules version ${ruleSet.version}.` });
+  } catch (error) {
+    logger.error('Get AML rules error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving AML rules.' });
+  }
+};
+
+export const getAmlRuleVersions = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(Math.max(parseInt((req.query['limit'] as string) || '20', 10) || 20, 1), 100);
+    const versions = await AmlRuleSet.find({}).sort({ version: -1 }).limit(limit);
+    res.status(200).json({ success: true, data: { versions }, message: 'AML rule versions retrieved.' });
+  } catch (error) {
+    logger.error('Get AML rule versions error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving AML rule versions.' });
+  }
+};
+
+/**
+ * Publish an edited rule set as a new version
+ */
+export const updateAmlRules = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) { res.status(401).json({ success: false, message: 'Authentication required.' }); return; }
+    const { escalateScore, holdScore, rules, changeNote, baseVersion } = req.body || {};
+    const note = String(changeNote || '').trim();
+    if (note.length < 5) { res.status(400).json({ success: false, message: 'A change note of at least 5 characters is required.' }); return; }
+    if (baseVersion !== undefined && !Number.isInteger(baseVersion)) { res.status(400).json({ success: false, message: 'baseVersion must be an integer.' }); return; }
+
+    const ruleSet = await publishRuleSet({ escalateScore, holdScore, rules }, req.user, note.slice(0, 500), baseVersion);
+    logger.info('AML rules updated by employee:', { version: ruleSet.version, employeeId: req.user.userId, ip: req.ip });
+    res.status(201).json({ success: true, data: { ruleSet }, message: `AML rules version ${ruleSet.version} is now in force.` });
+  } catch (error) {
+    if (error instanceof AmlRuleError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, ...(error.errors.length > 0 && { errors: error.errors }), timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error('Update AML rules error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while updating AML rules.' });
+  }
+};
+
+export const getPaymentRisk = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const assessment = await RiskAssessment.findOne({ paymentId: String(req.params['id']) });
+    if (!assessment) { res.status(404).json({ success: false, message: 'No risk assessment recorded for this payment.' }); return; }
+    res.status(200).json({ success: true, data: { assessment }, message: 'Risk assessment retrieved.' });
+  } catch (error) {
+    logger.error('Get payment risk error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving risk assessment.' });
+  }
+};
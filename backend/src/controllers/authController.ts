@@ -1,27 +1,19 @@
 import { Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { User } from '../models/User';
 import { IUserRegistration, IUserLogin, IAuthenticatedRequest } from '../types';
-import { config } from '../config';
 import { logger } from '../utils/logger';
+import { revokeAccessToken, revokeAllUserTokens } from '../utils/tokenRevocation';
+import { validatePassword } from '../utils/validation';
+import { generateAccessToken, startSession } from '../utils/session';
+import { issueMfaChallenge, isMfaRequired } from '../utils/mfa';
+import { revokeRefreshToken, revokeRefreshTokenFamily, rotateRefreshToken, RefreshTokenError } from '../utils/refreshTokens';
+import { PasswordResetError, requestPasswordReset, resetPassword as resetUserPassword } from '../utils/passwordReset';
 // Email verification disabled: no verification emails are sent
 
 // TODO: Add rate limiting for registration attempts
 // TODO: Implement email verification with proper templates
 // FIXME: Password validation could be more robust
-// Note to self: maybe add 2FA later?
-
-/**
- * Generate JWT token
- */
-const generateToken = (userId: string, email: string, role: 'customer' | 'employee'): string => {
-  const payload = { userId, email, role };
-  const secret = config.jwtSecret;
-  const options: jwt.SignOptions = { expiresIn: config.jwtExpiresIn as any };
-  
-  return jwt.sign(payload, secret, options);
-};
 
 // Email verification disabled: omit verification token generation
 
@@ -269,19 +261,25 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       await User.resetLoginAttempts(user.id!);
     }
 
-    // Update last login
-    await User.updateLastLogin(user.id!);
-
-    // Generate JWT token
-    const token = generateToken(user.id!, user.email, (user as any).role || 'customer');
+    // Second step: the password alone never yields a session when a second factor applies
+    if (user.mfaEnabled || isMfaRequired(user)) {
+      const status = user.mfaEnabled ? 'mfa_required' : 'mfa_enrollment_required';
+      logger.info('Login awaiting second factor:', { userId: user.id, status, ip: req.ip });
+      res.status(200).json({
+        success: true,
+        message: user.mfaEnabled
+          ? 'Password verified. Enter the code from your authenticator app.'
+          : 'Two-factor authentication must be set up before this account can log in.',
+        data: {
+          status,
+          mfaToken: issueMfaChallenge(user.id!, user.mfaEnabled ? 'mfa_login' : 'mfa_enroll'),
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
 
-    // Log successful login
-    logger.info('User logged in successfully:', {
-      userId: user.id,
-      email: user.email,
-      ip: req.ip,
-      userAgent: req.get('User-Agent'),
-    });
+    const session = await startSession(user, req);
 
     // Return success response (exclude password)
     const userResponse = User.toJSON(user);
@@ -289,8 +287,9 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       success: true,
       message: 'Login successful.',
       data: {
+        status: 'authenticated',
         user: userResponse,
-        token,
+        ...session,
       },
       timestamp: new Date().toISOString(),
     });
@@ -305,17 +304,85 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 };
 
 /**
- * Logout user (client-side token invalidation)
+ * Exchange a refresh token for a new access token and a new refresh token
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body || {};
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'Refresh token is required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const rotated = await rotateRefreshToken(refreshToken, { ip: req.ip, userAgent: req.get('User-Agent') });
+
+    // Role and status are read again so a refresh cannot outlive a deactivation or role change
+    const user = await User.findById(rotated.userId);
+    if (!user || !user.isActive) {
+      await revokeRefreshTokenFamily(rotated.familyId, 'user_inactive');
+      res.status(401).json({
+        success: false,
+        message: 'Account is deactivated. Please contact support.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const token = generateAccessToken(user.id!, user.email, user.role || 'customer');
+
+    res.status(200).json({
+      success: true,
+      message: 'Token refreshed.',
+      data: {
+        token,
+        refreshToken: rotated.token,
+        refreshTokenExpiresAt: rotated.expiresAt,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        error: error.code,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    logger.error('Token refresh error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during token refresh.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Logout user: revokes the access token and the refresh token family so the session
+ * can neither be used nor renewed.
  */
 export const logout = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    // In a stateless JWT system, logout is typically handled client-side
-    // by removing the token from storage. However, we can log the logout event.
-    
+    const { refreshToken } = req.body || {};
+    let revoked = false;
+    if (req.user) {
+      await revokeAccessToken(req.user, 'logout');
+      if (refreshToken && typeof refreshToken === 'string') {
+        revoked = await revokeRefreshToken(refreshToken, req.user.userId);
+      }
+    }
+
     if (req.user) {
       logger.info('User logged out:', {
         userId: req.user.userId,
         email: req.user.email,
+        refreshTokenRevoked: revoked,
         ip: req.ip,
         userAgent: req.get('User-Agent'),
       });
@@ -475,6 +542,175 @@ export const updateProfile = async (req: IAuthenticatedRequest, res: Response):
     });
   }
 };
+
+/**
+ * Change the current user's password. Every token issued to the user is revoked, so all
+ * sessions (including this one) have to log in again with the new password.
+ */
+export const changePassword = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const { currentPassword, newPassword } = req.body || {};
+    if (!currentPassword || !newPassword || typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'Current password and new password are required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const strength = validatePassword(newPassword);
+    if (!strength.isValid) {
+      res.status(400).json({
+        success: false,
+        message: 'New password does not meet the password requirements.',
+        errors: strength.errors.map(message => ({ field: 'newPassword', message })),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!await User.comparePassword(user, currentPassword)) {
+      logger.warn('Password change with wrong current password:', { userId: user.id, ip: req.ip });
+      res.status(401).json({
+        success: false,
+        message: 'Current password is incorrect.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (await User.comparePassword(user, newPassword)) {
+      res.status(400).json({
+        success: false,
+        message: 'New password must be different from the current password.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await User.updatePassword(user.id!, newPassword);
+    await revokeAllUserTokens(user.id!, 'password_change', user.id!);
+
+    logger.info('Password changed:', {
+      userId: user.id,
+      email: user.email,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Password changed. Please log in again with your new password.',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while changing password.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Start a password reset. The answer is the same whether or not the email is registered, and
+ * is sent before the lookup and email so response times do not give it away either.
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  const { email } = req.body || {};
+  if (!email || typeof email !== 'string') {
+    res.status(400).json({
+      success: false,
+      message: 'Email is required.',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    message: 'If an account exists for this email, a password reset link has been sent.',
+    timestamp: new Date().toISOString(),
+  });
+
+  requestPasswordReset(email, { ip: req.ip, userAgent: req.get('User-Agent') })
+    .catch(error => logger.error('Password reset request error:', error));
+};
+
+/**
+ * Set a new password with the token from a reset link. Clears any lockout and revokes every
+ * session, so the user logs in again with the new password.
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body || {};
+    if (!token || !newPassword || typeof token !== 'string' || typeof newPassword !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'Reset token and new password are required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const strength = validatePassword(newPassword);
+    if (!strength.isValid) {
+      res.status(400).json({
+        success: false,
+        message: 'New password does not meet the password requirements.',
+        errors: strength.errors.map(message => ({ field: 'newPassword', message })),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await resetUserPassword(token, newPassword, { ip: req.ip, userAgent: req.get('User-Agent') });
+
+    res.status(200).json({
+      success: true,
+      message: 'Password reset. Please log in with your new password.',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof PasswordResetError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        error: error.code,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    logger.error('Password reset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while resetting password.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
 /**
  * Verify email using token
  */
@@ -0,0 +1,122 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { Payment } from '../models/Payment';
+import { PaymentBatch } from '../models/PaymentBatch';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { createPaymentBatch as createBatch, summarizeBatch, PaymentBatchError } from '../utils/paymentBatchService';
+
+/**
+ * Create payments in bulk from a CSV or JSON file
+ */
+export const createPaymentBatch = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { batch, payments } = await createBatch(req.user.userId, req.body);
+    const summary = await summarizeBatch(batch);
+
+    logger.info('Payment batch created:', {
+      batchId: batch._id,
+      userId: req.user.userId,
+      rows: batch.rowCount,
+      source: batch.source,
+      ip: req.ip,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Batch created with ${payments.length} payments.`,
+      data: {
+        batch: { ...batch.toJSON(), ...summary },
+        payments: payments.map(p => ({ row: p.batchRow, paymentId: p._id, transactionId: p.transactionId })),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof PaymentBatchError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        error: error.code,
+        errors: error.errors,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    logger.error('Create payment batch error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while creating payment batch.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * List the current user's batches with aggregate status
+ */
+export const getPaymentBatches = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const page = parseInt(req.query['page'] as string) || 1;
+    const limit = Math.min(parseInt(req.query['limit'] as string) || 10, 50);
+    const batches = await PaymentBatch.find({ userId: req.user.userId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .skip((page - 1) * limit);
+    const total = await PaymentBatch.countDocuments({ userId: req.user.userId });
+
+    const data = [];
+    for (const batch of batches) {
+      data.push({ ...batch.toJSON(), ...(await summarizeBatch(batch)) });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Payment batches retrieved successfully.',
+      data: { batches: data },
+      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Get payment batches error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving payment batches.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Get one batch with its payments
+ */
+export const getPaymentBatchById = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { id } = req.params;
+    const batch = Types.ObjectId.isValid(String(id))
+      ? await PaymentBatch.findOne({ _id: id, userId: req.user.userId })
+      : null;
+    if (!batch) {
+      res.status(404).json({ success: false, message: 'Payment batch not found.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const payments = await Payment.find({ batchId: String(batch._id), userId: req.user.userId }).sort({ batchRow: 1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Payment batch retrieved successfully.',
+      data: { batch: { ...batch.toJSON(), ...(await summarizeBatch(batch)) }, payments },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Get payment batch error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving payment batch.', timestamp: new Date().toISOString() });
+  }
+};
@@ -0,0 +1,263 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { Beneficiary, IBeneficiary } from '../models/Beneficiary';
+import { beneficiaryConfig } from '../config';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { validateSWIFT, validateEmail } from '../utils/validation';
+import { parseIBAN } from '../utils/iban';
+import { recipientBankError } from '../utils/bicDirectory';
+
+interface IBeneficiaryRequest {
+  // null clears the nickname
+  nickname?: string | null;
+  name?: string;
+  email?: string;
+  iban?: string;
+  swift?: string;
+  address?: string;
+  city?: string;
+  country?: string;
+}
+
+const REQUIRED_FIELDS: Array<keyof IBeneficiaryRequest> = ['name', 'email', 'iban', 'swift', 'address', 'city', 'country'];
+const TEXT_FIELDS: Array<keyof IBeneficiaryRequest> = ['nickname', ...REQUIRED_FIELDS];
+
+const normalizeIBAN = (iban: string): string => iban.toUpperCase().replace(/\s/g, '');
+const normalizeSWIFT = (swift: string): string => swift.toUpperCase().trim();
+
+/**
+ * Validate the supplied fields. On create every field is required; on update only supplied ones are checked,
+ * with the stored IBAN/SWIFT used to cross-check a change to just one of them.
+ */
+const validateBeneficiary = (body: IBeneficiaryRequest, partial: boolean, current?: IBeneficiary): { field: string; message: string }[] => {
+  // Checked first: everything below reads the fields as strings
+  const typeErrors = TEXT_FIELDS
+    .filter(field => body[field] !== undefined && typeof body[field] !== 'string' && !(field === 'nickname' && body[field] === null))
+    .map(field => ({ field, message: `${field} must be text.` }));
+  if (typeErrors.length > 0) return typeErrors;
+
+  const errors: { field: string; message: string }[] = [];
+
+  for (const field of REQUIRED_FIELDS) {
+    const value = body[field];
+    if (partial ? value !== undefined && !String(value).trim() : !value || !String(value).trim()) {
+      errors.push({ field, message: `${field} is required.` });
+    }
+  }
+
+  const ibanCheck = body.iban ? parseIBAN(normalizeIBAN(body.iban)) : null;
+  if (ibanCheck && !ibanCheck.valid) {
+    errors.push({ field: 'iban', message: ibanCheck.message });
+  }
+  if (body.swift && !validateSWIFT(normalizeSWIFT(body.swift))) {
+    errors.push({ field: 'swift', message: 'Invalid SWIFT code format' });
+  } else if (body.swift || (body.iban && current)) {
+    const swift = normalizeSWIFT(body.swift || current!.swift);
+    const ibanForCountry = ibanCheck || (current ? parseIBAN(current.iban) : null);
+    const bankError = recipientBankError(swift, ibanForCountry?.valid ? ibanForCountry.country : undefined);
+    if (bankError) errors.push({ field: 'swift', message: bankError });
+  }
+  if (body.email && !validateEmail(body.email.trim())) {
+    errors.push({ field: 'email', message: 'Invalid email format' });
+  }
+
+  return errors;
+};
+
+const toResponse = (beneficiary: IBeneficiary) => ({
+  ...beneficiary.toJSON(),
+  coolingOff: beneficiary.isCoolingOff(),
+});
+
+/**
+ * Save a new beneficiary for the current user
+ */
+export const createBeneficiary = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const body = (req.body || {}) as IBeneficiaryRequest;
+    const errors = validateBeneficiary(body, false);
+    if (errors.length > 0) {
+      res.status(400).json({ success: false, message: 'Validation failed.', errors, timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const count = await Beneficiary.countDocuments({ userId: req.user.userId });
+    if (count >= beneficiaryConfig.maxPerUser) {
+      res.status(409).json({
+        success: false,
+        message: `You can save at most ${beneficiaryConfig.maxPerUser} beneficiaries.`,
+        error: 'BENEFICIARY_LIMIT_REACHED',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const beneficiary = await Beneficiary.create({
+      userId: req.user.userId,
+      nickname: body.nickname?.trim() || null,
+      name: body.name!.trim(),
+      email: body.email!.toLowerCase().trim(),
+      iban: normalizeIBAN(body.iban!),
+      swift: normalizeSWIFT(body.swift!),
+      address: body.address!.trim(),
+      city: body.city!.trim(),
+      country: body.country!.trim(),
+      coolingOffUntil: new Date(Date.now() + beneficiaryConfig.coolingOffMs),
+    });
+
+    logger.info('Beneficiary created:', {
+      beneficiaryId: beneficiary._id,
+      userId: req.user.userId,
+      iban: beneficiary.iban.substring(0, 8) + '****',
+      ip: req.ip,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Beneficiary saved. It can receive payments once the cooling-off period ends.',
+      data: { beneficiary: toResponse(beneficiary) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      res.status(409).json({
+        success: false,
+        message: 'A beneficiary with this IBAN already exists.',
+        error: 'BENEFICIARY_EXISTS',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    logger.error('Create beneficiary error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while saving beneficiary.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * List the current user's beneficiaries, optionally filtered by ?q= (name, nickname or IBAN)
+ */
+export const getBeneficiaries = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const filter: any = { userId: req.user.userId };
+    const q = String(req.query['q'] || '').trim();
+    if (q) {
+      const rx = new RegExp(q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ name: rx }, { nickname: rx }, { iban: rx }];
+    }
+
+    const beneficiaries = await Beneficiary.find(filter).sort({ lastUsedAt: -1, name: 1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Beneficiaries retrieved successfully.',
+      data: { beneficiaries: beneficiaries.map(toResponse) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Get beneficiaries error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving beneficiaries.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Update a beneficiary. Changing the IBAN or SWIFT restarts the cooling-off period.
+ */
+export const updateBeneficiary = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { id } = req.params;
+    const beneficiary = Types.ObjectId.isValid(String(id))
+      ? await Beneficiary.findOne({ _id: id, userId: req.user.userId })
+      : null;
+    if (!beneficiary) {
+      res.status(404).json({ success: false, message: 'Beneficiary not found.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const body = (req.body || {}) as IBeneficiaryRequest;
+    const errors = validateBeneficiary(body, true, beneficiary);
+    if (errors.length > 0) {
+      res.status(400).json({ success: false, message: 'Validation failed.', errors, timestamp: new Date().toISOString() });
+      return;
+    }
+
+    if (body.nickname !== undefined) beneficiary.nickname = body.nickname?.trim() || null;
+    if (body.name !== undefined) beneficiary.name = body.name.trim();
+    if (body.email !== undefined) beneficiary.email = body.email.toLowerCase().trim();
+    if (body.address !== undefined) beneficiary.address = body.address.trim();
+    if (body.city !== undefined) beneficiary.city = body.city.trim();
+    if (body.country !== undefined) beneficiary.country = body.country.trim();
+
+    const iban = body.iban !== undefined ? normalizeIBAN(body.iban) : beneficiary.iban;
+    const swift = body.swift !== undefined ? normalizeSWIFT(body.swift) : beneficiary.swift;
+    if (iban !== beneficiary.iban || swift !== beneficiary.swift) {
+      beneficiary.iban = iban;
+      beneficiary.swift = swift;
+      beneficiary.coolingOffUntil = new Date(Date.now() + beneficiaryConfig.coolingOffMs);
+    }
+
+    await beneficiary.save();
+    logger.info('Beneficiary updated:', { beneficiaryId: id, userId: req.user.userId });
+
+    res.status(200).json({
+      success: true,
+      message: 'Beneficiary updated successfully.',
+      data: { beneficiary: toResponse(beneficiary) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      res.status(409).json({
+        success: false,
+        message: 'A beneficiary with this IBAN already exists.',
+        error: 'BENEFICIARY_EXISTS',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    logger.error('Update beneficiary error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while updating beneficiary.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Delete a beneficiary. Past payments keep their own copy of the recipient details.
+ */
+export const deleteBeneficiary = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { id } = req.params;
+    const result = Types.ObjectId.isValid(String(id))
+      ? await Beneficiary.deleteOne({ _id: id, userId: req.user.userId })
+      : null;
+    if (!result || result.deletedCount === 0) {
+      res.status(404).json({ success: false, message: 'Beneficiary not found.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    logger.info('Beneficiary deleted:', { beneficiaryId: id, userId: req.user.userId });
+    res.status(200).json({ success: true, message: 'Beneficiary deleted successfully.', timestamp: new Date().toISOString() });
+  } catch (error) {
+    logger.error('Delete beneficiary error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while deleting beneficiary.', timestamp: new Date().toISOString() });
+  }
+};
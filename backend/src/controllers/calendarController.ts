@@ -0,0 +1,92 @@
+import { Response } from 'express';
+import { IAuthenticatedRequest } from '../types';
+import { Payment } from '../models/Payment';
+import { validationConfig } from '../config';
+import { logger } from '../utils/logger';
+import { loadHolidayCalendars, settlementDates, settlementDatesOn } from '../utils/businessCalendar';
+import { parseCalendarDate, startOfUtcDay } from '../utils/recurrence';
+
+/**
+ * When a payment in this currency would be sent and credited if submitted now, or on executionDate
+ */
+export const getValueDate = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const currency = String(req.query['currency'] || '').toUpperCase();
+    if (!validationConfig.payment.supportedCurrencies.includes(currency)) {
+      res.status(400).json({ success: false, message: 'Unsupported currency code.', timestamp: new Date().toISOString() });
+      return;
+    }
+    const executionDate = req.query['executionDate'] ? parseCalendarDate(String(req.query['executionDate'])) : null;
+    if (req.query['executionDate'] && !executionDate) {
+      res.status(400).json({ success: false, message: 'executionDate must be a YYYY-MM-DD date.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const dates = executionDate && executionDate > startOfUtcDay()
+      ? settlementDatesOn(currency, executionDate.toISOString().slice(0, 10))
+      : settlementDates(currency);
+
+    res.status(200).json({
+      success: true,
+      message: 'Value date calculated successfully.',
+      data: { currency, ...dates },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Value date error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while calculating the value date.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Employee: open payments that must be released by today's cut-offs, earliest cut-off first.
+ * Payments whose cut-off has already passed are listed as missed.
+ */
+export const getCutOffQueue = async (_req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const now = new Date();
+    const endOfDay = new Date(startOfUtcDay(now).getTime() + 24 * 60 * 60 * 1000);
+    const payments = await Payment.find({ deletedAt: null, status: { $in: ['pending', 'processing', 'awaiting_second_approval'] }, cutOffAt: { $ne: null, $lt: endOfDay } })
+      .sort({ cutOffAt: 1, createdAt: 1 })
+      .limit(500)
+      .select('transactionId userId recipientName amount currency status cutOffAt valueDate createdAt escalated');
+
+    const cutOffs = new Map<string, { currency: string; cutOffAt: Date; count: number; totalAmount: number; missed: boolean }>();
+    for (const p of payments) {
+      const missed = p.cutOffAt! <= now;
+      const key = `${p.currency}|${missed ? 'missed' : p.cutOffAt!.toISOString()}`;
+      const group = cutOffs.get(key) || { currency: p.currency, cutOffAt: p.cutOffAt!, count: 0, totalAmount: 0, missed };
+      group.count += 1;
+      group.totalAmount = Math.round((group.totalAmount + p.amount) * 100) / 100;
+      cutOffs.set(key, group);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        cutOffs: Array.from(cutOffs.values()),
+        payments: payments.map(p => ({ ...p.toJSON(), missedCutOff: p.cutOffAt! <= now })),
+      },
+      message: 'Cut-off queue retrieved.',
+    });
+  } catch (error) {
+    logger.error('Cut-off queue error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving the cut-off queue.' });
+  }
+};
+
+export const reloadHolidayCalendars = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const calendars = loadHolidayCalendars();
+    logger.info('Holiday calendars reloaded by employee:', { employeeId: req.user?.userId, calendars, ip: req.ip });
+    res.status(200).json({ success: true, data: { calendars }, message: `Holiday calendars reloaded: ${calendars.join(', ')}.` });
+  } catch (error) {
+    logger.error('Holiday calendar reload error:', error);
+    res.status(500).json({ success: false, message: 'Could not reload the holiday calendars; the previous calendars are still in use.' });
+  }
+};
@@ -1,9 +1,18 @@
 import { Response } from 'express';
 import { Types } from 'mongoose';
-import { Payment } from '../models/Payment';
+import { Payment, PaymentTransitionError } from '../models/Payment';
+import { ScreeningCase } from '../models/ScreeningCase';
+import { RiskAssessment } from '../models/RiskAssessment';
 import { IAuthenticatedRequest } from '../types';
 import { logger } from '../utils/logger';
+import { captureHold, releaseHold, reverseCapture, LedgerError } from '../utils/ledgerService';
 import { REASON_CODES, isValidReasonCode } from '../config/reasons';
+import { isPaymentStatus } from '../config/paymentLifecycle';
+import { loadBicDirectory } from '../utils/bicDirectory';
+import { applySettlementDates } from '../utils/businessCalendar';
+import { approvePayment, ApprovalError } from '../utils/paymentApproval';
+import { releaseTransferLimits } from '../utils/transferLimits';
+import { isInUnsettledBatch, unsettledBatchIds } from '../utils/paymentBatchService';
 
 // Simple redaction guard for notes: remove IBAN/SWIFT-like patterns
 const redactSensitive = (text: string): string => {
@@ -38,7 +47,7 @@ export const getAllPayments = async (req: IAuthenticatedRequest, res: Response):
 
     // Filters
     const status = (req.query['status'] as string | undefined) || undefined;
-    const keyword = (req.query['keyword'] as string | undefined) || undefined; // recipient/ref
+    const keyword = (req.query['keyword'] as string | undefined) || undefined; // recipient/ref/transactionId
     const startDateStr = (req.query['startDate'] as string) || '';
     const endDateStr = (req.query['endDate'] as string) || '';
     const isValidISODate = (s: string) => /^\d{4}-\d{2}-\d{2}$/.test(s) && !isNaN(Date.parse(s));
@@ -49,11 +58,19 @@ export const getAllPayments = async (req: IAuthenticatedRequest, res: Response):
     const includeDeleted = String(req.query['includeDeleted'] || 'false') === 'true';
     const onlyAssignedToMe = String(req.query['assignedTo'] || '') === 'me';
     const escalated = req.query['escalated'] ? String(req.query['escalated']) === 'true' : undefined;
+    const reconciliation = (req.query['reconciliation'] as string | undefined) || undefined;
+    const duplicatesOnly = String(req.query['duplicates'] || 'false') === 'true';
 
     const query: any = {};
     if (!includeDeleted) query['deletedAt'] = null;
     if (status) query['status'] = status;
     if (escalated !== undefined) query['escalated'] = escalated;
+    if (reconciliation === 'matched' || reconciliation === 'mismatched') query['reconciliationStatus'] = reconciliation;
+    if (reconciliation === 'unreconciled') query['reconciliationStatus'] = null;
+    if (duplicatesOnly) query['possibleDuplicateOf'] = { $ne: null };
+    // Payments of a batch that is still being created (or failed to roll back) are not workable yet
+    const unsettledBatches = await unsettledBatchIds();
+    if (unsettledBatches.length > 0) query['batchId'] = { $nin: unsettledBatches };
     if (onlyAssignedToMe && req.user) query['assignedToUserId'] = req.user.userId;
     if (startDate || endDate) {
       query['createdAt'] = {};
@@ -75,6 +92,7 @@ export const getAllPayments = async (req: IAuthenticatedRequest, res: Response):
         $or: [
           { recipientName: { $regex: safe, $options: 'i' } },
           { reference: { $regex: safe, $options: 'i' } },
+          { transactionId: { $regex: safe, $options: 'i' } },
         ],
       };
     }
@@ -83,10 +101,30 @@ export const getAllPayments = async (req: IAuthenticatedRequest, res: Response):
     const total = await Payment.countDocuments({ $and: [query, keywordFilter] });
     const pages = Math.ceil(total / limit);
 
+    // Attach screening matches, AML risk and the payment a possible duplicate resembles, so they can be reviewed from the list
+    const paymentIds = payments.map(p => String(p._id));
+    const duplicateIds = payments.map(p => p.possibleDuplicateOf).filter((id): id is string => !!id && Types.ObjectId.isValid(id));
+    const [cases, assessments, originals] = await Promise.all([
+      ScreeningCase.find({ paymentId: { $in: paymentIds } }),
+      RiskAssessment.find({ paymentId: { $in: paymentIds } }),
+      duplicateIds.length > 0 ? Payment.find({ _id: { $in: duplicateIds } }).select('transactionId status createdAt') : Promise.resolve([]),
+    ]);
+    const caseByPayment = new Map(cases.map(c => [c.paymentId, c]));
+    const riskByPayment = new Map(assessments.map(a => [a.paymentId, a]));
+    const originalById = new Map(originals.map(o => [String(o._id), o]));
+    const data = payments.map(p => {
+      const screening = caseByPayment.get(String(p._id));
+      const risk = riskByPayment.get(String(p._id));
+      const duplicateOf = p.possibleDuplicateOf ? originalById.get(p.possibleDuplicateOf) : undefined;
+      return screening || risk || duplicateOf
+        ? { ...p.toJSON(), ...(screening && { screening }), ...(risk && { risk }), ...(duplicateOf && { duplicateOf }) }
+        : p;
+    });
+
     res.status(200).json({
       success: true,
       message: 'Filtered payments retrieved successfully.',
-      data: payments,
+      data,
       pagination: { page, limit, total, pages },
       timestamp: new Date().toISOString(),
     });
@@ -177,8 +215,8 @@ export const employeeCancelPayment = async (req: IAuthenticatedRequest, res: Res
       return;
     }
 
-    if (payment.status !== 'pending' && payment.status !== 'processing') {
-      res.status(400).json({ success: false, message: 'Only pending or processing payments can be cancelled.', timestamp: new Date().toISOString() });
+    if (await isInUnsettledBatch(payment)) {
+      res.status(409).json({ success: false, message: 'This payment belongs to a batch that has not finished being created.', error: 'BATCH_NOT_CREATED', timestamp: new Date().toISOString() });
       return;
     }
 
@@ -188,19 +226,20 @@ export const employeeCancelPayment = async (req: IAuthenticatedRequest, res: Res
       return;
     }
 
-    payment.status = 'cancelled';
-    payment.processedAt = new Date();
+    payment.applyTransition('cancelled', req.user, `reasonCode=${reasonCode}`);
     payment.reasonCode = String(reasonCode);
     payment.failureReason = (reason || '').trim() || null as any;
-    payment.auditLog = [
-      ...(payment.auditLog || []),
-      { actorId: req.user.userId, actorName: req.user.email || '', action: 'cancel', timestamp: new Date(), details: `reasonCode=${reasonCode}` }
-    ];
     await payment.save();
+    await releaseHold(payment);
+    await releaseTransferLimits(payment);
     logger.info('Employee cancelled payment:', { paymentId: id, actorUserId: req.user.userId });
 
     res.status(200).json({ success: true, message: 'Payment cancelled successfully.', data: { payment: payment.toJSON() }, timestamp: new Date().toISOString() });
   } catch (error) {
+    if (error instanceof PaymentTransitionError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
     logger.error('Employee cancel payment error:', error);
     res.status(500).json({ success: false, message: 'Internal server error while cancelling payment.', timestamp: new Date().toISOString() });
   }
@@ -225,19 +264,42 @@ export const employeeValidatePayment = async (req: IAuthenticatedRequest, res: R
       return;
     }
 
-    if (payment.status !== 'pending' && payment.status !== 'processing') {
-      res.status(400).json({ success: false, message: 'Only pending or processing payments can be validated.', timestamp: new Date().toISOString() });
+    if (await isInUnsettledBatch(payment)) {
+      res.status(409).json({ success: false, message: 'This payment belongs to a batch that has not finished being created.', error: 'BATCH_NOT_CREATED', timestamp: new Date().toISOString() });
       return;
     }
 
-    payment.status = 'completed';
-    payment.processedAt = new Date();
-    payment.failureReason = null as any;
-    await payment.save();
-    logger.info('Employee validated payment:', { paymentId: id, actorUserId: req.user.userId });
+    // High-value payments stop at awaiting_second_approval until a different employee validates them
+    const status = approvePayment(payment, req.user);
+    if (status === 'completed') {
+      payment.failureReason = null as any;
+      // Released after the cut-off it was dated for: it goes out on the next business day
+      if (!payment.cutOffAt || payment.cutOffAt.getTime() <= Date.now()) applySettlementDates(payment);
+      // Post the debit before persisting so a payment is never completed without its journal entry
+      await captureHold(payment, req.user.userId);
+      try {
+        await payment.save();
+      } catch (error) {
+        // ...and never leave a posted debit behind a payment that did not complete
+        await reverseCapture(payment, req.user.userId);
+        throw error;
+      }
+    } else {
+      await payment.save();
+    }
+    logger.info('Employee validated payment:', { paymentId: id, actorUserId: req.user.userId, status, valueDate: payment.valueDate });
 
-    res.status(200).json({ success: true, message: 'Payment validated successfully.', data: { payment: payment.toJSON() }, timestamp: new Date().toISOString() });
+    const message = status === 'completed' ? 'Payment validated successfully.' : 'First approval recorded; a second employee must validate this payment.';
+    res.status(200).json({ success: true, message, data: { payment: payment.toJSON() }, timestamp: new Date().toISOString() });
   } catch (error) {
+    if (error instanceof PaymentTransitionError || error instanceof ApprovalError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    if (error instanceof LedgerError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
     logger.error('Employee validate payment error:', error);
     res.status(500).json({ success: false, message: 'Internal server error while validating payment.', timestamp: new Date().toISOString() });
   }
@@ -274,24 +336,25 @@ export const employeeRejectPayment = async (req: IAuthenticatedRequest, res: Res
       return;
     }
 
-    if (payment.status === 'completed') {
-      res.status(400).json({ success: false, message: 'Completed payments cannot be rejected.', timestamp: new Date().toISOString() });
+    if (await isInUnsettledBatch(payment)) {
+      res.status(409).json({ success: false, message: 'This payment belongs to a batch that has not finished being created.', error: 'BATCH_NOT_CREATED', timestamp: new Date().toISOString() });
       return;
     }
 
-    payment.status = 'failed';
+    payment.applyTransition('failed', req.user, `reasonCode=${reasonCode}`);
     payment.failureReason = reason.trim();
     payment.reasonCode = String(reasonCode);
-    payment.processedAt = new Date();
-    payment.auditLog = [
-      ...(payment.auditLog || []),
-      { actorId: req.user.userId, actorName: req.user.email || '', action: 'reject', timestamp: new Date(), details: `reasonCode=${reasonCode}` }
-    ];
     await payment.save();
+    await releaseHold(payment);
+    await releaseTransferLimits(payment);
     logger.info('Employee rejected payment:', { paymentId: id, actorUserId: req.user.userId, reason });
 
     res.status(200).json({ success: true, message: 'Payment rejected successfully.', data: { payment: payment.toJSON() }, timestamp: new Date().toISOString() });
   } catch (error) {
+    if (error instanceof PaymentTransitionError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
     logger.error('Employee reject payment error:', error);
     res.status(500).json({ success: false, message: 'Internal server error while rejecting payment.', timestamp: new Date().toISOString() });
   }
@@ -452,26 +515,22 @@ export const employeeBulkAction = async (req: IAuthenticatedRequest, res: Respon
       if (!Types.ObjectId.isValid(String(id))) { results.push({ id, ok: false, error: 'invalid_id' }); continue; }
       const payment = await Payment.findById(id);
       if (!payment) { results.push({ id, ok: false, error: 'not_found' }); continue; }
+      if (await isInUnsettledBatch(payment)) { results.push({ id, ok: false, error: 'BATCH_NOT_CREATED' }); continue; }
       switch (action) {
-        case 'cancel': {
-          if (!isValidReasonCode(reasonCode)) { results.push({ id, ok: false, error: 'invalid_reason_code' }); break; }
-          payment.status = 'cancelled';
-          payment.reasonCode = String(reasonCode);
-          payment.failureReason = (reason || '').trim() || null as any;
-          payment.processedAt = new Date();
-          payment.auditLog = [ ...(payment.auditLog || []), { actorId: req.user.userId, actorName: req.user.email || '', action: 'cancel', timestamp: new Date(), details: `bulk; reasonCode=${reasonCode}` } ];
-          await payment.save();
-          results.push({ id, ok: true });
-          break;
-        }
+        case 'cancel':
         case 'reject': {
           if (!isValidReasonCode(reasonCode)) { results.push({ id, ok: false, error: 'invalid_reason_code' }); break; }
-          payment.status = 'failed';
+          try {
+            payment.applyTransition(action === 'cancel' ? 'cancelled' : 'failed', req.user, `bulk; reasonCode=${reasonCode}`);
+          } catch (err) {
+            if (err instanceof PaymentTransitionError) { results.push({ id, ok: false, error: err.code }); break; }
+            throw err;
+          }
           payment.reasonCode = String(reasonCode);
           payment.failureReason = (reason || '').trim() || null as any;
-          payment.processedAt = new Date();
-          payment.auditLog = [ ...(payment.auditLog || []), { actorId: req.user.userId, actorName: req.user.email || '', action: 'reject', timestamp: new Date(), details: `bulk; reasonCode=${reasonCode}` } ];
           await payment.save();
+          await releaseHold(payment);
+          await releaseTransferLimits(payment);
           results.push({ id, ok: true });
           break;
         }
@@ -632,10 +691,10 @@ export const getQueueHealth = async (_req: IAuthenticatedRequest, res: Response)
   try {
     const now = new Date();
     const fortyEightHoursAgo = new Date(now.getTime() - 48 * 60 * 60 * 1000);
-    const stale = await Payment.countDocuments({ deletedAt: null, status: { $in: ['pending', 'processing'] }, createdAt: { $lt: fortyEightHoursAgo } });
+    const stale = await Payment.countDocuments({ deletedAt: null, status: { $in: ['pending', 'processing', 'awaiting_second_approval'] }, createdAt: { $lt: fortyEightHoursAgo } });
     // At risk nearing SLA: pending > 24h
     const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    const atRisk = await Payment.countDocuments({ deletedAt: null, status: { $in: ['pending', 'processing'] }, createdAt: { $lt: twentyFourHoursAgo, $gte: fortyEightHoursAgo } });
+    const atRisk = await Payment.countDocuments({ deletedAt: null, status: { $in: ['pending', 'processing', 'awaiting_second_approval'] }, createdAt: { $lt: twentyFourHoursAgo, $gte: fortyEightHoursAgo } });
     res.status(200).json({ success: true, data: { stale, atRisk }, message: 'Queue health.' });
   } catch (error) {
     logger.error('Employee queue health error:', error);
@@ -657,7 +716,7 @@ export const exportPayments = async (req: IAuthenticatedRequest, res: Response):
     const includeDeleted = String(req.query['includeDeleted'] || 'false') === 'true';
     const query: any = {};
     if (!includeDeleted) query['deletedAt'] = null;
-    if (status && ['pending','processing','completed','failed','cancelled'].includes(status)) query['status'] = status;
+    if (isPaymentStatus(status)) query['status'] = status;
     if (startDate || endDate) {
       query['createdAt'] = {};
       if (startDate) query['createdAt']['$gte'] = startDate;
@@ -668,11 +727,12 @@ export const exportPayments = async (req: IAuthenticatedRequest, res: Response):
       const k = keyword.trim().slice(0, 100);
       const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
       const safe = escapeRegex(k);
-      keywordFilter = { $or: [ { recipientName: { $regex: safe, $options: 'i' } }, { reference: { $regex: safe, $options: 'i' } } ] };
+      keywordFilter = { $or: [ { recipientName: { $regex: safe, $options: 'i' } }, { reference: { $regex: safe, $options: 'i' } }, { transactionId: { $regex: safe, $options: 'i' } } ] };
     }
     const payments = await Payment.find({ $and: [query, keywordFilter] }).sort({ createdAt: -1 });
     const rows = payments.map(p => ({
       id: String((p as any)._id || p.transactionId || ''),
+      transactionId: p.transactionId || '',
       recipientName: p.recipientName,
       amount: p.amount,
       currency: p.currency,
@@ -685,7 +745,7 @@ export const exportPayments = async (req: IAuthenticatedRequest, res: Response):
       deletedAt: p.deletedAt ? p.deletedAt.toISOString() : '',
       deletedBy: p.deletedByName || p.deletedByUserId || ''
     }));
-    const header = Object.keys(rows[0] || { id: '', recipientName: '', amount: '', currency: '', reference: '', status: '', createdAt: '', processedAt: '', failureReason: '', reasonCode: '', deletedAt: '', deletedBy: '' }).join(',');
+    const header = Object.keys(rows[0] || { id: '', transactionId: '', recipientName: '', amount: '', currency: '', reference: '', status: '', createdAt: '', processedAt: '', failureReason: '', reasonCode: '', deletedAt: '', deletedBy: '' }).join(',');
     const csv = [header, ...rows.map(r => Object.values(r).map(v => String(v).replace(/"/g, '""')).join(','))].join('\n');
     res.setHeader('Content-Type', 'text/csv');
     res.setHeader('Content-Disposition', 'attachment; filename="payments_export.csv"');
@@ -702,4 +762,16 @@ export const getReasonCodes = async (_req: IAuthenticatedRequest, res: Response)
   } catch (error) {
     res.status(500).json({ success: false, message: 'Internal server error.' });
   }
-};
\ No newline at end of file
+};
+
+// Re-read the BIC directory file after it has been replaced on disk
+export const reloadBicDirectory = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const entries = loadBicDirectory();
+    logger.info('BIC directory reloaded by employee:', { employeeId: req.user?.userId, entries, ip: req.ip });
+    res.status(200).json({ success: true, data: { entries }, message: `BIC directory reloaded with ${entries} entries.` });
+  } catch (error) {
+    logger.error('BIC directory reload error:', error);
+    res.status(500).json({ success: false, message: 'Could not reload the BIC directory; the previous directory is still in use.' });
+  }
+};
@@ -0,0 +1,105 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { Payment } from '../models/Payment';
+import { PaymentExport } from '../models/PaymentExport';
+import { Beneficiary } from '../models/Beneficiary';
+import { bankConfig } from '../config';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { formatMt103, mt103Reference } from '../utils/mt103';
+import { createPain001Export, getDebtorDetails, parseExportWindow, PaymentExportError } from '../utils/paymentExportService';
+
+/**
+ * Generate a pain.001 file from completed payments processed in a window
+ */
+export const createPain001 = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) { res.status(401).json({ success: false, message: 'Authentication required.' }); return; }
+    const window = parseExportWindow(req.body || {});
+    const created = await createPain001Export(window, req.user.userId);
+    logger.info('pain.001 export created:', { exportId: created._id, messageId: created.messageId, payments: created.paymentCount, employeeId: req.user.userId, ip: req.ip });
+    const { xml, ...summary } = created.toJSON();
+    res.status(201).json({ success: true, message: `Exported ${created.paymentCount} payments.`, data: { export: summary }, timestamp: new Date().toISOString() });
+  } catch (error) {
+    if (error instanceof PaymentExportError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error('Create pain.001 export error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while creating export.' });
+  }
+};
+
+export const getPaymentExports = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const page = Math.max(parseInt((req.query['page'] as string) || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt((req.query['limit'] as string) || '20', 10) || 20, 1), 100);
+    const [exports, total] = await Promise.all([
+      PaymentExport.find({}).select('-xml').sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      PaymentExport.countDocuments({}),
+    ]);
+    res.status(200).json({ success: true, data: { exports, pagination: { page, limit, total, pages: Math.ceil(total / limit) } }, message: 'Exports retrieved.' });
+  } catch (error) {
+    logger.error('Get payment exports error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving exports.' });
+  }
+};
+
+/**
+ * Download the XML of a previous export
+ */
+export const downloadPaymentExport = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params as any;
+    if (!Types.ObjectId.isValid(id)) { res.status(400).json({ success: false, message: 'Invalid export ID.' }); return; }
+    const found = await PaymentExport.findById(id);
+    if (!found) { res.status(404).json({ success: false, message: 'Export not found.' }); return; }
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${found.messageId}.xml"`);
+    res.status(200).send(found.xml);
+  } catch (error) {
+    logger.error('Download payment export error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while downloading export.' });
+  }
+};
+
+/**
+ * Render a validated payment as an MT103 message for correspondent banking
+ */
+export const getPaymentMt103 = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params as any;
+    if (!Types.ObjectId.isValid(id)) { res.status(400).json({ success: false, message: 'Invalid payment ID.' }); return; }
+    const payment = await Payment.findOne({ _id: id, deletedAt: null });
+    if (!payment) { res.status(404).json({ success: false, message: 'Payment not found.' }); return; }
+    if (!['processing', 'completed'].includes(payment.status)) {
+      res.status(409).json({ success: false, message: `An MT103 cannot be generated for a ${payment.status} payment.`, error: 'PAYMENT_NOT_RELEASED', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const debtor = await getDebtorDetails(payment.userId);
+    const beneficiary = payment.beneficiaryId && Types.ObjectId.isValid(payment.beneficiaryId)
+      ? await Beneficiary.findById(payment.beneficiaryId)
+      : null;
+    const message = formatMt103(payment, {
+      senderBIC: bankConfig.bic,
+      orderingCustomer: { account: debtor.accountId, name: debtor.name },
+      beneficiaryAddressLines: beneficiary ? [beneficiary.address, [beneficiary.city, beneficiary.country].filter(Boolean).join(' ')].filter(Boolean) : [],
+      chargeBearer: payment.chargeBearer,
+      ...(payment.valueDate && { valueDate: payment.valueDate }),
+      ...(payment.fees?.deductedFromAmount && {
+        deductedCharges: {
+          settlementAmount: payment.fees.settlementAmount,
+          charges: payment.fees.lines.map(l => ({ amount: l.amount, currency: payment.fees!.currency })),
+        },
+      }),
+    });
+
+    res.setHeader('Content-Type', 'text/plain; charset=us-ascii');
+    res.setHeader('Content-Disposition', `inline; filename="${mt103Reference(payment)}.fin"`);
+    res.status(200).send(message);
+  } catch (error) {
+    logger.error('Generate MT103 error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while generating MT103.' });
+  }
+};
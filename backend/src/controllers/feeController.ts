@@ -0,0 +1,58 @@
+import { Response } from 'express';
+import { IAuthenticatedRequest } from '../types';
+import { FxQuote } from '../models/FxQuote';
+import { validationConfig } from '../config';
+import { logger } from '../utils/logger';
+import { calculateFees, parseChargeBearer, FeeError } from '../utils/feeEngine';
+
+/**
+ * Price a payment before it is sent so the customer can see the fees and who pays them.
+ * Pass fxQuoteId to see the fees in the currency the payment is funded from.
+ */
+export const getFeePreview = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const amount = parseFloat(String(req.query['amount'] ?? ''));
+    const currency = String(req.query['currency'] || '').toUpperCase();
+    const recipientIBAN = String(req.query['recipientIBAN'] || '');
+    if (!Number.isFinite(amount) || amount <= 0 || !validationConfig.payment.supportedCurrencies.includes(currency) || !recipientIBAN) {
+      res.status(400).json({ success: false, message: 'amount, currency and recipientIBAN are required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const fxQuoteId = String(req.query['fxQuoteId'] || '');
+    const quote = fxQuoteId ? await FxQuote.findOne({ quoteId: fxQuoteId, userId: req.user.userId }) : null;
+    if (fxQuoteId && !quote) {
+      res.status(404).json({ success: false, message: 'FX quote not found.', error: 'QUOTE_NOT_FOUND', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const chargeBearer = parseChargeBearer(req.query['chargeBearer']);
+    const fees = calculateFees({
+      amount,
+      currency,
+      recipientIBAN,
+      recipientCountry: req.query['recipientCountry'] ? String(req.query['recipientCountry']) : null,
+      chargeBearer,
+      fx: quote ? { sourceCurrency: quote.sourceCurrency, rate: quote.rate } : null,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Fees calculated successfully.',
+      data: { fees, chargeBearer },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof FeeError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error('Fee preview error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while calculating fees.', timestamp: new Date().toISOString() });
+  }
+};
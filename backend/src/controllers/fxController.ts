@@ -0,0 +1,90 @@
+import { Response } from 'express';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { createQuote, FxError } from '../utils/fxService';
+import { getFxRateTableStatus, loadFxRates, setFxRateTable, validateFxRateTable } from '../utils/fxRates';
+
+const readAmount = (value: unknown): number | undefined => (
+  value === undefined || value === null || value === '' ? undefined : parseFloat(String(value))
+);
+
+/**
+ * Quote a conversion into the payment currency; the quote ID is passed to POST /api/payments
+ */
+export const requestFxQuote = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { sourceCurrency, targetCurrency, sourceAmount, targetAmount } = req.body || {};
+    const quote = await createQuote(req.user.userId, {
+      ...(sourceCurrency && { sourceCurrency: String(sourceCurrency) }),
+      targetCurrency: String(targetCurrency || ''),
+      ...(readAmount(sourceAmount) !== undefined && { sourceAmount: readAmount(sourceAmount)! }),
+      ...(readAmount(targetAmount) !== undefined && { targetAmount: readAmount(targetAmount)! }),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'FX quote created.',
+      data: {
+        quote: {
+          quoteId: quote.quoteId,
+          sourceCurrency: quote.sourceCurrency,
+          targetCurrency: quote.targetCurrency,
+          sourceAmount: quote.sourceAmount,
+          targetAmount: quote.targetAmount,
+          rate: quote.rate,
+          expiresAt: quote.expiresAt,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof FxError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error('FX quote error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while creating FX quote.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Employee: rate table in use
+ */
+export const getFxRates = async (_req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  const status = getFxRateTableStatus();
+  if (!status) { res.status(503).json({ success: false, message: 'No FX rate table is loaded.' }); return; }
+  res.status(200).json({ success: true, data: { rates: status }, message: 'FX rate table retrieved.' });
+};
+
+/**
+ * Employee: replace the rate table in use with one sent in the request body
+ */
+export const updateFxRates = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validateFxRateTable(req.body);
+    if (errors.length > 0) { res.status(400).json({ success: false, message: 'The rate table is invalid.', errors }); return; }
+
+    const status = setFxRateTable(req.body, `employee:${req.user?.userId}`);
+    logger.info('FX rate table replaced by employee:', { employeeId: req.user?.userId, base: status.base, asOf: status.asOf, ip: req.ip });
+    res.status(200).json({ success: true, data: { rates: status }, message: `FX rate table updated with ${status.currencies.length} currencies.` });
+  } catch (error) {
+    logger.error('FX rate update error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while updating FX rates.' });
+  }
+};
+
+export const reloadFxRates = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const status = loadFxRates();
+    logger.info('FX rate table reloaded by employee:', { employeeId: req.user?.userId, asOf: status.asOf, ip: req.ip });
+    res.status(200).json({ success: true, data: { rates: status }, message: `FX rate table reloaded with ${status.currencies.length} currencies.` });
+  } catch (error) {
+    logger.error('FX rate reload error:', error);
+    res.status(500).json({ success: false, message: 'Could not reload the FX rate table; the previous table is still in use.' });
+  }
+};
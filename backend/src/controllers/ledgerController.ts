@@ -0,0 +1,140 @@
+import { Response } from 'express';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { validateCurrency } from '../utils/validation';
+import { getBalances, getAccountActivity, recordDeposit, LedgerError } from '../utils/ledgerService';
+import { checkTrialBalance, getLastTrialBalance } from '../jobs/trialBalance';
+
+const readCurrency = (req: IAuthenticatedRequest, res: Response): string | undefined | false => {
+  const currency = req.query['currency'] as string | undefined;
+  if (currency && !validateCurrency(currency)) {
+    res.status(400).json({ success: false, message: 'Unsupported currency code.', timestamp: new Date().toISOString() });
+    return false;
+  }
+  return currency;
+};
+
+/**
+ * Get ledger balances for the current user, one per currency
+ */
+export const getAccountBalance = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const currency = readCurrency(req, res);
+    if (currency === false) return;
+
+    const balances = await getBalances(req.user.userId, currency);
+
+    res.status(200).json({
+      success: true,
+      message: 'Balances retrieved successfully.',
+      data: { balances: balances.map(({ currency, balance, heldAmount }) => ({ currency, balance, heldAmount })) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Get account balance error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving balance.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Get available balance (ledger balance minus active holds) for the current user
+ */
+export const getAvailableBalance = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const currency = readCurrency(req, res);
+    if (currency === false) return;
+
+    const balances = await getBalances(req.user.userId, currency);
+
+    res.status(200).json({
+      success: true,
+      message: 'Available balances retrieved successfully.',
+      data: { balances: balances.map(({ currency, availableBalance }) => ({ currency, availableBalance })) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Get available balance error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving available balance.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Get ledger activity (posted entries and pending holds) for the current user
+ */
+export const getAccountEntries = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query['limit'] as string) || 50, 1), 200);
+    const entries = await getAccountActivity(req.user.userId, limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Account entries retrieved successfully.',
+      data: { entries },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Get account entries error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving account entries.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Employee: credit a customer's account from the bank's funding account
+ */
+export const employeeRecordDeposit = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { userId, currency, amount, description } = req.body as { userId?: string; currency?: string; amount?: number | string; description?: string };
+    if (!userId || !currency || !validateCurrency(currency)) {
+      res.status(400).json({ success: false, message: 'userId and a supported currency are required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const entry = await recordDeposit(userId, currency.toUpperCase(), parseFloat(String(amount)), req.user.userId, description?.trim());
+    logger.info('Employee recorded deposit:', { journalEntryId: entry._id, userId, currency: currency.toUpperCase(), actorUserId: req.user.userId });
+
+    res.status(201).json({ success: true, message: 'Deposit recorded successfully.', data: { entry: entry.toJSON() }, timestamp: new Date().toISOString() });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error('Employee record deposit error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while recording deposit.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Employee: last nightly trial balance, or a fresh one with ?run=true
+ */
+export const getTrialBalance = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const report = req.query['run'] === 'true' || !getLastTrialBalance()
+      ? await checkTrialBalance()
+      : getLastTrialBalance();
+
+    res.status(200).json({ success: true, data: { report }, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logger.error('Trial balance error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while running trial balance.', timestamp: new Date().toISOString() });
+  }
+};
@@ -0,0 +1,97 @@
+import { Response } from 'express';
+import { IAuthenticatedRequest } from '../types';
+import { User } from '../models/User';
+import { LimitOverride } from '../models/LimitOverride';
+import { logger } from '../utils/logger';
+import { getLimitStatus, setLimitOverride, removeLimitOverride, TransferLimitError } from '../utils/transferLimits';
+
+/**
+ * Get the current user's transfer limits and how much of each is left
+ */
+export const getTransferLimits = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { override, ...status } = await getLimitStatus(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Transfer limits retrieved successfully.',
+      data: { ...status, overrideExpiresAt: override?.expiresAt ?? null },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Get transfer limits error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving transfer limits.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Employee: a customer's limits, usage and override history
+ */
+export const getCustomerLimits = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const userId = String(req.params['userId']);
+    const customer = await User.findById(userId);
+    if (!customer || customer.role !== 'customer') { res.status(404).json({ success: false, message: 'Customer not found.' }); return; }
+
+    const [status, record] = await Promise.all([getLimitStatus(userId), LimitOverride.findOne({ userId })]);
+    res.status(200).json({ success: true, data: { ...status, history: record?.history || [] }, message: 'Customer limits retrieved.' });
+  } catch (error) {
+    logger.error('Get customer limits error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving customer limits.' });
+  }
+};
+
+const readReason = (req: IAuthenticatedRequest, res: Response): string | null => {
+  const reason = String(req.body?.reason || '').trim();
+  if (reason.length < 10) { res.status(400).json({ success: false, message: 'A reason of at least 10 characters is required.' }); return null; }
+  return reason.slice(0, 500);
+};
+
+/**
+ * Employee: replace a customer's tier caps (base currency); null keeps the tier's value
+ */
+export const setCustomerLimitOverride = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) { res.status(401).json({ success: false, message: 'Authentication required.' }); return; }
+    const userId = String(req.params['userId']);
+    const reason = readReason(req, res);
+    if (!reason) return;
+
+    const customer = await User.findById(userId);
+    if (!customer || customer.role !== 'customer') { res.status(404).json({ success: false, message: 'Customer not found.' }); return; }
+
+    const { perTransaction, daily, monthly, expiresAt } = req.body || {};
+    const override = await setLimitOverride(userId, { perTransaction, daily, monthly }, expiresAt ? new Date(expiresAt) : null, reason, { userId: req.user.userId, email: req.user.email, role: 'employee' });
+    res.status(200).json({ success: true, data: { override }, message: 'Limit override saved.' });
+  } catch (error) {
+    if (error instanceof TransferLimitError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error('Set limit override error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while saving limit override.' });
+  }
+};
+
+export const removeCustomerLimitOverride = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) { res.status(401).json({ success: false, message: 'Authentication required.' }); return; }
+    const reason = readReason(req, res);
+    if (!reason) return;
+
+    const override = await removeLimitOverride(String(req.params['userId']), reason, { userId: req.user.userId, email: req.user.email, role: 'employee' });
+    res.status(200).json({ success: true, data: { override }, message: 'Limit override removed; tier limits apply again.' });
+  } catch (error) {
+    if (error instanceof TransferLimitError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error('Remove limit override error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while removing limit override.' });
+  }
+};
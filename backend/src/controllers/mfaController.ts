@@ -0,0 +1,311 @@
+import { Request, Response } from 'express';
+import { User, IUserDocument } from '../models/User';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { startSession } from '../utils/session';
+import {
+  MfaError,
+  confirmMfaEnrollment,
+  disableMfa as disableUserMfa,
+  regenerateRecoveryCodes as regenerateUserRecoveryCodes,
+  startMfaEnrollment,
+  verifyMfaChallenge,
+  verifySecondFactor,
+} from '../utils/mfa';
+
+const sendMfaError = (res: Response, error: MfaError): void => {
+  res.status(error.statusCode).json({
+    success: false,
+    message: error.message,
+    error: error.code,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+// Enrolment endpoints run with either an access token or an employee's enrolment challenge
+const loadEnrollingUser = async (req: IAuthenticatedRequest, res: Response): Promise<IUserDocument | null> => {
+  const userId = req.user?.userId || req.mfaEnrollmentUserId;
+  const user = userId ? await User.findById(userId) : null;
+  if (!user || !user.isActive) {
+    res.status(404).json({
+      success: false,
+      message: 'User not found.',
+      timestamp: new Date().toISOString(),
+    });
+    return null;
+  }
+  return user;
+};
+
+/**
+ * Second login step: exchange the challenge token and an authenticator (or recovery) code
+ * for a session. Wrong codes count towards the account lockout like wrong passwords.
+ */
+export const verifyMfaLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { mfaToken, code, recoveryCode } = req.body || {};
+    if (!mfaToken || (!code && !recoveryCode)) {
+      res.status(400).json({
+        success: false,
+        message: 'Challenge token and authentication code are required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const user = await User.findById(verifyMfaChallenge(String(mfaToken), 'mfa_login'));
+    if (!user || !user.isActive) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (User.isLocked(user)) {
+      res.status(423).json({
+        success: false,
+        message: 'Account is temporarily locked due to multiple failed login attempts. Please try again later.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    let method: 'totp' | 'recovery_code';
+    try {
+      method = await verifySecondFactor(user, {
+        code: code ? String(code) : undefined,
+        recoveryCode: recoveryCode ? String(recoveryCode) : undefined,
+      });
+    } catch (error) {
+      if (error instanceof MfaError && error.code === 'INVALID_MFA_CODE') {
+        await User.incrementLoginAttempts(user.id!);
+        logger.warn('Failed MFA attempt:', { userId: user.id, ip: req.ip, userAgent: req.get('User-Agent') });
+      }
+      throw error;
+    }
+
+    if ((user.loginAttempts || 0) > 0) {
+      await User.resetLoginAttempts(user.id!);
+    }
+
+    const session = await startSession(user, req);
+    const recoveryCodesRemaining = method === 'recovery_code' ? (user.mfaRecoveryCodes || []).length - 1 : undefined;
+    if (method === 'recovery_code') {
+      logger.warn('Login with MFA recovery code:', { userId: user.id, recoveryCodesRemaining, ip: req.ip });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful.',
+      data: {
+        status: 'authenticated',
+        user: User.toJSON(user),
+        ...session,
+        ...(recoveryCodesRemaining !== undefined && { recoveryCodesRemaining }),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      sendMfaError(res, error);
+      return;
+    }
+    logger.error('MFA verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during login.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Start MFA enrolment: returns the secret and otpauth:// URI for the authenticator app
+ */
+export const setupMfa = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await loadEnrollingUser(req, res);
+    if (!user) return;
+
+    const { secret, otpauthUri } = await startMfaEnrollment(user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Add the key to your authenticator app, then confirm with a code.',
+      data: { secret, otpauthUri },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      sendMfaError(res, error);
+      return;
+    }
+    logger.error('MFA setup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during two-factor setup.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Confirm enrolment with a code. Returns the recovery codes; an employee enrolling from the
+ * login screen also gets their session.
+ */
+export const enableMfa = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body || {};
+    if (!code) {
+      res.status(400).json({
+        success: false,
+        message: 'Authentication code is required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const user = await loadEnrollingUser(req, res);
+    if (!user) return;
+
+    const recoveryCodes = await confirmMfaEnrollment(user, String(code));
+    logger.info('MFA enabled:', { userId: user.id, email: user.email, ip: req.ip });
+
+    const session = req.mfaEnrollmentUserId ? await startSession({ ...user, mfaEnabled: true }, req) : null;
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe; they will not be shown again.',
+      data: {
+        recoveryCodes,
+        ...(session && { status: 'authenticated', user: User.toJSON({ ...user, mfaEnabled: true }), ...session }),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      sendMfaError(res, error);
+      return;
+    }
+    logger.error('MFA enable error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during two-factor setup.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Replace the recovery codes (all previous ones stop working)
+ */
+export const regenerateRecoveryCodes = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const recoveryCodes = await regenerateUserRecoveryCodes(user, String(req.body?.code || ''));
+    logger.info('MFA recovery codes regenerated:', { userId: user.id, ip: req.ip });
+
+    res.status(200).json({
+      success: true,
+      message: 'New recovery codes generated; the old ones no longer work.',
+      data: { recoveryCodes },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      sendMfaError(res, error);
+      return;
+    }
+    logger.error('MFA recovery code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while generating recovery codes.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Turn MFA off (customers only); needs both the password and a current code
+ */
+export const disableMfa = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const { password, code } = req.body || {};
+    if (!password || !code) {
+      res.status(400).json({
+        success: false,
+        message: 'Password and authentication code are required.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!await User.comparePassword(user, String(password))) {
+      res.status(401).json({
+        success: false,
+        message: 'Password is incorrect.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await disableUserMfa(user, String(code));
+    logger.warn('MFA disabled:', { userId: user.id, email: user.email, ip: req.ip });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled.',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      sendMfaError(res, error);
+      return;
+    }
+    logger.error('MFA disable error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while disabling two-factor authentication.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
@@ -1,8 +1,84 @@
 import { Response } from 'express';
-import { Payment } from '../models/Payment';
-import { IAuthenticatedRequest, IPaymentRequest } from '../types';
+import { Payment, PaymentTransitionError } from '../models/Payment';
+import { PaymentSchedule } from '../models/PaymentSchedule';
+import { scheduledPaymentConfig } from '../config';
+import { IAuthenticatedRequest } from '../types';
 import { logger } from '../utils/logger';
-import { validateIBAN, validateSWIFT, validateCurrency } from '../utils/validation';
+import { releaseHold, LedgerError } from '../utils/ledgerService';
+import { submitPayment } from '../utils/paymentSubmission';
+import { processSchedule } from '../utils/paymentScheduleService';
+import { findPossibleDuplicate } from '../utils/duplicateDetection';
+import { TransferLimitError, releaseTransferLimits } from '../utils/transferLimits';
+import { claimQuote, releaseQuote, FxError } from '../utils/fxService';
+import { FeeError } from '../utils/feeEngine';
+import { RECURRENCE_FREQUENCIES, IRecurrenceRule, RecurrenceFrequency, parseCalendarDate, startOfUtcDay, nextOccurrence } from '../utils/recurrence';
+import { applyBeneficiary, validatePaymentRequest, BeneficiaryUnavailableError } from '../utils/paymentRequest';
+import { isInUnsettledBatch } from '../utils/paymentBatchService';
+
+interface IScheduleRequest {
+  startDate: Date;
+  recurrence: IRecurrenceRule;
+}
+
+/**
+ * Read the optional executionDate/recurrence fields. Returns null when the payment should run immediately.
+ */
+const parseScheduleRequest = (body: any, errors: { field: string; message: string }[]): IScheduleRequest | null => {
+  const { executionDate, recurrence } = body as { executionDate?: string; recurrence?: { frequency?: string; endDate?: string; count?: number | string } };
+  if (!executionDate && !recurrence) return null;
+
+  const today = startOfUtcDay();
+  const horizon = new Date(today.getTime() + scheduledPaymentConfig.maxHorizonDays * 24 * 60 * 60 * 1000);
+
+  let startDate: Date | null = today;
+  if (executionDate) {
+    startDate = parseCalendarDate(executionDate);
+    if (!startDate) {
+      errors.push({ field: 'executionDate', message: 'executionDate must be a YYYY-MM-DD date.' });
+    } else if (startDate < today) {
+      errors.push({ field: 'executionDate', message: 'executionDate cannot be in the past.' });
+    } else if (startDate > horizon) {
+      errors.push({ field: 'executionDate', message: `executionDate cannot be more than ${scheduledPaymentConfig.maxHorizonDays} days ahead.` });
+    }
+  }
+
+  const rule: IRecurrenceRule = { frequency: 'once', endDate: null, count: null };
+  if (recurrence) {
+    if (!RECURRENCE_FREQUENCIES.includes(recurrence.frequency as RecurrenceFrequency)) {
+      errors.push({ field: 'recurrence.frequency', message: `frequency must be one of ${RECURRENCE_FREQUENCIES.join(', ')}.` });
+    } else {
+      rule.frequency = recurrence.frequency as RecurrenceFrequency;
+    }
+
+    if (recurrence.endDate !== undefined && recurrence.endDate !== null && recurrence.endDate !== '') {
+      rule.endDate = parseCalendarDate(recurrence.endDate);
+      if (!rule.endDate) {
+        errors.push({ field: 'recurrence.endDate', message: 'endDate must be a YYYY-MM-DD date.' });
+      } else if (startDate && rule.endDate < startDate) {
+        errors.push({ field: 'recurrence.endDate', message: 'endDate cannot be before the execution date.' });
+      }
+    }
+
+    if (recurrence.count !== undefined && recurrence.count !== null && recurrence.count !== '') {
+      const count = Number(recurrence.count);
+      if (!Number.isInteger(count) || count < 1 || count > scheduledPaymentConfig.maxOccurrences) {
+        errors.push({ field: 'recurrence.count', message: `count must be between 1 and ${scheduledPaymentConfig.maxOccurrences}.` });
+      } else {
+        rule.count = count;
+      }
+    }
+
+    if (rule.frequency !== 'once' && !rule.endDate && !rule.count) {
+      errors.push({ field: 'recurrence', message: 'Recurring payments need an endDate or a count.' });
+    }
+  }
+
+  if (!startDate) return null;
+  // A one-off payment for today is just an ordinary payment
+  if (rule.frequency === 'once' && startDate.getTime() === today.getTime()) return null;
+
+  return { startDate, recurrence: rule };
+};
 
 /**
  * Create a new payment
@@ -18,64 +94,78 @@ export const createPayment = async (req: IAuthenticatedRequest, res: Response):
       return;
     }
 
-    const {
-      recipientName,
-      recipientEmail,
-      recipientIBAN,
-      recipientSWIFT,
-      recipientAddress,
-      recipientCity,
-      recipientCountry,
-      amount,
-      currency,
-      reference,
-      purpose,
-    }: IPaymentRequest = req.body;
-
-    // Collect validation errors
-    const errors: { field: string; message: string }[] = [];
-
-    // Validate required fields (collect all missing)
-    const requiredFields = [
-      'recipientName', 'recipientEmail', 'recipientIBAN', 'recipientSWIFT',
-      'recipientAddress', 'recipientCity', 'recipientCountry',
-      'amount', 'currency', 'reference', 'purpose'
-    ];
-    for (const field of requiredFields) {
-      if (!req.body[field]) {
-        errors.push({ field, message: `${field} is required.` });
-      }
+    const { input, beneficiary } = await applyBeneficiary(req.user.userId, req.body);
+    const { errors, fields } = validatePaymentRequest(input);
+    const scheduleRequest = parseScheduleRequest(input, errors);
+    const fxQuoteId = typeof req.body?.fxQuoteId === 'string' ? req.body.fxQuoteId.trim() : '';
+    if (fxQuoteId && scheduleRequest) {
+      // Quotes expire within minutes; scheduled payments are converted when they are created
+      errors.push({ field: 'fxQuoteId', message: 'An FX quote cannot be used for a scheduled or recurring payment.' });
     }
 
-    // Validate IBAN format
-    if (recipientIBAN && !validateIBAN(recipientIBAN)) {
-      errors.push({ field: 'recipientIBAN', message: 'Invalid IBAN format' });
-    }
-
-    // Validate SWIFT code format
-    if (recipientSWIFT && !validateSWIFT(recipientSWIFT)) {
-      errors.push({ field: 'recipientSWIFT', message: 'Invalid SWIFT code format' });
+    // If any validation errors, return all
+    if (errors.length > 0 || !fields) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation failed.',
+        errors,
+        timestamp: new Date().toISOString(),
+      });
+      return;
     }
 
-    // Validate amount
-    const numericAmount = parseFloat(amount);
-    if (isNaN(numericAmount) || numericAmount <= 0) {
-      errors.push({ field: 'amount', message: 'Amount must be a positive number.' });
-    } else if (numericAmount > 1000000) {
-      errors.push({ field: 'amount', message: 'Amount cannot exceed 1,000,000.' });
-    }
+    const paymentFields = { ...fields, beneficiaryId: beneficiary ? String(beneficiary._id) : null };
+
+    // Future-dated or recurring: store the series; the scheduler creates each payment when due
+    if (scheduleRequest) {
+      const schedule = await PaymentSchedule.create({
+        userId: req.user.userId,
+        template: paymentFields,
+        startDate: scheduleRequest.startDate,
+        recurrence: scheduleRequest.recurrence,
+        nextIndex: 0,
+        nextRunAt: nextOccurrence(scheduleRequest.startDate, scheduleRequest.recurrence, 0),
+      });
+      await processSchedule(schedule);
+
+      logger.info('Payment scheduled:', {
+        scheduleId: schedule._id,
+        userId: req.user.userId,
+        frequency: scheduleRequest.recurrence.frequency,
+        startDate: scheduleRequest.startDate.toISOString().slice(0, 10),
+        ip: req.ip,
+      });
 
-    // Validate currency code
-    if (currency && !validateCurrency(currency)) {
-      errors.push({ field: 'currency', message: 'Unsupported currency code.' });
+      const saved = await PaymentSchedule.findById(schedule._id);
+      res.status(201).json({
+        success: true,
+        message: 'Payment scheduled successfully.',
+        data: {
+          schedule: (saved || schedule).toJSON(),
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
     }
 
-    // If any validation errors, return all
-    if (errors.length > 0) {
-      res.status(400).json({
+    // Likely duplicates need the customer's explicit confirmation before they are sent
+    const duplicate = await findPossibleDuplicate({ userId: req.user.userId, ...paymentFields });
+    if (duplicate && req.body?.confirmDuplicate !== true) {
+      res.status(409).json({
         success: false,
-        message: 'Validation failed.',
-        errors,
+        message: 'This looks like a payment you already made recently. Confirm to send it again.',
+        error: 'POSSIBLE_DUPLICATE',
+        data: {
+          possibleDuplicateOf: {
+            id: String(duplicate._id),
+            transactionId: duplicate.transactionId,
+            amount: duplicate.amount,
+            currency: duplicate.currency,
+            reference: duplicate.reference,
+            status: duplicate.status,
+            createdAt: duplicate.createdAt,
+          },
+        },
         timestamp: new Date().toISOString(),
       });
       return;
@@ -84,29 +174,43 @@ export const createPayment = async (req: IAuthenticatedRequest, res: Response):
     // Create payment
     const payment = new Payment({
       userId: req.user.userId,
-      recipientName: recipientName.trim(),
-      recipientEmail: recipientEmail.toLowerCase().trim(),
-      recipientIBAN: recipientIBAN.toUpperCase().replace(/\s/g, ''),
-      recipientSWIFT: recipientSWIFT.toUpperCase().trim(),
-      recipientAddress: recipientAddress.trim(),
-      recipientCity: recipientCity.trim(),
-      recipientCountry: recipientCountry.trim(),
-      amount: numericAmount,
-      currency: currency.toUpperCase(),
-      reference: reference.trim(),
-      purpose: purpose.trim(),
+      ...paymentFields,
       status: 'pending',
     });
+    if (duplicate) {
+      payment.possibleDuplicateOf = String(duplicate._id);
+      payment.auditLog = [
+        { actorId: req.user.userId, actorName: req.user.email || '', action: 'duplicate_confirmed', timestamp: new Date(), details: `possible duplicate of ${duplicate.transactionId}` },
+      ];
+    }
+
+    // Paying from another currency: lock in the quoted rate and fund from the source currency
+    if (fxQuoteId) {
+      payment.fx = await claimQuote(fxQuoteId, req.user.userId, payment);
+    }
+
+    // Screen and reserve the funds before the payment exists so it can never outrun the balance
+    try {
+      await submitPayment(payment, { recipientCountry: paymentFields.recipientCountry });
+    } catch (error) {
+      if (payment.fx) await releaseQuote(payment.fx.quoteId, String(payment._id));
+      throw error;
+    }
 
-    await payment.save();
+    if (beneficiary) {
+      beneficiary.lastUsedAt = new Date();
+      await beneficiary.save();
+    }
 
     // Log payment creation
     logger.info('Payment created:', {
       paymentId: payment._id,
+      transactionId: payment.transactionId,
       userId: req.user.userId,
-      amount: numericAmount,
-      currency: currency.toUpperCase(),
-      recipientIBAN: recipientIBAN.substring(0, 8) + '****', // Mask IBAN for logging
+      amount: paymentFields.amount,
+      currency: paymentFields.currency,
+      status: payment.status,
+      recipientIBAN: paymentFields.recipientIBAN.substring(0, 8) + '****', // Mask IBAN for logging
       ip: req.ip,
     });
 
@@ -121,6 +225,48 @@ export const createPayment = async (req: IAuthenticatedRequest, res: Response):
   } catch (error: any) {
     logger.error('Create payment error:', error);
 
+    if (error instanceof LedgerError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        error: error.code,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof BeneficiaryUnavailableError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        error: error.code,
+        ...(error.availableAt && { data: { availableAt: error.availableAt.toISOString() } }),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof FxError || error instanceof FeeError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        error: error.code,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof TransferLimitError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        error: error.code,
+        data: { period: error.period, remaining: error.remaining, currency: error.currency },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
     if (error.name === 'ValidationError') {
       const validationErrors = Object.values(error.errors).map((err: any) => ({
         field: err.path,
@@ -243,7 +389,7 @@ export const getPaymentById = async (req: IAuthenticatedRequest, res: Response):
 };
 
 /**
- * Cancel payment (only if status is pending)
+ * Cancel payment (allowed transitions are defined in config/paymentLifecycle)
  */
 export const cancelPayment = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
   try {
@@ -272,18 +418,21 @@ export const cancelPayment = async (req: IAuthenticatedRequest, res: Response):
       return;
     }
 
-    if (payment.status !== 'pending') {
-      res.status(400).json({
+    // Rows of a batch that is still being created (or rolled back) are left to the batch
+    if (await isInUnsettledBatch(payment)) {
+      res.status(409).json({
         success: false,
-        message: 'Only pending payments can be cancelled.',
+        message: 'This payment belongs to a batch that has not finished being created.',
+        error: 'BATCH_NOT_CREATED',
         timestamp: new Date().toISOString(),
       });
       return;
     }
 
-    // Update payment status
-    payment.status = 'cancelled';
-    await payment.save();
+    // Lifecycle table decides whether the customer may cancel from the current status
+    await payment.updateStatus('cancelled', req.user);
+    await releaseHold(payment);
+    await releaseTransferLimits(payment);
 
     // Log payment cancellation
     logger.info('Payment cancelled:', {
@@ -303,6 +452,17 @@ export const cancelPayment = async (req: IAuthenticatedRequest, res: Response):
     });
   } catch (error) {
     logger.error('Cancel payment error:', error);
+
+    if (error instanceof PaymentTransitionError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        error: error.code,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
     res.status(500).json({
       success: false,
       message: 'Internal server error while cancelling payment.',
@@ -0,0 +1,88 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { StatementImport } from '../models/StatementImport';
+import { ReconciliationItem } from '../models/ReconciliationItem';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { importStatement as importCamt, resolveReconciliationItem as resolveItem, ReconciliationError } from '../utils/reconciliationService';
+
+const paging = (req: IAuthenticatedRequest) => {
+  const page = Math.max(parseInt((req.query['page'] as string) || '1', 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt((req.query['limit'] as string) || '20', 10) || 20, 1), 100);
+  return { page, limit, skip: (page - 1) * limit };
+};
+
+const sendReconciliationError = (res: Response, error: ReconciliationError): void => {
+  res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+};
+
+/**
+ * Import a camt.053 statement or camt.054 notification and reconcile its entries
+ */
+export const importStatement = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) { res.status(401).json({ success: false, message: 'Authentication required.' }); return; }
+    const { statementImport, items } = await importCamt(req.body?.file, req.body?.fileName, req.user.userId);
+    res.status(201).json({
+      success: true,
+      message: `Imported ${statementImport.messageType} ${statementImport.messageId}: ${statementImport.counts.matched} matched, ${statementImport.counts.mismatched + statementImport.counts.unmatched} queued.`,
+      data: { import: statementImport, items: items.filter(i => i.result !== 'matched') },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ReconciliationError) { sendReconciliationError(res, error); return; }
+    logger.error('Import statement error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while importing statement.' });
+  }
+};
+
+export const getStatementImports = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { page, limit, skip } = paging(req);
+    const [imports, total] = await Promise.all([
+      StatementImport.find({}).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      StatementImport.countDocuments({}),
+    ]);
+    res.status(200).json({ success: true, data: { imports, pagination: { page, limit, total, pages: Math.ceil(total / limit) } }, message: 'Statement imports retrieved.' });
+  } catch (error) {
+    logger.error('Get statement imports error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving statement imports.' });
+  }
+};
+
+/**
+ * Reconciliation queue: unmatched and mismatched entries awaiting review
+ */
+export const getReconciliationQueue = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { page, limit, skip } = paging(req);
+    const state = req.query['state'] === 'resolved' ? 'resolved' : 'open';
+    const query: any = { state, result: { $ne: 'matched' } };
+    if (req.query['result'] === 'mismatched' || req.query['result'] === 'unmatched') query['result'] = req.query['result'];
+    const [items, total] = await Promise.all([
+      ReconciliationItem.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      ReconciliationItem.countDocuments(query),
+    ]);
+    res.status(200).json({ success: true, data: { items, pagination: { page, limit, total, pages: Math.ceil(total / limit) } }, message: 'Reconciliation queue retrieved.' });
+  } catch (error) {
+    logger.error('Get reconciliation queue error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving reconciliation queue.' });
+  }
+};
+
+export const resolveReconciliationItem = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) { res.status(401).json({ success: false, message: 'Authentication required.' }); return; }
+    const { id } = req.params as any;
+    if (!Types.ObjectId.isValid(id)) { res.status(400).json({ success: false, message: 'Invalid reconciliation item ID.' }); return; }
+    const note = String(req.body?.note || '').trim();
+    if (note.length < 3) { res.status(400).json({ success: false, message: 'A resolution note of at least 3 characters is required.' }); return; }
+    const item = await resolveItem(id, req.user.userId, note.slice(0, 500));
+    logger.info('Reconciliation item resolved:', { itemId: id, employeeId: req.user.userId, ip: req.ip });
+    res.status(200).json({ success: true, data: { item }, message: 'Reconciliation item resolved.' });
+  } catch (error) {
+    if (error instanceof ReconciliationError) { sendReconciliationError(res, error); return; }
+    logger.error('Resolve reconciliation item error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while resolving reconciliation item.' });
+  }
+};
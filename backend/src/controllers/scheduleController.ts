@@ -0,0 +1,105 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { PaymentSchedule, IPaymentSchedule } from '../models/PaymentSchedule';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import {
+  skipNextOccurrence,
+  pauseSchedule,
+  resumeSchedule,
+  cancelSchedule,
+  PaymentScheduleError,
+} from '../utils/paymentScheduleService';
+
+type ScheduleAction = (schedule: IPaymentSchedule) => Promise<IPaymentSchedule>;
+
+/**
+ * List the current user's scheduled and recurring payments (optional ?status=)
+ */
+export const getSchedules = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const filter: any = { userId: req.user.userId };
+    const status = req.query['status'] as string | undefined;
+    if (status && ['active', 'paused', 'completed', 'cancelled'].includes(status)) {
+      filter.status = status;
+    }
+
+    const schedules = await PaymentSchedule.find(filter).sort({ nextRunAt: 1, createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Scheduled payments retrieved successfully.',
+      data: { schedules },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Get schedules error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving scheduled payments.', timestamp: new Date().toISOString() });
+  }
+};
+
+export const getScheduleById = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { id } = req.params;
+    const schedule = Types.ObjectId.isValid(String(id))
+      ? await PaymentSchedule.findOne({ _id: id, userId: req.user.userId })
+      : null;
+    if (!schedule) {
+      res.status(404).json({ success: false, message: 'Scheduled payment not found.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    res.status(200).json({ success: true, message: 'Scheduled payment retrieved successfully.', data: { schedule: schedule.toJSON() }, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logger.error('Get schedule error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving scheduled payment.', timestamp: new Date().toISOString() });
+  }
+};
+
+/**
+ * Build a handler that loads the caller's series and applies one lifecycle action to it
+ */
+const scheduleActionHandler = (action: ScheduleAction, verb: string) => async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { id } = req.params;
+    const schedule = Types.ObjectId.isValid(String(id))
+      ? await PaymentSchedule.findOne({ _id: id, userId: req.user.userId })
+      : null;
+    if (!schedule) {
+      res.status(404).json({ success: false, message: 'Scheduled payment not found.', timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const updated = await action(schedule);
+    logger.info(`Scheduled payment ${verb}:`, { scheduleId: id, userId: req.user.userId, status: updated.status });
+
+    res.status(200).json({ success: true, message: `Scheduled payment ${verb} successfully.`, data: { schedule: updated.toJSON() }, timestamp: new Date().toISOString() });
+  } catch (error) {
+    if (error instanceof PaymentScheduleError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error(`Schedule ${verb} error:`, error);
+    res.status(500).json({ success: false, message: 'Internal server error while updating scheduled payment.', timestamp: new Date().toISOString() });
+  }
+};
+
+export const pauseScheduledPayment = scheduleActionHandler(pauseSchedule, 'paused');
+export const resumeScheduledPayment = scheduleActionHandler(resumeSchedule, 'resumed');
+export const skipScheduledPayment = scheduleActionHandler(skipNextOccurrence, 'skipped');
+export const cancelScheduledPayment = scheduleActionHandler(cancelSchedule, 'cancelled');
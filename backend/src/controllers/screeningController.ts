@@ -0,0 +1,78 @@
+import { Response } from 'express';
+import { Types } from 'mongoose';
+import { PaymentTransitionError } from '../models/Payment';
+import { ScreeningCase } from '../models/ScreeningCase';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { loadSanctionsList } from '../utils/sanctionsScreening';
+import { decideScreeningCase, ScreeningDecision, ScreeningError } from '../utils/screeningService';
+
+const MIN_DECISION_NOTE_LENGTH = 10;
+
+/**
+ * Screening cases (held payments and their potential matches), open ones by default
+ */
+export const getScreeningCases = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const page = Math.max(parseInt((req.query['page'] as string) || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt((req.query['limit'] as string) || '20', 10) || 20, 1), 100);
+    const state = req.query['state'];
+    const query: any = { state: state === 'cleared' || state === 'confirmed' ? state : 'open' };
+    const [cases, total] = await Promise.all([
+      ScreeningCase.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit),
+      ScreeningCase.countDocuments(query),
+    ]);
+    res.status(200).json({ success: true, data: { cases, pagination: { page, limit, total, pages: Math.ceil(total / limit) } }, message: 'Screening cases retrieved.', timestamp: new Date().toISOString() });
+  } catch (error) {
+    logger.error('Get screening cases error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while retrieving screening cases.', timestamp: new Date().toISOString() });
+  }
+};
+
+const screeningDecisionHandler = (decision: ScreeningDecision) => async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) { res.status(401).json({ success: false, message: 'Authentication required.', timestamp: new Date().toISOString() }); return; }
+    const { id } = req.params as any;
+    if (!Types.ObjectId.isValid(id)) { res.status(400).json({ success: false, message: 'Invalid payment ID.', timestamp: new Date().toISOString() }); return; }
+    // The decision is a compliance record: it must say why the match was or was not accepted
+    const note = String(req.body?.note || '').trim();
+    if (note.length < MIN_DECISION_NOTE_LENGTH) {
+      res.status(400).json({ success: false, message: `A decision note of at least ${MIN_DECISION_NOTE_LENGTH} characters is required.`, timestamp: new Date().toISOString() });
+      return;
+    }
+
+    const { payment, screeningCase } = await decideScreeningCase(id, decision, req.user, note.slice(0, 1000));
+    logger.info('Employee screening decision:', { paymentId: id, decision, actorUserId: req.user.userId, ip: req.ip });
+    res.status(200).json({
+      success: true,
+      message: decision === 'clear' ? 'Screening hit cleared; payment released for processing.' : 'Screening match confirmed; payment stopped.',
+      data: { payment: payment.toJSON(), screening: screeningCase },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ScreeningError || error instanceof PaymentTransitionError) {
+      res.status(error.statusCode).json({ success: false, message: error.message, error: error.code, timestamp: new Date().toISOString() });
+      return;
+    }
+    logger.error('Screening decision error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while recording screening decision.', timestamp: new Date().toISOString() });
+  }
+};
+
+// False positive: release the payment
+export const clearScreeningHit = screeningDecisionHandler('clear');
+
+// True match: stop the payment and release the reserved funds
+export const confirmScreeningHit = screeningDecisionHandler('confirm');
+
+// Re-read the sanctions list files after they have been replaced on disk
+export const reloadSanctionsList = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const entries = loadSanctionsList();
+    logger.info('Sanctions list reloaded by employee:', { employeeId: req.user?.userId, entries, ip: req.ip });
+    res.status(200).json({ success: true, data: { entries }, message: `Sanctions list reloaded with ${entries} entries.`, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logger.error('Sanctions list reload error:', error);
+    res.status(500).json({ success: false, message: 'Could not reload the sanctions list; the previous list is still in use.', timestamp: new Date().toISOString() });
+  }
+};
@@ -0,0 +1,28 @@
+import { Response } from 'express';
+import { IAuthenticatedRequest } from '../types';
+import { User } from '../models/User';
+import { logger } from '../utils/logger';
+import { revokeAllUserTokens } from '../utils/tokenRevocation';
+
+/**
+ * Employee: end every session of a customer (e.g. a reported lost device or suspected account
+ * takeover). The customer's access and refresh tokens are revoked immediately.
+ */
+export const forceLogoutCustomer = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) { res.status(401).json({ success: false, message: 'Authentication required.' }); return; }
+    const userId = String(req.params['userId']);
+    const reason = String(req.body?.reason || '').trim();
+    if (reason.length < 10) { res.status(400).json({ success: false, message: 'A reason of at least 10 characters is required.' }); return; }
+
+    const customer = await User.findById(userId);
+    if (!customer || customer.role !== 'customer') { res.status(404).json({ success: false, message: 'Customer not found.' }); return; }
+
+    await revokeAllUserTokens(userId, 'forced_logout', req.user.userId);
+    logger.warn('Customer force-logged out by employee:', { userId, employeeId: req.user.userId, reason: reason.slice(0, 500), ip: req.ip });
+    res.status(200).json({ success: true, data: { userId }, message: 'All of the customer\'s sessions have been ended.' });
+  } catch (error) {
+    logger.error('Force logout error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error while ending the customer\'s sessions.' });
+  }
+};
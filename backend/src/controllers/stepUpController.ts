@@ -0,0 +1,151 @@
+import { Response } from 'express';
+import { User, IUserDocument } from '../models/User';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { MfaError, verifySecondFactor } from '../utils/mfa';
+import { StepUpMethod, issueStepUpToken } from '../utils/stepUp';
+import { WebAuthnError, generateAuthenticationOptions, hasWebAuthnCredentials, verifyAuthentication } from '../utils/webauthn';
+
+// Only the strongest factors the user has are accepted; the password is the fallback for users with neither
+const availableMethods = async (user: IUserDocument): Promise<StepUpMethod[]> => {
+  const methods: StepUpMethod[] = [];
+  if (await hasWebAuthnCredentials(user.id!)) methods.push('webauthn');
+  if (user.mfaEnabled) methods.push('totp');
+  return methods.length ? methods : ['password'];
+};
+
+const stepUpFailed = async (req: IAuthenticatedRequest, res: Response, user: IUserDocument, message: string): Promise<void> => {
+  await User.incrementLoginAttempts(user.id!);
+  logger.warn('Failed step-up attempt:', { userId: user.id, ip: req.ip, userAgent: req.get('User-Agent') });
+  res.status(401).json({
+    success: false,
+    message,
+    error: 'STEP_UP_FAILED',
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Which step-up methods the user can use, with passkey assertion options when they have one
+ */
+export const getStepUpOptions = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user ? await User.findById(req.user.userId) : null;
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const methods = await availableMethods(user);
+    const webauthn = methods.includes('webauthn') ? await generateAuthenticationOptions('step_up', user.id!) : undefined;
+
+    res.status(200).json({
+      success: true,
+      message: 'Step-up options generated.',
+      data: { methods, ...(webauthn && { webauthn }) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Step-up options error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while starting confirmation.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Re-authenticate with a passkey assertion, an authenticator code or (only for users with
+ * neither) the password, and receive a short-lived step-up token for the X-Step-Up-Token header
+ */
+export const stepUp = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user ? await User.findById(req.user.userId) : null;
+    if (!user || !user.isActive) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (User.isLocked(user)) {
+      res.status(423).json({
+        success: false,
+        message: 'Account is temporarily locked due to multiple failed login attempts. Please try again later.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const { webauthn, code, password } = req.body || {};
+    const methods = await availableMethods(user);
+    let method: StepUpMethod;
+
+    if (webauthn && methods.includes('webauthn')) {
+      try {
+        await verifyAuthentication(webauthn, 'step_up', user.id!);
+      } catch (error) {
+        if (error instanceof WebAuthnError) {
+          await stepUpFailed(req, res, user, error.message);
+          return;
+        }
+        throw error;
+      }
+      method = 'webauthn';
+    } else if (code && methods.includes('totp')) {
+      try {
+        await verifySecondFactor(user, { code: String(code) });
+      } catch (error) {
+        if (error instanceof MfaError) {
+          await stepUpFailed(req, res, user, 'Invalid authentication code.');
+          return;
+        }
+        throw error;
+      }
+      method = 'totp';
+    } else if (password && methods.includes('password')) {
+      if (!await User.comparePassword(user, String(password))) {
+        await stepUpFailed(req, res, user, 'Password is incorrect.');
+        return;
+      }
+      method = 'password';
+    } else {
+      res.status(400).json({
+        success: false,
+        message: `Confirm with one of: ${methods.join(', ')}.`,
+        data: { methods },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if ((user.loginAttempts || 0) > 0) {
+      await User.resetLoginAttempts(user.id!);
+    }
+
+    // authenticate only accepts access tokens with a jti; the step-up token is bound to it
+    const token = await issueStepUpToken(user.id!, req.user!.jti!, method);
+    logger.info('Step-up completed:', { userId: user.id, method, ip: req.ip });
+
+    res.status(200).json({
+      success: true,
+      message: 'Identity confirmed.',
+      data: { ...token, method },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Step-up error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during confirmation.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
@@ -1,5 +1,6 @@
 import { Response } from 'express';
 import { Payment } from '../models/Payment';
+import { isPaymentStatus } from '../config/paymentLifecycle';
 import { IAuthenticatedRequest } from '../types';
 import { logger } from '../utils/logger';
 
@@ -29,7 +30,7 @@ export const getTransactionHistory = async (req: IAuthenticatedRequest, res: Res
     // Build query filter
     const filter: any = { userId: req.user.userId };
 
-    if (status && ['pending', 'completed', 'failed', 'cancelled'].includes(status)) {
+    if (isPaymentStatus(status)) {
       filter.status = status;
     }
 
@@ -203,7 +204,7 @@ export const exportTransactionHistory = async (req: IAuthenticatedRequest, res:
     // Build query filter
     const filter: any = { userId: req.user.userId };
 
-    if (status && ['pending', 'completed', 'failed', 'cancelled'].includes(status)) {
+    if (isPaymentStatus(status)) {
       filter.status = status;
     }
 
@@ -226,6 +227,7 @@ export const exportTransactionHistory = async (req: IAuthenticatedRequest, res:
     // Generate CSV content
     const csvHeaders = [
       'Transaction ID',
+      'Type',
       'Date',
       'Recipient Name',
       'Recipient IBAN',
@@ -236,17 +238,37 @@ export const exportTransactionHistory = async (req: IAuthenticatedRequest, res:
       'Purpose',
     ];
 
-    const csvRows = transactions.map(transaction => [
-      transaction.transactionId,
-      transaction.createdAt ? transaction.createdAt.toISOString().split('T')[0] : '',
-      transaction.recipientName,
-      transaction.recipientIBAN,
-      transaction.amount.toString(),
-      transaction.currency,
-      transaction.status,
-      transaction.reference,
-      transaction.purpose,
-    ]);
+    // Each fee is its own row under the payment it was charged on
+    const csvRows = transactions.flatMap(transaction => {
+      const date = transaction.createdAt ? transaction.createdAt.toISOString().split('T')[0] : '';
+      const fees = transaction.fees;
+      return [
+        [
+          transaction.transactionId,
+          'Payment',
+          date,
+          transaction.recipientName,
+          transaction.recipientIBAN,
+          transaction.amount.toString(),
+          transaction.currency,
+          transaction.status,
+          transaction.reference,
+          transaction.purpose,
+        ],
+        ...(fees?.lines || []).map(fee => [
+          transaction.transactionId,
+          'Fee',
+          date,
+          transaction.recipientName,
+          transaction.recipientIBAN,
+          fee.amount.toString(),
+          fees!.currency,
+          transaction.status,
+          transaction.reference,
+          fees!.deductedFromAmount ? `${fee.description} (deducted from amount)` : fee.description,
+        ]),
+      ];
+    });
 
     const csvContent = [
       csvHeaders.join(','),
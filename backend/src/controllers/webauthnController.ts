@@ -0,0 +1,220 @@
+import { Request, Response } from 'express';
+import { User } from '../models/User';
+import { WebAuthnCredential } from '../models/WebAuthnCredential';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+import { startSession } from '../utils/session';
+import {
+  WebAuthnError,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  toCredentialSummary,
+  verifyAuthentication,
+  verifyRegistration,
+} from '../utils/webauthn';
+
+const sendWebAuthnError = (res: Response, error: WebAuthnError): void => {
+  res.status(error.statusCode).json({
+    success: false,
+    message: error.message,
+    error: error.code,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Options for registering a new passkey on the signed-in account
+ */
+export const getRegistrationOptions = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user ? await User.findById(req.user.userId) : null;
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Passkey registration options generated.',
+      data: await generateRegistrationOptions(user),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Passkey registration options error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while starting passkey registration.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Verify the browser's registration response and store the passkey
+ */
+export const registerCredential = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = req.user ? await User.findById(req.user.userId) : null;
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const { credential, name } = req.body || {};
+    const stored = await verifyRegistration(user, credential, String(name || ''));
+    logger.info('Passkey registered:', { userId: user.id, credentialId: stored.credentialId, ip: req.ip });
+
+    res.status(201).json({
+      success: true,
+      message: 'Passkey registered.',
+      data: { credential: toCredentialSummary(stored) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof WebAuthnError) {
+      sendWebAuthnError(res, error);
+      return;
+    }
+    logger.error('Passkey registration error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during passkey registration.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * List the signed-in user's passkeys
+ */
+export const listCredentials = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const credentials = await WebAuthnCredential.find({ userId: req.user?.userId }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Passkeys retrieved.',
+      data: { credentials: credentials.map(toCredentialSummary) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Passkey list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while retrieving passkeys.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Remove one of the signed-in user's passkeys
+ */
+export const deleteCredential = async (req: IAuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const deleted = await WebAuthnCredential.findOneAndDelete({
+      credentialId: String(req.params['credentialId'] || ''),
+      userId: req.user?.userId,
+    });
+    if (!deleted) {
+      sendWebAuthnError(res, new WebAuthnError('CREDENTIAL_NOT_FOUND', 'Passkey not found.'));
+      return;
+    }
+    logger.warn('Passkey removed:', { userId: req.user?.userId, credentialId: deleted.credentialId, ip: req.ip });
+
+    res.status(200).json({
+      success: true,
+      message: 'Passkey removed.',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Passkey delete error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while removing the passkey.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Options for passwordless login; the browser offers the passkeys it holds for this site
+ */
+export const getLoginOptions = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Passkey login options generated.',
+      data: await generateAuthenticationOptions('login'),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Passkey login options error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while starting passkey login.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
+/**
+ * Passwordless login: a user-verified passkey assertion stands in for password and second factor
+ */
+export const loginWithPasskey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const credential = await verifyAuthentication(req.body?.credential, 'login');
+    const user = await User.findById(credential.userId);
+    if (!user || !user.isActive) {
+      res.status(401).json({
+        success: false,
+        message: 'This passkey is not registered.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (User.isLocked(user)) {
+      res.status(423).json({
+        success: false,
+        message: 'Account is temporarily locked due to multiple failed login attempts. Please try again later.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const session = await startSession(user, req);
+    logger.info('Login with passkey:', { userId: user.id, credentialId: credential.credentialId, ip: req.ip });
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful.',
+      data: {
+        status: 'authenticated',
+        user: User.toJSON(user),
+        ...session,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof WebAuthnError) {
+      logger.warn('Failed passkey login:', { code: error.code, ip: req.ip, userAgent: req.get('User-Agent') });
+      sendWebAuthnError(res, error);
+      return;
+    }
+    logger.error('Passkey login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during login.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
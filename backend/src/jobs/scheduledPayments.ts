@@ -0,0 +1,10 @@
+import { scheduledPaymentConfig } from '../config';
+import { processDueSchedules } from '../utils/paymentScheduleService';
+import { scheduleInterval } from './scheduler';
+
+/**
+ * Poll for scheduled and recurring payments that have fallen due
+ */
+export const scheduleDuePaymentProcessing = (): void => {
+  scheduleInterval('scheduled-payments', scheduledPaymentConfig.pollIntervalMs, () => processDueSchedules());
+};
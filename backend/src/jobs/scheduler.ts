@@ -0,0 +1,72 @@
+import { logger } from '../utils/logger';
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Milliseconds until the next occurrence of hourUtc:00
+ */
+const msUntilNextRun = (hourUtc: number, now: Date = new Date()): number => {
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hourUtc, 0, 0, 0));
+  if (next.getTime() <= now.getTime()) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next.getTime() - now.getTime();
+};
+
+/**
+ * Run a task once a day at the given UTC hour. Failures are logged and do not stop later runs.
+ */
+export const scheduleDaily = (name: string, hourUtc: number, task: () => Promise<unknown>): void => {
+  stopJob(name);
+
+  const arm = () => {
+    const timer = setTimeout(async () => {
+      try {
+        logger.info(`Job started: ${name}`);
+        await task();
+      } catch (error) {
+        logger.error(`Job failed: ${name}`, error);
+      } finally {
+        arm();
+      }
+    }, msUntilNextRun(hourUtc));
+    // Never keep the process alive just for a pending job
+    timer.unref();
+    timers.set(name, timer);
+  };
+
+  arm();
+  logger.info(`Job scheduled: ${name} daily at ${String(hourUtc).padStart(2, '0')}:00 UTC`);
+};
+
+export const stopJob = (name: string): void => {
+  const timer = timers.get(name);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(name);
+  }
+};
+
+/**
+ * Run a task every intervalMs. A run is never started while the previous one is still going.
+ */
+export const scheduleInterval = (name: string, intervalMs: number, task: () => Promise<unknown>): void => {
+  stopJob(name);
+
+  const arm = () => {
+    const timer = setTimeout(async () => {
+      try {
+        await task();
+      } catch (error) {
+        logger.error(`Job failed: ${name}`, error);
+      } finally {
+        arm();
+      }
+    }, intervalMs);
+    timer.unref();
+    timers.set(name, timer);
+  };
+
+  arm();
+  logger.info(`Job scheduled: ${name} every ${Math.round(intervalMs / 1000)}s`);
+};
@@ -0,0 +1,19 @@
+import { ledgerConfig } from '../config';
+import { runTrialBalance, ITrialBalanceReport } from '../utils/ledgerService';
+import { scheduleDaily } from './scheduler';
+
+let lastReport: ITrialBalanceReport | null = null;
+
+export const getLastTrialBalance = (): ITrialBalanceReport | null => lastReport;
+
+export const checkTrialBalance = async (): Promise<ITrialBalanceReport> => {
+  lastReport = await runTrialBalance();
+  return lastReport;
+};
+
+/**
+ * Nightly check that the ledger balances
+ */
+export const scheduleTrialBalance = (): void => {
+  scheduleDaily('trial-balance', ledgerConfig.trialBalanceHourUtc, checkTrialBalance);
+};
@@ -0,0 +1,158 @@
+// Idempotency-Key handling in front of a stub handler. Keys live in memory with the same
+// unique (userId, key) rule as the collection.
+
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+let keys: any[] = [];
+jest.mock('../../models/IdempotencyKey', () => ({
+  IdempotencyKey: {
+    create: jest.fn(async (fields: any) => {
+      if (keys.some(k => k.userId === fields.userId && k.key === fields.key)) throw Object.assign(new Error('E11000'), { code: 11000 });
+      const record: any = { _id: `key-${keys.length + 1}`, state: 'in_progress', ...fields, save: jest.fn(async () => record) };
+      keys.push(record);
+      return record;
+    }),
+    findOne: jest.fn(async (filter: any) => keys.find(k => k.userId === filter.userId && k.key === filter.key) || null),
+    deleteOne: jest.fn(async (filter: any) => {
+      keys = keys.filter(k => !(filter._id
+        ? k._id === filter._id
+        : k.userId === filter.userId && k.key === filter.key && k.expiresAt <= filter.expiresAt.$lte));
+    }),
+  },
+}));
+
+import { idempotency } from '../idempotency';
+
+// The handler answers with the status in the body, or waits for `release` when asked to
+let calls = 0;
+let release: (() => void) | null = null;
+
+const app = express();
+app.use(express.json());
+app.use((req: any, _res, next) => {
+  req.user = { userId: req.header('x-user') || 'user-1' };
+  next();
+});
+app.post('/api/payments', idempotency, async (req, res) => {
+  calls += 1;
+  if (req.body.wait) await new Promise<void>(resolve => { release = resolve; });
+  res.status(req.body.status || 201).json({ success: true, data: { call: calls } });
+});
+
+const send = (key: string | null, body: Record<string, unknown> = { amount: 100 }, user?: string) => {
+  const req = request(app).post('/api/payments');
+  if (key !== null) req.set('Idempotency-Key', key);
+  if (user) req.set('X-User', user);
+  return req.send(body);
+};
+
+// Outcomes are recorded after the response is sent
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('idempotency middleware', () => {
+  beforeEach(() => {
+    keys = [];
+    calls = 0;
+    release = null;
+  });
+
+  it('runs every request without a key', async () => {
+    await send(null);
+    await send(null);
+
+    expect(calls).toBe(2);
+  });
+
+  it('replays the stored response for a retry with the same key and body', async () => {
+    const first = await send('key-1');
+    await settle();
+    const retry = await send('key-1');
+
+    expect(calls).toBe(1);
+    expect(retry.status).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+  });
+
+  it('treats bodies with the same fields in another order as the same request', async () => {
+    await send('key-1', { amount: 100, currency: 'EUR' });
+    await settle();
+    const retry = await send('key-1', { currency: 'EUR', amount: 100 });
+
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(calls).toBe(1);
+  });
+
+  it('rejects a reused key with a different body', async () => {
+    await send('key-1', { amount: 100 });
+    await settle();
+    const reused = await send('key-1', { amount: 200 });
+
+    expect(reused.status).toBe(422);
+    expect(reused.body.error).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(calls).toBe(1);
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    const first = send('key-1', { wait: true }).then(res => res);
+    while (!release) await new Promise(resolve => setImmediate(resolve));
+
+    const concurrent = await send('key-1', { wait: true });
+    release!();
+
+    expect(concurrent.status).toBe(409);
+    expect(concurrent.body.error).toBe('IDEMPOTENCY_REQUEST_IN_PROGRESS');
+    expect((await first).status).toBe(201);
+    expect(calls).toBe(1);
+  });
+
+  it('frees the key after an error response so the request can be retried', async () => {
+    const failed = await send('key-1', { status: 422 });
+    await settle();
+    const retry = await send('key-1', { status: 422 });
+
+    expect(failed.status).toBe(422);
+    expect(retry.headers['idempotent-replayed']).toBeUndefined();
+    expect(calls).toBe(2);
+    expect(keys).toHaveLength(0);
+  });
+
+  it('keeps keys separate per user', async () => {
+    await send('key-1', { amount: 100 }, 'user-1');
+    await settle();
+    const other = await send('key-1', { amount: 100 }, 'user-2');
+
+    expect(other.headers['idempotent-replayed']).toBeUndefined();
+    expect(calls).toBe(2);
+  });
+
+  it('ignores an expired key', async () => {
+    await send('key-1');
+    await settle();
+    keys[0].expiresAt = new Date(Date.now() - 1000);
+
+    const later = await send('key-1');
+
+    expect(later.headers['idempotent-replayed']).toBeUndefined();
+    expect(calls).toBe(2);
+  });
+
+  it.each([
+    ['a key with spaces', 'key 1'],
+    ['a key that is too long', 'k'.repeat(256)],
+  ])('rejects %s', async (_label, key) => {
+    const res = await send(key);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('INVALID_IDEMPOTENCY_KEY');
+    expect(calls).toBe(0);
+  });
+});
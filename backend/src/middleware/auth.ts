@@ -1,10 +1,11 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config';
-import { IAuthenticatedRequest } from '../types';
+import { IAuthenticatedRequest, IJWTPayload } from '../types';
 import { logger } from '../utils/logger';
+import { isTokenRevoked } from '../utils/tokenRevocation';
+import { MfaError, verifyMfaChallenge } from '../utils/mfa';
 
-// TODO: Add token blacklisting for logout
 // FIXME: Token expiry handling could be improved
 
 export const authenticate = async (req: IAuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
@@ -16,6 +17,7 @@ export const authenticate = async (req: IAuthenticatedRequest, res: Response, ne
       res.status(401).json({
         success: false,
         message: 'Access denied. No token provided.',
+        error: 'TOKEN_MISSING',
         timestamp: new Date().toISOString(),
       });
       return;
@@ -26,7 +28,18 @@ export const authenticate = async (req: IAuthenticatedRequest, res: Response, ne
     // Debug log token verification attempt
     console.log('Verifying token for request:', req.path);
     
-    const decoded = jwt.verify(token, config.jwtSecret) as any;
+    const decoded = jwt.verify(token, config.jwtSecret) as IJWTPayload;
+
+    // Tokens without a jti cannot be revoked, so they are not accepted
+    if (!decoded.jti || await isTokenRevoked(decoded)) {
+      res.status(401).json({
+        success: false,
+        message: 'Token has been revoked.',
+        error: 'TOKEN_REVOKED',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
     req.user = decoded;
     
     console.log('Token verified for user:', decoded.userId); // Debug
@@ -39,12 +52,14 @@ export const authenticate = async (req: IAuthenticatedRequest, res: Response, ne
       res.status(401).json({
         success: false,
         message: 'Token has expired.',
+        error: 'TOKEN_EXPIRED',
         timestamp: new Date().toISOString(),
       });
     } else if (error instanceof jwt.JsonWebTokenError) {
       res.status(401).json({
         success: false,
         message: 'Invalid token.',
+        error: 'TOKEN_INVALID',
         timestamp: new Date().toISOString(),
       });
     } else {
@@ -57,6 +72,29 @@ export const authenticate = async (req: IAuthenticatedRequest, res: Response, ne
   }
 };
 
+/**
+ * MFA enrolment accepts either a normal access token or, for users who cannot log in until
+ * they have enrolled (employees), the enrolment challenge token returned by login.
+ */
+export const authenticateOrMfaEnrollment = async (req: IAuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  const mfaToken = req.body?.mfaToken;
+  if (!mfaToken) {
+    await authenticate(req, res, next);
+    return;
+  }
+
+  try {
+    req.mfaEnrollmentUserId = verifyMfaChallenge(String(mfaToken), 'mfa_enroll');
+    next();
+  } catch (error) {
+    res.status(401).json({
+      success: false,
+      message: error instanceof MfaError ? error.message : 'Invalid token.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
+
 export const authorizeRole = (allowed: Array<'customer' | 'employee'>) => {
   return (req: IAuthenticatedRequest, res: Response, next: NextFunction): void => {
     try {
@@ -88,4 +126,28 @@ export const authorizeRole = (allowed: Array<'customer' | 'employee'>) => {
       });
     }
   };
-};
\ No newline at end of file
+};
+/**
+ * Restrict a route to the users listed in configuration (user IDs or emails, lowercase).
+ * An empty list leaves the route open to everyone authorizeRole already admitted.
+ */
+export const authorizeListed = (allowed: string[]) => {
+  return (req: IAuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (allowed.length === 0) {
+      next();
+      return;
+    }
+
+    const identities = [req.user?.userId, req.user?.email].filter(Boolean).map(v => String(v).toLowerCase());
+    if (!identities.some(id => allowed.includes(id))) {
+      res.status(403).json({
+        success: false,
+        message: 'Access denied. You are not authorised to perform this action.',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    next();
+  };
+};
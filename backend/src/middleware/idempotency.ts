@@ -0,0 +1,156 @@
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { IdempotencyKey, IIdempotencyKey } from '../models/IdempotencyKey';
+import { idempotencyConfig } from '../config';
+import { IAuthenticatedRequest } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Serialize a value with sorted object keys so equivalent bodies hash identically
+ */
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const fingerprintRequest = (req: IAuthenticatedRequest): string => {
+  return crypto
+    .createHash('sha256')
+    .update(`${req.method}\n${req.baseUrl}${req.path}\n${stableStringify(req.body || {})}`)
+    .digest('hex');
+};
+
+/**
+ * Store the outcome of the first request: successful responses are kept for replay,
+ * anything else releases the key so the client can retry with the same key.
+ */
+const recordOutcome = async (record: IIdempotencyKey, statusCode: number, body: any): Promise<void> => {
+  try {
+    if (statusCode >= 200 && statusCode < 300) {
+      record.state = 'completed';
+      record.statusCode = statusCode;
+      record.responseBody = body;
+      await record.save();
+    } else {
+      await IdempotencyKey.deleteOne({ _id: record._id });
+    }
+  } catch (error) {
+    logger.error('Failed to record idempotent response:', error);
+  }
+};
+
+/**
+ * Idempotency middleware: replays the original response for retried requests carrying
+ * the same Idempotency-Key header. Must run after authenticate.
+ */
+export const idempotency = async (req: IAuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.header(idempotencyConfig.headerName);
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required.',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  if (!/^[\x21-\x7E]+$/.test(key) || key.length > idempotencyConfig.maxKeyLength) {
+    res.status(400).json({
+      success: false,
+      message: `${idempotencyConfig.headerName} must be 1-${idempotencyConfig.maxKeyLength} printable characters.`,
+      error: 'INVALID_IDEMPOTENCY_KEY',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  try {
+    const requestHash = fingerprintRequest(req);
+    const now = new Date();
+
+    // Expired keys may linger until the TTL monitor runs; treat them as absent
+    await IdempotencyKey.deleteOne({ userId: req.user.userId, key, expiresAt: { $lte: now } });
+
+    let record: IIdempotencyKey;
+    try {
+      record = await IdempotencyKey.create({
+        key,
+        userId: req.user.userId,
+        method: req.method,
+        path: `${req.baseUrl}${req.path}`,
+        requestHash,
+        expiresAt: new Date(now.getTime() + idempotencyConfig.ttlMs),
+      });
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error;
+
+      const existing = await IdempotencyKey.findOne({ userId: req.user.userId, key });
+      if (!existing) {
+        // Released between our insert and lookup; ask the client to retry
+        res.status(409).json({
+          success: false,
+          message: 'A request with this idempotency key is already being processed.',
+          error: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (existing.requestHash !== requestHash) {
+        res.status(422).json({
+          success: false,
+          message: 'This idempotency key was already used with a different request body.',
+          error: 'IDEMPOTENCY_KEY_REUSED',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (existing.state !== 'completed') {
+        res.status(409).json({
+          success: false,
+          message: 'A request with this idempotency key is already being processed.',
+          error: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      logger.info('Idempotent request replayed:', {
+        userId: req.user.userId,
+        path: existing.path,
+        ip: req.ip,
+      });
+
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(existing.statusCode || 200).json(existing.responseBody);
+      return;
+    }
+
+    // Capture the handler's response so identical retries can be replayed
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      void recordOutcome(record, res.statusCode, body);
+      return originalJson(body);
+    };
+
+    next();
+  } catch (error) {
+    logger.error('Idempotency middleware error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while checking idempotency key.',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
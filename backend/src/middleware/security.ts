@@ -4,8 +4,13 @@ import helmet from 'helmet';
 import mongoSanitize from 'express-mongo-sanitize';
 import hpp from 'hpp';
 import xss from 'xss';
-import { config } from '../config';
+import { config, stepUpConfig } from '../config';
+import { IAuthenticatedRequest } from '../types';
 import { logger } from '../utils/logger';
+import { consumeStepUpToken } from '../utils/stepUp';
+import { toBaseAmount } from '../utils/transferLimits';
+import { readBatchRows } from '../utils/paymentBatchService';
+import { parseAmount } from '../utils/paymentRequest';
 
 /**
  * CORS configuration
@@ -31,8 +36,10 @@ export const corsOptions = {
     'Accept',
     'Authorization',
     'X-CSRF-Token',
+    'Idempotency-Key',
+    'X-Step-Up-Token',
   ],
-  exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset'],
+  exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset', 'Idempotent-Replayed'],
   maxAge: 86400, // 24 hours
 };
 
@@ -79,6 +86,27 @@ export const authRateLimit = createRateLimit(
   'Too many authentication attempts, please try again later.'
 );
 
+// Second-factor codes: separate from authRateLimit so the code step does not eat into login attempts
+export const mfaRateLimit = createRateLimit(
+  15 * 60 * 1000, // 15 minutes
+  10, // 10 codes per 15 minutes
+  'Too many authentication code attempts, please try again later.'
+);
+
+// Token refresh: one per access token lifetime per session, with room for several tabs
+export const refreshRateLimit = createRateLimit(
+  15 * 60 * 1000, // 15 minutes
+  30, // 30 refreshes per 15 minutes
+  'Too many token refresh requests, please try again later.'
+);
+
+// Password reset: keeps reset emails from being used to flood an inbox
+export const passwordResetRateLimit = createRateLimit(
+  60 * 60 * 1000, // 1 hour
+  5, // 5 requests per hour
+  'Too many password reset requests, please try again later.'
+);
+
 // Payment rate limiting
 export const paymentRateLimit = createRateLimit(
   60 * 60 * 1000, // 1 hour
@@ -87,17 +115,78 @@ export const paymentRateLimit = createRateLimit(
 );
 
 /**
- * Step-up confirmation middleware: require explicit confirmation header for destructive actions
+ * Step-up middleware: sensitive actions need a step-up token from POST /api/auth/step-up,
+ * proving the user re-authenticated (passkey, authenticator code or password) moments ago.
+ * The token is consumed here and only works with the access token it was issued under.
+ * Must run after authenticate.
  */
-export const stepUpConfirmAction = (req: Request, res: Response, next: NextFunction): void => {
-  const confirm = req.header('x-action-confirm');
-  if (String(confirm || '').toLowerCase() !== 'true') {
-    res.status(401).json({ success: false, message: 'Step-up confirmation required for this action.' });
+export const stepUpConfirmAction = async (req: IAuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const token = req.header('x-step-up-token');
+    if (!req.user?.jti || !token || !await consumeStepUpToken(token, req.user.userId, req.user.jti)) {
+      res.status(401).json({
+        success: false,
+        message: 'Please confirm your identity to continue.',
+        error: 'STEP_UP_REQUIRED',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+  } catch (error) {
+    logger.error('Step-up verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error while confirming identity.',
+      timestamp: new Date().toISOString(),
+    });
     return;
   }
   next();
 };
 
+// Amount in the limits base currency. An amount or currency that cannot be read counts as
+// above any threshold, so the step-up check fails closed; validation then reports the field.
+const baseAmountOf = (rawAmount: unknown, rawCurrency: unknown): number => {
+  const amount = parseAmount(rawAmount);
+  if (amount === null) return Infinity;
+  try {
+    return toBaseAmount(amount, String(rawCurrency || '').toUpperCase());
+  } catch {
+    return Infinity;
+  }
+};
+
+/**
+ * Step-up for payments above stepUpConfig.paymentThreshold (in the limits base currency);
+ * smaller payments pass straight through. Must run after authenticate.
+ */
+export const stepUpForLargePayment = async (req: IAuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (baseAmountOf(req.body?.amount, req.body?.currency) <= stepUpConfig.paymentThreshold) {
+    next();
+    return;
+  }
+  await stepUpConfirmAction(req, res, next);
+};
+
+/**
+ * Step-up for bulk uploads whose total exceeds stepUpConfig.paymentThreshold, so a large
+ * transfer cannot avoid it by being split into small rows. Unreadable files pass through
+ * and are rejected by the batch controller. Must run after authenticate.
+ */
+export const stepUpForLargeBatch = async (req: IAuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  let total = 0;
+  try {
+    total = readBatchRows(req.body).rows.reduce((sum, row) => sum + baseAmountOf(row?.amount, row?.currency), 0);
+  } catch {
+    // Invalid file: createPaymentBatch reports it
+  }
+  if (total <= stepUpConfig.paymentThreshold) {
+    next();
+    return;
+  }
+  await stepUpConfirmAction(req, res, next);
+};
+
 /**
  * Helmet security configuration
  */
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AML_ACTIONS, AML_RULE_TYPES, IAmlRule } from '../config/amlRules';
+
+// Rule sets are never edited in place: each change publishes a new version and the highest version is in force
+export interface IAmlRuleSet extends Document {
+  version: number;
+  escalateScore: number;
+  holdScore: number;
+  rules: IAmlRule[];
+  changeNote: string;
+  createdBy: string;
+  createdByName?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AmlRuleSchema = new Schema({
+  id: { type: String, required: true },
+  name: { type: String, required: true, maxlength: 100 },
+  type: { type: String, enum: AML_RULE_TYPES, required: true },
+  enabled: { type: Boolean, default: true },
+  score: { type: Number, required: true, min: 0, max: 100 },
+  action: { type: String, enum: AML_ACTIONS, required: true },
+  params: { type: Schema.Types.Mixed, default: {} }
+}, { _id: false, minimize: false });
+
+const AmlRuleSetSchema: Schema = new Schema({
+  version: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  escalateScore: {
+    type: Number,
+    required: true
+  },
+  holdScore: {
+    type: Number,
+    required: true
+  },
+  rules: [AmlRuleSchema],
+  changeNote: {
+    type: String,
+    required: true,
+    maxlength: 500
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  createdByName: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+export const AmlRuleSet = mongoose.model<IAmlRuleSet>('AmlRuleSet', AmlRuleSetSchema);
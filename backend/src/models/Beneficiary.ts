@@ -0,0 +1,107 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { validateIBAN, validateSWIFT } from '../utils/validation';
+
+export interface IBeneficiary extends Document {
+  userId: string;
+  nickname?: string | null;
+  name: string;
+  email: string;
+  iban: string;
+  swift: string;
+  address: string;
+  city: string;
+  country: string;
+  // New or re-pointed beneficiaries cannot be paid until this time
+  coolingOffUntil: Date;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  isCoolingOff(now?: Date): boolean;
+}
+
+const BeneficiarySchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  nickname: {
+    type: String,
+    trim: true,
+    maxlength: 50,
+    default: null
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+    maxlength: 100
+  },
+  iban: {
+    type: String,
+    required: true,
+    uppercase: true,
+    validate: {
+      validator: function(this: any, v: string) {
+        // Saved before the country registry: only re-check when the IBAN changes
+        if (!this.isNew && !this.isModified('iban')) return true;
+        return validateIBAN((v || '').replace(/\s/g, '').toUpperCase());
+      },
+      message: 'Invalid IBAN format'
+    }
+  },
+  swift: {
+    type: String,
+    required: true,
+    uppercase: true,
+    validate: {
+      validator: (v: string) => validateSWIFT((v || '').replace(/\s/g, '').toUpperCase()),
+      message: 'Invalid SWIFT code format'
+    }
+  },
+  address: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  city: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  country: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  coolingOffUntil: {
+    type: Date,
+    required: true
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// A customer saves each account only once
+BeneficiarySchema.index({ userId: 1, iban: 1 }, { unique: true });
+
+BeneficiarySchema.methods['isCoolingOff'] = function(now: Date = new Date()): boolean {
+  return this['coolingOffUntil'].getTime() > now.getTime();
+};
+
+export const Beneficiary = mongoose.model<IBeneficiary>('Beneficiary', BeneficiarySchema);
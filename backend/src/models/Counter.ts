@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICounter extends Document {
+  _id: string;
+  seq: number;
+}
+
+const CounterSchema: Schema = new Schema({
+  _id: {
+    type: String,
+    required: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+}, {
+  versionKey: false
+});
+
+/**
+ * Atomically increment and return the next value of a named sequence
+ */
+export const nextSequence = async (name: string): Promise<number> => {
+  const counter = await Counter.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  return counter!.seq;
+};
+
+export const Counter = mongoose.model<ICounter>('Counter', CounterSchema);
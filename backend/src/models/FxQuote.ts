@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A rate offered to a customer, usable for one payment until it expires
+export interface IFxQuote extends Document {
+  quoteId: string;
+  userId: string;
+  sourceCurrency: string;
+  targetCurrency: string;
+  sourceAmount: number;
+  targetAmount: number;
+  // Units of target currency per unit of source currency, after the spread
+  rate: number;
+  midRate: number;
+  spreadBps: number;
+  rateTableAsOf: Date;
+  expiresAt: Date;
+  usedAt: Date | null;
+  paymentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FxQuoteSchema: Schema = new Schema({
+  quoteId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sourceCurrency: {
+    type: String,
+    required: true
+  },
+  targetCurrency: {
+    type: String,
+    required: true
+  },
+  sourceAmount: {
+    type: Number,
+    required: true
+  },
+  targetAmount: {
+    type: Number,
+    required: true
+  },
+  rate: {
+    type: Number,
+    required: true
+  },
+  midRate: {
+    type: Number,
+    required: true
+  },
+  spreadBps: {
+    type: Number,
+    required: true
+  },
+  rateTableAsOf: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  paymentId: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+export const FxQuote = mongoose.model<IFxQuote>('FxQuote', FxQuoteSchema);
@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IIdempotencyKey extends Document {
+  key: string;
+  userId: string;
+  method: string;
+  path: string;
+  requestHash: string;
+  state: 'in_progress' | 'completed';
+  statusCode?: number | null;
+  responseBody?: any;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    maxlength: 255
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  method: {
+    type: String,
+    required: true
+  },
+  path: {
+    type: String,
+    required: true
+  },
+  requestHash: {
+    type: String,
+    required: true
+  },
+  state: {
+    type: String,
+    enum: ['in_progress', 'completed'],
+    default: 'in_progress'
+  },
+  statusCode: {
+    type: Number,
+    default: null
+  },
+  responseBody: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Keys are scoped per user so one customer cannot replay another's response
+IdempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+
+// Let MongoDB purge expired keys
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { LedgerAccountType } from './LedgerAccount';
+
+export interface IJournalLine {
+  accountId: string;
+  ownerId: string;
+  accountType: LedgerAccountType;
+  direction: 'debit' | 'credit';
+  amountMinor: number;
+  currency: string;
+  // Shown in the account owner's activity instead of the entry description, e.g. for fee lines
+  memo?: string | null;
+}
+
+export interface IJournalEntry extends Document {
+  kind: 'deposit' | 'payment' | 'reversal';
+  paymentId?: string | null;
+  // Hold a payment or reversal entry was posted for
+  holdId?: string | null;
+  description: string;
+  lines: IJournalLine[];
+  createdBy: string;
+  createdAt: Date;
+}
+
+const JournalEntrySchema: Schema = new Schema({
+  kind: {
+    type: String,
+    enum: ['deposit', 'payment', 'reversal'],
+    required: true
+  },
+  paymentId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  holdId: {
+    type: String,
+    default: null
+  },
+  description: {
+    type: String,
+    required: true,
+    maxlength: 255
+  },
+  lines: [
+    new Schema({
+      accountId: { type: String, required: true, index: true },
+      ownerId: { type: String, required: true },
+      accountType: { type: String, enum: ['customer', 'clearing', 'funding', 'fee_income'], required: true },
+      direction: { type: String, enum: ['debit', 'credit'], required: true },
+      amountMinor: { type: Number, required: true, min: 1 },
+      currency: { type: String, required: true, uppercase: true },
+      memo: { type: String, default: null, maxlength: 255 }
+    }, { _id: false })
+  ],
+  createdBy: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// A hold is captured at most once and reversed at most once; a payment whose capture was
+// reversed can be posted again under a new hold
+JournalEntrySchema.index(
+  { holdId: 1, kind: 1 },
+  { unique: true, partialFilterExpression: { holdId: { $type: 'string' } } }
+);
+
+// Every entry must balance: debits equal credits in each currency
+JournalEntrySchema.pre('validate', function(next) {
+  const lines = (this.get('lines') || []) as IJournalLine[];
+  if (lines.length < 2) {
+    return next(new Error('Journal entry requires at least two lines'));
+  }
+  const net: Record<string, number> = {};
+  for (const line of lines) {
+    const sign = line.direction === 'debit' ? 1 : -1;
+    net[line.currency] = (net[line.currency] || 0) + sign * line.amountMinor;
+  }
+  if (Object.values(net).some(v => v !== 0)) {
+    return next(new Error('Journal entry is not balanced'));
+  }
+  next();
+});
+
+// Journal entries are immutable once written; corrections are new entries
+JournalEntrySchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Journal entries are immutable'));
+  }
+  next();
+});
+
+const rejectMutation = function(next: (err?: Error) => void) {
+  next(new Error('Journal entries are immutable'));
+};
+JournalEntrySchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], rejectMutation);
+JournalEntrySchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation);
+
+export const JournalEntry = mongoose.model<IJournalEntry>('JournalEntry', JournalEntrySchema);
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { validationConfig } from '../config';
+
+// fee_income: the bank's revenue from payment fees
+export type LedgerAccountType = 'customer' | 'clearing' | 'funding' | 'fee_income';
+
+export interface ILedgerAccount extends Document {
+  ownerId: string;
+  type: LedgerAccountType;
+  currency: string;
+  // Amounts are stored in minor units (cents) so postings add up exactly
+  balanceMinor: number;
+  heldMinor: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LedgerAccountSchema: Schema = new Schema({
+  ownerId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  type: {
+    type: String,
+    enum: ['customer', 'clearing', 'funding', 'fee_income'],
+    required: true
+  },
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true,
+    enum: validationConfig.payment.supportedCurrencies
+  },
+  balanceMinor: {
+    type: Number,
+    default: 0
+  },
+  heldMinor: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, {
+  timestamps: true
+});
+
+// One account per owner, type and currency
+LedgerAccountSchema.index({ ownerId: 1, type: 1, currency: 1 }, { unique: true });
+
+export const LedgerAccount = mongoose.model<ILedgerAccount>('LedgerAccount', LedgerAccountSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILedgerHold extends Document {
+  accountId: string;
+  ownerId: string;
+  paymentId: string;
+  currency: string;
+  amountMinor: number;
+  // Part of amountMinor (or, when fees are deducted from the amount, of the principal) that is fees
+  feeMinor: number;
+  feesDeducted: boolean;
+  status: 'active' | 'captured' | 'released';
+  journalEntryId?: string | null;
+  capturedAt?: Date | null;
+  releasedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LedgerHoldSchema: Schema = new Schema({
+  accountId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  ownerId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  // A payment can only ever reserve funds once
+  paymentId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  amountMinor: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  feeMinor: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  feesDeducted: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: ['active', 'captured', 'released'],
+    default: 'active',
+    index: true
+  },
+  journalEntryId: {
+    type: String,
+    default: null
+  },
+  capturedAt: {
+    type: Date,
+    default: null
+  },
+  releasedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+export const LedgerHold = mongoose.model<ILedgerHold>('LedgerHold', LedgerHoldSchema);
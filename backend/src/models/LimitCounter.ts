@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Running total a customer has committed in one limit period, reserved atomically as payments are submitted
+export interface ILimitCounter extends Document {
+  userId: string;
+  period: 'daily' | 'monthly';
+  periodStart: Date;
+  // null: the limits base currency; otherwise a currency with its own tier caps, in that currency
+  currency: string | null;
+  // Minor units, so repeated reservations add up exactly
+  usedMinor: number;
+  // Counters are dropped once their period is over
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LimitCounterSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  period: {
+    type: String,
+    enum: ['daily', 'monthly'],
+    required: true
+  },
+  periodStart: {
+    type: Date,
+    required: true
+  },
+  currency: {
+    type: String,
+    default: null
+  },
+  usedMinor: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+LimitCounterSchema.index({ userId: 1, period: 1, periodStart: 1, currency: 1 }, { unique: true });
+
+// Let MongoDB purge counters of past periods
+LimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LimitCounter = mongoose.model<ILimitCounter>('LimitCounter', LimitCounterSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILimitOverrideChange {
+  action: 'set' | 'removed';
+  perTransaction: number | null;
+  daily: number | null;
+  monthly: number | null;
+  expiresAt: Date | null;
+  reason: string;
+  actorId: string;
+  actorName: string | null;
+  timestamp: Date;
+}
+
+// Employee-set caps for one customer, in the limits base currency; a null cap falls back to the tier's
+export interface ILimitOverride extends Document {
+  userId: string;
+  active: boolean;
+  perTransaction: number | null;
+  daily: number | null;
+  monthly: number | null;
+  expiresAt: Date | null;
+  reason: string;
+  // Every change, newest last, so earlier values can always be traced
+  history: ILimitOverrideChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LimitOverrideChangeSchema = new Schema({
+  action: { type: String, enum: ['set', 'removed'], required: true },
+  perTransaction: { type: Number, default: null },
+  daily: { type: Number, default: null },
+  monthly: { type: Number, default: null },
+  expiresAt: { type: Date, default: null },
+  reason: { type: String, required: true },
+  actorId: { type: String, required: true },
+  actorName: { type: String, default: null },
+  timestamp: { type: Date, default: Date.now }
+}, { _id: false });
+
+const LimitOverrideSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  active: {
+    type: Boolean,
+    default: true,
+    index: true
+  },
+  perTransaction: {
+    type: Number,
+    default: null
+  },
+  daily: {
+    type: Number,
+    default: null
+  },
+  monthly: {
+    type: Number,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  reason: {
+    type: String,
+    required: true,
+    maxlength: 500
+  },
+  history: [LimitOverrideChangeSchema]
+}, {
+  timestamps: true
+});
+
+export const LimitOverride = mongoose.model<ILimitOverride>('LimitOverride', LimitOverrideSchema);
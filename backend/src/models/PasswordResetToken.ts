@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A password reset link sent by email. Only a hash of the token is stored.
+export interface IPasswordResetToken extends Document {
+  tokenHash: string;
+  userId: string;
+  expiresAt: Date;
+  // Set when the link is used; a used link never works again
+  usedAt: Date | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PasswordResetTokenSchema: Schema = new Schema({
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  ip: {
+    type: String,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB purge expired links
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const PasswordResetToken = mongoose.model<IPasswordResetToken>('PasswordResetToken', PasswordResetTokenSchema);
@@ -1,8 +1,60 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import { validateIBAN, validateSWIFT } from '../utils/validation';
+import { generateTransactionId } from '../utils/transactionId';
+import { CHARGE_BEARERS, ChargeBearer, DEFAULT_CHARGE_BEARER } from '../config/feeSchedule';
+import { PAYMENT_STATUSES, PAYMENT_TRANSITIONS, PaymentStatus, PaymentActorRole, TERMINAL_STATUSES, findTransition } from '../config/paymentLifecycle';
 
 // TODO: Add payment categories (personal, business, etc.)
-// FIXME: Consider adding payment limits per user type
+
+export type PaymentTransitionErrorCode = 'ILLEGAL_TRANSITION' | 'TRANSITION_NOT_PERMITTED' | 'UNTRACKED_TRANSITION';
+
+/**
+ * Raised when a status change violates the payment lifecycle table
+ */
+export class PaymentTransitionError extends Error {
+  constructor(public readonly code: PaymentTransitionErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentTransitionError';
+  }
+
+  get statusCode(): number {
+    return this.code === 'TRANSITION_NOT_PERMITTED' ? 403 : 409;
+  }
+}
+
+export interface IPaymentActor {
+  userId: string;
+  email?: string;
+  role: PaymentActorRole;
+}
+
+// Conversion from the customer's account currency; `amount`/`currency` are what the recipient gets
+export interface IPaymentFx {
+  quoteId: string;
+  sourceCurrency: string;
+  sourceAmount: number;
+  targetAmount: number;
+  rate: number;
+  midRate: number;
+  spreadBps: number;
+}
+
+export interface IFeeLine {
+  ruleId: string;
+  description: string;
+  amount: number;
+}
+
+export interface IPaymentFees {
+  // Currency the fees are charged in: the funding currency of the payment
+  currency: string;
+  lines: IFeeLine[];
+  total: number;
+  // BEN: the fees come out of the amount sent instead of being charged on top
+  deductedFromAmount: boolean;
+  // What the recipient's bank is paid, in the payment currency
+  settlementAmount: number;
+}
 
 export interface IPayment extends Document {
   userId: string;
@@ -13,8 +65,24 @@ export interface IPayment extends Document {
   currency: string;
   reference: string;
   purpose: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: PaymentStatus;
   transactionId?: string;
+  beneficiaryId?: string | null;
+  scheduleId?: string | null;
+  scheduleOccurrence?: number | null;
+  batchId?: string | null;
+  batchRow?: number | null;
+  exportId?: string | null;
+  reconciliationStatus?: 'matched' | 'mismatched' | null;
+  reconciledAt?: Date | null;
+  reconciliationItemId?: string | null;
+  possibleDuplicateOf?: string | null;
+  limitBaseAmount?: number | null;
+  fx?: IPaymentFx | null;
+  chargeBearer: ChargeBearer;
+  fees?: IPaymentFees | null;
+  cutOffAt?: Date | null;
+  valueDate?: Date | null;
   createdAt: Date;
   updatedAt: Date;
   processedAt?: Date;
@@ -53,8 +121,17 @@ export interface IPayment extends Document {
   escalatedAt?: Date | null;
   escalationNotes?: string | null;
 
+  // Employees who validated the payment, in order; two are needed above the approval threshold
+  approvals?: Array<{
+    actorId: string;
+    actorName?: string;
+    timestamp: Date;
+  }>;
+
   // Methods
-  updateStatus(status: string): Promise<IPayment>;
+  canTransitionTo(status: PaymentStatus, role: PaymentActorRole): boolean;
+  applyTransition(status: PaymentStatus, actor: IPaymentActor, details?: string, action?: string): IPayment;
+  updateStatus(status: PaymentStatus, actor: IPaymentActor, details?: string): Promise<IPayment>;
 }
 
 const PaymentSchema: Schema = new Schema({
@@ -74,7 +151,9 @@ const PaymentSchema: Schema = new Schema({
     required: true,
     uppercase: true,
     validate: {
-      validator: function(v: string) {
+      validator: function(this: any, v: string) {
+        // Payments stored before the country registry keep saving; only new or changed IBANs are checked
+        if (!this.isNew && !this.isModified('recipientIBAN')) return true;
         // Use shared IBAN validation utility for consistency
         return validateIBAN((v || '').replace(/\s/g, '').toUpperCase());
       },
@@ -96,8 +175,8 @@ const PaymentSchema: Schema = new Schema({
   amount: {
     type: Number,
     required: true,
-    min: [0.01, 'Amount must be greater than 0'],
-    max: [1000000, 'Amount exceeds maximum limit'] // TODO: Make this configurable
+    // Upper bounds are the customer's transfer limits, checked on submission
+    min: [0.01, 'Amount must be greater than 0']
   },
   currency: {
     type: String,
@@ -119,7 +198,7 @@ const PaymentSchema: Schema = new Schema({
   },
   status: {
     type: String,
-    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+    enum: PAYMENT_STATUSES,
     default: 'pending'
   },
   transactionId: {
@@ -127,6 +206,107 @@ const PaymentSchema: Schema = new Schema({
     unique: true,
     sparse: true
   },
+  // Saved beneficiary the recipient details were taken from, if any
+  beneficiaryId: {
+    type: String,
+    default: null
+  },
+  // Series this payment was materialised from, if scheduled
+  scheduleId: {
+    type: String,
+    default: null
+  },
+  scheduleOccurrence: {
+    type: Number,
+    default: null
+  },
+  // Bulk upload this payment was created from, if any
+  batchId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  batchRow: {
+    type: Number,
+    default: null
+  },
+  // Clearing file (pain.001 export) this payment was included in, if any
+  exportId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  // Outcome of matching against bank statements (camt.053/054); null until seen on one
+  reconciliationStatus: {
+    type: String,
+    enum: ['matched', 'mismatched', null],
+    default: null,
+    index: true
+  },
+  reconciledAt: {
+    type: Date,
+    default: null
+  },
+  reconciliationItemId: {
+    type: String,
+    default: null
+  },
+  // Earlier payment this one resembles; the customer confirmed it was intended
+  possibleDuplicateOf: {
+    type: String,
+    default: null,
+    index: true
+  },
+  fx: {
+    type: new Schema({
+      quoteId: { type: String, required: true },
+      sourceCurrency: { type: String, required: true },
+      sourceAmount: { type: Number, required: true },
+      targetAmount: { type: Number, required: true },
+      rate: { type: Number, required: true },
+      midRate: { type: Number, required: true },
+      spreadBps: { type: Number, required: true }
+    }, { _id: false }),
+    default: null
+  },
+  chargeBearer: {
+    type: String,
+    enum: CHARGE_BEARERS,
+    default: DEFAULT_CHARGE_BEARER
+  },
+  // Priced from the fee schedule on submission
+  fees: {
+    type: new Schema({
+      currency: { type: String, required: true },
+      lines: [
+        new Schema({
+          ruleId: { type: String, required: true },
+          description: { type: String, required: true },
+          amount: { type: Number, required: true }
+        }, { _id: false })
+      ],
+      total: { type: Number, required: true },
+      deductedFromAmount: { type: Boolean, default: false },
+      settlementAmount: { type: Number, required: true }
+    }, { _id: false }),
+    default: null
+  },
+  // Amount in the limits base currency when submitted, counted against daily and monthly limits
+  limitBaseAmount: {
+    type: Number,
+    default: null
+  },
+  // Cut-off of the business day the payment is sent on, from the currency's calendar
+  cutOffAt: {
+    type: Date,
+    default: null,
+    index: true
+  },
+  // Business day the recipient is credited
+  valueDate: {
+    type: Date,
+    default: null
+  },
   processedAt: {
     type: Date,
     default: null
@@ -204,7 +384,15 @@ const PaymentSchema: Schema = new Schema({
     type: String,
     default: null,
     maxlength: 1000
-  }
+  },
+  // Maker-checker approvals
+  approvals: [
+    new Schema({
+      actorId: { type: String, required: true },
+      actorName: { type: String, default: null },
+      timestamp: { type: Date, default: () => new Date() }
+    }, { _id: false })
+  ]
 }, {
   timestamps: true
 });
@@ -217,13 +405,82 @@ PaymentSchema.pre('save', function(next) {
   next();
 });
 
-// Instance method to update payment status
-PaymentSchema.methods['updateStatus'] = function(newStatus: string): Promise<IPayment> {
+// Assign a bank-style transaction reference to every new payment
+PaymentSchema.pre('validate', async function() {
+  if (this.isNew && !this.get('transactionId')) {
+    this.set('transactionId', await generateTransactionId());
+  }
+});
+
+// Remember the persisted status so lifecycle checks can compare against it
+PaymentSchema.post('init', function(doc) {
+  doc.$locals['persistedStatus'] = doc.get('status');
+});
+
+// Reject status changes that bypassed applyTransition (e.g. direct assignment)
+PaymentSchema.pre('validate', function(next) {
+  if (!this.isNew && this.isModified('status') && !this.$locals['transitionApplied']) {
+    return next(new PaymentTransitionError(
+      'UNTRACKED_TRANSITION',
+      `Status change from ${this.$locals['persistedStatus']} to ${this.get('status')} must go through applyTransition.`
+    ));
+  }
+  next();
+});
+
+PaymentSchema.post('save', function(doc) {
+  doc.$locals['persistedStatus'] = doc.get('status');
+  doc.$locals['transitionApplied'] = false;
+});
+
+// Instance method to check whether an actor role may move the payment to a status
+PaymentSchema.methods['canTransitionTo'] = function(newStatus: PaymentStatus, role: PaymentActorRole): boolean {
+  const transition = findTransition(this['status'], newStatus);
+  return !!transition && transition.roles.includes(role);
+};
+
+// Instance method to apply a lifecycle transition without saving; appends an audit entry.
+// Explicit transitions (screening decisions) only apply when their action is passed.
+PaymentSchema.methods['applyTransition'] = function(newStatus: PaymentStatus, actor: IPaymentActor, details?: string, action?: string): IPayment {
+  const currentStatus: PaymentStatus = this['status'];
+  const transition = findTransition(currentStatus, newStatus, action);
+
+  const explicitOnly = !transition && !action
+    ? PAYMENT_TRANSITIONS.find(t => t.from === currentStatus && t.to === newStatus && t.explicit)
+    : undefined;
+  if (explicitOnly) {
+    throw new PaymentTransitionError('TRANSITION_NOT_PERMITTED', `A ${currentStatus} payment can only move to ${newStatus} through ${explicitOnly.action}.`);
+  }
+  if (!transition) {
+    throw new PaymentTransitionError('ILLEGAL_TRANSITION', `Payment cannot move from ${currentStatus} to ${newStatus}.`);
+  }
+  if (!transition.roles.includes(actor.role)) {
+    throw new PaymentTransitionError('TRANSITION_NOT_PERMITTED', `A ${actor.role} cannot ${transition.action} a ${currentStatus} payment.`);
+  }
+
+  const now = new Date();
   this['status'] = newStatus;
-  
-  // Debug logging
-  console.log(`Payment ${this['_id']} status updated to: ${newStatus}`);
-  
+  if (TERMINAL_STATUSES.includes(newStatus)) {
+    this['processedAt'] = now;
+  }
+  this['auditLog'] = [
+    ...(this['auditLog'] || []),
+    {
+      actorId: actor.userId,
+      actorName: actor.email || '',
+      action: transition.action,
+      timestamp: now,
+      details: [`${currentStatus}->${newStatus}`, details].filter(Boolean).join('; '),
+    },
+  ];
+  this['$locals']['transitionApplied'] = true;
+
+  return this as IPayment;
+};
+
+// Instance method to update payment status
+PaymentSchema.methods['updateStatus'] = function(newStatus: PaymentStatus, actor: IPaymentActor, details?: string): Promise<IPayment> {
+  this['applyTransition'](newStatus, actor, details);
   return this['save']();
 };
 
@@ -250,15 +507,11 @@ PaymentSchema.statics['getStats'] = function() {
   ]);
 };
 
-// Experimental: Payment validation middleware (commented out for now)
-/*
-PaymentSchema.pre('validate', function(next) {
-  // Additional business logic validation
-  if (this.amount > 50000 && this.purpose === 'personal') {
-    return next(new Error('Large personal transfers require additional verification'));
-  }
-  next();
-});
-*/
+// A scheduled occurrence is materialised at most once
+PaymentSchema.index(
+  { scheduleId: 1, scheduleOccurrence: 1 },
+  { unique: true, partialFilterExpression: { scheduleId: { $type: 'string' } } }
+);
+
 
 export const Payment = mongoose.model<IPayment>('Payment', PaymentSchema);
\ No newline at end of file
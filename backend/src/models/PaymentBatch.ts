@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// failed: the rollback could not remove every payment; the ones left need manual clean-up
+export type PaymentBatchState = 'creating' | 'created' | 'rolled_back' | 'failed';
+
+export interface IPaymentBatch extends Document {
+  userId: string;
+  source: 'csv' | 'json';
+  fileName?: string | null;
+  rowCount: number;
+  // Sum of the batch per currency, as submitted
+  totals: Array<{ currency: string; amount: number }>;
+  // Creation state of the batch itself; the payment statuses are aggregated on read
+  state: PaymentBatchState;
+  failureReason?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentBatchSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  source: {
+    type: String,
+    enum: ['csv', 'json'],
+    required: true
+  },
+  fileName: {
+    type: String,
+    trim: true,
+    maxlength: 255,
+    default: null
+  },
+  rowCount: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  totals: [
+    new Schema({
+      currency: { type: String, required: true },
+      amount: { type: Number, required: true }
+    }, { _id: false })
+  ],
+  state: {
+    type: String,
+    enum: ['creating', 'created', 'rolled_back', 'failed'],
+    default: 'creating'
+  },
+  failureReason: {
+    type: String,
+    default: null,
+    maxlength: 500
+  }
+}, {
+  timestamps: true
+});
+
+export const PaymentBatch = mongoose.model<IPaymentBatch>('PaymentBatch', PaymentBatchSchema);
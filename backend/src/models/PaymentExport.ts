@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPaymentExport extends Document {
+  messageId: string;
+  format: 'pain.001.001.09';
+  // Window of processedAt the export covered
+  windowStart: Date;
+  windowEnd: Date;
+  paymentIds: string[];
+  paymentCount: number;
+  // Per-currency totals, as written to the PmtInf control sums
+  totals: Array<{ currency: string; amount: number; count: number }>;
+  xml: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentExportSchema: Schema = new Schema({
+  messageId: {
+    type: String,
+    required: true,
+    unique: true,
+    maxlength: 35
+  },
+  format: {
+    type: String,
+    enum: ['pain.001.001.09'],
+    default: 'pain.001.001.09'
+  },
+  windowStart: {
+    type: Date,
+    required: true
+  },
+  windowEnd: {
+    type: Date,
+    required: true
+  },
+  paymentIds: [{
+    type: String
+  }],
+  paymentCount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  totals: [
+    new Schema({
+      currency: { type: String, required: true },
+      amount: { type: Number, required: true },
+      count: { type: Number, required: true }
+    }, { _id: false })
+  ],
+  xml: {
+    type: String,
+    required: true
+  },
+  createdBy: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+PaymentExportSchema.index({ createdAt: -1 });
+
+export const PaymentExport = mongoose.model<IPaymentExport>('PaymentExport', PaymentExportSchema);
@@ -0,0 +1,106 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { RECURRENCE_FREQUENCIES, IRecurrenceRule } from '../utils/recurrence';
+import { validationConfig } from '../config';
+import { CHARGE_BEARERS, ChargeBearer, DEFAULT_CHARGE_BEARER } from '../config/feeSchedule';
+
+export type PaymentScheduleStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+export interface IPaymentTemplate {
+  recipientName: string;
+  recipientEmail: string;
+  recipientIBAN: string;
+  recipientSWIFT: string;
+  recipientAddress: string;
+  recipientCity: string;
+  recipientCountry: string;
+  amount: number;
+  currency: string;
+  reference: string;
+  purpose: string;
+  beneficiaryId?: string | null;
+  chargeBearer?: ChargeBearer;
+}
+
+export interface IScheduleOccurrence {
+  index: number;
+  scheduledFor: Date;
+  outcome: 'created' | 'skipped' | 'failed';
+  paymentId?: string | null;
+  error?: string | null;
+  recordedAt: Date;
+}
+
+export interface IPaymentSchedule extends Document {
+  userId: string;
+  template: IPaymentTemplate;
+  startDate: Date;
+  recurrence: IRecurrenceRule;
+  status: PaymentScheduleStatus;
+  // Index of the next occurrence to materialise and when it is due
+  nextIndex: number;
+  nextRunAt?: Date | null;
+  occurrences: IScheduleOccurrence[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentScheduleSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  template: new Schema({
+    recipientName: { type: String, required: true },
+    recipientEmail: { type: String, required: true },
+    recipientIBAN: { type: String, required: true },
+    recipientSWIFT: { type: String, required: true },
+    recipientAddress: { type: String, required: true },
+    recipientCity: { type: String, required: true },
+    recipientCountry: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0.01 },
+    currency: { type: String, required: true, enum: validationConfig.payment.supportedCurrencies },
+    reference: { type: String, required: true, maxlength: 140 },
+    purpose: { type: String, required: true, maxlength: 255 },
+    beneficiaryId: { type: String, default: null },
+    chargeBearer: { type: String, enum: CHARGE_BEARERS, default: DEFAULT_CHARGE_BEARER }
+  }, { _id: false }),
+  startDate: {
+    type: Date,
+    required: true
+  },
+  recurrence: new Schema({
+    frequency: { type: String, enum: RECURRENCE_FREQUENCIES, required: true },
+    endDate: { type: Date, default: null },
+    count: { type: Number, default: null, min: 1 }
+  }, { _id: false }),
+  status: {
+    type: String,
+    enum: ['active', 'paused', 'completed', 'cancelled'],
+    default: 'active',
+    index: true
+  },
+  nextIndex: {
+    type: Number,
+    default: 0
+  },
+  nextRunAt: {
+    type: Date,
+    default: null,
+    index: true
+  },
+  occurrences: [
+    new Schema({
+      index: { type: Number, required: true },
+      scheduledFor: { type: Date, required: true },
+      outcome: { type: String, enum: ['created', 'skipped', 'failed'], required: true },
+      paymentId: { type: String, default: null },
+      error: { type: String, default: null },
+      recordedAt: { type: Date, default: () => new Date() }
+    }, { _id: false })
+  ]
+}, {
+  timestamps: true
+});
+
+export const PaymentSchedule = mongoose.model<IPaymentSchedule>('PaymentSchedule', PaymentScheduleSchema);
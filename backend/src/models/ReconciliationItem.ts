@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ReconciliationResult = 'matched' | 'mismatched' | 'unmatched';
+
+export const RECONCILIATION_MISMATCHES = ['amount', 'currency', 'direction', 'status', 'duplicate'] as const;
+
+export type ReconciliationMismatch = typeof RECONCILIATION_MISMATCHES[number];
+
+export interface IReconciliationItem extends Document {
+  importId: string;
+  entryRef: string;
+  endToEndId?: string | null;
+  amount: number;
+  currency: string;
+  creditDebit: 'CRDT' | 'DBIT';
+  bookingDate?: Date | null;
+  result: ReconciliationResult;
+  mismatches: ReconciliationMismatch[];
+  paymentId?: string | null;
+  // Matched items are resolved on import; the rest wait in the queue for an employee
+  state: 'open' | 'resolved';
+  resolvedBy?: string | null;
+  resolvedAt?: Date | null;
+  resolutionNote?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReconciliationItemSchema: Schema = new Schema({
+  importId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  entryRef: {
+    type: String,
+    required: true,
+    maxlength: 70
+  },
+  endToEndId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  creditDebit: {
+    type: String,
+    enum: ['CRDT', 'DBIT'],
+    required: true
+  },
+  bookingDate: {
+    type: Date,
+    default: null
+  },
+  result: {
+    type: String,
+    enum: ['matched', 'mismatched', 'unmatched'],
+    required: true
+  },
+  mismatches: [{
+    type: String,
+    enum: RECONCILIATION_MISMATCHES
+  }],
+  paymentId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  state: {
+    type: String,
+    enum: ['open', 'resolved'],
+    default: 'open'
+  },
+  resolvedBy: {
+    type: String,
+    default: null
+  },
+  resolvedAt: {
+    type: Date,
+    default: null
+  },
+  resolutionNote: {
+    type: String,
+    default: null,
+    maxlength: 500
+  }
+}, {
+  timestamps: true
+});
+
+ReconciliationItemSchema.index({ state: 1, createdAt: -1 });
+
+export const ReconciliationItem = mongoose.model<IReconciliationItem>('ReconciliationItem', ReconciliationItemSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type RefreshTokenRevokedReason = 'logout' | 'reuse_detected' | 'user_inactive' | 'password_change' | 'password_reset' | 'forced_logout';
+
+// One refresh token in a login's rotation chain. Only a hash of the token is stored.
+export interface IRefreshToken extends Document {
+  tokenHash: string;
+  userId: string;
+  // Shared by every token rotated from the same login
+  familyId: string;
+  expiresAt: Date;
+  // Set when the token is exchanged; a second exchange is treated as theft
+  usedAt: Date | null;
+  replacedByHash: string | null;
+  revokedAt: Date | null;
+  revokedReason: RefreshTokenRevokedReason | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefreshTokenSchema: Schema = new Schema({
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  familyId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  replacedByHash: {
+    type: String,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'reuse_detected', 'user_inactive', 'password_change', 'password_reset', 'forced_logout', null],
+    default: null
+  },
+  ip: {
+    type: String,
+    default: null
+  },
+  userAgent: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB purge expired tokens; an expired token is rejected whether or not it was reused
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TokenRevocationReason = 'logout' | 'password_change' | 'password_reset' | 'forced_logout';
+
+// An access token (by jti) or every access token of a user issued up to revokedBefore
+export interface IRevokedToken extends Document {
+  scope: 'token' | 'user';
+  jti: string | null;
+  userId: string;
+  revokedBefore: Date | null;
+  reason: TokenRevocationReason;
+  revokedBy: string | null;
+  // No token covered by the entry is valid after this, so the entry can be dropped
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RevokedTokenSchema: Schema = new Schema({
+  scope: {
+    type: String,
+    enum: ['token', 'user'],
+    required: true
+  },
+  jti: {
+    type: String,
+    default: null
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  revokedBefore: {
+    type: Date,
+    default: null
+  },
+  reason: {
+    type: String,
+    enum: ['logout', 'password_change', 'password_reset', 'forced_logout'],
+    required: true
+  },
+  revokedBy: {
+    type: String,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+RevokedTokenSchema.index({ jti: 1 }, { unique: true, partialFilterExpression: { scope: 'token' } });
+RevokedTokenSchema.index({ userId: 1, scope: 1, revokedBefore: -1 });
+
+// Let MongoDB purge entries once the tokens they cover have expired anyway
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RevokedToken = mongoose.model<IRevokedToken>('RevokedToken', RevokedTokenSchema);
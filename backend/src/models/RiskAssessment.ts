@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AML_ACTIONS, AmlAction, AmlRuleType } from '../config/amlRules';
+
+export interface ITriggeredRule {
+  ruleId: string;
+  name: string;
+  type: AmlRuleType;
+  score: number;
+  action: AmlAction;
+  detail: string;
+}
+
+// Outcome of the AML rules for one payment, kept with the rule set version that produced it
+export interface IRiskAssessment extends Document {
+  paymentId: string;
+  userId: string;
+  ruleSetVersion: number;
+  score: number;
+  action: AmlAction;
+  triggered: ITriggeredRule[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TriggeredRuleSchema = new Schema({
+  ruleId: { type: String, required: true },
+  name: { type: String, required: true },
+  type: { type: String, required: true },
+  score: { type: Number, required: true },
+  action: { type: String, enum: AML_ACTIONS, required: true },
+  detail: { type: String, default: '' }
+}, { _id: false });
+
+const RiskAssessmentSchema: Schema = new Schema({
+  paymentId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  ruleSetVersion: {
+    type: Number,
+    required: true
+  },
+  score: {
+    type: Number,
+    required: true
+  },
+  action: {
+    type: String,
+    enum: AML_ACTIONS,
+    required: true
+  },
+  triggered: [TriggeredRuleSchema]
+}, {
+  timestamps: true
+});
+
+RiskAssessmentSchema.index({ action: 1, createdAt: -1 });
+
+export const RiskAssessment = mongoose.model<IRiskAssessment>('RiskAssessment', RiskAssessmentSchema);
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IScreeningMatch } from '../utils/sanctionsScreening';
+
+export type ScreeningCaseState = 'open' | 'cleared' | 'confirmed';
+
+// Kept apart from the payment so screening details never reach the customer
+export interface IScreeningCase extends Document {
+  paymentId: string;
+  userId: string;
+  recipientName: string;
+  screenedName: string;
+  countries: string[];
+  matches: IScreeningMatch[];
+  threshold: number;
+  listEntries: number;
+  listLoadedAt?: Date | null;
+  // cleared: false positive, payment released; confirmed: true match, payment stopped
+  state: ScreeningCaseState;
+  decidedBy?: string | null;
+  decidedByName?: string | null;
+  decidedAt?: Date | null;
+  decisionNote?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScreeningMatchSchema = new Schema({
+  type: { type: String, enum: ['name', 'country', 'rule'], required: true },
+  entryId: { type: String, default: null },
+  listedName: { type: String, default: null },
+  matchedName: { type: String, default: null },
+  score: { type: Number, required: true },
+  countries: [{ type: String }],
+  programs: [{ type: String }],
+  source: { type: String, required: true },
+  countryMatch: { type: Boolean, default: false },
+  detail: { type: String, default: null }
+}, { _id: false });
+
+const ScreeningCaseSchema: Schema = new Schema({
+  paymentId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  recipientName: {
+    type: String,
+    required: true
+  },
+  screenedName: {
+    type: String,
+    default: ''
+  },
+  countries: [{
+    type: String
+  }],
+  matches: [ScreeningMatchSchema],
+  threshold: {
+    type: Number,
+    required: true
+  },
+  listEntries: {
+    type: Number,
+    default: 0
+  },
+  listLoadedAt: {
+    type: Date,
+    default: null
+  },
+  state: {
+    type: String,
+    enum: ['open', 'cleared', 'confirmed'],
+    default: 'open'
+  },
+  decidedBy: {
+    type: String,
+    default: null
+  },
+  decidedByName: {
+    type: String,
+    default: null
+  },
+  decidedAt: {
+    type: Date,
+    default: null
+  },
+  decisionNote: {
+    type: String,
+    default: null,
+    maxlength: 1000
+  }
+}, {
+  timestamps: true
+});
+
+ScreeningCaseSchema.index({ state: 1, createdAt: -1 });
+
+export const ScreeningCase = mongoose.model<IScreeningCase>('ScreeningCase', ScreeningCaseSchema);
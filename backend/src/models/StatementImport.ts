@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IStatementImport extends Document {
+  messageType: 'camt.053' | 'camt.054';
+  messageId: string;
+  fileName?: string | null;
+  messageCreatedAt?: Date | null;
+  // Outcome of matching the booked entries of the file
+  counts: { entries: number; matched: number; mismatched: number; unmatched: number; skipped: number };
+  importedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StatementImportSchema: Schema = new Schema({
+  messageType: {
+    type: String,
+    enum: ['camt.053', 'camt.054'],
+    required: true
+  },
+  messageId: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 35
+  },
+  fileName: {
+    type: String,
+    trim: true,
+    maxlength: 255,
+    default: null
+  },
+  messageCreatedAt: {
+    type: Date,
+    default: null
+  },
+  counts: {
+    entries: { type: Number, default: 0 },
+    matched: { type: Number, default: 0 },
+    mismatched: { type: Number, default: 0 },
+    unmatched: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 }
+  },
+  importedBy: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// The same bank message is only ever imported once
+StatementImportSchema.index({ messageType: 1, messageId: 1 }, { unique: true });
+
+export const StatementImport = mongoose.model<IStatementImport>('StatementImport', StatementImportSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A step-up token (by jti), bound to the access token it was issued under. Each one authorises a single action.
+export interface IStepUpToken extends Document {
+  jti: string;
+  userId: string;
+  // jti of the access token the user confirmed their identity with
+  sessionJti: string;
+  method: string;
+  expiresAt: Date;
+  // Set when an action consumes the token; a used token never works again
+  usedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StepUpTokenSchema: Schema = new Schema({
+  jti: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sessionJti: {
+    type: String,
+    required: true
+  },
+  method: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB purge expired tokens
+StepUpTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const StepUpToken = mongoose.model<IStepUpToken>('StepUpToken', StepUpTokenSchema);
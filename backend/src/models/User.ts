@@ -134,6 +134,32 @@ export class User {
     }
   }
 
+  /**
+   * Read and update a user in one Firestore transaction. `decide` sees the stored document and
+   * returns the update to apply, or null to leave it unchanged; it may run more than once if the
+   * document changes underneath it. Returns whether an update was written.
+   */
+  static async updateInTransaction(id: string, decide: (user: IUserDocument) => Partial<IUser> | null): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const docRef = db.collection('users').doc(id);
+
+      return await db.runTransaction(async (tx) => {
+        const doc = await tx.get(docRef);
+        if (!doc.exists) return false;
+
+        const updateData = decide({ id: doc.id, ...doc.data() } as IUserDocument);
+        if (!updateData) return false;
+
+        tx.update(docRef, { ...updateData, updatedAt: new Date() });
+        return true;
+      });
+    } catch (error) {
+      logger.error('Error updating user in transaction:', error);
+      throw error;
+    }
+  }
+
   static async deleteById(id: string): Promise<boolean> {
     try {
       const db = this.getDb();
@@ -156,6 +182,22 @@ export class User {
     }
   }
 
+  static async updatePassword(userId: string, newPassword: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.collection('users').doc(userId).update({
+        password: await bcrypt.hash(newPassword, securityConfig.bcryptRounds),
+        passwordChangedAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      logger.info('Password updated:', { userId });
+    } catch (error) {
+      logger.error('Error updating password:', error);
+      throw error;
+    }
+  }
+
   static isLocked(user: IUserDocument): boolean {
     return !!(user.lockUntil && user.lockUntil > new Date());
   }
@@ -225,8 +267,8 @@ export class User {
     }
   }
 
-  static toJSON(user: IUserDocument): Omit<IUserDocument, 'password'> {
-    const { password, ...userWithoutPassword } = user;
-    return userWithoutPassword;
+  static toJSON(user: IUserDocument): Omit<IUserDocument, 'password' | 'mfaSecret' | 'mfaPendingSecret' | 'mfaRecoveryCodes' | 'mfaLastUsedStep'> {
+    const { password, mfaSecret, mfaPendingSecret, mfaRecoveryCodes, mfaLastUsedStep, ...userWithoutSecrets } = user;
+    return { ...userWithoutSecrets, mfaEnabled: !!user.mfaEnabled };
   }
 }
\ No newline at end of file
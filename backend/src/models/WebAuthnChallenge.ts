@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type WebAuthnCeremony = 'registration' | 'login' | 'step_up';
+
+// A challenge handed to the browser; consumed by the matching verification
+export interface IWebAuthnChallenge extends Document {
+  challenge: string;
+  ceremony: WebAuthnCeremony;
+  // Null for passwordless login, where the user is only known from the credential
+  userId: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebAuthnChallengeSchema: Schema = new Schema({
+  challenge: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  ceremony: {
+    type: String,
+    enum: ['registration', 'login', 'step_up'],
+    required: true
+  },
+  userId: {
+    type: String,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB purge challenges that were never answered
+WebAuthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const WebAuthnChallenge = mongoose.model<IWebAuthnChallenge>('WebAuthnChallenge', WebAuthnChallengeSchema);
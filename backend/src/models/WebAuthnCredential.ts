@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A passkey / security key registered by a user
+export interface IWebAuthnCredential extends Document {
+  userId: string;
+  // base64url credential ID as sent by the authenticator
+  credentialId: string;
+  // SubjectPublicKeyInfo (DER, base64) converted from the COSE key
+  publicKey: string;
+  // COSE algorithm identifier (-7 ES256, -8 EdDSA, -257 RS256)
+  algorithm: number;
+  signCount: number;
+  transports: string[];
+  name: string;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebAuthnCredentialSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  credentialId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  publicKey: {
+    type: String,
+    required: true
+  },
+  algorithm: {
+    type: Number,
+    required: true
+  },
+  signCount: {
+    type: Number,
+    default: 0
+  },
+  transports: {
+    type: [String],
+    default: []
+  },
+  name: {
+    type: String,
+    required: true,
+    maxlength: 100
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+export const WebAuthnCredential = mongoose.model<IWebAuthnCredential>('WebAuthnCredential', WebAuthnCredentialSchema);
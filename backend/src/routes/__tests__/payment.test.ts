@@ -0,0 +1,146 @@
+// POST /api/payments and /api/payments/batch through the real router: idempotent replays and
+// the step-up threshold check. Authentication, the controllers and storage are stubbed.
+
+import express from 'express';
+import request from 'supertest';
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+jest.mock('../../middleware/auth', () => ({
+  authenticate: (req: any, _res: any, next: any) => {
+    req.user = { userId: 'user-1', jti: 'session-1', role: 'customer' };
+    next();
+  },
+}));
+
+jest.mock('../../middleware/security', () => ({
+  ...jest.requireActual('../../middleware/security'),
+  paymentRateLimit: (_req: any, _res: any, next: any) => next(),
+}));
+
+// Every step-up token is single-use
+const issuedTokens = new Set<string>();
+jest.mock('../../utils/stepUp', () => ({
+  consumeStepUpToken: jest.fn(async (token: string) => issuedTokens.delete(token)),
+}));
+
+const keys: any[] = [];
+jest.mock('../../models/IdempotencyKey', () => ({
+  IdempotencyKey: {
+    create: jest.fn(async (fields: any) => {
+      if (keys.some(k => k.userId === fields.userId && k.key === fields.key)) throw Object.assign(new Error('E11000'), { code: 11000 });
+      const record: any = { _id: `key-${keys.length + 1}`, state: 'in_progress', ...fields, save: jest.fn(async () => record) };
+      keys.push(record);
+      return record;
+    }),
+    findOne: jest.fn(async (filter: any) => keys.find(k => k.userId === filter.userId && k.key === filter.key) || null),
+    deleteOne: jest.fn(async (filter: any) => {
+      const index = keys.findIndex(k => (filter._id ? k._id === filter._id : k.key === filter.key && k.expiresAt <= filter.expiresAt.$lte));
+      if (index >= 0) keys.splice(index, 1);
+    }),
+  },
+}));
+
+const handler = (status: number) => jest.fn((_req: any, res: any) => res.status(status).json({ success: true, data: { id: 'payment-1' } }));
+jest.mock('../../controllers/paymentController', () => ({
+  createPayment: handler(201),
+  getPayments: handler(200),
+  getPaymentById: handler(200),
+  cancelPayment: handler(200),
+  getPaymentStats: handler(200),
+}));
+jest.mock('../../controllers/batchController', () => ({
+  createPaymentBatch: handler(201),
+  getPaymentBatches: handler(200),
+  getPaymentBatchById: handler(200),
+}));
+jest.mock('../../controllers/limitController', () => ({ getTransferLimits: handler(200) }));
+jest.mock('../../controllers/feeController', () => ({ getFeePreview: handler(200) }));
+jest.mock('../../controllers/calendarController', () => ({ getValueDate: handler(200) }));
+jest.mock('../schedule', () => jest.requireActual('express').Router());
+
+import paymentRoutes from '../payment';
+import { createPayment } from '../../controllers/paymentController';
+import { createPaymentBatch } from '../../controllers/batchController';
+
+const app = express();
+app.use(express.json());
+app.use('/api/payments', paymentRoutes);
+
+const payment = (amount: unknown, currency: string = 'EUR') => ({ amount, currency, recipientName: 'Jan de Vries' });
+
+// The idempotency outcome is recorded without being awaited by the response
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('payment routes', () => {
+  beforeEach(() => {
+    keys.length = 0;
+    issuedTokens.clear();
+    jest.clearAllMocks();
+  });
+
+  describe('step-up for large payments', () => {
+    it.each([
+      ['a small amount', 100, 'EUR', 201],
+      ['a large amount', 60000, 'EUR', 401],
+      ['a large amount as a string', '60000', 'EUR', 401],
+      ['an amount with trailing characters', '60000abc', 'EUR', 401],
+      ['an amount in exponent notation', '6e4', 'EUR', 401],
+      ['a currency without a reference rate', 100, 'XXX', 401],
+    ])('%s without a token', async (_label, amount, currency, status) => {
+      const res = await request(app).post('/api/payments').send(payment(amount, currency));
+
+      expect(res.status).toBe(status);
+      if (status === 401) {
+        expect(res.body.error).toBe('STEP_UP_REQUIRED');
+        expect(createPayment).not.toHaveBeenCalled();
+      }
+    });
+
+    it('asks for step-up when one row of a batch cannot be read', async () => {
+      const res = await request(app).post('/api/payments/batch').send({ format: 'json', payments: [payment(100), payment('60000abc')] });
+
+      expect(res.status).toBe(401);
+      expect(createPaymentBatch).not.toHaveBeenCalled();
+    });
+
+    it('asks for step-up when small rows add up past the threshold', async () => {
+      const res = await request(app).post('/api/payments/batch').send({ format: 'json', payments: [payment(4000), payment(4000)] });
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('idempotent retries', () => {
+    it('replays a large payment without asking for another step-up token', async () => {
+      issuedTokens.add('token-1');
+      const first = await request(app).post('/api/payments').set('Idempotency-Key', 'key-1').set('X-Step-Up-Token', 'token-1').send(payment(60000));
+      await settle();
+
+      const retry = await request(app).post('/api/payments').set('Idempotency-Key', 'key-1').send(payment(60000));
+
+      expect(first.status).toBe(201);
+      expect(retry.status).toBe(201);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body).toEqual(first.body);
+      expect(createPayment).toHaveBeenCalledTimes(1);
+    });
+
+    it('frees the key when step-up is missing so the client can retry with a token', async () => {
+      const missing = await request(app).post('/api/payments').set('Idempotency-Key', 'key-2').send(payment(60000));
+      await settle();
+
+      issuedTokens.add('token-2');
+      const confirmed = await request(app).post('/api/payments').set('Idempotency-Key', 'key-2').set('X-Step-Up-Token', 'token-2').send(payment(60000));
+
+      expect(missing.status).toBe(401);
+      expect(confirmed.status).toBe(201);
+      expect(createPayment).toHaveBeenCalledTimes(1);
+    });
+  });
+});
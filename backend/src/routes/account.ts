@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { getAccountBalance, getAvailableBalance, getAccountEntries } from '../controllers/ledgerController';
+import { authenticate } from '../middleware/auth';
+
+const router: any = Router();
+
+/**
+ * @route   GET /api/accounts/balance
+ * @desc    Get ledger balance per currency (optional ?currency=)
+ * @access  Private
+ */
+router.get('/balance', authenticate, getAccountBalance);
+
+/**
+ * @route   GET /api/accounts/available-balance
+ * @desc    Get balance minus funds held for pending payments (optional ?currency=)
+ * @access  Private
+ */
+router.get('/available-balance', authenticate, getAvailableBalance);
+
+/**
+ * @route   GET /api/accounts/entries
+ * @desc    Get posted ledger entries and active holds
+ * @access  Private
+ */
+router.get('/entries', authenticate, getAccountEntries);
+
+export default router;
@@ -1,7 +1,10 @@
 import { Router } from 'express';
-import { register, login, logout, getProfile, updateProfile, verifyEmail, resendVerification } from '../controllers/authController';
-import { authenticate } from '../middleware/auth';
-import { authRateLimit } from '../middleware/security';
+import { register, login, refresh, logout, getProfile, updateProfile, changePassword, forgotPassword, resetPassword, verifyEmail, resendVerification } from '../controllers/authController';
+import { verifyMfaLogin, setupMfa, enableMfa, regenerateRecoveryCodes, disableMfa } from '../controllers/mfaController';
+import { getRegistrationOptions, registerCredential, listCredentials, deleteCredential, getLoginOptions, loginWithPasskey } from '../controllers/webauthnController';
+import { getStepUpOptions, stepUp } from '../controllers/stepUpController';
+import { authenticate, authenticateOrMfaEnrollment } from '../middleware/auth';
+import { authRateLimit, mfaRateLimit, passwordResetRateLimit, refreshRateLimit, stepUpConfirmAction } from '../middleware/security';
 
 const router: any = Router();
 
@@ -19,6 +22,104 @@ router.post('/register', authRateLimit, register);
  */
 router.post('/login', authRateLimit, login);
 
+/**
+ * @route   POST /api/auth/mfa/verify
+ * @desc    Second login step: challenge token plus authenticator or recovery code
+ * @access  Public (challenge token in body)
+ */
+router.post('/mfa/verify', mfaRateLimit, verifyMfaLogin);
+
+/**
+ * @route   POST /api/auth/mfa/setup
+ * @desc    Start two-factor enrolment (secret and otpauth URI)
+ * @access  Private, or enrolment challenge token in body
+ */
+router.post('/mfa/setup', authenticateOrMfaEnrollment, setupMfa);
+
+/**
+ * @route   POST /api/auth/mfa/enable
+ * @desc    Confirm enrolment with a code and receive recovery codes
+ * @access  Private, or enrolment challenge token in body
+ */
+router.post('/mfa/enable', mfaRateLimit, authenticateOrMfaEnrollment, enableMfa);
+
+/**
+ * @route   POST /api/auth/mfa/recovery-codes
+ * @desc    Replace the recovery codes
+ * @access  Private
+ */
+router.post('/mfa/recovery-codes', authenticate, mfaRateLimit, regenerateRecoveryCodes);
+
+/**
+ * @route   POST /api/auth/mfa/disable
+ * @desc    Turn off two-factor authentication (not allowed for roles that require it)
+ * @access  Private
+ */
+router.post('/mfa/disable', authenticate, mfaRateLimit, disableMfa);
+
+/**
+ * @route   POST /api/auth/webauthn/login/options
+ * @desc    Start passwordless login with a passkey
+ * @access  Public
+ */
+router.post('/webauthn/login/options', mfaRateLimit, getLoginOptions);
+
+/**
+ * @route   POST /api/auth/webauthn/login
+ * @desc    Log in with a user-verified passkey assertion
+ * @access  Public
+ */
+router.post('/webauthn/login', mfaRateLimit, loginWithPasskey);
+
+/**
+ * @route   POST /api/auth/webauthn/register/options
+ * @desc    Start registering a passkey; the step-up keeps a stolen session from adding one
+ * @access  Private (step-up)
+ */
+router.post('/webauthn/register/options', authenticate, stepUpConfirmAction, getRegistrationOptions);
+
+/**
+ * @route   POST /api/auth/webauthn/register
+ * @desc    Verify the registration response and store the passkey
+ * @access  Private
+ */
+router.post('/webauthn/register', authenticate, registerCredential);
+
+/**
+ * @route   GET /api/auth/webauthn/credentials
+ * @desc    List the user's passkeys
+ * @access  Private
+ */
+router.get('/webauthn/credentials', authenticate, listCredentials);
+
+/**
+ * @route   DELETE /api/auth/webauthn/credentials/:credentialId
+ * @desc    Remove a passkey
+ * @access  Private (step-up)
+ */
+router.delete('/webauthn/credentials/:credentialId', authenticate, stepUpConfirmAction, deleteCredential);
+
+/**
+ * @route   POST /api/auth/step-up/options
+ * @desc    Step-up methods available to the user, with passkey assertion options
+ * @access  Private
+ */
+router.post('/step-up/options', authenticate, getStepUpOptions);
+
+/**
+ * @route   POST /api/auth/step-up
+ * @desc    Re-authenticate (passkey, authenticator code or password) for a short-lived step-up token
+ * @access  Private
+ */
+router.post('/step-up', authenticate, mfaRateLimit, stepUp);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Rotate a refresh token and issue a new access token
+ * @access  Public (refresh token in body)
+ */
+router.post('/refresh', refreshRateLimit, refresh);
+
 /**
  * @route   POST /api/auth/logout
  * @desc    Logout user
@@ -40,6 +141,27 @@ router.get('/profile', authenticate, getProfile);
  */
 router.put('/profile', authenticate, updateProfile);
 
+/**
+ * @route   PUT /api/auth/password
+ * @desc    Change password and revoke all of the user's tokens
+ * @access  Private
+ */
+router.put('/password', authenticate, authRateLimit, changePassword);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a single-use password reset link (same response whether or not the email is registered)
+ * @access  Public
+ */
+router.post('/forgot-password', passwordResetRateLimit, forgotPassword);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with a reset token; clears the lockout and revokes all sessions
+ * @access  Public (reset token in body)
+ */
+router.post('/reset-password', passwordResetRateLimit, resetPassword);
+
 /**
  * @route   GET /api/auth/verify
  * @desc    Verify email using token
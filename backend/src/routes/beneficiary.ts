@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import {
+  createBeneficiary,
+  getBeneficiaries,
+  updateBeneficiary,
+  deleteBeneficiary,
+} from '../controllers/beneficiaryController';
+import { authenticate } from '../middleware/auth';
+
+const router: any = Router();
+
+/**
+ * @route   POST /api/beneficiaries
+ * @desc    Save a beneficiary (subject to a cooling-off period before first use)
+ * @access  Private
+ */
+router.post('/', authenticate, createBeneficiary);
+
+/**
+ * @route   GET /api/beneficiaries
+ * @desc    List saved beneficiaries (optional ?q= search)
+ * @access  Private
+ */
+router.get('/', authenticate, getBeneficiaries);
+
+/**
+ * @route   PUT /api/beneficiaries/:id
+ * @desc    Update a beneficiary; account changes restart the cooling-off period
+ * @access  Private
+ */
+router.put('/:id', authenticate, updateBeneficiary);
+
+/**
+ * @route   DELETE /api/beneficiaries/:id
+ * @desc    Delete a beneficiary
+ * @access  Private
+ */
+router.delete('/:id', authenticate, deleteBeneficiary);
+
+export default router;
@@ -1,7 +1,17 @@
 import { Router } from 'express';
-import { authenticate, authorizeRole } from '../middleware/auth';
+import { authenticate, authorizeRole, authorizeListed } from '../middleware/auth';
 import { paymentRateLimit, stepUpConfirmAction } from '../middleware/security';
-import { getAllPayments, getGlobalPaymentStats, employeeCancelPayment, employeeValidatePayment, employeeRejectPayment, employeeUpdateReason, employeeDeletePayment, employeeRestorePayment, employeeBulkAction, employeeAddNote, getPaymentAudit, employeeAssignPayment, employeeEscalatePayment, getDailyTrends, getQueueHealth, exportPayments, getReasonCodes } from '../controllers/employeeController';
+import { amlConfig } from '../config';
+import { getAllPayments, getGlobalPaymentStats, employeeCancelPayment, employeeValidatePayment, employeeRejectPayment, employeeUpdateReason, employeeDeletePayment, employeeRestorePayment, employeeBulkAction, employeeAddNote, getPaymentAudit, employeeAssignPayment, employeeEscalatePayment, getDailyTrends, getQueueHealth, exportPayments, getReasonCodes, reloadBicDirectory } from '../controllers/employeeController';
+import { employeeRecordDeposit, getTrialBalance } from '../controllers/ledgerController';
+import { importStatement, getStatementImports, getReconciliationQueue, resolveReconciliationItem } from '../controllers/reconciliationController';
+import { getScreeningCases, clearScreeningHit, confirmScreeningHit, reloadSanctionsList } from '../controllers/screeningController';
+import { getAmlRules, getAmlRuleVersions, updateAmlRules, getPaymentRisk } from '../controllers/amlController';
+import { getCustomerLimits, setCustomerLimitOverride, removeCustomerLimitOverride } from '../controllers/limitController';
+import { forceLogoutCustomer } from '../controllers/sessionController';
+import { getFxRates, updateFxRates, reloadFxRates } from '../controllers/fxController';
+import { getCutOffQueue, reloadHolidayCalendars } from '../controllers/calendarController';
+import { createPain001, getPaymentExports, downloadPaymentExport, getPaymentMt103 } from '../controllers/exportController';
 
 const router: any = Router();
 
@@ -14,8 +24,11 @@ router.get('/payments/stats', authenticate, authorizeRole(['employee']), getGlob
 // Trends & queue health
 router.get('/payments/trends', authenticate, authorizeRole(['employee']), getDailyTrends);
 router.get('/payments/queue-health', authenticate, authorizeRole(['employee']), getQueueHealth);
+// Open payments due for today's cut-offs
+router.get('/payments/cut-off', authenticate, authorizeRole(['employee']), getCutOffQueue);
 router.get('/payments/export', authenticate, authorizeRole(['employee']), exportPayments);
 router.get('/reasons', authenticate, authorizeRole(['employee']), getReasonCodes);
+router.post('/bic-directory/reload', authenticate, authorizeRole(['employee']), reloadBicDirectory);
 
 // Employee: cancel any payment
 router.put('/payments/:id/cancel', authenticate, authorizeRole(['employee']), paymentRateLimit, employeeCancelPayment);
@@ -48,4 +61,47 @@ router.get('/payments/:id/audit', authenticate, authorizeRole(['employee']), get
 router.put('/payments/:id/assign', authenticate, authorizeRole(['employee']), employeeAssignPayment);
 router.put('/payments/:id/escalate', authenticate, authorizeRole(['employee']), employeeEscalatePayment);
 
-export default router;
\ No newline at end of file
+// Ledger: fund customer accounts and inspect the trial balance
+router.post('/ledger/deposits', authenticate, authorizeRole(['employee']), stepUpConfirmAction, employeeRecordDeposit);
+router.get('/ledger/trial-balance', authenticate, authorizeRole(['employee']), getTrialBalance);
+
+// Clearing exports: pain.001 files of completed payments, each payment exported once
+router.post('/exports/pain001', authenticate, authorizeRole(['employee']), createPain001);
+router.get('/exports', authenticate, authorizeRole(['employee']), getPaymentExports);
+router.get('/exports/:id/file', authenticate, authorizeRole(['employee']), downloadPaymentExport);
+router.get('/payments/:id/mt103', authenticate, authorizeRole(['employee']), getPaymentMt103);
+
+// Reconciliation: camt.053/054 imports matched against completed payments
+router.post('/reconciliation/imports', authenticate, authorizeRole(['employee']), importStatement);
+router.get('/reconciliation/imports', authenticate, authorizeRole(['employee']), getStatementImports);
+router.get('/reconciliation/queue', authenticate, authorizeRole(['employee']), getReconciliationQueue);
+router.put('/reconciliation/queue/:id/resolve', authenticate, authorizeRole(['employee']), resolveReconciliationItem);
+
+// Sanctions screening: held payments need a documented clear/confirm decision
+router.get('/screening/cases', authenticate, authorizeRole(['employee']), getScreeningCases);
+router.put('/payments/:id/screening/clear', authenticate, authorizeRole(['employee']), stepUpConfirmAction, clearScreeningHit);
+router.put('/payments/:id/screening/confirm', authenticate, authorizeRole(['employee']), stepUpConfirmAction, confirmScreeningHit);
+router.post('/sanctions-list/reload', authenticate, authorizeRole(['employee']), reloadSanctionsList);
+
+// AML rules engine: versioned rule sets, editable by the configured employees
+router.get('/aml/rules', authenticate, authorizeRole(['employee']), getAmlRules);
+router.get('/aml/rules/versions', authenticate, authorizeRole(['employee']), getAmlRuleVersions);
+router.put('/aml/rules', authenticate, authorizeRole(['employee']), authorizeListed(amlConfig.ruleEditors), stepUpConfirmAction, updateAmlRules);
+router.get('/payments/:id/risk', authenticate, authorizeRole(['employee']), getPaymentRisk);
+
+// Transfer limits: per-customer overrides of the tier caps, with their history
+router.get('/customers/:userId/limits', authenticate, authorizeRole(['employee']), getCustomerLimits);
+router.put('/customers/:userId/limits', authenticate, authorizeRole(['employee']), stepUpConfirmAction, setCustomerLimitOverride);
+router.delete('/customers/:userId/limits', authenticate, authorizeRole(['employee']), stepUpConfirmAction, removeCustomerLimitOverride);
+// Revoke all of a customer's tokens
+router.post('/customers/:userId/logout', authenticate, authorizeRole(['employee']), stepUpConfirmAction, forceLogoutCustomer);
+
+// FX rate table: replace from the request body or reload from the configured file
+router.get('/fx/rates', authenticate, authorizeRole(['employee']), getFxRates);
+router.put('/fx/rates', authenticate, authorizeRole(['employee']), stepUpConfirmAction, updateFxRates);
+router.post('/fx/rates/reload', authenticate, authorizeRole(['employee']), reloadFxRates);
+
+// Business calendars
+router.post('/holiday-calendars/reload', authenticate, authorizeRole(['employee']), reloadHolidayCalendars);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { requestFxQuote } from '../controllers/fxController';
+import { authenticate } from '../middleware/auth';
+import { paymentRateLimit } from '../middleware/security';
+
+const router: any = Router();
+
+/**
+ * @route   POST /api/fx/quote
+ * @desc    Quote a conversion from the account currency (or sourceCurrency) for a sourceAmount or targetAmount; valid for a short time and one payment
+ * @access  Private
+ */
+router.post('/quote', authenticate, paymentRateLimit, requestFxQuote);
+
+export default router;
@@ -7,16 +7,22 @@ import {
   getPaymentStats,
 } from '../controllers/paymentController';
 import { authenticate } from '../middleware/auth';
-import { paymentRateLimit } from '../middleware/security';
+import { paymentRateLimit, stepUpForLargePayment, stepUpForLargeBatch } from '../middleware/security';
+import { idempotency } from '../middleware/idempotency';
+import scheduleRoutes from './schedule';
+import { createPaymentBatch, getPaymentBatches, getPaymentBatchById } from '../controllers/batchController';
+import { getTransferLimits } from '../controllers/limitController';
+import { getFeePreview } from '../controllers/feeController';
+import { getValueDate } from '../controllers/calendarController';
 
 const router: any = Router();
 
 /**
  * @route   POST /api/payments
- * @desc    Create a new payment
+ * @desc    Create a new payment, or a scheduled/recurring series when executionDate or recurrence is given (honours the Idempotency-Key header; large amounts need a step-up token, replays do not)
  * @access  Private
  */
-router.post('/', authenticate, paymentRateLimit, createPayment);
+router.post('/', authenticate, paymentRateLimit, idempotency, stepUpForLargePayment, createPayment);
 
 /**
  * @route   GET /api/payments
@@ -25,6 +31,51 @@ router.post('/', authenticate, paymentRateLimit, createPayment);
  */
 router.get('/', authenticate, getPayments);
 
+/**
+ * @route   POST /api/payments/batch
+ * @desc    Create payments in bulk from a CSV or JSON file; all rows are created or none (honours the Idempotency-Key header; a large batch total needs a step-up token, replays do not)
+ * @access  Private
+ */
+router.post('/batch', authenticate, paymentRateLimit, idempotency, stepUpForLargeBatch, createPaymentBatch);
+
+/**
+ * @route   GET /api/payments/batches
+ * @desc    List payment batches with aggregate status
+ * @access  Private
+ */
+router.get('/batches', authenticate, getPaymentBatches);
+
+/**
+ * @route   GET /api/payments/batches/:id
+ * @desc    Get a payment batch and its payments
+ * @access  Private
+ */
+router.get('/batches/:id', authenticate, getPaymentBatchById);
+
+// Scheduled and recurring series; mounted before /:id so "scheduled" is not read as a payment ID
+router.use('/scheduled', scheduleRoutes);
+
+/**
+ * @route   GET /api/payments/limits
+ * @desc    Get the user's per-payment, daily and monthly limits and remaining allowance
+ * @access  Private
+ */
+router.get('/limits', authenticate, getTransferLimits);
+
+/**
+ * @route   GET /api/payments/fees
+ * @desc    Preview the fees for a payment (amount, currency, recipientIBAN, chargeBearer, optional fxQuoteId)
+ * @access  Private
+ */
+router.get('/fees', authenticate, getFeePreview);
+
+/**
+ * @route   GET /api/payments/value-date
+ * @desc    Cut-off and value date for a payment in a currency submitted now (or on executionDate)
+ * @access  Private
+ */
+router.get('/value-date', authenticate, getValueDate);
+
 /**
  * @route   GET /api/payments/stats
  * @desc    Get payment statistics for user
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import {
+  getSchedules,
+  getScheduleById,
+  pauseScheduledPayment,
+  resumeScheduledPayment,
+  skipScheduledPayment,
+  cancelScheduledPayment,
+} from '../controllers/scheduleController';
+import { authenticate } from '../middleware/auth';
+import { paymentRateLimit } from '../middleware/security';
+
+const router: any = Router();
+
+/**
+ * @route   GET /api/payments/scheduled
+ * @desc    List scheduled and recurring payment series (optional ?status=)
+ * @access  Private
+ */
+router.get('/', authenticate, getSchedules);
+
+/**
+ * @route   GET /api/payments/scheduled/:id
+ * @desc    Get a series with its occurrence history
+ * @access  Private
+ */
+router.get('/:id', authenticate, getScheduleById);
+
+/**
+ * @route   PUT /api/payments/scheduled/:id/pause
+ * @desc    Pause a series
+ * @access  Private
+ */
+router.put('/:id/pause', authenticate, paymentRateLimit, pauseScheduledPayment);
+
+/**
+ * @route   PUT /api/payments/scheduled/:id/resume
+ * @desc    Resume a paused series (occurrences missed while paused are skipped)
+ * @access  Private
+ */
+router.put('/:id/resume', authenticate, paymentRateLimit, resumeScheduledPayment);
+
+/**
+ * @route   PUT /api/payments/scheduled/:id/skip
+ * @desc    Skip the next occurrence
+ * @access  Private
+ */
+router.put('/:id/skip', authenticate, paymentRateLimit, skipScheduledPayment);
+
+/**
+ * @route   PUT /api/payments/scheduled/:id/cancel
+ * @desc    Cancel the remaining occurrences of a series
+ * @access  Private
+ */
+router.put('/:id/cancel', authenticate, paymentRateLimit, cancelScheduledPayment);
+
+export default router;
@@ -1,11 +1,13 @@
 import { Router, Request, Response } from 'express';
-import { validateIBAN, validateSWIFT } from '../utils/validation';
+import { validateSWIFT } from '../utils/validation';
+import { parseIBAN } from '../utils/iban';
+import { lookupBIC, bicForBankCode, isBicDirectoryLoaded } from '../utils/bicDirectory';
 
 const router = Router();
 
 /**
  * @route   POST /api/validate/iban
- * @desc    Validate IBAN format
+ * @desc    Validate IBAN against the country registry and return its components
  * @access  Public
  */
 router.post('/iban', (req: Request, res: Response): void => {
@@ -19,28 +21,35 @@ router.post('/iban', (req: Request, res: Response): void => {
     return;
   }
 
-  const isValid = validateIBAN(iban);
-  if (!isValid) {
+  const result = parseIBAN(iban);
+  if (!result.valid) {
     res.status(400).json({
       success: false,
-      message: 'Invalid IBAN format',
+      message: result.message,
       error: 'INVALID_IBAN',
+      data: { valid: false, reason: result.reason, country: result.country || null },
       timestamp: new Date().toISOString(),
     });
     return;
   }
 
+  // Suggest the institution's BIC from the bank code, when the directory knows it
+  const suggested = bicForBankCode(result.country, result.bankCode);
+
   res.status(200).json({
     success: true,
     message: 'Valid IBAN',
-    data: { valid: true },
+    data: {
+      ...result,
+      suggestedBIC: suggested ? { bic: suggested.bic, institution: suggested.institution, city: suggested.city } : null,
+    },
     timestamp: new Date().toISOString(),
   });
 });
 
 /**
  * @route   POST /api/validate/swift
- * @desc    Validate SWIFT/BIC code format
+ * @desc    Validate SWIFT/BIC code format and look it up in the BIC directory
  * @access  Public
  */
 router.post('/swift', (req: Request, res: Response): void => {
@@ -65,10 +74,27 @@ router.post('/swift', (req: Request, res: Response): void => {
     return;
   }
 
+  const entry = lookupBIC(swift);
+  if (!entry && isBicDirectoryLoaded()) {
+    res.status(400).json({
+      success: false,
+      message: 'This SWIFT/BIC code was not found in the BIC directory.',
+      error: 'UNKNOWN_BIC',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
   res.status(200).json({
     success: true,
     message: 'Valid SWIFT code',
-    data: { valid: true },
+    data: {
+      valid: true,
+      bic: entry?.bic || swift.replace(/\s/g, '').toUpperCase(),
+      institution: entry?.institution || null,
+      city: entry?.city || null,
+      country: entry?.country || swift.replace(/\s/g, '').toUpperCase().slice(4, 6),
+    },
     timestamp: new Date().toISOString(),
   });
 });
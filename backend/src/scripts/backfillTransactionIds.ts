@@ -0,0 +1,31 @@
+import { Payment } from '../models/Payment';
+import connectDB from '../config/database';
+import { generateTransactionId } from '../utils/transactionId';
+import { logger } from '../utils/logger';
+
+// Assigns transaction references to payments created before they were generated automatically.
+// References use the payment's creation date so the prefix matches when it was submitted.
+async function main() {
+  try {
+    await connectDB();
+
+    const legacy = await Payment.find({ transactionId: null })
+      .sort({ createdAt: 1 })
+      .select('_id createdAt');
+
+    for (const payment of legacy) {
+      const transactionId = await generateTransactionId(payment.createdAt || new Date());
+      await Payment.updateOne({ _id: payment._id, transactionId: null }, { $set: { transactionId } });
+      logger.info('Backfilled transaction ID', { paymentId: payment._id, transactionId });
+    }
+
+    console.log(`Backfilled ${legacy.length} payment(s).`);
+    process.exit(0);
+  } catch (err) {
+    logger.error('Transaction ID backfill failed', err as any);
+    console.error('Transaction ID backfill failed', err);
+    process.exit(1);
+  }
+}
+
+main();
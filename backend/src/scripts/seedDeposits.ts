@@ -0,0 +1,33 @@
+import { User } from '../models/User';
+import connectDB from '../config/database';
+import { getFirestoreDb, initializeFirebase } from '../config/firebase';
+import { recordDeposit } from '../utils/ledgerService';
+import { logger } from '../utils/logger';
+
+// Funds customer accounts in development, where overdrafts are off and new customers start at zero.
+// Usage: npm run seed:deposits -- <email> [currency] [amount]
+async function main() {
+  const [email, currency = 'EUR', amount = '10000'] = process.argv.slice(2);
+  try {
+    if (!email) throw new Error('Usage: seed:deposits <email> [currency] [amount]');
+
+    await initializeFirebase();
+    getFirestoreDb();
+    await connectDB();
+
+    const user = await User.findByEmail(email.toLowerCase());
+    if (!user?.id) throw new Error(`No user with email ${email}.`);
+
+    const entry = await recordDeposit(user.id, currency.toUpperCase(), parseFloat(amount), 'seed', 'Development opening balance');
+    logger.info('Seeded deposit', { userId: user.id, currency: currency.toUpperCase(), amount, journalEntryId: entry._id });
+
+    console.log(`Deposited ${amount} ${currency.toUpperCase()} to ${email}.`);
+    process.exit(0);
+  } catch (err) {
+    logger.error('Deposit seeding failed', err as any);
+    console.error('Deposit seeding failed', err);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,5 +1,6 @@
 import { Request } from 'express';
 import mongoose from 'mongoose';
+import { CustomerTier } from '../config/transferLimits';
 
 // User interfaces
 export interface IUser {
@@ -10,11 +11,24 @@ export interface IUser {
   phone: string;
   accountNumber: string;
   role: 'customer' | 'employee';
+  // Transfer limit tier; customers without one are on the standard tier
+  tier?: CustomerTier;
+  // Currency payments are funded from; converted at a quoted rate when paying in another
+  accountCurrency?: string;
   isActive: boolean;
   isVerified: boolean;
   verificationToken?: string;
   verificationTokenExpires?: Date;
   lastLogin?: Date;
+  passwordChangedAt?: Date;
+  // Two-factor authentication (TOTP); secrets are encrypted, recovery codes hashed
+  mfaEnabled?: boolean;
+  mfaSecret?: string | null;
+  mfaPendingSecret?: string | null;
+  mfaRecoveryCodes?: string[];
+  // Last time step a code was accepted for, so a code cannot be used twice
+  mfaLastUsedStep?: number | null;
+  mfaEnabledAt?: Date | null;
   loginAttempts?: number;
   lockUntil?: Date;
   createdAt?: Date;
@@ -50,7 +64,7 @@ export interface IPayment {
   currency: string;
   reference: string;
   purpose: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'on_hold' | 'processing' | 'awaiting_second_approval' | 'completed' | 'failed' | 'cancelled';
   transactionId: string;
   createdAt?: Date;
   updatedAt?: Date;
@@ -70,6 +84,16 @@ export interface IPaymentRequest {
   currency: string;
   reference: string;
   purpose: string;
+  beneficiaryId?: string;
+  // OUR, SHA (default) or BEN
+  chargeBearer?: string;
+  // YYYY-MM-DD; omitted or today means execute now
+  executionDate?: string;
+  recurrence?: {
+    frequency: 'once' | 'weekly' | 'monthly' | 'end_of_month';
+    endDate?: string;
+    count?: number;
+  };
 }
 
 // Transaction interfaces
@@ -90,16 +114,17 @@ export interface IJWTPayload {
   userId: string;
   email: string;
   role: 'customer' | 'employee';
+  jti?: string;
+  // Issue time in milliseconds; set on access tokens
+  iatMs?: number;
   iat?: number;
   exp?: number;
 }
 
 export interface IAuthenticatedRequest extends Request {
-  user?: {
-    userId: string;
-    email: string;
-    role: 'customer' | 'employee';
-  };
+  user?: IJWTPayload;
+  // Set instead of user when an employee enrols in MFA with a login challenge token
+  mfaEnrollmentUserId?: string;
 }
 
 // API Response Types
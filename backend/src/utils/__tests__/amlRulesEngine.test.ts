@@ -0,0 +1,192 @@
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+// The customer's saved payments, and whether they paid the recipient's account before
+let history: { amount: number; currency: string; createdAt: Date }[] = [];
+let paidBefore = false;
+jest.mock('../../models/Payment', () => ({
+  Payment: {
+    find: jest.fn((filter: any) => ({
+      select: async () => history.filter(p => p.createdAt >= filter.createdAt.$gte),
+    })),
+    exists: jest.fn(async () => (paidBefore ? { _id: 'payment-0' } : null)),
+  },
+}));
+
+let beneficiaryCreatedAt = new Date();
+jest.mock('../../models/Beneficiary', () => ({
+  Beneficiary: {
+    findById: jest.fn(() => ({ select: async () => ({ createdAt: beneficiaryCreatedAt }) })),
+  },
+}));
+
+// Published versions are unique, as in the collection
+let ruleSets: any[] = [];
+jest.mock('../../models/AmlRuleSet', () => ({
+  AmlRuleSet: {
+    findOne: jest.fn((filter: any) => {
+      const found = Promise.resolve(ruleSets.find(s => s.version === filter.version) || null);
+      return Object.assign(found, {
+        sort: async () => [...ruleSets].sort((a, b) => b.version - a.version)[0] || null,
+      });
+    }),
+    create: jest.fn(async (fields: any) => {
+      if (ruleSets.some(s => s.version === fields.version)) throw Object.assign(new Error('E11000'), { code: 11000 });
+      ruleSets.push(fields);
+      return fields;
+    }),
+  },
+}));
+
+import { AmlRuleError, assessPaymentRisk, publishRuleSet } from '../amlRulesEngine';
+import { DEFAULT_AML_RULE_SET } from '../../config/amlRules';
+
+const HOUR = 60 * 60 * 1000;
+const ago = (ms: number) => new Date(Date.now() - ms);
+
+const payment = (fields: Record<string, unknown> = {}): any => ({
+  userId: 'user-1',
+  amount: 250,
+  currency: 'EUR',
+  purpose: 'Invoice 2024-001',
+  recipientName: 'Jan de Vries',
+  recipientIBAN: 'NL91ABNA0417164300',
+  recipientSWIFT: 'ABNANL2A',
+  beneficiaryId: null,
+  ...fields,
+});
+
+const ruleIds = (result: { triggered: { ruleId: string }[] }) => result.triggered.map(t => t.ruleId);
+
+const actor = { userId: 'employee-1', email: 'compliance@example.com' };
+
+describe('AML rules engine', () => {
+  beforeEach(() => {
+    history = [];
+    paidBefore = true;
+    beneficiaryCreatedAt = ago(30 * 24 * HOUR);
+    ruleSets = [];
+  });
+
+  describe('assessPaymentRisk', () => {
+    it('allows an ordinary payment under the default rules, published as version 1', async () => {
+      const result = await assessPaymentRisk(payment());
+
+      expect(result).toEqual({ ruleSetVersion: 1, score: 0, action: 'allow', triggered: [] });
+      expect(ruleSets).toHaveLength(1);
+    });
+
+    it('holds a large personal transfer on the rule action alone', async () => {
+      const result = await assessPaymentRisk(payment({ amount: 60000, purpose: 'Personal gift' }));
+
+      expect(ruleIds(result)).toEqual(['velocity-daily-amount', 'large-personal']);
+      expect(result.score).toBe(90);
+      expect(result.action).toBe('hold');
+      expect(result.triggered[1]!.detail).toBe('60000 EUR for purpose "personal"');
+    });
+
+    it('holds when escalating rules add up past the hold score, capped at 100', async () => {
+      paidBefore = false;
+      const result = await assessPaymentRisk(payment({ amount: 150000, recipientIBAN: 'DE89370400440532013000', recipientSWIFT: 'COBADEFF' }), { recipientCountry: 'YE' });
+
+      expect(ruleIds(result)).toEqual(['velocity-daily-amount', 'large-any', 'new-beneficiary-high', 'high-risk-country']);
+      expect(result.score).toBe(100);
+      expect(result.action).toBe('hold');
+    });
+
+    it('counts only the payments inside the velocity window', async () => {
+      history = [...Array(5)].map(() => ({ amount: 10, currency: 'EUR', createdAt: ago(HOUR / 2) }));
+      history.push({ amount: 10, currency: 'EUR', createdAt: ago(2 * HOUR) });
+
+      const result = await assessPaymentRisk(payment());
+
+      expect(ruleIds(result)).toEqual(['velocity-hourly']);
+      expect(result.triggered[0]!.detail).toBe('6 payments in 60 minutes');
+      expect(result.action).toBe('escalate');
+    });
+
+    it('adds up only the velocity amounts in the same currency', async () => {
+      history = [
+        { amount: 30000, currency: 'EUR', createdAt: ago(HOUR) },
+        { amount: 30000, currency: 'USD', createdAt: ago(HOUR) },
+      ];
+
+      expect(ruleIds(await assessPaymentRisk(payment({ amount: 15000 })))).not.toContain('velocity-daily-amount');
+      expect(ruleIds(await assessPaymentRisk(payment({ amount: 25000 })))).toContain('velocity-daily-amount');
+    });
+
+    it('flags repeated round amounts but not a single round payment', async () => {
+      expect(ruleIds(await assessPaymentRisk(payment({ amount: 3000 })))).toEqual([]);
+
+      history = [
+        { amount: 2000, currency: 'EUR', createdAt: ago(24 * HOUR) },
+        { amount: 5000, currency: 'EUR', createdAt: ago(48 * HOUR) },
+        { amount: 1234, currency: 'EUR', createdAt: ago(HOUR) },
+      ];
+
+      expect(ruleIds(await assessPaymentRisk(payment({ amount: 3000 })))).toEqual(['round-structuring']);
+      expect(ruleIds(await assessPaymentRisk(payment({ amount: 3001 })))).toEqual([]);
+    });
+
+    it('treats a recently added saved beneficiary as new', async () => {
+      beneficiaryCreatedAt = ago(5 * HOUR);
+      const result = await assessPaymentRisk(payment({ amount: 12000, beneficiaryId: 'beneficiary-1' }));
+
+      expect(ruleIds(result)).toEqual(['new-beneficiary-high']);
+      expect(result.triggered[0]!.detail).toBe('beneficiary added 5h ago');
+    });
+
+    it('uses the latest published version and skips disabled rules', async () => {
+      await publishRuleSet({
+        ...DEFAULT_AML_RULE_SET,
+        rules: DEFAULT_AML_RULE_SET.rules.map(r => (r.id === 'large-personal' ? { ...r, enabled: false } : r)),
+      }, actor, 'Pause the personal transfer rule');
+
+      const result = await assessPaymentRisk(payment({ amount: 60000, purpose: 'Personal gift' }));
+
+      expect(result.ruleSetVersion).toBe(2);
+      expect(ruleIds(result)).toEqual(['velocity-daily-amount']);
+      expect(result.action).toBe('escalate');
+    });
+  });
+
+  describe('publishRuleSet', () => {
+    it('publishes the next version with the author and note', async () => {
+      const published = await publishRuleSet({ ...DEFAULT_AML_RULE_SET, escalateScore: 30 }, actor, 'Lower the escalation score', 1);
+
+      expect(published).toMatchObject({ version: 2, escalateScore: 30, changeNote: 'Lower the escalation score', createdBy: 'employee-1', createdByName: 'compliance@example.com' });
+    });
+
+    it('rejects an invalid rule set with every problem found', async () => {
+      const error = await publishRuleSet({ ...DEFAULT_AML_RULE_SET, escalateScore: 90, holdScore: 50 }, actor, 'Invalid').catch(e => e);
+
+      expect(error).toBeInstanceOf(AmlRuleError);
+      expect(error).toMatchObject({ code: 'INVALID_RULE_SET', statusCode: 400, errors: ['holdScore must not be lower than escalateScore.'] });
+      expect(ruleSets).toHaveLength(0);
+    });
+
+    it('refuses an edit based on a version that is no longer in force', async () => {
+      await publishRuleSet(DEFAULT_AML_RULE_SET, actor, 'First edit', 1);
+
+      await expect(publishRuleSet(DEFAULT_AML_RULE_SET, actor, 'Second edit', 1))
+        .rejects.toMatchObject({ code: 'VERSION_CONFLICT', statusCode: 409 });
+    });
+
+    it('lets only one of two concurrent publications through', async () => {
+      await assessPaymentRisk(payment());
+
+      const results = await Promise.allSettled([
+        publishRuleSet(DEFAULT_AML_RULE_SET, actor, 'Edit A'),
+        publishRuleSet(DEFAULT_AML_RULE_SET, actor, 'Edit B'),
+      ]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { code: 'VERSION_CONFLICT' } });
+      expect(ruleSets.map(s => s.version)).toEqual([1, 2]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+import { applySettlementDates, currencyCalendar, isBusinessDay, loadHolidayCalendars, settlementDates, settlementDatesOn } from '../businessCalendar';
+
+// The calendars shipped with the app
+const HOLIDAYS_DIR = path.resolve(__dirname, '../../../data/holidays');
+
+const iso = (date: Date): string => date.toISOString().slice(0, 10);
+
+describe('businessCalendar', () => {
+  beforeAll(() => {
+    loadHolidayCalendars(HOLIDAYS_DIR);
+  });
+
+  describe('settlementDates', () => {
+    it.each([
+      // currency, submitted at, processing date, cut-off instant, value date, missed the cut-off
+      ['EUR before the cut-off (CET)', 'EUR', '2025-03-11T10:00:00Z', '2025-03-11', '2025-03-11T15:00:00.000Z', '2025-03-12', false],
+      ['EUR after the cut-off', 'EUR', '2025-03-11T15:30:00Z', '2025-03-12', '2025-03-12T15:00:00.000Z', '2025-03-13', true],
+      ['EUR a minute before the cut-off (CEST)', 'EUR', '2025-07-01T13:59:00Z', '2025-07-01', '2025-07-01T14:00:00.000Z', '2025-07-02', false],
+      ['EUR exactly at the cut-off', 'EUR', '2025-07-01T14:00:00Z', '2025-07-02', '2025-07-02T14:00:00.000Z', '2025-07-03', true],
+      ['EUR on Friday evening', 'EUR', '2025-03-14T16:00:00Z', '2025-03-17', '2025-03-17T15:00:00.000Z', '2025-03-18', true],
+      ['EUR on Saturday', 'EUR', '2025-03-15T09:00:00Z', '2025-03-17', '2025-03-17T15:00:00.000Z', '2025-03-18', true],
+      ['EUR over Easter', 'EUR', '2025-04-17T16:00:00Z', '2025-04-22', '2025-04-22T14:00:00.000Z', '2025-04-23', true],
+      ['EUR over Christmas', 'EUR', '2025-12-24T16:00:00Z', '2025-12-29', '2025-12-29T15:00:00.000Z', '2025-12-30', true],
+      // Still Tuesday evening in New York
+      ['USD late in UTC, evening in New York', 'USD', '2025-03-12T03:00:00Z', '2025-03-12', '2025-03-12T21:00:00.000Z', '2025-03-13', true],
+      ['USD over Thanksgiving', 'USD', '2025-11-26T23:00:00Z', '2025-11-28', '2025-11-28T22:00:00.000Z', '2025-12-01', true],
+      ['ZAR settles the same day', 'ZAR', '2025-03-10T08:00:00Z', '2025-03-10', '2025-03-10T13:00:00.000Z', '2025-03-10', false],
+      ['ZAR before a public holiday', 'ZAR', '2025-03-20T14:00:00Z', '2025-03-24', '2025-03-24T13:00:00.000Z', '2025-03-24', true],
+      // No calendar: weekends only, UTC midday cut-off, two settlement days
+      ['JPY uses the default calendar', 'JPY', '2025-03-14T11:00:00Z', '2025-03-14', '2025-03-14T12:00:00.000Z', '2025-03-18', false],
+    ])('%s', (_label, currency, at, processing, cutOffAt, value, missed) => {
+      const dates = settlementDates(currency, new Date(at));
+      expect(iso(dates.processingDate)).toBe(processing);
+      expect(dates.cutOffAt.toISOString()).toBe(cutOffAt);
+      expect(iso(dates.valueDate)).toBe(value);
+      expect(dates.nextBusinessDay).toBe(missed);
+    });
+  });
+
+  it('counts a future submission day from its start in the currency time zone', () => {
+    const dates = settlementDatesOn('EUR', '2025-04-18');
+    expect(iso(dates.processingDate)).toBe('2025-04-22');
+    expect(iso(dates.valueDate)).toBe('2025-04-23');
+    expect(dates.nextBusinessDay).toBe(true);
+  });
+
+  it('stamps the cut-off and value date on a payment', () => {
+    const payment: { currency: string; cutOffAt?: Date | null; valueDate?: Date | null } = { currency: 'GBP' };
+    applySettlementDates(payment, new Date('2025-03-11T10:00:00Z'));
+    expect(payment.cutOffAt?.toISOString()).toBe('2025-03-11T15:30:00.000Z');
+    expect(iso(payment.valueDate!)).toBe('2025-03-12');
+  });
+
+  it('treats weekends and closing days as non-business days', () => {
+    const eur = currencyCalendar('eur');
+    expect(isBusinessDay(eur, '2025-12-24')).toBe(true);
+    expect(isBusinessDay(eur, '2025-12-26')).toBe(false);
+    expect(isBusinessDay(eur, '2025-12-27')).toBe(false);
+    expect(isBusinessDay(currencyCalendar('USD'), '2025-12-26')).toBe(true);
+  });
+
+  describe('loadHolidayCalendars', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'holidays-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      loadHolidayCalendars(HOLIDAYS_DIR);
+    });
+
+    it('merges files for the same calendar', () => {
+      fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify({ calendar: 'target2', holidays: [{ date: '2025-03-11' }] }));
+      fs.writeFileSync(path.join(dir, 'b.json'), JSON.stringify({ calendar: 'TARGET2', holidays: [{ date: '2025-03-12' }] }));
+
+      expect(loadHolidayCalendars(dir)).toEqual(['TARGET2']);
+      expect(isBusinessDay(currencyCalendar('EUR'), '2025-03-11')).toBe(false);
+      expect(isBusinessDay(currencyCalendar('EUR'), '2025-03-12')).toBe(false);
+      expect(isBusinessDay(currencyCalendar('EUR'), '2025-12-25')).toBe(true);
+    });
+
+    it.each([
+      ['a missing calendar name', { holidays: [] }, 'calendar name is missing'],
+      ['holidays that are not a list', { calendar: 'X', holidays: {} }, 'holidays must be a list'],
+      ['an impossible date', { calendar: 'X', holidays: [{ date: '2025-02-30' }] }, '"2025-02-30" is not a YYYY-MM-DD date'],
+    ])('rejects a file with %s and keeps the previous calendars', (_label, content, message) => {
+      fs.writeFileSync(path.join(dir, 'bad.json'), JSON.stringify(content));
+
+      expect(() => loadHolidayCalendars(dir)).toThrow(message);
+      expect(isBusinessDay(currencyCalendar('EUR'), '2025-12-25')).toBe(false);
+    });
+  });
+});
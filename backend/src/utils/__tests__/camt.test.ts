@@ -0,0 +1,112 @@
+import { parseCamt } from '../camt';
+
+const statement = (entries: string, header: string = '<MsgId>STMT-1</MsgId><CreDtTm>2025-03-14T18:00:00Z</CreDtTm>'): string => `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <GrpHdr>${header}</GrpHdr>
+    <Stmt>${entries}</Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const entry = (body: string): string => `<Ntry>${body}</Ntry>`;
+
+describe('parseCamt', () => {
+  it('reads a camt.053 statement with one transaction per entry', () => {
+    const message = parseCamt(statement(
+      entry(`
+        <NtryRef>1</NtryRef>
+        <Amt Ccy="EUR">1250.10</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-03-14</Dt></BookgDt>
+        <AcctSvcrRef>BANKREF-001</AcctSvcrRef>
+        <NtryDtls><TxDtls><Refs><EndToEndId>TX202503140000004217</EndToEndId></Refs></TxDtls></NtryDtls>`)
+      + entry(`
+        <Amt Ccy="eur">99.99</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>pdng</Sts>
+        <BookgDt><DtTm>2025-03-14T10:15:00Z</DtTm></BookgDt>`),
+    ));
+
+    expect(message).toEqual({
+      type: 'camt.053',
+      messageId: 'STMT-1',
+      createdAt: new Date('2025-03-14T18:00:00Z'),
+      entries: [
+        {
+          entryRef: 'BANKREF-001',
+          endToEndId: 'TX202503140000004217',
+          amount: 1250.1,
+          currency: 'EUR',
+          creditDebit: 'DBIT',
+          status: 'BOOK',
+          bookingDate: new Date('2025-03-14T00:00:00Z'),
+        },
+        {
+          entryRef: '1.2',
+          endToEndId: null,
+          amount: 99.99,
+          currency: 'EUR',
+          creditDebit: 'CRDT',
+          status: 'PDNG',
+          bookingDate: new Date('2025-03-14T10:15:00Z'),
+        },
+      ],
+    });
+  });
+
+  it('splits a batched entry into one item per transaction', () => {
+    const message = parseCamt(statement(entry(`
+      <Amt Ccy="EUR">300.00</Amt>
+      <CdtDbtInd>DBIT</CdtDbtInd>
+      <NtryRef>BATCH-7</NtryRef>
+      <NtryDtls>
+        <TxDtls><Refs><EndToEndId>E2E-1</EndToEndId></Refs><Amt Ccy="EUR">100.00</Amt></TxDtls>
+        <TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs><AmtDtls><TxAmt><Amt Ccy="EUR">200.00</Amt></TxAmt></AmtDtls></TxDtls>
+      </NtryDtls>`)));
+
+    expect(message.entries.map(e => [e.entryRef, e.endToEndId, e.amount, e.status, e.bookingDate])).toEqual([
+      ['BATCH-7/1', 'E2E-1', 100, 'BOOK', null],
+      ['BATCH-7/2', null, 200, 'BOOK', null],
+    ]);
+  });
+
+  it('reads a namespace-prefixed camt.054 notification', () => {
+    const message = parseCamt(`<ns:Document xmlns:ns="urn:iso:std:iso:20022:tech:xsd:camt.054.001.08">
+      <ns:BkToCstmrDbtCdtNtfctn>
+        <ns:GrpHdr><ns:MsgId>NTF-1</ns:MsgId><ns:CreDtTm>not a date</ns:CreDtTm></ns:GrpHdr>
+        <ns:Ntfctn>
+          <ns:Ntry><ns:Amt Ccy="JPY">125000</ns:Amt><ns:CdtDbtInd>DBIT</ns:CdtDbtInd></ns:Ntry>
+        </ns:Ntfctn>
+        <ns:Ntfctn>
+          <ns:Ntry><ns:Amt Ccy="USD">10</ns:Amt><ns:CdtDbtInd>CRDT</ns:CdtDbtInd></ns:Ntry>
+        </ns:Ntfctn>
+      </ns:BkToCstmrDbtCdtNtfctn>
+    </ns:Document>`);
+
+    expect(message.type).toBe('camt.054');
+    expect(message.messageId).toBe('NTF-1');
+    expect(message.createdAt).toBeNull();
+    expect(message.entries.map(e => [e.entryRef, e.amount, e.currency])).toEqual([['1.1', 125000, 'JPY'], ['2.1', 10, 'USD']]);
+  });
+
+  describe('rejects unusable documents', () => {
+    it.each([
+      ['another message type', '<Document><CstmrCdtTrfInitn/></Document>', 'Not a camt.053 or camt.054 document.'],
+      ['an empty document', '<Document/>', 'Not a camt.053 or camt.054 document.'],
+      ['a missing message ID', statement('', '<CreDtTm>2025-03-14T18:00:00Z</CreDtTm>'), 'GrpHdr/MsgId is missing.'],
+      ['an entry without amount', statement(entry('<CdtDbtInd>DBIT</CdtDbtInd>')), 'Entry 1.1 has no valid amount.'],
+      ['an amount that is not a number', statement(entry('<Amt Ccy="EUR">1,00</Amt><CdtDbtInd>DBIT</CdtDbtInd>')), 'Entry 1.1 has no valid amount.'],
+      ['an amount without currency', statement(entry('<Amt>1.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>')), 'Entry 1.1 has no valid amount.'],
+      ['a missing credit/debit indicator', statement(entry('<Amt Ccy="EUR">1.00</Amt>')), 'Entry 1.1 has no credit/debit indicator.'],
+      [
+        'a batched transaction without amount',
+        statement(entry('<Amt Ccy="EUR">2.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><NtryDtls><TxDtls/><TxDtls/></NtryDtls>')),
+        'Transaction 1 of entry 1.1 has no amount.',
+      ],
+      ['a document type declaration', '<!DOCTYPE x [<!ENTITY a "b">]><Document/>', 'Document type declarations are not allowed.'],
+    ])('%s', (_label, xml, message) => {
+      expect(() => parseCamt(xml)).toThrow(message);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { decodeCbor } from '../cbor';
+import { coseToSpki, verifyAssertionSignature } from '../cose';
+
+const b64url = (value: string | undefined): Buffer => Buffer.from(value || '', 'base64url');
+
+// COSE_Key maps (RFC 9053) built from a Node key pair, as an authenticator would send them
+const coseKeyFor = (algorithm: number, publicKey: crypto.KeyObject) => {
+  const jwk = publicKey.export({ format: 'jwk' });
+  switch (algorithm) {
+    case -7: return new Map<any, any>([[1, 2], [3, -7], [-1, 1], [-2, b64url(jwk.x)], [-3, b64url(jwk.y)]]);
+    case -8: return new Map<any, any>([[1, 1], [3, -8], [-1, 6], [-2, b64url(jwk.x)]]);
+    default: return new Map<any, any>([[1, 3], [3, -257], [-1, b64url(jwk.n)], [-2, b64url(jwk.e)]]);
+  }
+};
+
+describe('decodeCbor', () => {
+  it('decodes maps with integer and text keys, byte strings and negative integers', () => {
+    // {1: 2, 3: -7, "fmt": "none", -2: h'0102'}
+    const bytes = Buffer.from('a40102032663666d74646e6f6e652142 0102'.replace(/ /g, ''), 'hex');
+    const value = decodeCbor(bytes) as Map<unknown, unknown>;
+    expect(value.get(1)).toBe(2);
+    expect(value.get(3)).toBe(-7);
+    expect(value.get('fmt')).toBe('none');
+    expect(value.get(-2)).toEqual(Buffer.from([1, 2]));
+  });
+
+  it('rejects truncated and trailing data', () => {
+    expect(() => decodeCbor(Buffer.from('a201', 'hex'))).toThrow();
+    expect(() => decodeCbor(Buffer.from('0101', 'hex'))).toThrow();
+  });
+});
+
+describe('verifyAssertionSignature', () => {
+  const authenticatorData = crypto.randomBytes(37);
+  const clientDataJSON = Buffer.from(JSON.stringify({ type: 'webauthn.get', challenge: 'abc', origin: 'http://localhost:3000' }));
+  const signedData = Buffer.concat([authenticatorData, crypto.createHash('sha256').update(clientDataJSON).digest()]);
+
+  const cases: Array<[string, number, () => crypto.KeyPairKeyObjectResult, (key: crypto.KeyObject) => Buffer]> = [
+    ['ES256', -7, () => crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }), key => crypto.sign('sha256', signedData, { key, dsaEncoding: 'der' })],
+    ['EdDSA', -8, () => crypto.generateKeyPairSync('ed25519'), key => crypto.sign(null, signedData, key)],
+    ['RS256', -257, () => crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }), key => crypto.sign('sha256', signedData, key)],
+  ];
+
+  it.each(cases)('accepts a valid %s signature and rejects a tampered one', (_name, algorithm, generate, sign) => {
+    const { publicKey, privateKey } = generate();
+    const credential = coseToSpki(coseKeyFor(algorithm, publicKey));
+    expect(credential.algorithm).toBe(algorithm);
+
+    const signature = sign(privateKey);
+    expect(verifyAssertionSignature(credential, authenticatorData, clientDataJSON, signature)).toBe(true);
+
+    const tampered = Buffer.from(clientDataJSON.toString().replace('abc', 'abd'));
+    expect(verifyAssertionSignature(credential, authenticatorData, tampered, signature)).toBe(false);
+  });
+
+  it('rejects unsupported key types', () => {
+    expect(() => coseToSpki(new Map<any, any>([[1, 2], [3, -35], [-1, 2]]))).toThrow('unsupported key type');
+  });
+});
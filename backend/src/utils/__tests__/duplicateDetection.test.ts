@@ -0,0 +1,106 @@
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+// The customer's payments; the query is applied the way MongoDB would, newest first
+let payments: any[] = [];
+jest.mock('../../models/Payment', () => ({
+  Payment: {
+    find: jest.fn((filter: any) => ({
+      sort: async () => payments
+        .filter(p => p.userId === filter.userId
+          && p.recipientIBAN === filter.recipientIBAN
+          && p.currency === filter.currency
+          && p.deletedAt === null
+          && !filter.status.$nin.includes(p.status)
+          && p.createdAt >= filter.createdAt.$gte)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    })),
+  },
+}));
+
+import { findPossibleDuplicate, similarReferences } from '../duplicateDetection';
+
+const NOW = new Date('2024-03-01T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000);
+
+const earlier = (fields: Record<string, unknown> = {}) => ({
+  _id: `payment-${payments.length + 1}`,
+  userId: 'user-1',
+  recipientIBAN: 'DE89370400440532013000',
+  amount: 1250.5,
+  currency: 'EUR',
+  reference: 'INV-1042',
+  status: 'completed',
+  deletedAt: null,
+  createdAt: hoursAgo(2),
+  ...fields,
+});
+
+const candidate = { userId: 'user-1', recipientIBAN: 'DE89370400440532013000', amount: 1250.5, currency: 'EUR', reference: 'INV-1042' };
+
+describe('duplicate payment detection', () => {
+  beforeEach(() => {
+    payments = [];
+  });
+
+  describe('similarReferences', () => {
+    it.each([
+      ['INV-1042', 'inv 1042'],
+      ['INV 1042', 'Invoice INV-1042'],
+      ['Rent March 2024', 'Rent Marhc 2024'],
+      ['', ''],
+    ])('treats %p and %p as similar', (a, b) => {
+      expect(similarReferences(a, b)).toBe(true);
+    });
+
+    it.each([
+      ['INV-1042', 'PO-88310'],
+      ['Rent March', 'Salary bonus'],
+      ['INV-1042', ''],
+      ['A1', 'XA1Y'],
+    ])('keeps %p and %p apart', (a, b) => {
+      expect(similarReferences(a, b)).toBe(false);
+    });
+  });
+
+  describe('findPossibleDuplicate', () => {
+    it('finds the same payment sent earlier with a similar reference', async () => {
+      payments = [earlier({ reference: 'Invoice INV 1042' })];
+
+      await expect(findPossibleDuplicate(candidate, NOW)).resolves.toMatchObject({ _id: 'payment-1' });
+    });
+
+    it('returns the most recent match', async () => {
+      payments = [earlier({ createdAt: hoursAgo(10) })];
+      payments.push(earlier({ createdAt: hoursAgo(1) }));
+
+      await expect(findPossibleDuplicate(candidate, NOW)).resolves.toMatchObject({ _id: 'payment-2' });
+    });
+
+    it('compares amounts in minor units', async () => {
+      payments = [earlier({ amount: 1250.499999 })];
+
+      await expect(findPossibleDuplicate(candidate, NOW)).resolves.not.toBeNull();
+    });
+
+    it.each([
+      ['a different amount', { amount: 1250.51 }],
+      ['a different currency', { currency: 'USD' }],
+      ['a different account', { recipientIBAN: 'NL91ABNA0417164300' }],
+      ['another customer', { userId: 'user-2' }],
+      ['an unrelated reference', { reference: 'INV-2077' }],
+      ['a payment outside the window', { createdAt: hoursAgo(25) }],
+      ['a cancelled payment', { status: 'cancelled' }],
+      ['a failed payment', { status: 'failed' }],
+      ['a deleted payment', { deletedAt: hoursAgo(1) }],
+    ])('ignores %s', async (_label, fields) => {
+      payments = [earlier(fields)];
+
+      await expect(findPossibleDuplicate(candidate, NOW)).resolves.toBeNull();
+    });
+  });
+});
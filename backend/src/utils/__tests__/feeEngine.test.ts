@@ -0,0 +1,73 @@
+import { calculateFees, parseChargeBearer, FeeError, IFeeInput } from '../feeEngine';
+
+const DE_IBAN = 'DE89370400440532013000';
+const JP_IBAN = 'JP12 0005 0123 4567 8901 23';
+
+const fees = (input: Partial<IFeeInput>) => calculateFees({ amount: 100, currency: 'EUR', recipientIBAN: DE_IBAN, ...input });
+
+describe('parseChargeBearer', () => {
+  it.each([
+    [undefined, 'SHA'],
+    [null, 'SHA'],
+    ['', 'SHA'],
+    ['our', 'OUR'],
+    ['BEN', 'BEN'],
+  ])('%p -> %s', (input, expected) => {
+    expect(parseChargeBearer(input)).toBe(expected);
+  });
+
+  it('rejects unknown bearers', () => {
+    expect(() => parseChargeBearer('DEBT')).toThrow(FeeError);
+    expect(() => parseChargeBearer('DEBT')).toThrow(expect.objectContaining({ code: 'INVALID_CHARGE_BEARER' }));
+  });
+});
+
+describe('calculateFees', () => {
+  describe('picks the first matching rule per component', () => {
+    it.each<[string, Partial<IFeeInput>, Array<[string, number]>, number]>([
+      ['SEPA EUR, shared', { amount: 100 }, [['sepa-eur', 2.5]], 2.5],
+      // SEPA has no correspondent charges: the zero-amount OUR rule adds no line
+      ['SEPA EUR, OUR', { amount: 100, chargeBearer: 'OUR' }, [['sepa-eur', 2.5]], 2.5],
+      ['EUR outside SEPA, OUR', { amount: 1000, recipientIBAN: JP_IBAN, chargeBearer: 'OUR' }, [['intl-default', 3.5], ['our-eur', 15]], 18.5],
+      ['USD first tier', { amount: 500, currency: 'USD', recipientIBAN: JP_IBAN }, [['intl-usd', 15]], 15],
+      ['USD tier boundary', { amount: 1000, currency: 'USD', recipientIBAN: JP_IBAN }, [['intl-usd', 15]], 15],
+      ['USD second tier', { amount: 5000, currency: 'USD', recipientIBAN: JP_IBAN }, [['intl-usd', 25]], 25],
+      ['USD percentage tier', { amount: 20000, currency: 'USD', recipientIBAN: JP_IBAN }, [['intl-usd', 50]], 50],
+      ['USD capped at max', { amount: 100000, currency: 'USD', recipientIBAN: JP_IBAN }, [['intl-usd', 150]], 150],
+      ['USD, OUR', { amount: 500, currency: 'USD', recipientIBAN: JP_IBAN, chargeBearer: 'OUR' }, [['intl-usd', 15], ['our-usd', 20]], 35],
+      ['GBP raised to min', { amount: 1000, currency: 'GBP', recipientIBAN: JP_IBAN }, [['intl-gbp', 10]], 10],
+      ['GBP percentage', { amount: 10000, currency: 'GBP', recipientIBAN: JP_IBAN }, [['intl-gbp', 30]], 30],
+      ['GBP capped at max', { amount: 50000, currency: 'GBP', recipientIBAN: JP_IBAN }, [['intl-gbp', 100]], 100],
+      // No IBAN country: the stated recipient country decides
+      ['domestic ZAR', { amount: 1000, currency: 'ZAR', recipientIBAN: '62001234567', recipientCountry: 'za' }, [['domestic-zar', 15]], 15],
+      ['JPY rounded to whole yen', { amount: 12345, currency: 'JPY', recipientIBAN: JP_IBAN }, [['intl-default', 43]], 43],
+    ])('%s', (_label, input, lines, total) => {
+      const result = fees(input);
+      expect(result.lines.map(l => [l.ruleId, l.amount])).toEqual(lines);
+      expect(result.total).toBe(total);
+      expect(result.deductedFromAmount).toBe(false);
+      expect(result.settlementAmount).toBe(input.amount);
+    });
+  });
+
+  it('deducts the fees from the amount sent when the recipient pays', () => {
+    expect(fees({ amount: 100, chargeBearer: 'BEN' })).toMatchObject({
+      currency: 'EUR',
+      total: 2.5,
+      deductedFromAmount: true,
+      settlementAmount: 97.5,
+    });
+  });
+
+  it.each([2.5, 2])('rejects a BEN payment of %s EUR that the fees would use up', amount => {
+    expect(() => fees({ amount, chargeBearer: 'BEN' })).toThrow(expect.objectContaining({ code: 'FEES_EXCEED_AMOUNT' }));
+  });
+
+  it('charges converted payments in the source currency, rounding each line up', () => {
+    const result = fees({ amount: 500, currency: 'USD', recipientIBAN: JP_IBAN, chargeBearer: 'OUR', fx: { sourceCurrency: 'EUR', rate: 1.08 } });
+    expect(result.currency).toBe('EUR');
+    expect(result.lines.map(l => l.amount)).toEqual([13.89, 18.52]);
+    expect(result.total).toBe(32.41);
+    expect(result.settlementAmount).toBe(500);
+  });
+});
@@ -0,0 +1,120 @@
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+// Quotes in memory; the conditional update is atomic, as in MongoDB
+let quotes: any[] = [];
+const matches = (quote: any, filter: any) => Object.entries(filter).every(([key, value]: [string, any]) => (
+  value && typeof value === 'object' && '$gt' in value ? quote[key] > value.$gt : quote[key] === value
+));
+jest.mock('../../models/FxQuote', () => ({
+  FxQuote: {
+    findOne: jest.fn(async (filter: any) => quotes.find(q => matches(q, filter)) || null),
+    findById: jest.fn(async (id: string) => quotes.find(q => q._id === id) || null),
+    findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+      const quote = quotes.find(q => matches(q, filter));
+      return quote ? Object.assign(quote, update.$set) : null;
+    }),
+    updateOne: jest.fn(async (filter: any, update: any) => {
+      const quote = quotes.find(q => matches(q, filter));
+      if (quote) Object.assign(quote, update.$set);
+    }),
+  },
+}));
+jest.mock('../../models/User', () => ({ User: { findById: jest.fn() } }));
+
+import { FxError, claimQuote, releaseQuote } from '../fxService';
+
+const quote = (fields: Record<string, unknown> = {}) => ({
+  _id: 'quote-1',
+  quoteId: 'FXQ-1',
+  userId: 'user-1',
+  sourceCurrency: 'EUR',
+  targetCurrency: 'USD',
+  sourceAmount: 925.93,
+  targetAmount: 1000,
+  rate: 1.08,
+  midRate: 1.0827,
+  spreadBps: 25,
+  expiresAt: new Date(Date.now() + 60 * 1000),
+  usedAt: null,
+  paymentId: null,
+  ...fields,
+});
+
+const payment = (id: string, fields: Record<string, unknown> = {}) => ({ _id: id, amount: 1000, currency: 'USD', ...fields });
+
+describe('FX quote claims', () => {
+  beforeEach(() => {
+    quotes = [quote()];
+  });
+
+  describe('claimQuote', () => {
+    it('takes the quote for the payment and returns the locked-in rate', async () => {
+      const fx = await claimQuote('FXQ-1', 'user-1', payment('payment-1'));
+
+      expect(fx).toEqual({ quoteId: 'FXQ-1', sourceCurrency: 'EUR', sourceAmount: 925.93, targetAmount: 1000, rate: 1.08, midRate: 1.0827, spreadBps: 25 });
+      expect(quotes[0]).toMatchObject({ paymentId: 'payment-1', usedAt: expect.any(Date) });
+    });
+
+    it('refuses a second payment with the same quote', async () => {
+      await claimQuote('FXQ-1', 'user-1', payment('payment-1'));
+
+      await expect(claimQuote('FXQ-1', 'user-1', payment('payment-2'))).rejects.toMatchObject({ code: 'QUOTE_USED', statusCode: 409 });
+      expect(quotes[0].paymentId).toBe('payment-1');
+    });
+
+    it('lets only one of two concurrent payments use the quote', async () => {
+      const results = await Promise.allSettled([
+        claimQuote('FXQ-1', 'user-1', payment('payment-1')),
+        claimQuote('FXQ-1', 'user-1', payment('payment-2')),
+      ]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { code: 'QUOTE_USED' } });
+    });
+
+    it('refuses an expired quote', async () => {
+      quotes[0].expiresAt = new Date(Date.now() - 1000);
+
+      await expect(claimQuote('FXQ-1', 'user-1', payment('payment-1'))).rejects.toMatchObject({ code: 'QUOTE_EXPIRED', statusCode: 409 });
+      expect(quotes[0].usedAt).toBeNull();
+    });
+
+    it("does not find another customer's quote", async () => {
+      const error = await claimQuote('FXQ-1', 'user-2', payment('payment-1')).catch(e => e);
+
+      expect(error).toBeInstanceOf(FxError);
+      expect(error).toMatchObject({ code: 'QUOTE_NOT_FOUND', statusCode: 404 });
+    });
+
+    it.each([
+      ['another currency', { currency: 'GBP' }],
+      ['another amount', { amount: 1000.01 }],
+    ])('refuses a payment in %s than quoted', async (_label, fields) => {
+      await expect(claimQuote('FXQ-1', 'user-1', payment('payment-1', fields))).rejects.toMatchObject({ code: 'QUOTE_MISMATCH', statusCode: 422 });
+      expect(quotes[0].usedAt).toBeNull();
+    });
+  });
+
+  describe('releaseQuote', () => {
+    it('makes the quote usable again when its payment could not be created', async () => {
+      await claimQuote('FXQ-1', 'user-1', payment('payment-1'));
+      await releaseQuote('FXQ-1', 'payment-1');
+
+      expect(quotes[0]).toMatchObject({ usedAt: null, paymentId: null });
+      await expect(claimQuote('FXQ-1', 'user-1', payment('payment-2'))).resolves.toMatchObject({ quoteId: 'FXQ-1' });
+    });
+
+    it('leaves a quote claimed by another payment alone', async () => {
+      await claimQuote('FXQ-1', 'user-1', payment('payment-1'));
+      await releaseQuote('FXQ-1', 'payment-2');
+
+      expect(quotes[0].paymentId).toBe('payment-1');
+      await expect(claimQuote('FXQ-1', 'user-1', payment('payment-2'))).rejects.toMatchObject({ code: 'QUOTE_USED' });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { parseIBAN, IbanFailureReason } from '../iban';
+
+describe('parseIBAN', () => {
+  describe('accepts valid IBANs', () => {
+    it.each([
+      ['DE', 'DE89370400440532013000'],
+      ['GB', 'GB29NWBK60161331926819'],
+      ['NL', 'NL91ABNA0417164300'],
+      ['CH', 'CH9300762011623852957'],
+      ['BE', 'BE68539007547034'],
+      ['ES', 'ES9121000418450200051332'],
+      ['FR', 'FR1420041010050500013M02606'],
+      ['MC', 'MC5811222000010123456789030'],
+      ['IT', 'IT60X0542811101000000123456'],
+      ['SM', 'SM86U0322509800000000270100'],
+      ['NO', 'NO9386011117947'],
+      ['PT', 'PT50000201231234567890154'],
+      ['SI', 'SI56263300012039086'],
+      ['ME', 'ME25505000012345678951'],
+      ['RS', 'RS35260005601001611379'],
+      ['BA', 'BA391290079401028494'],
+    ])('%s %s', (country, iban) => {
+      const result = parseIBAN(iban);
+      expect(result).toMatchObject({ valid: true, iban, country });
+    });
+
+    it('ignores spaces and case', () => {
+      expect(parseIBAN('de89 3704 0044 0532 0130 00')).toMatchObject({ valid: true, iban: 'DE89370400440532013000' });
+    });
+  });
+
+  describe('splits the BBAN into its components', () => {
+    it.each([
+      ['DE89370400440532013000', { bankCode: '37040044', branchCode: null, accountNumber: '0532013000', nationalCheckDigits: null }],
+      ['GB29NWBK60161331926819', { bankCode: 'NWBK', branchCode: '601613', accountNumber: '31926819', nationalCheckDigits: null }],
+      ['ES9121000418450200051332', { bankCode: '2100', branchCode: '0418', accountNumber: '0200051332', nationalCheckDigits: '45' }],
+      ['FR1420041010050500013M02606', { bankCode: '20041', branchCode: '01005', accountNumber: '0500013M026', nationalCheckDigits: '06' }],
+      ['IT60X0542811101000000123456', { bankCode: '05428', branchCode: '11101', accountNumber: '000000123456', nationalCheckDigits: 'X' }],
+    ])('%s', (iban, components) => {
+      expect(parseIBAN(iban)).toMatchObject({ valid: true, checkDigits: iban.slice(2, 4), bban: iban.slice(4), ...components });
+    });
+  });
+
+  describe('rejects invalid IBANs', () => {
+    it.each<[string, string | null, IbanFailureReason]>([
+      ['empty', '', 'MISSING'],
+      ['missing', null, 'MISSING'],
+      ['punctuation', 'DE89-3704-0044-0532-0130-00', 'INVALID_CHARACTERS'],
+      ['no check digits', 'DEXX370400440532013000', 'INVALID_CHARACTERS'],
+      ['country without IBANs', 'US64SVBKUS6S3300958879', 'UNKNOWN_COUNTRY'],
+
+      // Wrong length for the country
+      ['DE too short', 'DE8937040044053201300', 'INVALID_LENGTH'],
+      ['DE too long', 'DE893704004405320130000', 'INVALID_LENGTH'],
+      ['GB too long', 'GB29NWBK601613319268190', 'INVALID_LENGTH'],
+      ['NO too long', 'NO93860111179470', 'INVALID_LENGTH'],
+      ['BE too short', 'BE6853900754703', 'INVALID_LENGTH'],
+
+      // Right length, wrong BBAN structure
+      ['GB bank code in digits', 'GB29123460161331926819', 'INVALID_BBAN_FORMAT'],
+      ['NL bank code in digits', 'NL91123404171643 00', 'INVALID_BBAN_FORMAT'],
+      ['DE letter in account', 'DE8937040044053201300A', 'INVALID_BBAN_FORMAT'],
+      ['IT check character as digit', 'IT6010542811101000000123456', 'INVALID_BBAN_FORMAT'],
+      ['FR letter in national check', 'FR1420041010050500013M026A6', 'INVALID_BBAN_FORMAT'],
+
+      // IBAN check digits
+      ['DE transposed check digits', 'DE98370400440532013000', 'INVALID_CHECKSUM'],
+      ['GB typo in account', 'GB29NWBK60161331926818', 'INVALID_CHECKSUM'],
+      ['FR typo in account', 'FR1420041010050500013M02607', 'INVALID_CHECKSUM'],
+
+      // IBAN check digits recomputed, but the national check digits do not match the account
+      ['BE', 'BE41539007547035', 'INVALID_NATIONAL_CHECK'],
+      ['ES', 'ES2921000418460200051332', 'INVALID_NATIONAL_CHECK'],
+      ['FR', 'FR8420041010050500013M02607', 'INVALID_NATIONAL_CHECK'],
+      ['MC', 'MC3111222000010123456789031', 'INVALID_NATIONAL_CHECK'],
+      ['IT', 'IT64Y0542811101000000123456', 'INVALID_NATIONAL_CHECK'],
+      ['SM', 'SM90V0322509800000000270100', 'INVALID_NATIONAL_CHECK'],
+      ['NO', 'NO6686011117948', 'INVALID_NATIONAL_CHECK'],
+      ['PT', 'PT23000201231234567890155', 'INVALID_NATIONAL_CHECK'],
+      ['SI', 'SI29263300012039087', 'INVALID_NATIONAL_CHECK'],
+    ])('%s', (_label, iban, reason) => {
+      const result = parseIBAN(iban);
+      expect(result.valid).toBe(false);
+      expect(result).toMatchObject({ reason });
+    });
+
+    it('names the country and segment in the message', () => {
+      expect(parseIBAN('GB29123460161331926819')).toMatchObject({
+        country: 'GB',
+        message: 'The bank segment of a United Kingdom IBAN must be 4 letters.',
+      });
+      expect(parseIBAN('DE8937040044053201300')).toMatchObject({
+        message: 'Germany IBANs are 22 characters long, got 21.',
+      });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+// Hold, capture, release and capture reversal against in-memory collections. The journal mock
+// keeps the model's rules: entries must balance, cannot be changed or deleted, and a hold is
+// posted and reversed at most once.
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+const store: { accounts: any[]; holds: any[]; entries: any[] } = { accounts: [], holds: [], entries: [] };
+let nextId = 1;
+const newId = () => `id-${nextId++}`;
+
+const matches = (doc: any, filter: any) => Object.entries(filter).every(([key, value]) => {
+  if (key === '$expr') {
+    const [, needed] = (value as any).$gte;
+    return doc.balanceMinor - doc.heldMinor >= needed;
+  }
+  return String(doc[key]) === String(value);
+});
+
+const apply = (doc: any, update: any) => {
+  Object.assign(doc, update.$set || {});
+  for (const [key, delta] of Object.entries(update.$inc || {})) doc[key] += delta as number;
+  return doc;
+};
+
+const immutable = () => {
+  throw new Error('Journal entries are immutable');
+};
+
+jest.mock('../../models/LedgerAccount', () => ({
+  LedgerAccount: {
+    findOneAndUpdate: jest.fn(async (filter: any, update: any, options: any) => {
+      const account = store.accounts.find(a => matches(a, filter));
+      if (account) return options?.upsert ? account : apply(account, update);
+      if (!options?.upsert) return null;
+      const created = { _id: newId(), ...update.$setOnInsert };
+      store.accounts.push(created);
+      return created;
+    }),
+    updateOne: jest.fn(async (filter: any, update: any) => {
+      const account = store.accounts.find(a => matches(a, filter));
+      if (account) apply(account, update);
+    }),
+  },
+}));
+
+jest.mock('../../models/LedgerHold', () => {
+  const withSave = (hold: any) => Object.assign(hold, { save: jest.fn(async () => hold) });
+  return {
+    LedgerHold: {
+      create: jest.fn(async (fields: any) => {
+        if (store.holds.some(h => h.paymentId === fields.paymentId)) throw Object.assign(new Error('E11000'), { code: 11000 });
+        const hold = withSave({ _id: newId(), status: 'active', journalEntryId: null, feeMinor: 0, feesDeducted: false, ...fields });
+        store.holds.push(hold);
+        return hold;
+      }),
+      findOne: jest.fn(async (filter: any) => store.holds.find(h => matches(h, filter)) || null),
+      findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+        const hold = store.holds.find(h => matches(h, filter));
+        return hold ? apply(hold, update) : null;
+      }),
+      updateOne: jest.fn(async (filter: any, update: any) => {
+        const hold = store.holds.find(h => matches(h, filter));
+        if (hold) apply(hold, update);
+      }),
+      deleteOne: jest.fn(async (filter: any) => {
+        store.holds = store.holds.filter(h => !matches(h, filter));
+      }),
+    },
+  };
+});
+
+jest.mock('../../models/JournalEntry', () => ({
+  JournalEntry: {
+    create: jest.fn(async (fields: any) => {
+      const net = fields.lines.reduce((sum: number, l: any) => sum + (l.direction === 'debit' ? l.amountMinor : -l.amountMinor), 0);
+      if (net !== 0) throw new Error('Journal entry is not balanced');
+      if (fields.holdId && store.entries.some(e => e.holdId === fields.holdId && e.kind === fields.kind)) {
+        throw Object.assign(new Error('E11000'), { code: 11000 });
+      }
+      const entry = { _id: newId(), ...fields };
+      store.entries.push(entry);
+      return entry;
+    }),
+    findById: jest.fn(async (id: string) => store.entries.find(e => e._id === id) || null),
+    findByIdAndDelete: jest.fn(immutable),
+    deleteOne: jest.fn(immutable),
+    updateOne: jest.fn(immutable),
+  },
+}));
+
+import { ledgerConfig } from '../../config';
+import { captureHold, placeHold, recordDeposit, releaseHold, reverseCapture, LedgerError } from '../ledgerService';
+
+const customer = () => store.accounts.find(a => a.ownerId === 'user-1' && a.type === 'customer');
+const balanceOf = (ownerId: string, type: string) => store.accounts.find(a => a.ownerId === ownerId && a.type === type)?.balanceMinor ?? 0;
+const holdOf = (paymentId: string) => store.holds.find(h => h.paymentId === paymentId);
+
+const payment = (overrides: Record<string, unknown> = {}) => ({ _id: 'payment-1', userId: 'user-1', amount: 250, currency: 'EUR', ...overrides });
+
+// Net of every posted line per account must equal the stored balance, as the trial balance checks
+const expectJournalMatchesBalances = () => {
+  for (const account of store.accounts) {
+    const net = store.entries.flatMap(e => e.lines)
+      .filter((l: any) => l.accountId === String(account._id))
+      .reduce((sum: number, l: any) => sum + (l.direction === 'credit' ? l.amountMinor : -l.amountMinor), 0);
+    expect(net).toBe(account.balanceMinor);
+  }
+};
+
+describe('ledgerService', () => {
+  beforeEach(async () => {
+    store.accounts = [];
+    store.holds = [];
+    store.entries = [];
+    await recordDeposit('user-1', 'EUR', 1000, 'employee-1');
+  });
+
+  describe('placeHold', () => {
+    it('reserves the amount plus fees charged on top', async () => {
+      const hold = await placeHold(payment({ fees: { total: 2.5, deductedFromAmount: false, lines: [] } }));
+
+      expect(hold).toMatchObject({ amountMinor: 25250, feeMinor: 250, status: 'active' });
+      expect(customer()).toMatchObject({ balanceMinor: 100000, heldMinor: 25250 });
+    });
+
+    it('reserves a converted payment in its source currency', async () => {
+      await recordDeposit('user-1', 'USD', 500, 'employee-1');
+      await placeHold(payment({ fx: { sourceAmount: 270, sourceCurrency: 'USD' } }));
+
+      expect(store.accounts.find(a => a.ownerId === 'user-1' && a.currency === 'USD').heldMinor).toBe(27000);
+      expect(customer().heldMinor).toBe(0);
+    });
+
+    it('rejects a payment the available balance does not cover', async () => {
+      await placeHold(payment({ _id: 'payment-0', amount: 900 }));
+
+      await expect(placeHold(payment({ amount: 200 }))).rejects.toMatchObject({ code: 'INSUFFICIENT_FUNDS' });
+      expect(customer().heldMinor).toBe(90000);
+      expect(holdOf('payment-1')).toBeUndefined();
+    });
+
+    it('lets a payment overdraw only when overdrafts are turned on', async () => {
+      const defaultOverdraft = ledgerConfig.allowOverdraft;
+      ledgerConfig.allowOverdraft = true;
+      try {
+        await placeHold(payment({ amount: 5000 }));
+      } finally {
+        ledgerConfig.allowOverdraft = defaultOverdraft;
+      }
+      expect(customer().heldMinor).toBe(500000);
+    });
+
+    it('rejects non-positive amounts', async () => {
+      await expect(placeHold(payment({ amount: 0 }))).rejects.toBeInstanceOf(LedgerError);
+    });
+  });
+
+  it('releases a hold once and gives the amount back to the available balance', async () => {
+    await placeHold(payment());
+    await releaseHold(payment());
+    await releaseHold(payment());
+
+    expect(holdOf('payment-1').status).toBe('released');
+    expect(customer()).toMatchObject({ balanceMinor: 100000, heldMinor: 0 });
+  });
+
+  describe('captureHold', () => {
+    it('posts the debit with itemised fees and consumes the hold', async () => {
+      const fees = { total: 2.5, deductedFromAmount: false, lines: [{ description: 'SEPA transfer', amount: 2.5 }] };
+      await placeHold(payment({ fees }));
+
+      const entry = await captureHold(payment({ fees }), 'employee-1');
+
+      expect(entry!.lines.map((l: any) => [l.accountType, l.direction, l.amountMinor])).toEqual([
+        ['customer', 'debit', 25000],
+        ['customer', 'debit', 250],
+        ['fee_income', 'credit', 250],
+        ['clearing', 'credit', 25000],
+      ]);
+      expect(holdOf('payment-1')).toMatchObject({ status: 'captured', journalEntryId: entry!._id });
+      expect(customer()).toMatchObject({ balanceMinor: 74750, heldMinor: 0 });
+      expectJournalMatchesBalances();
+    });
+
+    it('posts a payment at most once', async () => {
+      await placeHold(payment());
+      await captureHold(payment(), 'employee-1');
+
+      expect(await captureHold(payment(), 'employee-1')).toBeNull();
+      expect(store.entries.filter(e => e.kind === 'payment')).toHaveLength(1);
+    });
+
+    it('places a hold first for a payment that has none', async () => {
+      await captureHold(payment(), 'employee-1');
+
+      expect(holdOf('payment-1').status).toBe('captured');
+      expect(customer()).toMatchObject({ balanceMinor: 75000, heldMinor: 0 });
+    });
+  });
+
+  describe('reverseCapture', () => {
+    it('posts a reversal entry instead of deleting the immutable debit', async () => {
+      await placeHold(payment());
+      const captured = await captureHold(payment(), 'employee-1');
+
+      const reversal = await reverseCapture(payment(), 'employee-1');
+
+      expect(store.entries.map(e => e.kind)).toEqual(['deposit', 'payment', 'reversal']);
+      expect(reversal!.lines.map((l: any) => [l.accountId, l.direction, l.amountMinor])).toEqual(
+        captured!.lines.map((l: any) => [l.accountId, l.direction === 'debit' ? 'credit' : 'debit', l.amountMinor])
+      );
+      expect(holdOf('payment-1').status).toBe('released');
+      expect(customer()).toMatchObject({ balanceMinor: 100000, heldMinor: 0 });
+      expect(balanceOf('bank', 'clearing')).toBe(0);
+      expectJournalMatchesBalances();
+    });
+
+    it('reverses a capture at most once', async () => {
+      await placeHold(payment());
+      await captureHold(payment(), 'employee-1');
+      await reverseCapture(payment(), 'employee-1');
+
+      expect(await reverseCapture(payment(), 'employee-1')).toBeNull();
+      expect(customer().balanceMinor).toBe(100000);
+    });
+
+    it('lets the payment be captured again under a new hold', async () => {
+      await placeHold(payment());
+      await captureHold(payment(), 'employee-1');
+      await reverseCapture(payment(), 'employee-1');
+
+      const entry = await captureHold(payment(), 'employee-1');
+
+      expect(entry).not.toBeNull();
+      expect(holdOf('payment-1').status).toBe('captured');
+      expect(customer()).toMatchObject({ balanceMinor: 75000, heldMinor: 0 });
+      expectJournalMatchesBalances();
+    });
+
+    it('does nothing for a payment that was never captured', async () => {
+      await placeHold(payment());
+
+      expect(await reverseCapture(payment(), 'employee-1')).toBeNull();
+      expect(holdOf('payment-1').status).toBe('active');
+      expect(customer().heldMinor).toBe(25000);
+    });
+  });
+});
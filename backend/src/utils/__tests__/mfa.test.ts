@@ -0,0 +1,98 @@
+// Replay protection for second factors. The Firestore mock runs transactions one after another,
+// as the server serialises transactions that touch the same document.
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+const users: Record<string, any> = {};
+
+jest.mock('../../config/firebase', () => {
+  let queue: Promise<unknown> = Promise.resolve();
+  const snapshot = (id: string) => ({ id, exists: !!users[id], data: () => ({ ...users[id] }) });
+  const db = {
+    collection: () => ({ doc: (id: string) => ({ id }) }),
+    runTransaction: (fn: (tx: any) => Promise<unknown>) => {
+      const tx = {
+        get: async (ref: { id: string }) => snapshot(ref.id),
+        update: (ref: { id: string }, data: any) => Object.assign(users[ref.id], data),
+      };
+      const run = queue.then(() => fn(tx));
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+  return { getFirestoreDb: () => db };
+});
+
+jest.mock('../encryption', () => ({
+  encryptSecret: (value: string) => value,
+  decryptSecret: (value: string) => value,
+}));
+
+import crypto from 'crypto';
+import { verifySecondFactor } from '../mfa';
+import { generateTotpSecret, totpCode, totpStep } from '../totp';
+
+const secret = generateTotpSecret();
+const recoveryHash = crypto.createHash('sha256').update('ABCDE12345').digest('hex');
+
+const stored = () => users['user-1'];
+
+describe('verifySecondFactor', () => {
+  beforeEach(() => {
+    users['user-1'] = {
+      mfaEnabled: true,
+      mfaSecret: secret,
+      mfaLastUsedStep: totpStep() - 2,
+      mfaRecoveryCodes: [recoveryHash, 'other-code'],
+    };
+  });
+
+  it('accepts a current code once and records its step', async () => {
+    const user = { id: 'user-1', ...stored() };
+
+    await expect(verifySecondFactor(user, { code: totpCode(secret) })).resolves.toBe('totp');
+    expect(stored().mfaLastUsedStep).toBeGreaterThanOrEqual(totpStep() - 1);
+    await expect(verifySecondFactor(user, { code: totpCode(secret) })).rejects.toMatchObject({ code: 'INVALID_MFA_CODE' });
+  });
+
+  it('accepts the same authenticator code for only one of two concurrent requests', async () => {
+    const code = totpCode(secret);
+    const results = await Promise.allSettled([
+      verifySecondFactor({ id: 'user-1', ...stored() }, { code }),
+      verifySecondFactor({ id: 'user-1', ...stored() }, { code }),
+    ]);
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { code: 'INVALID_MFA_CODE' } });
+  });
+
+  it('uses up a recovery code for only one of two concurrent requests', async () => {
+    const results = await Promise.allSettled([
+      verifySecondFactor({ id: 'user-1', ...stored() }, { recoveryCode: 'abcde-12345' }),
+      verifySecondFactor({ id: 'user-1', ...stored() }, { recoveryCode: 'ABCDE-12345' }),
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(stored().mfaRecoveryCodes).toEqual(['other-code']);
+  });
+
+  it('rejects a wrong code without changing the stored factors', async () => {
+    const before = { ...stored() };
+
+    await expect(verifySecondFactor({ id: 'user-1', ...stored() }, { code: totpCode(secret, Date.now() - 10 * 60 * 1000) }))
+      .rejects.toMatchObject({ code: 'INVALID_MFA_CODE' });
+    await expect(verifySecondFactor({ id: 'user-1', ...stored() }, { recoveryCode: 'zzzzz-zzzzz' }))
+      .rejects.toMatchObject({ code: 'INVALID_MFA_CODE' });
+    expect(stored()).toEqual(before);
+  });
+
+  it('refuses users without two-factor authentication', async () => {
+    await expect(verifySecondFactor({ id: 'user-1', mfaEnabled: false } as any, { code: '123456' }))
+      .rejects.toMatchObject({ code: 'MFA_NOT_ENABLED' });
+  });
+});
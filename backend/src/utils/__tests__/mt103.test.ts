@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import { formatMt103, formatSwiftAmount, toSwiftCharset, wrapSwiftLines, Mt103Payment, IMt103Options } from '../mt103';
+
+const readGolden = (name: string): string => fs.readFileSync(path.join(__dirname, 'golden', name), 'utf8');
+
+// Golden files are stored with LF endings; FIN output uses CrLf
+const toLf = (message: string): string => message.replace(/\r\n/g, '\n');
+
+const sender: Pick<IMt103Options, 'senderBIC'> = { senderBIC: 'SBPPZAJJXXX' };
+
+describe('formatMt103', () => {
+  it('renders a JPY payment with transliterated names', () => {
+    const payment: Mt103Payment = {
+      _id: '665f1c2e9b1e8a0012345678',
+      transactionId: 'TX202503140000004217',
+      recipientName: 'Tanaka Shōji & Søn K.K.',
+      recipientIBAN: 'JP12 0005 0123 4567 8901 23',
+      recipientSWIFT: 'BOTKJPJT',
+      amount: 125000,
+      currency: 'JPY',
+      reference: 'Invoice #2025-031 "spring" order',
+      processedAt: new Date('2025-03-14T09:30:00Z'),
+    };
+
+    const message = formatMt103(payment, {
+      ...sender,
+      orderingCustomer: { account: '1234567890', name: 'Jane Müller' },
+    });
+
+    expect(toLf(message)).toBe(readGolden('mt103-jpy.fin'));
+  });
+
+  it('renders an INR payment with beneficiary address and OUR charges', () => {
+    const payment: Mt103Payment = {
+      _id: '665f1c2e9b1e8a0012345679',
+      transactionId: 'TX202504010000010009',
+      recipientName: 'Priya Raghunathan Consulting Services Private Limited',
+      recipientIBAN: 'IN15HDFC0000123456789012',
+      recipientSWIFT: 'HDFCINBBXXX',
+      amount: 48250.5,
+      currency: 'INR',
+      reference: '-Consulting fees Q1: workshop facilitation, travel and accommodation as agreed in SOW 7',
+      processedAt: new Date('2025-04-01T16:05:00Z'),
+    };
+
+    const message = formatMt103(payment, {
+      ...sender,
+      orderingCustomer: { account: '9876543210', name: 'Acme Trading (Pty) Ltd' },
+      beneficiaryAddressLines: ['12 MG Road, Indiranagar', 'Bengaluru IN'],
+      chargeBearer: 'OUR',
+    });
+
+    expect(toLf(message)).toBe(readGolden('mt103-inr.fin'));
+  });
+
+  it('renders a ZAR payment without a transaction ID', () => {
+    const payment: Mt103Payment = {
+      _id: '665f1c2e9b1e8a001234567a',
+      recipientName: 'Thandiwe Nkosi',
+      recipientIBAN: 'ZA12345678901234567890',
+      recipientSWIFT: 'SBZAZAJJ',
+      amount: 7.1,
+      currency: 'ZAR',
+      reference: 'Rent/May',
+    };
+
+    const message = formatMt103(payment, {
+      ...sender,
+      orderingCustomer: { account: '1122334455', name: 'Sipho Dlamini' },
+      valueDate: new Date('2025-05-02T00:00:00Z'),
+    });
+
+    expect(toLf(message)).toBe(readGolden('mt103-zar.fin'));
+  });
+
+  it('separates lines with CrLf', () => {
+    const message = formatMt103({
+      _id: 'abc',
+      transactionId: 'TX202501010000000101',
+      recipientName: 'A',
+      recipientIBAN: 'GB29NWBK60161331926819',
+      recipientSWIFT: 'NWBKGB2L',
+      amount: 1,
+      currency: 'GBP',
+      reference: 'x',
+    }, { ...sender, orderingCustomer: { account: '1', name: 'B' }, valueDate: new Date('2025-01-01') });
+
+    expect(message).toContain('{4:\r\n:20:');
+    expect(message.replace(/\r\n/g, '')).not.toMatch(/\n/);
+  });
+
+  it('settles the amount net of BEN charges', () => {
+    const message = toLf(formatMt103({
+      _id: 'abc',
+      transactionId: 'TX202501010000000102',
+      recipientName: 'A',
+      recipientIBAN: 'US64SVBKUS6S3300958879',
+      recipientSWIFT: 'SVBKUS6S',
+      amount: 500,
+      currency: 'USD',
+      reference: 'x',
+    }, {
+      ...sender,
+      orderingCustomer: { account: '1', name: 'B' },
+      chargeBearer: 'BEN',
+      deductedCharges: { settlementAmount: 485, charges: [{ amount: 15, currency: 'USD' }] },
+      valueDate: new Date('2025-01-01'),
+    }));
+
+    expect(message).toContain(':32A:250101USD485,00\n:33B:USD500,00\n:50K:');
+    expect(message).toContain(':71A:BEN\n:71F:USD15,00\n-}');
+  });
+});
+
+describe('SWIFT text helpers', () => {
+  it('transliterates to the X character set', () => {
+    expect(toSwiftCharset('Ærøskøbing Straße №5 @home')).toBe('AEroskobing Strasse .5 (AT)home');
+  });
+
+  it('wraps to the field width and line count', () => {
+    expect(wrapSwiftLines('one two three four five', 9, 2)).toEqual(['one two', 'three']);
+    expect(wrapSwiftLines('abcdefghijkl', 5)).toEqual(['abcde', 'fghij', 'kl']);
+    expect(wrapSwiftLines(':leading colon')).toEqual(['.leading colon']);
+  });
+
+  it('formats amounts with a decimal comma', () => {
+    expect(formatSwiftAmount(1234.5, 'EUR')).toBe('1234,50');
+    expect(formatSwiftAmount(5000, 'KRW')).toBe('5000,');
+  });
+});
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import { buildPain001, currencyDecimals, formatIsoAmount, isoText, IPain001Message } from '../pain001';
+
+const readGolden = (name: string): string => fs.readFileSync(path.join(__dirname, 'golden', name), 'utf8');
+
+const debtor = {
+  debtorName: 'Acme Trading (Pty) Ltd',
+  debtorAccountId: '1234567890',
+  debtorAgentBIC: 'SBPPZAJJXXX',
+};
+
+describe('currencyDecimals and formatIsoAmount', () => {
+  it.each([
+    ['EUR', 1250.1, 2, '1250.10'],
+    ['USD', 0.5, 2, '0.50'],
+    ['GBP', 99.999, 2, '100.00'],
+    ['JPY', 125000, 0, '125000'],
+    ['KRW', 50000.4, 0, '50000'],
+  ])('%s %s', (currency, amount, decimals, formatted) => {
+    expect(currencyDecimals(currency)).toBe(decimals);
+    expect(formatIsoAmount(amount, currency)).toBe(formatted);
+  });
+});
+
+describe('isoText', () => {
+  it.each<[string, string | null | undefined, number, string]>([
+    ['collapses whitespace', '  Invoice\n  2025-031\t spring ', 35, 'Invoice 2025-031 spring'],
+    ['trims to the maximum length', 'ABCDEFGHIJ', 4, 'ABCD'],
+    ['drops a space left at the cut', 'ABC DEF', 4, 'ABC'],
+    ['counts characters, not UTF-16 units', '😀😀😀', 2, '😀😀'],
+    ['falls back for an empty value', '   ', 35, 'NOTPROVIDED'],
+    ['falls back for a missing value', null, 35, 'NOTPROVIDED'],
+    ['falls back for an undefined value', undefined, 35, 'NOTPROVIDED'],
+  ])('%s', (_label, value, max, expected) => {
+    expect(isoText(value, max)).toBe(expected);
+  });
+
+  it('uses the given fallback', () => {
+    expect(isoText('', 35, 'UNKNOWN')).toBe('UNKNOWN');
+  });
+});
+
+describe('buildPain001', () => {
+  it('renders a SEPA and a JPY payment information block', () => {
+    const message: IPain001Message = {
+      messageId: 'EXP-20250314-0001',
+      createdAt: new Date('2025-03-14T09:30:00.123Z'),
+      initiatingPartyName: 'Acme Trading (Pty) Ltd',
+      paymentInfos: [
+        {
+          ...debtor,
+          paymentInfoId: 'EXP-20250314-0001-EUR',
+          requestedExecutionDate: new Date('2025-03-17T00:00:00Z'),
+          currency: 'EUR',
+          transactions: [
+            {
+              instructionId: '665f1c2e9b1e8a0012345678',
+              endToEndId: 'TX202503140000004217',
+              amount: 1250.1,
+              currency: 'EUR',
+              creditorName: 'Müller & Söhne GmbH',
+              creditorIBAN: 'DE89370400440532013000',
+              creditorBIC: 'COBADEFFXXX',
+              creditorAddress: 'Kaiserstraße 16',
+              creditorCity: 'Frankfurt am Main',
+              creditorCountry: 'de',
+              remittanceInformation: 'Invoice  2025-031\nspring order',
+              purpose: 'SUPP',
+              chargeBearer: 'SLEV',
+            },
+            {
+              instructionId: '665f1c2e9b1e8a0012345679',
+              endToEndId: '',
+              amount: 99.99,
+              currency: 'EUR',
+              creditorName: 'Jan de Vries',
+              creditorIBAN: 'NL91ABNA0417164300',
+              creditorBIC: 'ABNANL2A',
+              remittanceInformation: '',
+              chargeBearer: 'SLEV',
+            },
+          ],
+        },
+        {
+          ...debtor,
+          paymentInfoId: 'EXP-20250314-0001-JPY',
+          requestedExecutionDate: new Date('2025-03-18T00:00:00Z'),
+          currency: 'JPY',
+          transactions: [
+            {
+              instructionId: '665f1c2e9b1e8a001234567a',
+              endToEndId: 'TX202503140000004219',
+              amount: 125000,
+              currency: 'JPY',
+              creditorName: 'Tanaka Shōji K.K.',
+              creditorIBAN: 'JP12000501234567890123',
+              creditorBIC: 'BOTKJPJT',
+              creditorCountry: 'Japan',
+              remittanceInformation: 'Spring order',
+              chargeBearer: 'SHAR',
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(buildPain001(message)).toBe(readGolden('pain001-eur-jpy.xml'));
+  });
+
+  it('sums the control total in minor units', () => {
+    const transactions = [0.1, 0.2, 0.7].map((amount, i) => ({
+      instructionId: `I${i}`,
+      endToEndId: `E${i}`,
+      amount,
+      currency: 'EUR',
+      creditorName: 'Jan de Vries',
+      creditorIBAN: 'NL91ABNA0417164300',
+      creditorBIC: 'ABNANL2A',
+      remittanceInformation: 'Test',
+    }));
+
+    const xml = buildPain001({
+      messageId: 'M1',
+      createdAt: new Date('2025-03-14T09:30:00Z'),
+      initiatingPartyName: 'Acme',
+      paymentInfos: [{ ...debtor, paymentInfoId: 'P1', requestedExecutionDate: new Date('2025-03-17'), currency: 'EUR', transactions }],
+    });
+
+    expect(xml.match(/<CtrlSum>[^<]*<\/CtrlSum>/g)).toEqual(['<CtrlSum>1.00</CtrlSum>', '<CtrlSum>1.00</CtrlSum>']);
+    expect(xml).not.toContain('<ChrgBr>');
+  });
+});
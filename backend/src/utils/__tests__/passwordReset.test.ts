@@ -0,0 +1,144 @@
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+// Reset links in memory; the conditional claim is atomic, as in MongoDB
+let links: any[] = [];
+const matches = (link: any, filter: any) => Object.entries(filter).every(([key, value]: [string, any]) => (
+  value instanceof Object && '$gt' in value ? link[key] > value.$gt : link[key] === value
+));
+jest.mock('../../models/PasswordResetToken', () => ({
+  PasswordResetToken: {
+    create: jest.fn(async (fields: any) => links.push({ usedAt: null, ...fields })),
+    findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+      const link = links.find(l => matches(l, filter));
+      if (!link) return null;
+      const before = { ...link };
+      Object.assign(link, update.$set);
+      return before;
+    }),
+    deleteMany: jest.fn(async (filter: any) => { links = links.filter(l => !matches(l, filter)); }),
+  },
+}));
+
+const account = { id: 'user-1', email: 'jan@example.com', isActive: true };
+jest.mock('../../models/User', () => ({
+  User: {
+    findByEmail: jest.fn(async (email: string) => (email === account.email ? account : null)),
+    findById: jest.fn(async (id: string) => (id === account.id ? account : null)),
+    updatePassword: jest.fn(),
+    resetLoginAttempts: jest.fn(),
+  },
+}));
+jest.mock('../emailService', () => ({ sendPasswordResetEmail: jest.fn() }));
+jest.mock('../tokenRevocation', () => ({ revokeAllUserTokens: jest.fn() }));
+
+import { PasswordResetError, requestPasswordReset, resetPassword } from '../passwordReset';
+import { User } from '../../models/User';
+import { sendPasswordResetEmail } from '../emailService';
+import { revokeAllUserTokens } from '../tokenRevocation';
+
+// The token from the link in the most recent email
+const emailedToken = (): string => {
+  const { resetUrl } = (sendPasswordResetEmail as jest.Mock).mock.calls.slice(-1)[0][0];
+  return new URL(resetUrl).searchParams.get('token')!;
+};
+
+describe('password reset', () => {
+  beforeEach(() => {
+    links = [];
+    account.isActive = true;
+    jest.clearAllMocks();
+  });
+
+  describe('requestPasswordReset', () => {
+    it('emails a link and stores only a hash of its token', async () => {
+      await requestPasswordReset('  Jan@Example.com ', { ip: '10.0.0.1' });
+
+      const token = emailedToken();
+      expect(sendPasswordResetEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'jan@example.com', expiresAt: links[0].expiresAt }));
+      expect(links).toEqual([expect.objectContaining({ userId: 'user-1', ip: '10.0.0.1', usedAt: null })]);
+      expect(links[0].tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(JSON.stringify(links[0])).not.toContain(token);
+      expect(links[0].expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it.each([
+      ['an unknown email', 'nobody@example.com', true],
+      ['an inactive account', 'jan@example.com', false],
+    ])('sends nothing for %s', async (_label, email, isActive) => {
+      account.isActive = isActive;
+
+      await expect(requestPasswordReset(email)).resolves.toBeUndefined();
+      expect(links).toHaveLength(0);
+      expect(sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it('invalidates earlier links when a new one is sent', async () => {
+      await requestPasswordReset('jan@example.com');
+      const first = emailedToken();
+      await requestPasswordReset('jan@example.com');
+      const second = emailedToken();
+
+      await expect(resetPassword(first, 'N3w-Passw0rd!')).rejects.toMatchObject({ code: 'INVALID_RESET_TOKEN' });
+      await expect(resetPassword(second, 'N3w-Passw0rd!')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('sets the new password, clears the lockout and ends every session', async () => {
+      await requestPasswordReset('jan@example.com');
+
+      await resetPassword(emailedToken(), 'N3w-Passw0rd!');
+
+      expect(User.updatePassword).toHaveBeenCalledWith('user-1', 'N3w-Passw0rd!');
+      expect(User.resetLoginAttempts).toHaveBeenCalledWith('user-1');
+      expect(revokeAllUserTokens).toHaveBeenCalledWith('user-1', 'password_reset', 'user-1');
+    });
+
+    it('works only once', async () => {
+      await requestPasswordReset('jan@example.com');
+      const token = emailedToken();
+      await resetPassword(token, 'N3w-Passw0rd!');
+
+      const error = await resetPassword(token, 'An0ther-Passw0rd!').catch(e => e);
+
+      expect(error).toBeInstanceOf(PasswordResetError);
+      expect(error).toMatchObject({ code: 'INVALID_RESET_TOKEN', statusCode: 400 });
+      expect(User.updatePassword).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets only one of two concurrent resets with the same link through', async () => {
+      await requestPasswordReset('jan@example.com');
+      const token = emailedToken();
+
+      const results = await Promise.allSettled([resetPassword(token, 'N3w-Passw0rd!'), resetPassword(token, 'An0ther-Passw0rd!')]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(User.updatePassword).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses an expired link', async () => {
+      await requestPasswordReset('jan@example.com');
+      links[0].expiresAt = new Date(Date.now() - 1000);
+
+      await expect(resetPassword(emailedToken(), 'N3w-Passw0rd!')).rejects.toMatchObject({ code: 'INVALID_RESET_TOKEN' });
+      expect(User.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('refuses a link for an account deactivated after it was sent', async () => {
+      await requestPasswordReset('jan@example.com');
+      account.isActive = false;
+
+      await expect(resetPassword(emailedToken(), 'N3w-Passw0rd!')).rejects.toMatchObject({ code: 'INVALID_RESET_TOKEN' });
+      expect(User.updatePassword).not.toHaveBeenCalled();
+    });
+
+    it('refuses a made-up token', async () => {
+      await expect(resetPassword('made-up', 'N3w-Passw0rd!')).rejects.toMatchObject({ code: 'INVALID_RESET_TOKEN' });
+    });
+  });
+});
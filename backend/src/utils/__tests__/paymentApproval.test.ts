@@ -0,0 +1,93 @@
+// Four-eyes validation on real (unsaved) payment documents, so the lifecycle rules apply
+// as they do in the employee controller.
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+import { Payment, PaymentTransitionError } from '../../models/Payment';
+import { approvalConfig } from '../../config';
+import { ApprovalError, approvePayment, requiresSecondApproval } from '../paymentApproval';
+
+const alice = { userId: 'employee-1', email: 'alice@example.com', role: 'employee' as const };
+const bob = { userId: 'employee-2', email: 'bob@example.com', role: 'employee' as const };
+
+const payment = (fields: Record<string, unknown> = {}) => new Payment({
+  userId: 'user-1',
+  recipientName: 'Jan de Vries',
+  recipientIBAN: 'DE89370400440532013000',
+  recipientSWIFT: 'COBADEFF',
+  amount: 250,
+  currency: 'EUR',
+  reference: 'INV-1042',
+  status: 'pending',
+  ...fields,
+});
+
+describe('four-eyes approval', () => {
+  describe('requiresSecondApproval', () => {
+    it('compares the amount in the base currency with the threshold', () => {
+      expect(requiresSecondApproval(payment({ amount: approvalConfig.secondApprovalThreshold }))).toBe(false);
+      expect(requiresSecondApproval(payment({ amount: approvalConfig.secondApprovalThreshold + 0.01 }))).toBe(true);
+    });
+
+    it('uses the base amount recorded when the payment was created', () => {
+      expect(requiresSecondApproval(payment({ amount: 100, limitBaseAmount: approvalConfig.secondApprovalThreshold + 1 }))).toBe(true);
+    });
+  });
+
+  describe('approvePayment', () => {
+    it('completes a payment below the threshold with one validation', () => {
+      const small = payment();
+
+      expect(approvePayment(small, alice)).toBe('completed');
+      expect(small.approvals!.map(a => a.actorId)).toEqual(['employee-1']);
+    });
+
+    it('needs a second employee above the threshold', () => {
+      const large = payment({ amount: 50000 });
+
+      expect(approvePayment(large, alice)).toBe('awaiting_second_approval');
+      expect(large.auditLog![0]).toMatchObject({ action: 'first_approval', actorId: 'employee-1' });
+
+      expect(approvePayment(large, bob)).toBe('completed');
+      expect(large.auditLog![1]).toMatchObject({ action: 'second_approval', actorId: 'employee-2', details: expect.stringContaining('first approval by alice@example.com') });
+      expect(large.approvals!.map(a => a.actorId)).toEqual(['employee-1', 'employee-2']);
+    });
+
+    it('refuses the second approval from the employee who gave the first', () => {
+      const large = payment({ amount: 50000 });
+      approvePayment(large, alice);
+
+      let error: unknown = null;
+      try {
+        approvePayment(large, alice);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ApprovalError);
+      expect(error).toMatchObject({ code: 'SAME_APPROVER', statusCode: 409 });
+      expect(large.status).toBe('awaiting_second_approval');
+      expect(large.approvals).toHaveLength(1);
+    });
+
+    it('refuses a customer', () => {
+      const large = payment({ amount: 50000 });
+
+      expect(() => approvePayment(large, { userId: 'user-1', role: 'customer' })).toThrow(PaymentTransitionError);
+      expect(large.status).toBe('pending');
+      expect(large.approvals).toHaveLength(0);
+    });
+
+    it('refuses a payment that is already final', () => {
+      const done = payment({ status: 'cancelled' });
+
+      expect(() => approvePayment(done, alice)).toThrow(PaymentTransitionError);
+      expect(done.approvals).toHaveLength(0);
+    });
+  });
+});
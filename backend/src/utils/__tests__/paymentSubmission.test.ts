@@ -0,0 +1,101 @@
+// Create path (single, scheduled and batch payments all go through submitPayment) against a
+// customer's ledger balance. Persistence and the pricing/screening steps are stubbed;
+// the ledger hold logic and the real ledger config default are exercised.
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+// One customer account with nothing deposited and nothing held
+const account = { _id: 'acct-1', ownerId: 'user-1', type: 'customer', currency: 'EUR', balanceMinor: 0, heldMinor: 0 };
+
+jest.mock('../../models/LedgerAccount', () => ({
+  LedgerAccount: {
+    findOneAndUpdate: jest.fn(async (filter: any, update: any, options: any) => {
+      if (options?.upsert) return account;
+      if (filter.$expr) {
+        const needed = filter.$expr.$gte[1];
+        if (account.balanceMinor - account.heldMinor < needed) return null;
+      }
+      account.heldMinor += update.$inc.heldMinor;
+      return account;
+    }),
+    updateOne: jest.fn(async (_filter: any, update: any) => { account.heldMinor += update.$inc?.heldMinor || 0; }),
+  },
+}));
+jest.mock('../../models/LedgerHold', () => ({ LedgerHold: { create: jest.fn(async (hold: any) => hold), findOneAndUpdate: jest.fn(async () => null) } }));
+jest.mock('../../models/JournalEntry', () => ({ JournalEntry: {} }));
+jest.mock('../../models/ScreeningCase', () => ({ ScreeningCase: { deleteOne: jest.fn() } }));
+jest.mock('../../models/RiskAssessment', () => ({ RiskAssessment: { create: jest.fn(), deleteOne: jest.fn() } }));
+jest.mock('../transferLimits', () => ({ checkTransferLimits: jest.fn(async () => 250), releaseTransferLimits: jest.fn() }));
+jest.mock('../feeEngine', () => ({ calculateFees: jest.fn(() => ({ total: 0, deductedFromAmount: false, lines: [] })) }));
+jest.mock('../businessCalendar', () => ({ applySettlementDates: jest.fn() }));
+jest.mock('../screeningService', () => ({
+  screenPayment: jest.fn(() => ({ hit: false, matches: [] })),
+  holdForReview: jest.fn(),
+  openScreeningCase: jest.fn(),
+}));
+jest.mock('../amlRulesEngine', () => ({
+  assessPaymentRisk: jest.fn(async () => ({ ruleSetVersion: 1, score: 0, action: 'allow', triggered: [] })),
+}));
+
+import { ledgerConfig } from '../../config';
+import { LedgerError } from '../ledgerService';
+import { submitPayment } from '../paymentSubmission';
+
+const newPayment = () => ({
+  _id: 'payment-1',
+  userId: 'user-1',
+  amount: 250,
+  currency: 'EUR',
+  recipientIBAN: 'DE89370400440532013000',
+  chargeBearer: 'SHA',
+  fx: null,
+  save: jest.fn(async () => undefined),
+}) as any;
+
+describe('submitPayment against the customer ledger balance', () => {
+  const defaultOverdraft = ledgerConfig.allowOverdraft;
+
+  beforeEach(() => {
+    account.balanceMinor = 0;
+    account.heldMinor = 0;
+  });
+
+  afterEach(() => {
+    ledgerConfig.allowOverdraft = defaultOverdraft;
+  });
+
+  it('rejects with INSUFFICIENT_FUNDS and saves nothing by default when the account is unfunded', async () => {
+    expect(ledgerConfig.allowOverdraft).toBe(false);
+    const payment = newPayment();
+
+    await expect(submitPayment(payment)).rejects.toMatchObject({ code: 'INSUFFICIENT_FUNDS' });
+    await expect(submitPayment(newPayment())).rejects.toBeInstanceOf(LedgerError);
+    expect(payment.save).not.toHaveBeenCalled();
+    expect(account.heldMinor).toBe(0);
+  });
+
+  it('creates the payment once a deposit covers it, holding the amount', async () => {
+    account.balanceMinor = 100000;
+    const payment = newPayment();
+
+    await submitPayment(payment);
+
+    expect(payment.save).toHaveBeenCalled();
+    expect(account.heldMinor).toBe(25000);
+  });
+
+  it('holds against an unfunded account when overdrafts are turned on', async () => {
+    ledgerConfig.allowOverdraft = true;
+    const payment = newPayment();
+
+    await submitPayment(payment);
+
+    expect(payment.save).toHaveBeenCalled();
+    expect(account.heldMinor).toBe(25000);
+  });
+});
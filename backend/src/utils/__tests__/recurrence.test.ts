@@ -0,0 +1,81 @@
+import { firstIndexOnOrAfter, nextOccurrence, occurrenceDate, parseCalendarDate, RecurrenceFrequency } from '../recurrence';
+
+const day = (iso: string): Date => new Date(`${iso}T00:00:00.000Z`);
+const iso = (date: Date | null): string | null => (date ? date.toISOString().slice(0, 10) : null);
+
+describe('parseCalendarDate', () => {
+  it.each([
+    ['2025-01-31', '2025-01-31'],
+    ['2024-02-29', '2024-02-29'],
+    ['2025-02-29', null],
+    ['2025-13-01', null],
+    ['2025-1-31', null],
+    ['2025-01-31T00:00:00Z', null],
+    ['', null],
+  ])('%s', (input, expected) => {
+    expect(iso(parseCalendarDate(input))).toBe(expected);
+  });
+
+  it('rejects non-strings', () => {
+    expect(parseCalendarDate(20250131)).toBeNull();
+    expect(parseCalendarDate(undefined)).toBeNull();
+  });
+});
+
+describe('occurrenceDate', () => {
+  it.each<[string, RecurrenceFrequency, string, string[]]>([
+    ['once repeats the anchor', 'once', '2025-03-15', ['2025-03-15', '2025-03-15']],
+    ['weekly', 'weekly', '2025-03-15', ['2025-03-15', '2025-03-22', '2025-03-29', '2025-04-05']],
+    ['weekly across a year end', 'weekly', '2025-12-24', ['2025-12-24', '2025-12-31', '2026-01-07']],
+    ['monthly on an ordinary day', 'monthly', '2025-01-15', ['2025-01-15', '2025-02-15', '2025-03-15']],
+    ['monthly across a year end', 'monthly', '2025-11-30', ['2025-11-30', '2025-12-30', '2026-01-30', '2026-02-28']],
+    // Clamped in short months, then back to the 31st from the anchor
+    ['monthly on the 31st', 'monthly', '2025-01-31', ['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31']],
+    ['monthly on the 31st in a leap year', 'monthly', '2024-01-31', ['2024-01-31', '2024-02-29', '2024-03-31']],
+    ['monthly on the 29th', 'monthly', '2025-01-29', ['2025-01-29', '2025-02-28', '2025-03-29']],
+    ['end of month', 'end_of_month', '2025-01-10', ['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']],
+    ['end of month in a leap year', 'end_of_month', '2024-01-31', ['2024-01-31', '2024-02-29', '2024-03-31']],
+    ['end of month across a year end', 'end_of_month', '2025-11-30', ['2025-11-30', '2025-12-31', '2026-01-31', '2026-02-28']],
+  ])('%s', (_label, frequency, start, expected) => {
+    const dates = expected.map((_, index) => iso(occurrenceDate(day(start), frequency, index)));
+    expect(dates).toEqual(expected);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('ends a one-off payment after its first occurrence', () => {
+    expect(iso(nextOccurrence(day('2025-03-15'), { frequency: 'once' }, 0))).toBe('2025-03-15');
+    expect(nextOccurrence(day('2025-03-15'), { frequency: 'once' }, 1)).toBeNull();
+  });
+
+  it('stops after count occurrences', () => {
+    const rule = { frequency: 'monthly' as const, count: 3 };
+    expect(iso(nextOccurrence(day('2025-01-31'), rule, 2))).toBe('2025-03-31');
+    expect(nextOccurrence(day('2025-01-31'), rule, 3)).toBeNull();
+  });
+
+  it('includes an occurrence on the end date and stops after it', () => {
+    const rule = { frequency: 'end_of_month' as const, endDate: day('2025-03-31') };
+    expect(iso(nextOccurrence(day('2025-01-31'), rule, 2))).toBe('2025-03-31');
+    expect(nextOccurrence(day('2025-01-31'), rule, 3)).toBeNull();
+  });
+
+  it('stops at whichever of count and end date comes first', () => {
+    const rule = { frequency: 'weekly' as const, count: 10, endDate: day('2025-01-15') };
+    expect(iso(nextOccurrence(day('2025-01-01'), rule, 2))).toBe('2025-01-15');
+    expect(nextOccurrence(day('2025-01-01'), rule, 3)).toBeNull();
+  });
+});
+
+describe('firstIndexOnOrAfter', () => {
+  it('skips occurrences missed while a series was paused', () => {
+    const rule = { frequency: 'monthly' as const };
+    expect(firstIndexOnOrAfter(day('2025-01-31'), rule, 1, day('2025-05-01'))).toBe(4);
+    expect(firstIndexOnOrAfter(day('2025-01-31'), rule, 1, day('2025-04-30'))).toBe(3);
+  });
+
+  it('returns the index past the end when the series has run out', () => {
+    const rule = { frequency: 'monthly' as const, count: 3 };
+    expect(firstIndexOnOrAfter(day('2025-01-31'), rule, 0, day('2025-12-01'))).toBe(3);
+  });
+});
@@ -0,0 +1,147 @@
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+// Stored tokens in memory; the conditional claim is atomic, as in MongoDB
+let stored: any[] = [];
+const matches = (token: any, filter: any) => Object.entries(filter).every(([key, value]: [string, any]) => (
+  value && typeof value === 'object' && '$gt' in value ? token[key] > value.$gt : (token[key] ?? null) === value
+));
+jest.mock('../../models/RefreshToken', () => ({
+  RefreshToken: {
+    create: jest.fn(async (fields: any) => {
+      const token = { usedAt: null, revokedAt: null, revokedReason: null, replacedByHash: null, ...fields };
+      stored.push(token);
+      return token;
+    }),
+    findOne: jest.fn(async (filter: any) => stored.find(t => matches(t, filter)) || null),
+    findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+      const token = stored.find(t => matches(t, filter));
+      return token ? Object.assign(token, update.$set) : null;
+    }),
+    updateMany: jest.fn(async (filter: any, update: any) => {
+      const hits = stored.filter(t => matches(t, filter));
+      hits.forEach(t => Object.assign(t, update.$set));
+      return { modifiedCount: hits.length };
+    }),
+    distinct: jest.fn(async (field: string, filter: any) => [...new Set(stored.filter(t => matches(t, filter)).map(t => t[field]))]),
+  },
+}));
+
+import { issueRefreshToken, parseDuration, revokeRefreshToken, revokeUserRefreshTokens, rotateRefreshToken } from '../refreshTokens';
+import { securityConfig } from '../../config';
+
+const familyOf = (userId: string) => stored.filter(t => t.userId === userId);
+
+describe('refresh tokens', () => {
+  beforeEach(() => {
+    stored = [];
+  });
+
+  it('stores only a keyed hash of the token', async () => {
+    const { token } = await issueRefreshToken('user-1', { ip: '10.0.0.1' });
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0].tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(stored[0])).not.toContain(token);
+    expect(stored[0].ip).toBe('10.0.0.1');
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('exchanges a token for a successor in the same family with the same expiry', async () => {
+      const first = await issueRefreshToken('user-1');
+      const second = await rotateRefreshToken(first.token);
+
+      expect(second.token).not.toBe(first.token);
+      expect(second).toMatchObject({ userId: 'user-1', familyId: stored[0].familyId, expiresAt: first.expiresAt });
+      expect(stored[0].usedAt).toBeInstanceOf(Date);
+      expect(stored[0].replacedByHash).toBe(stored[1].tokenHash);
+
+      await expect(rotateRefreshToken(second.token)).resolves.toMatchObject({ familyId: stored[0].familyId });
+    });
+
+    it('revokes the whole family when a used token is presented again', async () => {
+      const first = await issueRefreshToken('user-1');
+      const second = await rotateRefreshToken(first.token);
+
+      await expect(rotateRefreshToken(first.token)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED', statusCode: 401 });
+      expect(familyOf('user-1').every(t => t.revokedReason === 'reuse_detected')).toBe(true);
+      await expect(rotateRefreshToken(second.token)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    });
+
+    it('lets only one of two concurrent exchanges of the same token through', async () => {
+      const { token } = await issueRefreshToken('user-1');
+
+      const results = await Promise.allSettled([rotateRefreshToken(token), rotateRefreshToken(token)]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { code: 'REFRESH_TOKEN_REUSED' } });
+    });
+
+    it('leaves other families of the user alone on reuse', async () => {
+      const phone = await issueRefreshToken('user-1');
+      const laptop = await issueRefreshToken('user-1');
+      await rotateRefreshToken(phone.token);
+
+      await expect(rotateRefreshToken(phone.token)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+      await expect(rotateRefreshToken(laptop.token)).resolves.toMatchObject({ userId: 'user-1' });
+    });
+
+    it('refuses an expired token', async () => {
+      const { token } = await issueRefreshToken('user-1');
+      stored[0].expiresAt = new Date(Date.now() - 1000);
+
+      await expect(rotateRefreshToken(token)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_EXPIRED' });
+    });
+
+    it('refuses an unknown token', async () => {
+      await expect(rotateRefreshToken('not-a-token')).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    });
+  });
+
+  describe('revocation', () => {
+    it('revokes the family of a token at logout, but only for its owner', async () => {
+      const { token } = await issueRefreshToken('user-1');
+
+      await expect(revokeRefreshToken(token, 'user-2')).resolves.toBe(false);
+      expect(stored[0].revokedAt).toBeNull();
+
+      await expect(revokeRefreshToken(token, 'user-1')).resolves.toBe(true);
+      expect(stored[0].revokedReason).toBe('logout');
+      await expect(rotateRefreshToken(token)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    });
+
+    it('revokes every live family of a user', async () => {
+      await issueRefreshToken('user-1');
+      await issueRefreshToken('user-1');
+      const other = await issueRefreshToken('user-2');
+
+      await expect(revokeUserRefreshTokens('user-1', 'password_change')).resolves.toBe(2);
+      expect(familyOf('user-1').every(t => t.revokedReason === 'password_change')).toBe(true);
+      await expect(rotateRefreshToken(other.token)).resolves.toMatchObject({ userId: 'user-2' });
+    });
+  });
+
+  describe('parseDuration', () => {
+    it.each([
+      ['45s', 45 * 1000],
+      ['30m', 30 * 60 * 1000],
+      ['12h', 12 * 60 * 60 * 1000],
+      ['7d', 7 * 24 * 60 * 60 * 1000],
+      ['900', 900 * 1000],
+    ])('reads %s', (value, ms) => {
+      expect(parseDuration(value)).toBe(ms);
+    });
+
+    it('rejects other formats', () => {
+      expect(() => parseDuration('1w')).toThrow('Invalid duration: "1w"');
+    });
+
+    it('reads the configured refresh lifetime', () => {
+      expect(parseDuration(securityConfig.jwtRefreshExpiresIn)).toBeGreaterThan(0);
+    });
+  });
+});
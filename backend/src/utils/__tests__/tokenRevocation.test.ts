@@ -0,0 +1,91 @@
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+let entries: any[] = [];
+const matches = (entry: any, filter: any) => Object.entries(filter).every(([key, value]: [string, any]) => (
+  value instanceof Object && '$gt' in value ? entry[key] > value.$gt : entry[key] === value
+));
+jest.mock('../../models/RevokedToken', () => ({
+  RevokedToken: {
+    exists: jest.fn(async (filter: any) => (entries.some(e => filter.$or.some((f: any) => matches(e, f))) ? { _id: 'entry' } : null)),
+    updateOne: jest.fn(async (filter: any, update: any) => {
+      if (!entries.some(e => matches(e, filter))) entries.push({ ...update.$setOnInsert });
+    }),
+    create: jest.fn(async (fields: any) => entries.push({ jti: null, ...fields })),
+  },
+}));
+jest.mock('../../models/User', () => ({ User: {} }));
+jest.mock('../refreshTokens', () => ({
+  ...jest.requireActual('../refreshTokens'),
+  revokeUserRefreshTokens: jest.fn(async () => 2),
+}));
+
+import jwt from 'jsonwebtoken';
+import { isTokenRevoked, revokeAccessToken, revokeAllUserTokens } from '../tokenRevocation';
+import { revokeUserRefreshTokens } from '../refreshTokens';
+import { generateAccessToken } from '../session';
+import { IJWTPayload } from '../../types';
+
+const issue = (userId: string = 'user-1') => jwt.decode(generateAccessToken(userId, `${userId}@example.com`, 'customer')) as IJWTPayload;
+
+describe('access token revocation', () => {
+  beforeEach(() => {
+    entries = [];
+    jest.clearAllMocks();
+  });
+
+  it('revokes a single token at logout until it would have expired', async () => {
+    const loggedOut = issue();
+    const otherDevice = issue();
+
+    await revokeAccessToken(loggedOut, 'logout', 'user-1');
+
+    await expect(isTokenRevoked(loggedOut)).resolves.toBe(true);
+    await expect(isTokenRevoked(otherDevice)).resolves.toBe(false);
+    expect(entries[0]).toMatchObject({ scope: 'token', jti: loggedOut.jti, expiresAt: new Date(loggedOut.exp! * 1000) });
+  });
+
+  it('records a repeated logout of the same token once', async () => {
+    const token = issue();
+
+    await revokeAccessToken(token, 'logout');
+    await revokeAccessToken(token, 'logout');
+
+    expect(entries).toHaveLength(1);
+  });
+
+  it('revokes every earlier token and refresh token of a user, but not later ones', async () => {
+    const before = issue();
+    const otherUser = issue('user-2');
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    await revokeAllUserTokens('user-1', 'password_change', 'user-1');
+    const after = issue();
+
+    await expect(isTokenRevoked(before)).resolves.toBe(true);
+    await expect(isTokenRevoked(after)).resolves.toBe(false);
+    await expect(isTokenRevoked(otherUser)).resolves.toBe(false);
+    expect(revokeUserRefreshTokens).toHaveBeenCalledWith('user-1', 'password_change');
+  });
+
+  it('keeps a token issued later in the same second as the revocation valid', async () => {
+    const revokedAt = new Date('2024-03-01T12:00:00.200Z');
+    entries = [{ scope: 'user', jti: null, userId: 'user-1', revokedBefore: revokedAt }];
+    const sameSecond = { ...issue(), iat: Math.floor(revokedAt.getTime() / 1000) };
+
+    await expect(isTokenRevoked({ ...sameSecond, iatMs: revokedAt.getTime() + 500 })).resolves.toBe(false);
+    await expect(isTokenRevoked({ ...sameSecond, iatMs: revokedAt.getTime() - 100 })).resolves.toBe(true);
+  });
+
+  it('falls back to the whole-second issue time for tokens without iatMs', async () => {
+    entries = [{ scope: 'user', jti: null, userId: 'user-1', revokedBefore: new Date('2024-03-01T12:00:00.200Z') }];
+    const { iatMs: _iatMs, ...legacy } = issue();
+
+    await expect(isTokenRevoked({ ...legacy, iat: Date.parse('2024-03-01T12:00:00Z') / 1000 })).resolves.toBe(true);
+    await expect(isTokenRevoked({ ...legacy, iat: Date.parse('2024-03-01T12:00:01Z') / 1000 })).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import { base32Decode, base32Encode, hotp, totpCode, totpUri, verifyTotp } from '../totp';
+
+// RFC 4226 / RFC 6238 reference secret: ASCII "12345678901234567890"
+const rfcKey = Buffer.from('12345678901234567890', 'ascii');
+const rfcSecret = base32Encode(rfcKey);
+
+describe('hotp', () => {
+  it('matches the RFC 4226 test values', () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+    expected.forEach((code, counter) => expect(hotp(rfcKey, counter)).toBe(code));
+  });
+
+  it('matches the RFC 6238 SHA-1 test values', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+    vectors.forEach(([seconds, code]) => expect(hotp(rfcKey, Math.floor(seconds / 30), 8)).toBe(code));
+  });
+});
+
+describe('verifyTotp', () => {
+  const at = 1111111111 * 1000;
+
+  it('accepts the current code and one step of drift', () => {
+    const step = Math.floor(at / 30000);
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, at), null, at)).toBe(step);
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, at - 30000), null, at)).toBe(step - 1);
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, at + 60000), null, at)).toBeNull();
+  });
+
+  it('refuses a code whose step was already used', () => {
+    const code = totpCode(rfcSecret, at);
+    const step = verifyTotp(rfcSecret, code, null, at);
+    expect(verifyTotp(rfcSecret, code, step, at)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(rfcSecret, '12345', null, at)).toBeNull();
+    expect(verifyTotp(rfcSecret, 'abcdef', null, at)).toBeNull();
+  });
+});
+
+describe('base32 and otpauth URI', () => {
+  it('round-trips secrets', () => {
+    expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(rfcSecret.toLowerCase())).toEqual(rfcKey);
+  });
+
+  it('builds a provisioning URI', () => {
+    expect(totpUri('JBSWY3DPEHPK3PXP', 'jane@example.com', 'Secure Payment Portal')).toBe(
+      'otpauth://totp/Secure%20Payment%20Portal:jane%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Secure+Payment+Portal&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
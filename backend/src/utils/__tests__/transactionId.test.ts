@@ -0,0 +1,80 @@
+const counters: Record<string, number> = {};
+jest.mock('../../models/Counter', () => ({
+  nextSequence: jest.fn(async (name: string) => {
+    counters[name] = (counters[name] || 0) + 1;
+    return counters[name];
+  }),
+}));
+
+import { computeCheckDigits, generateTransactionId, isValidTransactionId } from '../transactionId';
+
+const DAY = new Date('2024-01-15T12:00:00Z');
+
+describe('transaction references', () => {
+  beforeEach(() => {
+    for (const name of Object.keys(counters)) delete counters[name];
+  });
+
+  describe('generateTransactionId', () => {
+    it('builds the reference from the UTC day, the daily sequence and check digits', async () => {
+      const id = await generateTransactionId(DAY);
+
+      expect(id).toMatch(/^TX2024011500000001\d{2}$/);
+      expect(id.slice(-2)).toBe(computeCheckDigits('TX2024011500000001'));
+      expect(isValidTransactionId(id)).toBe(true);
+    });
+
+    it('uses the UTC day near midnight', async () => {
+      const id = await generateTransactionId(new Date('2024-01-15T23:30:00-05:00'));
+
+      expect(id.slice(2, 10)).toBe('20240116');
+    });
+
+    it('never hands out the same reference twice for concurrent requests', async () => {
+      const ids = await Promise.all(Array.from({ length: 50 }, () => generateTransactionId(DAY)));
+
+      expect(new Set(ids).size).toBe(50);
+      expect(ids.every(isValidTransactionId)).toBe(true);
+    });
+
+    it('starts a new sequence every day', async () => {
+      await generateTransactionId(DAY);
+      const nextDay = await generateTransactionId(new Date('2024-01-16T00:00:00Z'));
+
+      expect(nextDay.slice(10, 18)).toBe('00000001');
+    });
+
+    it('refuses to wrap around once the daily sequence is used up', async () => {
+      counters['transactionId:20240115'] = 10 ** 8 - 1;
+
+      await expect(generateTransactionId(DAY)).rejects.toThrow('Daily transaction sequence exhausted for 20240115');
+    });
+  });
+
+  describe('isValidTransactionId', () => {
+    it('detects a mistyped digit', async () => {
+      const id = await generateTransactionId(DAY);
+      const mistyped = `${id.slice(0, 12)}${(Number(id[12]) + 1) % 10}${id.slice(13)}`;
+
+      expect(isValidTransactionId(mistyped)).toBe(false);
+    });
+
+    it('detects two swapped digits', async () => {
+      counters['transactionId:20240115'] = 1233;
+      const id = await generateTransactionId(DAY);
+      const swapped = `${id.slice(0, 16)}${id[17]}${id[16]}${id.slice(18)}`;
+
+      expect(swapped).not.toBe(id);
+      expect(isValidTransactionId(swapped)).toBe(false);
+    });
+
+    it.each([
+      ['an empty value', ''],
+      ['a lowercase prefix', 'tx2024011500000001' + computeCheckDigits('TX2024011500000001')],
+      ['a reference without check digits', 'TX2024011500000001'],
+      ['a legacy timestamp reference', 'TX1705320000000ABC123'],
+    ])('rejects %s', (_label, value) => {
+      expect(isValidTransactionId(value)).toBe(false);
+    });
+  });
+});
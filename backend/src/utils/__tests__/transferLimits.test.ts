@@ -0,0 +1,81 @@
+// Concurrent submissions against the daily cap. Stored payments and the counter collection
+// are in memory; the counter mock applies the same conditional $inc MongoDB would.
+
+jest.mock('../../config', () => {
+  process.env['JWT_SECRET'] = process.env['JWT_SECRET'] || 'test';
+  process.env['ENCRYPTION_KEY'] = process.env['ENCRYPTION_KEY'] || 'test';
+  process.env['CSRF_SECRET'] = process.env['CSRF_SECRET'] || 'test';
+  return jest.requireActual('../../config');
+});
+
+const counters: any[] = [];
+const sameKey = (a: any, b: any) => a.userId === b.userId && a.period === b.period
+  && a.periodStart.getTime() === b.periodStart.getTime() && a.currency === b.currency;
+const matches = (counter: any, filter: any) => sameKey(counter, filter)
+  && (filter.usedMinor === undefined || counter.usedMinor <= filter.usedMinor.$lte);
+
+jest.mock('../../models/LimitCounter', () => ({
+  LimitCounter: {
+    updateOne: jest.fn(async (filter: any, update: any, options: any) => {
+      const counter = counters.find(c => matches(c, filter));
+      if (counter) counter.usedMinor += update.$inc?.usedMinor || 0;
+      else if (options?.upsert) counters.push({ ...filter, ...update.$setOnInsert });
+    }),
+    findOneAndUpdate: jest.fn(async (filter: any, update: any) => {
+      // Yield first, as a database round trip would, so concurrent calls interleave
+      await Promise.resolve();
+      const counter = counters.find(c => matches(c, filter));
+      if (!counter) return null;
+      counter.usedMinor += update.$inc.usedMinor;
+      return counter;
+    }),
+    findOne: jest.fn(async (filter: any) => counters.find(c => sameKey(c, filter)) || null),
+  },
+}));
+jest.mock('../../models/Payment', () => ({
+  Payment: { find: jest.fn(() => ({ select: jest.fn(async () => []) })) },
+}));
+jest.mock('../../models/LimitOverride', () => ({ LimitOverride: { findOne: jest.fn(async () => null) } }));
+jest.mock('../../models/User', () => ({ User: { findById: jest.fn(async () => ({ tier: 'standard' })) } }));
+
+import { checkTransferLimits, releaseTransferLimits, TransferLimitError } from '../transferLimits';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const newPayment = (amount: number) => ({ userId: 'user-1', amount, currency: 'EUR', $locals: {} }) as any;
+
+describe('checkTransferLimits reservations', () => {
+  beforeEach(() => {
+    counters.length = 0;
+  });
+
+  it('lets only one of two concurrent payments through when together they exceed the daily cap', async () => {
+    // Standard tier: 10000 per payment, 20000 per day; each passes the check on its own
+    const results = await Promise.allSettled([
+      checkTransferLimits(newPayment(9000), now),
+      checkTransferLimits(newPayment(9000), now),
+      checkTransferLimits(newPayment(9000), now),
+    ]);
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(2);
+    const rejected = results.find(r => r.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(TransferLimitError);
+    expect(rejected.reason).toMatchObject({ code: 'LIMIT_EXCEEDED', period: 'daily', remaining: 2000 });
+
+    const daily = counters.find(c => c.period === 'daily' && c.currency === null);
+    const monthly = counters.find(c => c.period === 'monthly' && c.currency === null);
+    expect(daily.usedMinor).toBe(1800000);
+    expect(monthly.usedMinor).toBe(1800000);
+  });
+
+  it('frees the reservation when the payment is released', async () => {
+    const payment = newPayment(9000);
+    payment.limitBaseAmount = await checkTransferLimits(payment, now);
+    await checkTransferLimits(newPayment(9000), now);
+
+    await expect(checkTransferLimits(newPayment(9000), now)).rejects.toMatchObject({ code: 'LIMIT_EXCEEDED' });
+
+    await releaseTransferLimits(payment);
+    await expect(checkTransferLimits(newPayment(9000), now)).resolves.toBe(9000);
+  });
+});
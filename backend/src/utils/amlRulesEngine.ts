@@ -0,0 +1,176 @@
+import { Payment, IPayment } from '../models/Payment';
+import { Beneficiary } from '../models/Beneficiary';
+import { AmlRuleSet, IAmlRuleSet } from '../models/AmlRuleSet';
+import { ITriggeredRule } from '../models/RiskAssessment';
+import { AML_ACTIONS, AmlAction, AmlRuleType, DEFAULT_AML_RULE_SET, IAmlRule, IAmlRuleSetDefinition, validateAmlRuleSet } from '../config/amlRules';
+import { paymentCountries } from './sanctionsScreening';
+import { logger } from './logger';
+
+export type AmlRuleErrorCode = 'INVALID_RULE_SET' | 'VERSION_CONFLICT';
+
+export class AmlRuleError extends Error {
+  constructor(public readonly code: AmlRuleErrorCode, message: string, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'AmlRuleError';
+  }
+
+  get statusCode(): number {
+    return this.code === 'INVALID_RULE_SET' ? 400 : 409;
+  }
+}
+
+export interface IRiskContext {
+  recipientCountry?: string | null;
+}
+
+export interface IRiskResult {
+  ruleSetVersion: number;
+  score: number;
+  action: AmlAction;
+  triggered: ITriggeredRule[];
+}
+
+const MAX_RISK_SCORE = 100;
+
+type RuleEvaluator = (params: Record<string, any>, payment: IPayment, context: IRiskContext) => Promise<string | null>;
+
+const appliesToCurrency = (params: Record<string, any>, payment: IPayment): boolean => (
+  !params['currency'] || params['currency'] === payment.currency
+);
+
+// The customer's other payments since a point in time; the payment being assessed is not saved yet
+const paymentsSince = (payment: IPayment, since: Date) => Payment.find({
+  userId: payment.userId,
+  deletedAt: null,
+  createdAt: { $gte: since },
+}).select('amount currency');
+
+const isRound = (amount: number, params: Record<string, any>): boolean => (
+  amount >= (params['minAmount'] || 0) && amount % params['multiple'] === 0
+);
+
+// Each evaluator returns a short explanation when its rule triggers, or null
+const EVALUATORS: Record<AmlRuleType, RuleEvaluator> = {
+  velocity: async (params, payment) => {
+    const recent = await paymentsSince(payment, new Date(Date.now() - params['windowMinutes'] * 60 * 1000));
+    const count = recent.length + 1;
+    const currency = params['currency'] || payment.currency;
+    const total = recent.filter(p => p.currency === currency).reduce((sum, p) => sum + p.amount, payment.currency === currency ? payment.amount : 0);
+
+    if (params['maxCount'] && count > params['maxCount']) return `${count} payments in ${params['windowMinutes']} minutes`;
+    if (params['maxAmount'] && total > params['maxAmount']) return `${total.toFixed(2)} ${currency} sent in ${params['windowMinutes']} minutes`;
+    return null;
+  },
+
+  amount_threshold: async (params, payment) => {
+    if (!appliesToCurrency(params, payment) || payment.amount < params['minAmount']) return null;
+    const purposes: string[] = params['purposes'] || [];
+    const purpose = (payment.purpose || '').toLowerCase();
+    const matched = purposes.find(p => purpose.includes(p.toLowerCase()));
+    if (purposes.length > 0 && !matched) return null;
+    return `${payment.amount} ${payment.currency}${matched ? ` for purpose "${matched}"` : ''}`;
+  },
+
+  new_beneficiary_amount: async (params, payment) => {
+    if (!appliesToCurrency(params, payment) || payment.amount < params['minAmount']) return null;
+    if (payment.beneficiaryId) {
+      const beneficiary = await Beneficiary.findById(payment.beneficiaryId).select('createdAt');
+      const ageHours = beneficiary ? (Date.now() - beneficiary.createdAt.getTime()) / (60 * 60 * 1000) : 0;
+      return ageHours < params['maxBeneficiaryAgeHours'] ? `beneficiary added ${Math.floor(ageHours)}h ago` : null;
+    }
+    const paidBefore = await Payment.exists({ userId: payment.userId, recipientIBAN: payment.recipientIBAN, deletedAt: null, status: { $nin: ['cancelled', 'failed'] } });
+    return paidBefore ? null : 'first payment to this account';
+  },
+
+  high_risk_country: async (params, payment, context) => {
+    const countries = paymentCountries({
+      recipientName: payment.recipientName,
+      recipientCountry: context.recipientCountry ?? null,
+      recipientIBAN: payment.recipientIBAN,
+      recipientSWIFT: payment.recipientSWIFT,
+    }).filter(c => (params['countries'] as string[]).includes(c));
+    return countries.length > 0 ? `payment touches ${countries.join(', ')}` : null;
+  },
+
+  round_amount: async (params, payment) => {
+    if (!isRound(payment.amount, params)) return null;
+    const recent = await paymentsSince(payment, new Date(Date.now() - params['windowHours'] * 60 * 60 * 1000));
+    const count = recent.filter(p => isRound(p.amount, params)).length + 1;
+    return count >= params['minCount'] ? `${count} round-amount payments in ${params['windowHours']} hours` : null;
+  },
+};
+
+const severity = (action: AmlAction): number => AML_ACTIONS.indexOf(action);
+
+/**
+ * The rule set in force: the highest published version. The built-in defaults are
+ * published as version 1 the first time rules are needed.
+ */
+export const getActiveRuleSet = async (): Promise<IAmlRuleSet> => {
+  const latest = await AmlRuleSet.findOne({}).sort({ version: -1 });
+  if (latest) return latest;
+  try {
+    return await AmlRuleSet.create({ version: 1, ...DEFAULT_AML_RULE_SET, changeNote: 'Default rule set', createdBy: 'system', createdByName: 'System' });
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+    return (await AmlRuleSet.findOne({ version: 1 }))!;
+  }
+};
+
+/**
+ * Publish a new rule set version. `baseVersion`, when given, must still be the version in
+ * force so two employees editing at once cannot silently overwrite each other.
+ */
+export const publishRuleSet = async (
+  definition: IAmlRuleSetDefinition,
+  actor: { userId: string; email?: string },
+  changeNote: string,
+  baseVersion?: number
+): Promise<IAmlRuleSet> => {
+  const errors = validateAmlRuleSet(definition);
+  if (errors.length > 0) throw new AmlRuleError('INVALID_RULE_SET', 'The rule set is invalid.', errors);
+
+  const current = await getActiveRuleSet();
+  if (baseVersion !== undefined && baseVersion !== current.version) {
+    throw new AmlRuleError('VERSION_CONFLICT', `Rules were changed since version ${baseVersion}; version ${current.version} is now in force.`);
+  }
+
+  try {
+    const published = await AmlRuleSet.create({
+      version: current.version + 1,
+      escalateScore: definition.escalateScore,
+      holdScore: definition.holdScore,
+      rules: definition.rules.map((r: IAmlRule) => ({ id: r.id, name: r.name.trim(), type: r.type, enabled: r.enabled, score: r.score, action: r.action, params: r.params })),
+      changeNote,
+      createdBy: actor.userId,
+      createdByName: actor.email || null,
+    });
+    logger.info('AML rule set published:', { version: published.version, actorUserId: actor.userId });
+    return published;
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+    throw new AmlRuleError('VERSION_CONFLICT', 'Another rule set version was published at the same time; reload and try again.');
+  }
+};
+
+/**
+ * Run the rules in force against a payment that has not been saved yet. The action is the
+ * most severe of the triggered rules' actions and what the total score calls for.
+ */
+export const assessPaymentRisk = async (payment: IPayment, context: IRiskContext = {}): Promise<IRiskResult> => {
+  const ruleSet = await getActiveRuleSet();
+  const triggered: ITriggeredRule[] = [];
+
+  for (const rule of ruleSet.rules.filter(r => r.enabled)) {
+    const detail = await EVALUATORS[rule.type](rule.params || {}, payment, context);
+    if (detail) {
+      triggered.push({ ruleId: rule.id, name: rule.name, type: rule.type, score: rule.score, action: rule.action, detail });
+    }
+  }
+
+  const score = Math.min(MAX_RISK_SCORE, triggered.reduce((sum, t) => sum + t.score, 0));
+  const byScore: AmlAction = score >= ruleSet.holdScore ? 'hold' : score >= ruleSet.escalateScore ? 'escalate' : 'allow';
+  const action = triggered.reduce<AmlAction>((worst, t) => (severity(t.action) > severity(worst) ? t.action : worst), byScore);
+
+  return { ruleSetVersion: ruleSet.version, score, action, triggered };
+};
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { bicDirectoryConfig } from '../config';
+import { parseCsvRecords } from './csv';
+import { logger } from './logger';
+
+export interface IBicDirectoryEntry {
+  bic: string;
+  institution: string;
+  city: string;
+  country: string;
+  // National bank codes as they appear in the institution's IBANs
+  bankCodes: string[];
+}
+
+const DEFAULT_DIRECTORY_PATH = path.resolve(__dirname, '../../data/bic-directory.csv');
+
+let byBic = new Map<string, IBicDirectoryEntry>();
+let byBankCode = new Map<string, IBicDirectoryEntry>();
+let loadedFrom: string | null = null;
+
+// Directory keys are 11 characters; an 8-character BIC is the institution's head office
+const toBic11 = (bic: string): string => {
+  const clean = bic.replace(/\s/g, '').toUpperCase();
+  return clean.length === 8 ? `${clean}XXX` : clean;
+};
+
+/**
+ * Load (or reload) the BIC directory from disk. The previous directory stays in place
+ * if the file cannot be read, so a bad update never leaves us without one.
+ */
+export const loadBicDirectory = (filePath: string = bicDirectoryConfig.path || DEFAULT_DIRECTORY_PATH): number => {
+  const records = parseCsvRecords(fs.readFileSync(filePath, 'utf8'));
+  const nextByBic = new Map<string, IBicDirectoryEntry>();
+  const nextByBankCode = new Map<string, IBicDirectoryEntry>();
+
+  records.forEach((record, i) => {
+    const bic = toBic11(record['bic'] || '');
+    if (!/^[A-Z]{6}[A-Z0-9]{5}$/.test(bic)) {
+      logger.warn('Skipping invalid BIC directory row:', { row: i + 2 });
+      return;
+    }
+    const entry: IBicDirectoryEntry = {
+      bic,
+      institution: record['institution'] || '',
+      city: record['city'] || '',
+      country: (record['country'] || bic.slice(4, 6)).toUpperCase(),
+      bankCodes: (record['bank_codes'] || '').split(/\s+/).filter(Boolean),
+    };
+    nextByBic.set(bic, entry);
+    for (const code of entry.bankCodes) {
+      nextByBankCode.set(`${entry.country}:${code.toUpperCase()}`, entry);
+    }
+  });
+
+  if (nextByBic.size === 0) throw new Error(`BIC directory ${filePath} contains no entries.`);
+
+  byBic = nextByBic;
+  byBankCode = nextByBankCode;
+  loadedFrom = filePath;
+  logger.info('BIC directory loaded:', { entries: byBic.size, bankCodes: byBankCode.size, file: filePath });
+  return byBic.size;
+};
+
+export const isBicDirectoryLoaded = (): boolean => loadedFrom !== null;
+
+/**
+ * Look a BIC up in the directory. Branch codes that are not listed resolve to the
+ * institution's head office entry.
+ */
+export const lookupBIC = (bic: string): IBicDirectoryEntry | null => {
+  const key = toBic11(bic);
+  return byBic.get(key) || byBic.get(`${key.slice(0, 8)}XXX`) || null;
+};
+
+/**
+ * Institution whose IBANs carry this national bank code
+ */
+export const bicForBankCode = (country: string, bankCode: string): IBicDirectoryEntry | null => (
+  byBankCode.get(`${country.toUpperCase()}:${bankCode.toUpperCase()}`) || null
+);
+
+// Territories that use another country's IBAN scheme but have their own BIC country code
+const SHARED_IBAN_COUNTRIES: Record<string, string[]> = {
+  GB: ['GG', 'IM', 'JE'],
+  FI: ['AX'],
+  FR: ['BL', 'GF', 'GP', 'MF', 'MQ', 'NC', 'PF', 'PM', 'RE', 'TF', 'WF', 'YT'],
+};
+
+export const bicMatchesIbanCountry = (bic: string, ibanCountry: string): boolean => {
+  const bicCountry = bic.replace(/\s/g, '').toUpperCase().slice(4, 6);
+  return bicCountry === ibanCountry || (SHARED_IBAN_COUNTRIES[ibanCountry] || []).includes(bicCountry);
+};
+
+/**
+ * Reason a (well-formed) BIC cannot be used with an IBAN of the given country, or null.
+ * Existence is only enforced once a directory has been loaded.
+ */
+export const recipientBankError = (bic: string, ibanCountry?: string): string | null => {
+  if (isBicDirectoryLoaded() && !lookupBIC(bic)) {
+    return 'This SWIFT/BIC code was not found in the BIC directory.';
+  }
+  if (ibanCountry && !bicMatchesIbanCountry(bic, ibanCountry)) {
+    return `The SWIFT/BIC country (${bic.replace(/\s/g, '').toUpperCase().slice(4, 6)}) does not match the IBAN country (${ibanCountry}).`;
+  }
+  return null;
+};
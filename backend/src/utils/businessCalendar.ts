@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import { calendarConfig } from '../config';
+import { CURRENCY_CALENDARS, DEFAULT_CURRENCY_CALENDAR, ICurrencyCalendar, WEEKEND_DAYS } from '../config/businessCalendars';
+import { logger } from './logger';
+
+export interface ISettlementDates {
+  // Business day the payment is sent on, as UTC midnight
+  processingDate: Date;
+  // Instant of that day's cut-off; the payment must be released before it
+  cutOffAt: Date;
+  // Business day the recipient is credited, as UTC midnight
+  valueDate: Date;
+  // True when the payment missed today's cut-off (or today is not a business day)
+  nextBusinessDay: boolean;
+  cutOff: string;
+  timeZone: string;
+}
+
+const DEFAULT_HOLIDAYS_PATH = path.resolve(__dirname, '../../data/holidays');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar name -> set of YYYY-MM-DD closing days
+let holidays = new Map<string, Set<string>>();
+let loadedAt: Date | null = null;
+
+const readCalendarFile = (filePath: string): { calendar: string; dates: string[] } => {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const calendar = String(data?.calendar || '').trim().toUpperCase();
+  if (!calendar) throw new Error(`${filePath}: calendar name is missing.`);
+  if (!Array.isArray(data.holidays)) throw new Error(`${filePath}: holidays must be a list.`);
+  const dates = data.holidays.map((h: any) => String(h?.date || ''));
+  const invalid = dates.find((d: string) => !/^\d{4}-\d{2}-\d{2}$/.test(d) || new Date(`${d}T00:00:00Z`).toISOString().slice(0, 10) !== d);
+  if (invalid !== undefined) throw new Error(`${filePath}: "${invalid}" is not a YYYY-MM-DD date.`);
+  return { calendar, dates };
+};
+
+/**
+ * Load (or reload) every holiday calendar in the directory. The previous calendars stay in
+ * place if any file cannot be read.
+ */
+export const loadHolidayCalendars = (dirPath: string = calendarConfig.holidaysPath || DEFAULT_HOLIDAYS_PATH): string[] => {
+  const next = new Map<string, Set<string>>();
+  const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json')).sort();
+  for (const file of files) {
+    const { calendar, dates } = readCalendarFile(path.join(dirPath, file));
+    next.set(calendar, new Set([...(next.get(calendar) || []), ...dates]));
+  }
+
+  const missing = Array.from(new Set(Object.values(CURRENCY_CALENDARS).flatMap(c => c.calendars))).filter(c => !next.has(c));
+  if (missing.length > 0) logger.warn('Holiday calendars missing; only weekends are closed for:', { calendars: missing });
+
+  holidays = next;
+  loadedAt = new Date();
+  logger.info('Holiday calendars loaded:', { calendars: Array.from(next.keys()), dir: dirPath });
+  return Array.from(next.keys());
+};
+
+export const isHolidayCalendarLoaded = (): boolean => loadedAt !== null;
+
+export const currencyCalendar = (currency: string): ICurrencyCalendar => (
+  CURRENCY_CALENDARS[currency.toUpperCase()] || DEFAULT_CURRENCY_CALENDAR
+);
+
+const toIsoDate = (date: Date): string => date.toISOString().slice(0, 10);
+const fromIsoDate = (isoDate: string): Date => new Date(`${isoDate}T00:00:00.000Z`);
+const addDays = (isoDate: string, days: number): string => toIsoDate(new Date(fromIsoDate(isoDate).getTime() + days * DAY_MS));
+const clockMinutes = (hhmm: string): number => {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Calendar date and minutes past midnight of an instant in a time zone
+const localTime = (at: Date, timeZone: string): { date: string; minutes: number } => {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+  }).formatToParts(at).forEach(p => { parts[p.type] = p.value; });
+  return { date: `${parts['year']}-${parts['month']}-${parts['day']}`, minutes: Number(parts['hour']) * 60 + Number(parts['minute']) };
+};
+
+// The instant a local wall-clock time occurs in a time zone
+const zonedInstant = (isoDate: string, minutes: number, timeZone: string): Date => {
+  const guess = fromIsoDate(isoDate).getTime() + minutes * 60 * 1000;
+  const local = localTime(new Date(guess), timeZone);
+  const offset = fromIsoDate(local.date).getTime() + local.minutes * 60 * 1000 - guess;
+  return new Date(guess - offset);
+};
+
+export const isBusinessDay = (calendar: ICurrencyCalendar, isoDate: string): boolean => (
+  !WEEKEND_DAYS.includes(fromIsoDate(isoDate).getUTCDay())
+  && !calendar.calendars.some(name => holidays.get(name)?.has(isoDate))
+);
+
+// First business day strictly after the given date
+const nextBusinessDate = (calendar: ICurrencyCalendar, isoDate: string): string => {
+  let date = addDays(isoDate, 1);
+  // Bounded so a malformed calendar cannot loop forever
+  for (let i = 0; i < 366 && !isBusinessDay(calendar, date); i++) date = addDays(date, 1);
+  return date;
+};
+
+/**
+ * When a payment in this currency submitted at `at` is sent and when it reaches the
+ * recipient: the same day if it is a business day and before the cut-off, otherwise the
+ * next business day, then the currency's settlement days on top.
+ */
+export const settlementDates = (currency: string, at: Date = new Date()): ISettlementDates => {
+  const calendar = currencyCalendar(currency);
+  const cutOffMinutes = clockMinutes(calendar.cutOff);
+  const local = localTime(at, calendar.timeZone);
+
+  const sameDay = isBusinessDay(calendar, local.date) && local.minutes < cutOffMinutes;
+  const processing = sameDay ? local.date : nextBusinessDate(calendar, local.date);
+  let value = processing;
+  for (let i = 0; i < calendar.settlementDays; i++) value = nextBusinessDate(calendar, value);
+
+  return {
+    processingDate: fromIsoDate(processing),
+    cutOffAt: zonedInstant(processing, cutOffMinutes, calendar.timeZone),
+    valueDate: fromIsoDate(value),
+    nextBusinessDay: !sameDay,
+    cutOff: calendar.cutOff,
+    timeZone: calendar.timeZone,
+  };
+};
+
+/**
+ * Settlement dates for a payment first submitted on a future calendar day (scheduled payments):
+ * counted from the start of that day in the currency's time zone.
+ */
+export const settlementDatesOn = (currency: string, isoDate: string): ISettlementDates => (
+  settlementDates(currency, zonedInstant(isoDate, 0, currencyCalendar(currency).timeZone))
+);
+
+/**
+ * Stamp a payment with its cut-off and value date
+ */
+export const applySettlementDates = (payment: { currency: string; cutOffAt?: Date | null; valueDate?: Date | null }, at: Date = new Date()): ISettlementDates => {
+  const dates = settlementDates(payment.currency, at);
+  payment.cutOffAt = dates.cutOffAt;
+  payment.valueDate = dates.valueDate;
+  return dates;
+};
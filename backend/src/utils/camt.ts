@@ -0,0 +1,103 @@
+import { parseXml, xmlChild, xmlChildren, xmlText, IXmlElement } from './xml';
+
+export type CamtMessageType = 'camt.053' | 'camt.054';
+
+export interface ICamtEntry {
+  // Account servicer's reference of the entry, or a positional fallback
+  entryRef: string;
+  endToEndId: string | null;
+  amount: number;
+  currency: string;
+  creditDebit: 'CRDT' | 'DBIT';
+  // BOOK, PDNG or INFO; older versions carry the code directly in <Sts>
+  status: string;
+  bookingDate: Date | null;
+}
+
+export interface ICamtMessage {
+  type: CamtMessageType;
+  messageId: string;
+  createdAt: Date | null;
+  entries: ICamtEntry[];
+}
+
+const ROOTS: Record<string, { type: CamtMessageType; report: string }> = {
+  BkToCstmrStmt: { type: 'camt.053', report: 'Stmt' },
+  BkToCstmrDbtCdtNtfctn: { type: 'camt.054', report: 'Ntfctn' },
+};
+
+const parseDate = (element: IXmlElement | undefined): Date | null => {
+  const value = xmlText(element, 'DtTm') || xmlText(element, 'Dt');
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const parseAmount = (element: IXmlElement | undefined): { amount: number; currency: string } | null => {
+  if (!element) return null;
+  const amount = Number(element.text.trim());
+  const currency = (element.attrs['Ccy'] || '').toUpperCase();
+  if (!Number.isFinite(amount) || !/^[A-Z]{3}$/.test(currency)) return null;
+  return { amount, currency };
+};
+
+/**
+ * One entry may batch several transactions; each transaction detail becomes its own
+ * item so it can be matched to a single payment.
+ */
+const parseEntry = (entry: IXmlElement, position: string): ICamtEntry[] => {
+  const entryAmount = parseAmount(xmlChild(entry, 'Amt'));
+  if (!entryAmount) throw new Error(`Entry ${position} has no valid amount.`);
+  const creditDebit = xmlText(entry, 'CdtDbtInd');
+  if (creditDebit !== 'CRDT' && creditDebit !== 'DBIT') throw new Error(`Entry ${position} has no credit/debit indicator.`);
+
+  const base = {
+    creditDebit: creditDebit as 'CRDT' | 'DBIT',
+    status: (xmlText(entry, 'Sts', 'Cd') || xmlText(entry, 'Sts') || 'BOOK').toUpperCase(),
+    bookingDate: parseDate(xmlChild(entry, 'BookgDt')),
+  };
+  const entryRef = xmlText(entry, 'AcctSvcrRef') || xmlText(entry, 'NtryRef') || position;
+
+  const details = xmlChildren(entry, 'NtryDtls').flatMap(d => xmlChildren(d, 'TxDtls'));
+  if (details.length === 0) {
+    return [{ ...base, ...entryAmount, entryRef, endToEndId: null }];
+  }
+
+  return details.map((tx, i) => {
+    const txAmount = parseAmount(xmlChild(tx, 'Amt')) || parseAmount(xmlChild(tx, 'AmtDtls', 'TxAmt', 'Amt'))
+      || (details.length === 1 ? entryAmount : null);
+    if (!txAmount) throw new Error(`Transaction ${i + 1} of entry ${position} has no amount.`);
+    const endToEndId = xmlText(tx, 'Refs', 'EndToEndId');
+    return {
+      ...base,
+      ...txAmount,
+      entryRef: details.length === 1 ? entryRef : `${entryRef}/${i + 1}`,
+      // NOTPROVIDED is the ISO placeholder for a missing reference
+      endToEndId: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null,
+    };
+  });
+};
+
+/**
+ * Read the entries of a camt.053 statement or camt.054 debit/credit notification
+ */
+export const parseCamt = (xml: string): ICamtMessage => {
+  const document = parseXml(xml);
+  const body = document.name === 'Document' ? document.children[0] : document;
+  const root = body ? ROOTS[body.name] : undefined;
+  if (!body || !root) throw new Error('Not a camt.053 or camt.054 document.');
+
+  const messageId = xmlText(body, 'GrpHdr', 'MsgId');
+  if (!messageId) throw new Error('GrpHdr/MsgId is missing.');
+
+  const createdAt = xmlText(body, 'GrpHdr', 'CreDtTm');
+  const entries = xmlChildren(body, root.report).flatMap((report, r) => xmlChildren(report, 'Ntry')
+    .flatMap((entry, e) => parseEntry(entry, `${r + 1}.${e + 1}`)));
+
+  return {
+    type: root.type,
+    messageId,
+    createdAt: createdAt && !isNaN(Date.parse(createdAt)) ? new Date(createdAt) : null,
+    entries,
+  };
+};
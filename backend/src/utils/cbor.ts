@@ -0,0 +1,80 @@
+// Minimal CBOR (RFC 8949) decoder for WebAuthn attestation objects and COSE keys: definite-length
+// items only, which is all authenticators emit. Maps are returned as Map to keep integer keys.
+
+export type CborValue = number | bigint | string | boolean | null | undefined | Buffer | CborValue[] | Map<CborValue, CborValue>;
+
+const readLength = (buf: Buffer, offset: number, info: number): { value: number; offset: number } => {
+  if (info < 24) return { value: info, offset };
+  if (info === 24) return { value: buf.readUInt8(offset), offset: offset + 1 };
+  if (info === 25) return { value: buf.readUInt16BE(offset), offset: offset + 2 };
+  if (info === 26) return { value: buf.readUInt32BE(offset), offset: offset + 4 };
+  if (info === 27) {
+    const big = buf.readBigUInt64BE(offset);
+    if (big > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('CBOR length too large');
+    return { value: Number(big), offset: offset + 8 };
+  }
+  throw new Error(`Unsupported CBOR length encoding ${info}`);
+};
+
+const need = (buf: Buffer, offset: number, length: number): void => {
+  if (offset + length > buf.length) throw new Error('Truncated CBOR data');
+};
+
+/**
+ * Decode the first CBOR item in the buffer. Returns the value and the offset just after it,
+ * so trailing data (e.g. authenticator extensions after a COSE key) can be located.
+ */
+export const decodeCborFirst = (buf: Buffer, start: number = 0): { value: CborValue; offset: number } => {
+  need(buf, start, 1);
+  const initial = buf.readUInt8(start);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  const { value: length, offset } = major === 7 ? { value: info, offset: start + 1 } : readLength(buf, start + 1, info);
+
+  switch (major) {
+    case 0: return { value: length, offset };
+    case 1: return { value: -1 - length, offset };
+    case 2:
+      need(buf, offset, length);
+      return { value: Buffer.from(buf.subarray(offset, offset + length)), offset: offset + length };
+    case 3:
+      need(buf, offset, length);
+      return { value: buf.toString('utf8', offset, offset + length), offset: offset + length };
+    case 4: {
+      const items: CborValue[] = [];
+      let next = offset;
+      for (let i = 0; i < length; i++) {
+        const item = decodeCborFirst(buf, next);
+        items.push(item.value);
+        next = item.offset;
+      }
+      return { value: items, offset: next };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      let next = offset;
+      for (let i = 0; i < length; i++) {
+        const key = decodeCborFirst(buf, next);
+        const value = decodeCborFirst(buf, key.offset);
+        map.set(key.value, value.value);
+        next = value.offset;
+      }
+      return { value: map, offset: next };
+    }
+    case 6:
+      // Tags carry no meaning for WebAuthn; return the tagged item
+      return decodeCborFirst(buf, offset);
+    default:
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22) return { value: null, offset };
+      if (info === 23) return { value: undefined, offset };
+      throw new Error(`Unsupported CBOR simple value ${info}`);
+  }
+};
+
+export const decodeCbor = (buf: Buffer): CborValue => {
+  const { value, offset } = decodeCborFirst(buf);
+  if (offset !== buf.length) throw new Error('Unexpected data after CBOR item');
+  return value;
+};
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { CborValue } from './cbor';
+
+// COSE keys and signatures (RFC 9053) for WebAuthn; kept free of config and models so it stays testable
+
+export class UnsupportedKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedKeyError';
+  }
+}
+
+// COSE algorithms we accept, in order of preference: ES256, EdDSA (Ed25519), RS256
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_EDDSA = -8;
+const COSE_ALG_RS256 = -257;
+export const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+const sha256 = (data: Buffer): Buffer => crypto.createHash('sha256').update(data).digest();
+
+const coseBytes = (key: Map<CborValue, CborValue>, label: number): string => {
+  const value = key.get(label);
+  if (!Buffer.isBuffer(value)) throw new Error(`COSE key parameter ${label} is missing`);
+  return value.toString('base64url');
+};
+
+/**
+ * Convert a COSE public key (RFC 9053) to SPKI DER via JWK
+ */
+export const coseToSpki = (key: Map<CborValue, CborValue>): { publicKey: string; algorithm: number } => {
+  const kty = key.get(1);
+  const algorithm = key.get(3);
+  let jwk: crypto.JsonWebKey;
+
+  if (kty === 2 && algorithm === COSE_ALG_ES256 && key.get(-1) === 1) {
+    jwk = { kty: 'EC', crv: 'P-256', x: coseBytes(key, -2), y: coseBytes(key, -3) };
+  } else if (kty === 1 && algorithm === COSE_ALG_EDDSA && key.get(-1) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: coseBytes(key, -2) };
+  } else if (kty === 3 && algorithm === COSE_ALG_RS256) {
+    jwk = { kty: 'RSA', n: coseBytes(key, -1), e: coseBytes(key, -2) };
+  } else {
+    throw new UnsupportedKeyError('This authenticator uses an unsupported key type.');
+  }
+
+  const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' })
+    .export({ type: 'spki', format: 'der' })
+    .toString('base64');
+  return { publicKey, algorithm };
+};
+
+/**
+ * Verify an assertion signature over authenticatorData || SHA-256(clientDataJSON)
+ */
+export const verifyAssertionSignature = (
+  credential: { publicKey: string; algorithm: number },
+  authenticatorData: Buffer,
+  clientDataJSON: Buffer,
+  signature: Buffer
+): boolean => {
+  const key = crypto.createPublicKey({ key: Buffer.from(credential.publicKey, 'base64'), format: 'der', type: 'spki' });
+  const data = Buffer.concat([authenticatorData, sha256(clientDataJSON)]);
+  try {
+    switch (credential.algorithm) {
+      case COSE_ALG_ES256: return crypto.verify('sha256', data, { key, dsaEncoding: 'der' }, signature);
+      case COSE_ALG_RS256: return crypto.verify('sha256', data, key, signature);
+      case COSE_ALG_EDDSA: return crypto.verify(null, data, key, signature);
+      default: return false;
+    }
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,45 @@
+import { Payment, IPayment } from '../models/Payment';
+import { duplicatePaymentConfig } from '../config';
+import { jaroWinkler } from './sanctionsScreening';
+import { toMinor } from './ledgerService';
+
+export interface IDuplicateCandidate {
+  userId: string;
+  recipientIBAN: string;
+  amount: number;
+  currency: string;
+  reference: string;
+}
+
+const normalizeReference = (reference: string): string => (reference || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * References count as similar when equal after normalisation, when one contains the
+ * other ("INV 1042" / "Invoice INV-1042"), or when they are within a typo of each other.
+ */
+export const similarReferences = (a: string, b: string): boolean => {
+  const x = normalizeReference(a);
+  const y = normalizeReference(b);
+  if (x === y) return true;
+  if (!x || !y) return false;
+  if (Math.min(x.length, y.length) >= 4 && (x.includes(y) || y.includes(x))) return true;
+  return jaroWinkler(x, y) >= duplicatePaymentConfig.referenceSimilarity;
+};
+
+/**
+ * Most recent live payment from the same customer to the same IBAN, for the same amount
+ * and currency with a similar reference, inside the configured window.
+ */
+export const findPossibleDuplicate = async (candidate: IDuplicateCandidate, now: Date = new Date()): Promise<IPayment | null> => {
+  const since = new Date(now.getTime() - duplicatePaymentConfig.windowHours * 60 * 60 * 1000);
+  const recent = await Payment.find({
+    userId: candidate.userId,
+    recipientIBAN: candidate.recipientIBAN,
+    currency: candidate.currency,
+    deletedAt: null,
+    status: { $nin: ['cancelled', 'failed'] },
+    createdAt: { $gte: since },
+  }).sort({ createdAt: -1 });
+
+  return recent.find(p => toMinor(p.amount) === toMinor(candidate.amount) && similarReferences(p.reference, candidate.reference)) || null;
+};
@@ -44,4 +44,37 @@ export const sendVerificationEmail = async ({ to, token }: VerificationEmailPayl
   }
 
   await transporter.sendMail(mailOptions);
-};
\ No newline at end of file
+};
+export interface PasswordResetEmailPayload {
+  to: string;
+  resetUrl: string;
+  expiresAt: Date;
+}
+
+export const sendPasswordResetEmail = async ({ to, resetUrl, expiresAt }: PasswordResetEmailPayload): Promise<void> => {
+  const html = `
+    <div style="font-family: Arial, sans-serif;">
+      <h2>Reset your password</h2>
+      <p>We received a request to reset the password for your account. The link works once and expires at ${expiresAt.toUTCString()}.</p>
+      <p><a href="${resetUrl}" style="background:#2563eb;color:#fff;padding:10px 16px;border-radius:6px;text-decoration:none;">Reset Password</a></p>
+      <p>If the button doesn't work, copy and paste this link into your browser:</p>
+      <p><code>${resetUrl}</code></p>
+      <p>If you did not ask for this, you can ignore this email; your password has not been changed.</p>
+    </div>
+  `;
+
+  const mailOptions = {
+    from: emailConfig.from,
+    to,
+    subject: 'Reset your password',
+    html,
+  };
+
+  // If SMTP credentials are missing in development, skip actual send
+  if (config.nodeEnv !== 'production' && (!emailConfig.smtp.auth.user || !emailConfig.smtp.auth.pass)) {
+    console.log('DEV: Skipping email send. Password reset link:', resetUrl);
+    return;
+  }
+
+  await transporter.sendMail(mailOptions);
+};
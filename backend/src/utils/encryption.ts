@@ -0,0 +1,20 @@
+import crypto from 'crypto';
+import { securityConfig } from '../config';
+
+// AES-256-GCM with a key derived from ENCRYPTION_KEY, for secrets that must be read back (not hashed)
+const key = (): Buffer => crypto.createHash('sha256').update(securityConfig.encryptionKey).digest();
+
+export const encryptSecret = (plaintext: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+};
+
+export const decryptSecret = (encrypted: string): string => {
+  const [iv, tag, ciphertext] = encrypted.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) throw new Error('Malformed encrypted secret.');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
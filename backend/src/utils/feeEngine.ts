@@ -0,0 +1,102 @@
+import { CHARGE_BEARERS, ChargeBearer, DEFAULT_CHARGE_BEARER, FEE_COMPONENTS, FEE_SCHEDULE, IFeeRule } from '../config/feeSchedule';
+import { IFeeLine, IPaymentFees } from '../models/Payment';
+import { currencyDecimals } from './pain001';
+
+export type FeeErrorCode = 'INVALID_CHARGE_BEARER' | 'FEES_EXCEED_AMOUNT';
+
+export class FeeError extends Error {
+  constructor(public readonly code: FeeErrorCode, message: string) {
+    super(message);
+    this.name = 'FeeError';
+  }
+
+  get statusCode(): number {
+    return this.code === 'INVALID_CHARGE_BEARER' ? 400 : 422;
+  }
+}
+
+export interface IFeeInput {
+  amount: number;
+  currency: string;
+  recipientIBAN: string;
+  recipientCountry?: string | null;
+  chargeBearer?: string | null;
+  // Converted payments are charged in the source currency at the quoted rate
+  fx?: { sourceCurrency: string; rate: number } | null;
+}
+
+const roundTo = (amount: number, currency: string): number => {
+  const factor = 10 ** currencyDecimals(currency);
+  return Math.round(amount * factor) / factor;
+};
+
+export const parseChargeBearer = (value: unknown): ChargeBearer => {
+  if (value === undefined || value === null || value === '') return DEFAULT_CHARGE_BEARER;
+  const bearer = String(value).toUpperCase();
+  if (!(CHARGE_BEARERS as readonly string[]).includes(bearer)) {
+    throw new FeeError('INVALID_CHARGE_BEARER', `chargeBearer must be one of ${CHARGE_BEARERS.join(', ')}.`);
+  }
+  return bearer as ChargeBearer;
+};
+
+// The account's country decides where the money goes; the stated address is the fallback
+const destinationCountry = (input: IFeeInput): string => {
+  const ibanCountry = input.recipientIBAN.replace(/\s/g, '').slice(0, 2).toUpperCase();
+  if (/^[A-Z]{2}$/.test(ibanCountry)) return ibanCountry;
+  return String(input.recipientCountry || '').trim().toUpperCase();
+};
+
+const ruleApplies = (rule: IFeeRule, bearer: ChargeBearer, currency: string, country: string): boolean => (
+  rule.bearers.includes(bearer)
+  && (rule.currencies.length === 0 || rule.currencies.includes(currency))
+  && (rule.countries.length === 0 || rule.countries.includes(country))
+);
+
+const ruleAmount = (rule: IFeeRule, amount: number): number => {
+  let fee = 0;
+  if (rule.type === 'flat') {
+    fee = rule.amount || 0;
+  } else if (rule.type === 'percentage') {
+    fee = (amount * (rule.percent || 0)) / 100;
+  } else {
+    const tier = (rule.tiers || []).find(t => t.upTo === null || amount <= t.upTo);
+    fee = tier ? (tier.amount || 0) + (amount * (tier.percent || 0)) / 100 : 0;
+  }
+  if (rule.min !== undefined) fee = Math.max(fee, rule.min);
+  if (rule.max !== undefined) fee = Math.min(fee, rule.max);
+  return fee;
+};
+
+/**
+ * Price a payment against the fee schedule: one line per fee component, from the first
+ * rule that matches the charge bearer, payment currency and destination country.
+ */
+export const calculateFees = (input: IFeeInput): IPaymentFees => {
+  const chargeBearer = parseChargeBearer(input.chargeBearer);
+  const currency = input.currency.toUpperCase();
+  const country = destinationCountry(input);
+  const feeCurrency = input.fx?.sourceCurrency || currency;
+
+  const lines: IFeeLine[] = [];
+  let paymentCurrencyTotal = 0;
+  for (const component of FEE_COMPONENTS) {
+    const rule = FEE_SCHEDULE.find(r => r.component === component && ruleApplies(r, chargeBearer, currency, country));
+    if (!rule) continue;
+    const fee = roundTo(ruleAmount(rule, input.amount), currency);
+    if (fee <= 0) continue;
+    paymentCurrencyTotal += fee;
+    // Round conversions up so the bank is never short of the scheduled fee
+    const factor = 10 ** currencyDecimals(feeCurrency);
+    const charged = input.fx ? Math.ceil(Number(((fee / input.fx.rate) * factor).toFixed(6))) / factor : fee;
+    lines.push({ ruleId: rule.id, description: rule.description, amount: charged });
+  }
+
+  const total = lines.reduce((sum, l) => sum + Math.round(l.amount * 100), 0) / 100;
+  const deductedFromAmount = chargeBearer === 'BEN';
+  const settlementAmount = deductedFromAmount ? roundTo(input.amount - paymentCurrencyTotal, currency) : input.amount;
+  if (settlementAmount <= 0) {
+    throw new FeeError('FEES_EXCEED_AMOUNT', 'The fees for this payment are more than the amount sent; choose another charge option.');
+  }
+
+  return { currency: feeCurrency, lines, total, deductedFromAmount, settlementAmount };
+};
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import { fxConfig, validationConfig } from '../config';
+import { logger } from './logger';
+
+export interface IFxRateTable {
+  base: string;
+  // Units of each currency per one unit of the base currency (mid-market)
+  rates: Record<string, number>;
+  // Basis points taken off the mid rate, keyed "AAA/BBB" (either direction) with a "default"
+  spreads: Record<string, number>;
+  asOf: Date;
+}
+
+export interface IFxRateTableStatus {
+  base: string;
+  asOf: Date;
+  currencies: string[];
+  spreads: Record<string, number>;
+  loadedAt: Date;
+  source: string;
+}
+
+const DEFAULT_RATES_PATH = path.resolve(__dirname, '../../data/fx-rates.json');
+
+let table: IFxRateTable | null = null;
+let loadedAt: Date | null = null;
+let loadedFrom: string | null = null;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Check a rate table and return what is wrong with it; an empty list means it can be used
+ */
+export const validateFxRateTable = (input: any): string[] => {
+  const errors: string[] = [];
+  const supported = validationConfig.payment.supportedCurrencies;
+  const base = String(input?.base || '').toUpperCase();
+  if (!supported.includes(base)) errors.push('base must be a supported currency.');
+
+  const rates = input?.rates;
+  if (!rates || typeof rates !== 'object') {
+    errors.push('rates must be an object of currency to rate.');
+  } else {
+    Object.entries(rates).forEach(([currency, rate]) => {
+      if (!supported.includes(currency.toUpperCase())) errors.push(`rates.${currency}: unsupported currency.`);
+      else if (!isPositive(rate)) errors.push(`rates.${currency}: must be a positive number.`);
+    });
+    if (base && rates[base] !== undefined && rates[base] !== 1) errors.push(`rates.${base}: the base currency rate must be 1.`);
+  }
+
+  const spreads = input?.spreads ?? {};
+  if (typeof spreads !== 'object') {
+    errors.push('spreads must be an object of currency pair to basis points.');
+  } else {
+    Object.entries(spreads).forEach(([pair, bps]) => {
+      if (pair !== 'default' && !/^[A-Z]{3}\/[A-Z]{3}$/.test(pair)) errors.push(`spreads.${pair}: pairs are written AAA/BBB.`);
+      if (typeof bps !== 'number' || !Number.isFinite(bps) || bps < 0 || bps >= 10000) errors.push(`spreads.${pair}: must be 0-9999 basis points.`);
+    });
+  }
+
+  if (input?.asOf !== undefined && isNaN(new Date(input.asOf).getTime())) errors.push('asOf must be a date.');
+  return errors;
+};
+
+/**
+ * Replace the rate table in use. Throws with the validation errors if the table is unusable.
+ */
+export const setFxRateTable = (input: any, source: string): IFxRateTableStatus => {
+  const errors = validateFxRateTable(input);
+  if (errors.length > 0) throw new Error(`Invalid FX rate table: ${errors.join(' ')}`);
+
+  const base = String(input.base).toUpperCase();
+  const rates: Record<string, number> = { [base]: 1 };
+  Object.entries(input.rates as Record<string, number>).forEach(([currency, rate]) => { rates[currency.toUpperCase()] = rate; });
+
+  table = { base, rates, spreads: { ...(input.spreads || {}) }, asOf: input.asOf ? new Date(input.asOf) : new Date() };
+  loadedAt = new Date();
+  loadedFrom = source;
+  logger.info('FX rate table loaded:', { base, currencies: Object.keys(rates).length, asOf: table.asOf, source });
+  return getFxRateTableStatus()!;
+};
+
+/**
+ * Load (or reload) the rate table from disk. The previous table stays in place if the
+ * file cannot be read or is invalid.
+ */
+export const loadFxRates = (filePath: string = fxConfig.ratesPath || DEFAULT_RATES_PATH): IFxRateTableStatus => (
+  setFxRateTable(JSON.parse(fs.readFileSync(filePath, 'utf8')), filePath)
+);
+
+export const getFxRateTableStatus = (): IFxRateTableStatus | null => (table && loadedAt && loadedFrom ? {
+  base: table.base,
+  asOf: table.asOf,
+  currencies: Object.keys(table.rates),
+  spreads: table.spreads,
+  loadedAt,
+  source: loadedFrom,
+} : null);
+
+/**
+ * Mid-market rate: units of `to` per unit of `from`, crossed through the base currency.
+ * Null when either currency is missing from the table.
+ */
+export const midRate = (from: string, to: string): number | null => {
+  const fromRate = table?.rates[from];
+  const toRate = table?.rates[to];
+  return fromRate && toRate ? toRate / fromRate : null;
+};
+
+export const spreadBps = (from: string, to: string): number => {
+  const spreads = table?.spreads || {};
+  return spreads[`${from}/${to}`] ?? spreads[`${to}/${from}`] ?? spreads['default'] ?? 0;
+};
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { FxQuote, IFxQuote } from '../models/FxQuote';
+import { IPaymentFx } from '../models/Payment';
+import { User } from '../models/User';
+import { fxConfig, validationConfig } from '../config';
+import { getFxRateTableStatus, midRate, spreadBps } from './fxRates';
+import { currencyDecimals } from './pain001';
+import { logger } from './logger';
+
+export type FxErrorCode = 'INVALID_QUOTE_REQUEST' | 'RATE_UNAVAILABLE' | 'QUOTE_NOT_FOUND' | 'QUOTE_EXPIRED' | 'QUOTE_USED' | 'QUOTE_MISMATCH';
+
+export class FxError extends Error {
+  constructor(public readonly code: FxErrorCode, message: string) {
+    super(message);
+    this.name = 'FxError';
+  }
+
+  get statusCode(): number {
+    switch (this.code) {
+      case 'INVALID_QUOTE_REQUEST': return 400;
+      case 'QUOTE_NOT_FOUND': return 404;
+      case 'QUOTE_EXPIRED':
+      case 'QUOTE_USED': return 409;
+      case 'QUOTE_MISMATCH': return 422;
+      default: return 503;
+    }
+  }
+}
+
+export interface IQuoteRequest {
+  sourceCurrency?: string;
+  targetCurrency: string;
+  // Exactly one: what the customer spends, or what the recipient receives
+  sourceAmount?: number;
+  targetAmount?: number;
+}
+
+const roundTo = (amount: number, currency: string): number => {
+  const factor = 10 ** currencyDecimals(currency);
+  return Math.round(amount * factor) / factor;
+};
+
+export const accountCurrency = async (userId: string): Promise<string> => {
+  const user = await User.findById(userId);
+  return user?.accountCurrency || fxConfig.defaultAccountCurrency;
+};
+
+/**
+ * Price a conversion from the rate table and store it as a quote the customer can pay
+ * with until it expires. The source currency defaults to the customer's account currency.
+ */
+export const createQuote = async (userId: string, request: IQuoteRequest): Promise<IFxQuote> => {
+  const supported = validationConfig.payment.supportedCurrencies;
+  const sourceCurrency = String(request.sourceCurrency || await accountCurrency(userId)).toUpperCase();
+  const targetCurrency = String(request.targetCurrency || '').toUpperCase();
+  if (!supported.includes(sourceCurrency) || !supported.includes(targetCurrency)) {
+    throw new FxError('INVALID_QUOTE_REQUEST', 'Unsupported currency code.');
+  }
+  if (sourceCurrency === targetCurrency) {
+    throw new FxError('INVALID_QUOTE_REQUEST', 'Source and target currencies are the same; no conversion is needed.');
+  }
+  const amounts = [request.sourceAmount, request.targetAmount].filter(a => a !== undefined && a !== null);
+  if (amounts.length !== 1 || typeof amounts[0] !== 'number' || !Number.isFinite(amounts[0]) || amounts[0] <= 0) {
+    throw new FxError('INVALID_QUOTE_REQUEST', 'Give either sourceAmount or targetAmount as a positive number.');
+  }
+
+  const mid = midRate(sourceCurrency, targetCurrency);
+  const status = getFxRateTableStatus();
+  if (!mid || !status) throw new FxError('RATE_UNAVAILABLE', `No rate is available for ${sourceCurrency}/${targetCurrency}.`);
+
+  const spread = spreadBps(sourceCurrency, targetCurrency);
+  // The spread is taken off what the recipient gets for each unit spent
+  const rate = Number((mid * (1 - spread / 10000)).toPrecision(10));
+  const targetAmount = request.targetAmount !== undefined ? roundTo(request.targetAmount, targetCurrency) : roundTo(request.sourceAmount! * rate, targetCurrency);
+  // Round the customer's side up so the recipient is always covered
+  const sourceFactor = 10 ** currencyDecimals(sourceCurrency);
+  const sourceAmount = request.sourceAmount !== undefined
+    ? roundTo(request.sourceAmount, sourceCurrency)
+    : Math.ceil(Number(((targetAmount / rate) * sourceFactor).toFixed(6))) / sourceFactor;
+  if (targetAmount <= 0 || sourceAmount <= 0) throw new FxError('INVALID_QUOTE_REQUEST', 'The amount is too small to convert.');
+
+  const quote = await FxQuote.create({
+    quoteId: `FXQ-${crypto.randomBytes(12).toString('hex').toUpperCase()}`,
+    userId,
+    sourceCurrency,
+    targetCurrency,
+    sourceAmount,
+    targetAmount,
+    rate,
+    midRate: mid,
+    spreadBps: spread,
+    rateTableAsOf: status.asOf,
+    expiresAt: new Date(Date.now() + fxConfig.quoteTtlSeconds * 1000),
+  });
+  logger.info('FX quote issued:', { quoteId: quote.quoteId, userId, pair: `${sourceCurrency}/${targetCurrency}`, rate, spreadBps: spread });
+  return quote;
+};
+
+/**
+ * Take a quote for a payment so it cannot be used twice. The payment must be for the
+ * quoted target currency and amount.
+ */
+export const claimQuote = async (quoteId: string, userId: string, payment: { _id: unknown; amount: number; currency: string }): Promise<IPaymentFx> => {
+  const quote = await FxQuote.findOne({ quoteId, userId });
+  if (!quote) throw new FxError('QUOTE_NOT_FOUND', 'FX quote not found.');
+  if (quote.targetCurrency !== payment.currency || roundTo(payment.amount, payment.currency) !== quote.targetAmount) {
+    throw new FxError('QUOTE_MISMATCH', `The quote is for ${quote.targetAmount} ${quote.targetCurrency}; the payment must match it.`);
+  }
+
+  const claimed = await FxQuote.findOneAndUpdate(
+    { _id: quote._id, usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date(), paymentId: String(payment._id) } },
+    { new: true }
+  );
+  if (!claimed) {
+    const current = await FxQuote.findById(quote._id);
+    throw current?.usedAt
+      ? new FxError('QUOTE_USED', 'This FX quote has already been used.')
+      : new FxError('QUOTE_EXPIRED', 'This FX quote has expired; request a new one.');
+  }
+
+  return {
+    quoteId: claimed.quoteId,
+    sourceCurrency: claimed.sourceCurrency,
+    sourceAmount: claimed.sourceAmount,
+    targetAmount: claimed.targetAmount,
+    rate: claimed.rate,
+    midRate: claimed.midRate,
+    spreadBps: claimed.spreadBps,
+  };
+};
+
+// Make a quote usable again when the payment it was claimed for could not be created
+export const releaseQuote = async (quoteId: string, paymentId: string): Promise<void> => {
+  await FxQuote.updateOne({ quoteId, paymentId }, { $set: { usedAt: null, paymentId: null } });
+};
@@ -0,0 +1,170 @@
+import { IBAN_REGISTRY, IbanSegmentName, NationalCheckAlgorithm } from '../config/ibanRegistry';
+
+export type IbanFailureReason =
+  | 'MISSING'
+  | 'INVALID_CHARACTERS'
+  | 'UNKNOWN_COUNTRY'
+  | 'INVALID_LENGTH'
+  | 'INVALID_BBAN_FORMAT'
+  | 'INVALID_CHECKSUM'
+  | 'INVALID_NATIONAL_CHECK';
+
+export interface IIbanComponents {
+  iban: string;
+  country: string;
+  countryName: string;
+  checkDigits: string;
+  bban: string;
+  bankCode: string;
+  branchCode: string | null;
+  accountNumber: string;
+  nationalCheckDigits: string | null;
+}
+
+export type IbanParseResult =
+  | ({ valid: true } & IIbanComponents)
+  | { valid: false; reason: IbanFailureReason; message: string; country?: string };
+
+type SegmentType = 'n' | 'a' | 'c';
+
+interface IBbanSegment {
+  name: IbanSegmentName;
+  length: number;
+  type: SegmentType;
+  pattern: RegExp;
+}
+
+const SEGMENT_TYPES: Record<SegmentType, { chars: string; label: string }> = {
+  n: { chars: '[0-9]', label: 'digits' },
+  a: { chars: '[A-Z]', label: 'letters' },
+  c: { chars: '[A-Z0-9]', label: 'letters or digits' },
+};
+
+const parseSegments = (bban: string): IBbanSegment[] => bban.split(' ').map(spec => {
+  const [, name, length, type] = /^(\w+):(\d+)([nac])$/.exec(spec)!;
+  return {
+    name: name as IbanSegmentName,
+    length: Number(length),
+    type: type as SegmentType,
+    pattern: new RegExp(`^${SEGMENT_TYPES[type as SegmentType].chars}{${length}}$`),
+  };
+});
+
+// Segment layouts are compiled once from the registry
+const SEGMENTS = new Map(Object.entries(IBAN_REGISTRY).map(([country, spec]) => [country, parseSegments(spec.bban)]));
+
+/**
+ * ISO 7064 MOD 97-10 remainder of an alphanumeric string
+ * Letters are replaced with numbers (A=10, B=11, ..., Z=35)
+ */
+export const mod97 = (value: string): number => {
+  let numericString = '';
+  for (const char of value.toUpperCase()) {
+    if (char >= 'A' && char <= 'Z') {
+      numericString += (char.charCodeAt(0) - 55).toString();
+    } else {
+      numericString += char;
+    }
+  }
+
+  let remainder = 0;
+  for (let i = 0; i < numericString.length; i++) {
+    remainder = (remainder * 10 + parseInt(numericString[i] || '0')) % 97;
+  }
+
+  return remainder;
+};
+
+const digitSum = (digits: string, weights: number[]): number => Array.from(digits)
+  .reduce((sum, d, i) => sum + Number(d) * weights[i % weights.length]!, 0);
+
+// French RIB key: letters in the account map to digits before the weighted mod 97
+const ribDigits = (value: string): string => value.replace(/[A-Z]/g, ch => String('123456789123456789234567890'.charAt(ch.charCodeAt(0) - 65)));
+
+const spanishCheck = (digits: string): number => {
+  const rest = 11 - (digitSum(digits, [1, 2, 4, 8, 5, 10, 9, 7, 3, 6]) % 11);
+  return rest === 11 ? 0 : rest === 10 ? 1 : rest;
+};
+
+// Italian CIN: odd positions use a substitution table, even positions their plain value
+const CIN_ODD = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21, 2, 4, 18, 20, 11, 3, 6, 8, 12, 14, 16, 10, 22, 25, 24, 23];
+const cinValue = (ch: string): number => (/\d/.test(ch) ? Number(ch) : ch.charCodeAt(0) - 65);
+
+/**
+ * National check digits inside the BBAN, for countries that define them
+ */
+const NATIONAL_CHECKS: Record<NationalCheckAlgorithm, (bban: string) => boolean> = {
+  BE: bban => (Number(bban.slice(0, 10)) % 97 || 97) === Number(bban.slice(10)),
+  ES: bban => `${spanishCheck(`00${bban.slice(0, 8)}`)}${spanishCheck(bban.slice(10))}` === bban.slice(8, 10),
+  FR: bban => {
+    const digits = ribDigits(bban);
+    const key = 97 - ((89 * Number(digits.slice(0, 5)) + 15 * Number(digits.slice(5, 10)) + 3 * Number(digits.slice(10, 21))) % 97);
+    return key === Number(digits.slice(21));
+  },
+  IT: bban => {
+    const sum = Array.from(bban.slice(1)).reduce((acc, ch, i) => acc + (i % 2 === 0 ? CIN_ODD[cinValue(ch)]! : cinValue(ch)), 0);
+    return String.fromCharCode(65 + (sum % 26)) === bban[0];
+  },
+  NO: bban => {
+    const rest = 11 - (digitSum(bban.slice(0, 10), [5, 4, 3, 2, 7, 6, 5, 4, 3, 2]) % 11);
+    return rest !== 10 && (rest === 11 ? 0 : rest) === Number(bban[10]);
+  },
+  MOD97_10: bban => 98 - mod97(`${bban.slice(0, -2)}00`) === Number(bban.slice(-2)),
+};
+
+const fail = (reason: IbanFailureReason, message: string, country?: string): IbanParseResult => (
+  country ? { valid: false, reason, message, country } : { valid: false, reason, message }
+);
+
+/**
+ * Validate an IBAN against the country registry and split it into its components.
+ * Checks, in order: characters, country, length, BBAN structure, the IBAN check digits
+ * and, where the country defines them, the national check digits.
+ */
+export const parseIBAN = (input: string | null | undefined): IbanParseResult => {
+  const iban = String(input ?? '').replace(/\s/g, '').toUpperCase();
+  if (!iban) return fail('MISSING', 'IBAN is required.');
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]+$/.test(iban)) {
+    return fail('INVALID_CHARACTERS', 'An IBAN starts with a country code and two check digits, followed by letters and digits only.');
+  }
+
+  const country = iban.slice(0, 2);
+  const spec = IBAN_REGISTRY[country];
+  const segments = SEGMENTS.get(country);
+  if (!spec || !segments) return fail('UNKNOWN_COUNTRY', `${country} does not issue IBANs.`, country);
+  if (iban.length !== spec.length) {
+    return fail('INVALID_LENGTH', `${spec.name} IBANs are ${spec.length} characters long, got ${iban.length}.`, country);
+  }
+
+  const bban = iban.slice(4);
+  const parts: Partial<Record<IbanSegmentName, string>> = {};
+  let offset = 0;
+  for (const segment of segments) {
+    const value = bban.slice(offset, offset + segment.length);
+    if (!segment.pattern.test(value)) {
+      return fail('INVALID_BBAN_FORMAT', `The ${segment.name} segment of a ${spec.name} IBAN must be ${segment.length} ${SEGMENT_TYPES[segment.type].label}.`, country);
+    }
+    parts[segment.name] = (parts[segment.name] || '') + value;
+    offset += segment.length;
+  }
+
+  if (mod97(bban + iban.slice(0, 4)) !== 1) {
+    return fail('INVALID_CHECKSUM', 'The IBAN check digits do not match; please check for typos.', country);
+  }
+  if (spec.nationalCheck && !NATIONAL_CHECKS[spec.nationalCheck](bban)) {
+    return fail('INVALID_NATIONAL_CHECK', `The ${spec.name} national check digits do not match the account details.`, country);
+  }
+
+  return {
+    valid: true,
+    iban,
+    country,
+    countryName: spec.name,
+    checkDigits: iban.slice(2, 4),
+    bban,
+    bankCode: parts.bank || '',
+    branchCode: parts.branch || null,
+    accountNumber: parts.account || '',
+    nationalCheckDigits: parts.check || null,
+  };
+};
@@ -0,0 +1,364 @@
+import { LedgerAccount, ILedgerAccount, LedgerAccountType } from '../models/LedgerAccount';
+import { LedgerHold, ILedgerHold } from '../models/LedgerHold';
+import { JournalEntry, IJournalEntry, IJournalLine } from '../models/JournalEntry';
+import { ledgerConfig } from '../config';
+import { ITransaction } from '../types';
+import { logger } from './logger';
+
+export type LedgerErrorCode = 'INSUFFICIENT_FUNDS' | 'INVALID_AMOUNT';
+
+export class LedgerError extends Error {
+  constructor(public readonly code: LedgerErrorCode, message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+
+  get statusCode(): number {
+    return 422;
+  }
+}
+
+export interface ILedgerPaymentRef {
+  _id: unknown;
+  userId: string;
+  amount: number;
+  currency: string;
+  // Converted payments are funded in the source currency
+  fx?: { sourceAmount: number; sourceCurrency: string } | null;
+  // In the funding currency; reserved on top of the amount unless deducted from it
+  fees?: { total: number; deductedFromAmount: boolean; lines: Array<{ description: string; amount: number }> } | null;
+}
+
+export interface IAccountBalance {
+  currency: string;
+  balance: number;
+  heldAmount: number;
+  availableBalance: number;
+}
+
+export interface ITrialBalanceReport {
+  balanced: boolean;
+  checkedAt: Date;
+  currencies: Array<{ currency: string; debits: number; credits: number }>;
+  mismatchedAccounts: Array<{ accountId: string; currency: string; stored: number; fromJournal: number }>;
+  mismatchedHolds: Array<{ accountId: string; currency: string; stored: number; fromHolds: number }>;
+}
+
+export const toMinor = (amount: number): number => Math.round(amount * 100);
+export const fromMinor = (amountMinor: number): number => amountMinor / 100;
+
+const getOrCreateAccount = async (ownerId: string, type: LedgerAccountType, currency: string): Promise<ILedgerAccount> => {
+  const account = await LedgerAccount.findOneAndUpdate(
+    { ownerId, type, currency },
+    { $setOnInsert: { ownerId, type, currency, balanceMinor: 0, heldMinor: 0 } },
+    { new: true, upsert: true }
+  );
+  return account!;
+};
+
+const line = (account: ILedgerAccount, direction: 'debit' | 'credit', amountMinor: number, memo?: string): IJournalLine => ({
+  accountId: String(account._id),
+  ownerId: account.ownerId,
+  accountType: account.type,
+  direction,
+  amountMinor,
+  currency: account.currency,
+  ...(memo && { memo }),
+});
+
+/**
+ * Write a journal entry and apply its lines to the account balances.
+ * Balances follow credit-minus-debit, so a customer's deposits increase their balance.
+ */
+const postEntry = async (entry: Pick<IJournalEntry, 'kind' | 'description' | 'lines' | 'createdBy'> & { paymentId?: string | null; holdId?: string | null }): Promise<IJournalEntry> => {
+  const created = await JournalEntry.create(entry);
+  for (const l of entry.lines) {
+    const delta = l.direction === 'credit' ? l.amountMinor : -l.amountMinor;
+    await LedgerAccount.updateOne({ _id: l.accountId }, { $inc: { balanceMinor: delta } });
+  }
+  return created;
+};
+
+/**
+ * Reserve funds for a payment. Throws INSUFFICIENT_FUNDS unless overdrafts are allowed.
+ */
+export const placeHold = async (payment: ILedgerPaymentRef): Promise<ILedgerHold> => {
+  const currency = payment.fx?.sourceCurrency || payment.currency;
+  const feeMinor = toMinor(payment.fees?.total || 0);
+  const feesDeducted = !!payment.fees?.deductedFromAmount;
+  const amountMinor = toMinor(payment.fx?.sourceAmount ?? payment.amount) + (feesDeducted ? 0 : feeMinor);
+  if (!Number.isFinite(amountMinor) || amountMinor <= 0) {
+    throw new LedgerError('INVALID_AMOUNT', 'Hold amount must be positive.');
+  }
+
+  const account = await getOrCreateAccount(payment.userId, 'customer', currency);
+  const filter: any = { _id: account._id };
+  if (!ledgerConfig.allowOverdraft) {
+    filter['$expr'] = { $gte: [{ $subtract: ['$balanceMinor', '$heldMinor'] }, amountMinor] };
+  }
+
+  const reserved = await LedgerAccount.findOneAndUpdate(filter, { $inc: { heldMinor: amountMinor } }, { new: true });
+  if (!reserved) {
+    throw new LedgerError('INSUFFICIENT_FUNDS', `Insufficient available balance in ${currency}.`);
+  }
+
+  try {
+    return await LedgerHold.create({
+      accountId: String(account._id),
+      ownerId: payment.userId,
+      paymentId: String(payment._id),
+      currency,
+      amountMinor,
+      feeMinor,
+      feesDeducted,
+    });
+  } catch (error) {
+    await LedgerAccount.updateOne({ _id: account._id }, { $inc: { heldMinor: -amountMinor } });
+    throw error;
+  }
+};
+
+/**
+ * Release an active hold (payment rejected or cancelled). No-op when nothing is held.
+ */
+export const releaseHold = async (payment: ILedgerPaymentRef): Promise<void> => {
+  const hold = await LedgerHold.findOneAndUpdate(
+    { paymentId: String(payment._id), status: 'active' },
+    { $set: { status: 'released', releasedAt: new Date() } },
+    { new: true }
+  );
+  if (!hold) return;
+
+  await LedgerAccount.updateOne({ _id: hold.accountId }, { $inc: { heldMinor: -hold.amountMinor } });
+};
+
+/**
+ * Post the customer debit for a validated payment, consuming its hold.
+ * Payments created before the ledger existed have no hold, so one is placed first.
+ */
+export const captureHold = async (payment: ILedgerPaymentRef, actorId: string): Promise<IJournalEntry | null> => {
+  const paymentId = String(payment._id);
+  let hold = await LedgerHold.findOneAndUpdate(
+    { paymentId, status: 'active' },
+    { $set: { status: 'captured', capturedAt: new Date() } },
+    { new: true }
+  );
+
+  if (!hold) {
+    const existing = await LedgerHold.findOne({ paymentId });
+    if (existing?.status === 'captured') return null;
+    if (existing) await LedgerHold.deleteOne({ _id: existing._id });
+    await placeHold(payment);
+    hold = await LedgerHold.findOneAndUpdate(
+      { paymentId, status: 'active' },
+      { $set: { status: 'captured', capturedAt: new Date() } },
+      { new: true }
+    );
+    if (!hold) return null;
+  }
+
+  const customer = await getOrCreateAccount(hold.ownerId, 'customer', hold.currency);
+  const clearing = await getOrCreateAccount(ledgerConfig.bankOwnerId, 'clearing', hold.currency);
+
+  // Fees are posted to fee income as their own lines: charged on top of the amount, or deducted from it (BEN)
+  const feeMinor = hold.feeMinor || 0;
+  const principalMinor = hold.feesDeducted ? hold.amountMinor : hold.amountMinor - feeMinor;
+  const lines = [line(customer, 'debit', principalMinor)];
+  if (feeMinor > 0) {
+    const feeIncome = await getOrCreateAccount(ledgerConfig.bankOwnerId, 'fee_income', hold.currency);
+    if (!hold.feesDeducted) {
+      const feeLines = (payment.fees?.lines || []).filter(f => toMinor(f.amount) > 0);
+      const itemised = feeLines.reduce((sum, f) => sum + toMinor(f.amount), 0) === feeMinor;
+      lines.push(...(itemised
+        ? feeLines.map(f => line(customer, 'debit', toMinor(f.amount), `Fee: ${f.description}`))
+        : [line(customer, 'debit', feeMinor, 'Payment fees')]));
+    }
+    lines.push(line(feeIncome, 'credit', feeMinor));
+  }
+  lines.push(line(clearing, 'credit', hold.feesDeducted ? principalMinor - feeMinor : principalMinor));
+
+  const entry = await postEntry({
+    kind: 'payment',
+    paymentId,
+    holdId: String(hold._id),
+    description: `Outgoing payment ${paymentId}`,
+    lines,
+    createdBy: actorId,
+  });
+
+  await LedgerAccount.updateOne({ _id: customer._id }, { $inc: { heldMinor: -hold.amountMinor } });
+  hold.journalEntryId = String(entry._id);
+  await hold.save();
+
+  return entry;
+};
+
+/**
+ * Undo a capture whose payment could not be saved. Journal entries are immutable, so a
+ * reversal entry with the lines flipped is posted and the hold is marked released; validating
+ * the payment again places and captures a new hold.
+ */
+export const reverseCapture = async (payment: ILedgerPaymentRef, actorId: string): Promise<IJournalEntry | null> => {
+  const paymentId = String(payment._id);
+  const hold = await LedgerHold.findOne({ paymentId, status: 'captured' });
+  if (!hold?.journalEntryId) return null;
+
+  const captured = await JournalEntry.findById(hold.journalEntryId);
+  if (!captured) return null;
+
+  const flipped: Record<IJournalLine['direction'], IJournalLine['direction']> = { debit: 'credit', credit: 'debit' };
+  const entry = await postEntry({
+    kind: 'reversal',
+    paymentId,
+    holdId: String(hold._id),
+    description: `Reversal of outgoing payment ${paymentId}`,
+    lines: captured.lines.map(l => ({
+      accountId: l.accountId,
+      ownerId: l.ownerId,
+      accountType: l.accountType,
+      direction: flipped[l.direction],
+      amountMinor: l.amountMinor,
+      currency: l.currency,
+    })),
+    createdBy: actorId,
+  });
+
+  // The capture already took the amount off heldMinor, so only the hold record changes
+  await LedgerHold.updateOne({ _id: hold._id, status: 'captured' }, { $set: { status: 'released', releasedAt: new Date() } });
+  return entry;
+};
+
+/**
+ * Credit a customer account from the bank's funding account
+ */
+export const recordDeposit = async (userId: string, currency: string, amount: number, actorId: string, description?: string): Promise<IJournalEntry> => {
+  const amountMinor = toMinor(amount);
+  if (!Number.isFinite(amountMinor) || amountMinor <= 0) {
+    throw new LedgerError('INVALID_AMOUNT', 'Deposit amount must be positive.');
+  }
+
+  const funding = await getOrCreateAccount(ledgerConfig.bankOwnerId, 'funding', currency);
+  const customer = await getOrCreateAccount(userId, 'customer', currency);
+
+  return postEntry({
+    kind: 'deposit',
+    description: description || `Deposit to ${currency} account`,
+    lines: [line(funding, 'debit', amountMinor), line(customer, 'credit', amountMinor)],
+    createdBy: actorId,
+  });
+};
+
+export const getBalances = async (userId: string, currency?: string): Promise<IAccountBalance[]> => {
+  const filter: any = { ownerId: userId, type: 'customer' };
+  if (currency) filter.currency = currency.toUpperCase();
+  const accounts = await LedgerAccount.find(filter).sort({ currency: 1 });
+  return accounts.map(a => ({
+    currency: a.currency,
+    balance: fromMinor(a.balanceMinor),
+    heldAmount: fromMinor(a.heldMinor),
+    availableBalance: fromMinor(a.balanceMinor - a.heldMinor),
+  }));
+};
+
+/**
+ * Customer-facing view of ledger activity: posted journal lines plus pending holds
+ */
+export const getAccountActivity = async (userId: string, limit: number = 50): Promise<ITransaction[]> => {
+  const entries = await JournalEntry.find({ 'lines.ownerId': userId }).sort({ createdAt: -1 }).limit(limit);
+  const holds = await LedgerHold.find({ ownerId: userId, status: 'active' }).sort({ createdAt: -1 }).limit(limit);
+
+  const posted: ITransaction[] = entries.flatMap(e => e.lines
+    .filter(l => l.ownerId === userId && l.accountType === 'customer')
+    .map(l => ({
+      userId,
+      paymentId: e.paymentId || '',
+      type: l.direction,
+      amount: fromMinor(l.amountMinor),
+      currency: l.currency,
+      description: l.memo || e.description,
+      status: 'completed' as const,
+      createdAt: e.createdAt,
+    })));
+  const pending: ITransaction[] = holds.map(h => ({
+    userId,
+    paymentId: h.paymentId,
+    type: 'debit' as const,
+    amount: fromMinor(h.amountMinor),
+    currency: h.currency,
+    description: `Hold for payment ${h.paymentId}`,
+    status: 'pending' as const,
+    createdAt: h.createdAt,
+  }));
+
+  return [...pending, ...posted]
+    .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+    .slice(0, limit);
+};
+
+/**
+ * Verify that debits equal credits per currency and that stored account
+ * balances and holds agree with the journal and hold records.
+ */
+export const runTrialBalance = async (): Promise<ITrialBalanceReport> => {
+  const totals = await JournalEntry.aggregate([
+    { $unwind: '$lines' },
+    {
+      $group: {
+        _id: '$lines.currency',
+        debits: { $sum: { $cond: [{ $eq: ['$lines.direction', 'debit'] }, '$lines.amountMinor', 0] } },
+        credits: { $sum: { $cond: [{ $eq: ['$lines.direction', 'credit'] }, '$lines.amountMinor', 0] } },
+      },
+    },
+    { $sort: { _id: 1 } },
+  ]);
+
+  const perAccount = await JournalEntry.aggregate([
+    { $unwind: '$lines' },
+    {
+      $group: {
+        _id: '$lines.accountId',
+        net: { $sum: { $cond: [{ $eq: ['$lines.direction', 'credit'] }, '$lines.amountMinor', { $multiply: ['$lines.amountMinor', -1] }] } },
+      },
+    },
+  ]);
+  const activeHolds = await LedgerHold.aggregate([
+    { $match: { status: 'active' } },
+    { $group: { _id: '$accountId', total: { $sum: '$amountMinor' } } },
+  ]);
+
+  const journalNet = new Map<string, number>(perAccount.map(a => [String(a._id), a.net]));
+  const holdTotals = new Map<string, number>(activeHolds.map(h => [String(h._id), h.total]));
+  const accounts = await LedgerAccount.find({});
+
+  const report: ITrialBalanceReport = {
+    balanced: true,
+    checkedAt: new Date(),
+    currencies: totals.map(t => ({ currency: t._id, debits: fromMinor(t.debits), credits: fromMinor(t.credits) })),
+    mismatchedAccounts: [],
+    mismatchedHolds: [],
+  };
+
+  for (const account of accounts) {
+    const id = String(account._id);
+    const fromJournal = journalNet.get(id) || 0;
+    if (fromJournal !== account.balanceMinor) {
+      report.mismatchedAccounts.push({ accountId: id, currency: account.currency, stored: fromMinor(account.balanceMinor), fromJournal: fromMinor(fromJournal) });
+    }
+    const fromHolds = holdTotals.get(id) || 0;
+    if (fromHolds !== account.heldMinor) {
+      report.mismatchedHolds.push({ accountId: id, currency: account.currency, stored: fromMinor(account.heldMinor), fromHolds: fromMinor(fromHolds) });
+    }
+  }
+
+  report.balanced = totals.every(t => t.debits === t.credits)
+    && report.mismatchedAccounts.length === 0
+    && report.mismatchedHolds.length === 0;
+
+  if (report.balanced) {
+    logger.info('Trial balance check passed', { currencies: report.currencies.length, accounts: accounts.length });
+  } else {
+    logger.error('Trial balance check FAILED', report);
+  }
+
+  return report;
+};
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User, IUserDocument } from '../models/User';
+import { mfaConfig, securityConfig } from '../config';
+import { decryptSecret, encryptSecret } from './encryption';
+import { base32Encode, generateTotpSecret, totpUri, verifyTotp } from './totp';
+
+export type MfaErrorCode =
+  | 'INVALID_MFA_TOKEN'
+  | 'INVALID_MFA_CODE'
+  | 'MFA_NOT_ENABLED'
+  | 'MFA_ALREADY_ENABLED'
+  | 'MFA_SETUP_NOT_STARTED'
+  | 'MFA_REQUIRED_FOR_ROLE';
+
+export class MfaError extends Error {
+  constructor(public readonly code: MfaErrorCode, message: string) {
+    super(message);
+    this.name = 'MfaError';
+  }
+
+  get statusCode(): number {
+    switch (this.code) {
+      case 'INVALID_MFA_TOKEN':
+      case 'INVALID_MFA_CODE': return 401;
+      case 'MFA_REQUIRED_FOR_ROLE': return 403;
+      case 'MFA_ALREADY_ENABLED': return 409;
+      default: return 400;
+    }
+  }
+}
+
+// mfa_login: password checked, code still needed. mfa_enroll: password checked, MFA must be set up first.
+export type MfaChallengePurpose = 'mfa_login' | 'mfa_enroll';
+
+// Derived from the JWT secret so a challenge token can never pass as an access token
+const challengeKey = (): Buffer => crypto.createHmac('sha256', securityConfig.jwtSecret).update('mfa-challenge').digest();
+
+export const isMfaRequired = (user: Pick<IUserDocument, 'role'>): boolean => mfaConfig.requiredRoles.includes(user.role);
+
+export const issueMfaChallenge = (userId: string, purpose: MfaChallengePurpose): string => (
+  jwt.sign({ userId, purpose }, challengeKey(), { expiresIn: mfaConfig.challengeExpiresIn as any })
+);
+
+/**
+ * The user ID a challenge token was issued to, if it is valid and for this step
+ */
+export const verifyMfaChallenge = (token: string, purpose: MfaChallengePurpose): string => {
+  try {
+    const decoded = jwt.verify(token, challengeKey()) as { userId?: string; purpose?: string };
+    if (decoded.purpose !== purpose || !decoded.userId) throw new Error('Wrong challenge purpose');
+    return decoded.userId;
+  } catch {
+    throw new MfaError('INVALID_MFA_TOKEN', 'Your login attempt has expired. Please log in again.');
+  }
+};
+
+// Recovery codes are random and long, so an unsalted hash is enough; compared without dashes or case
+const hashRecoveryCode = (code: string): string => (
+  crypto.createHash('sha256').update(code.toUpperCase().replace(/[^A-Z0-9]/g, '')).digest('hex')
+);
+
+const generateRecoveryCodes = (): string[] => (
+  Array.from({ length: mfaConfig.recoveryCodeCount }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  })
+);
+
+/**
+ * Start (or restart) enrolment: a new secret is stored as pending until a code from it is confirmed
+ */
+export const startMfaEnrollment = async (user: IUserDocument): Promise<{ secret: string; otpauthUri: string }> => {
+  if (user.mfaEnabled) {
+    throw new MfaError('MFA_ALREADY_ENABLED', 'Two-factor authentication is already enabled.');
+  }
+  const secret = generateTotpSecret();
+  await User.updateById(user.id!, { mfaPendingSecret: encryptSecret(secret) });
+  return { secret, otpauthUri: totpUri(secret, user.email, mfaConfig.issuer) };
+};
+
+/**
+ * Confirm enrolment with a code from the pending secret. Returns the recovery codes, which are
+ * only ever shown this once.
+ */
+export const confirmMfaEnrollment = async (user: IUserDocument, code: string): Promise<string[]> => {
+  if (user.mfaEnabled) {
+    throw new MfaError('MFA_ALREADY_ENABLED', 'Two-factor authentication is already enabled.');
+  }
+  if (!user.mfaPendingSecret) {
+    throw new MfaError('MFA_SETUP_NOT_STARTED', 'Start two-factor setup before confirming a code.');
+  }
+  const step = verifyTotp(decryptSecret(user.mfaPendingSecret), code);
+  if (step === null) {
+    throw new MfaError('INVALID_MFA_CODE', 'Invalid authentication code.');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateById(user.id!, {
+    mfaEnabled: true,
+    mfaSecret: user.mfaPendingSecret,
+    mfaPendingSecret: null,
+    mfaRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    mfaLastUsedStep: step,
+    mfaEnabledAt: new Date(),
+  });
+  return recoveryCodes;
+};
+
+/**
+ * Check an authenticator code or, failing that, a recovery code (which is then used up).
+ * Returns which one matched. The check runs against the stored user inside the transaction
+ * that records the use, so two concurrent requests cannot both accept the same code.
+ */
+export const verifySecondFactor = async (
+  user: IUserDocument,
+  factor: { code?: string | undefined; recoveryCode?: string | undefined }
+): Promise<'totp' | 'recovery_code'> => {
+  if (!user.mfaEnabled || !user.mfaSecret) {
+    throw new MfaError('MFA_NOT_ENABLED', 'Two-factor authentication is not enabled.');
+  }
+
+  if (factor.code) {
+    const code = factor.code;
+    const accepted = await User.updateInTransaction(user.id!, (stored) => {
+      if (!stored.mfaEnabled || !stored.mfaSecret) return null;
+      const step = verifyTotp(decryptSecret(stored.mfaSecret), code, stored.mfaLastUsedStep ?? null);
+      return step === null ? null : { mfaLastUsedStep: step };
+    });
+    if (accepted) return 'totp';
+  } else if (factor.recoveryCode) {
+    const hash = hashRecoveryCode(factor.recoveryCode);
+    const accepted = await User.updateInTransaction(user.id!, (stored) => {
+      const codes = stored.mfaRecoveryCodes || [];
+      return stored.mfaEnabled && codes.includes(hash) ? { mfaRecoveryCodes: codes.filter(c => c !== hash) } : null;
+    });
+    if (accepted) return 'recovery_code';
+  }
+  throw new MfaError('INVALID_MFA_CODE', 'Invalid authentication code.');
+};
+
+export const regenerateRecoveryCodes = async (user: IUserDocument, code: string): Promise<string[]> => {
+  await verifySecondFactor(user, { code });
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateById(user.id!, { mfaRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+};
+
+export const disableMfa = async (user: IUserDocument, code: string): Promise<void> => {
+  if (isMfaRequired(user)) {
+    throw new MfaError('MFA_REQUIRED_FOR_ROLE', 'Two-factor authentication is mandatory for this account.');
+  }
+  await verifySecondFactor(user, { code });
+  await User.updateById(user.id!, {
+    mfaEnabled: false,
+    mfaSecret: null,
+    mfaPendingSecret: null,
+    mfaRecoveryCodes: [],
+    mfaLastUsedStep: null,
+    mfaEnabledAt: null,
+  });
+};
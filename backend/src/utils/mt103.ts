@@ -0,0 +1,139 @@
+import { IPayment } from '../models/Payment';
+import { currencyDecimals } from './pain001';
+
+export type Mt103ChargeBearer = 'OUR' | 'SHA' | 'BEN';
+
+export type Mt103Payment = Pick<IPayment, 'recipientName' | 'recipientIBAN' | 'recipientSWIFT' | 'amount' | 'currency' | 'reference' | 'transactionId'> & {
+  _id: unknown;
+  processedAt?: Date | null | undefined;
+};
+
+export interface IMt103Options {
+  senderBIC: string;
+  orderingCustomer: { account: string; name: string; addressLines?: string[] };
+  beneficiaryAddressLines?: string[];
+  chargeBearer?: Mt103ChargeBearer;
+  // BEN charges taken from the amount: 32A carries what is settled, 33B the instructed amount, 71F each charge
+  deductedCharges?: { settlementAmount: number; charges: Array<{ amount: number; currency: string }> };
+  // Defaults to the payment's processedAt, then today
+  valueDate?: Date;
+}
+
+// Characters SWIFT FIN accepts in x-type fields, besides CrLf
+const X_CHARSET = /[A-Za-z0-9/\-?:().,'+ ]/;
+
+const TRANSLITERATIONS: Record<string, string> = {
+  'ß': 'ss', 'Æ': 'AE', 'æ': 'ae', 'Ø': 'O', 'ø': 'o', 'Œ': 'OE', 'œ': 'oe',
+  'Đ': 'D', 'đ': 'd', 'Ł': 'L', 'ł': 'l', 'Þ': 'TH', 'þ': 'th', 'Ð': 'D', 'ð': 'd',
+  '&': '+', '@': '(AT)', '"': "'", '`': "'", '_': '-', ';': ',', '!': '.',
+  '[': '(', ']': ')', '{': '(', '}': ')', '<': '(', '>': ')', '\\': '/', '|': '/',
+};
+
+/**
+ * Map free text onto the SWIFT X character set: diacritics are stripped, common
+ * symbols are substituted and anything else becomes '.'
+ */
+export const toSwiftCharset = (value: string): string => Array.from(
+  String(value ?? '').replace(/\s+/g, ' ').trim()
+).map(ch => {
+  if (X_CHARSET.test(ch)) return ch;
+  const mapped = TRANSLITERATIONS[ch];
+  if (mapped !== undefined) return mapped;
+  const base = ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  if (base && Array.from(base).every(c => X_CHARSET.test(c))) return base;
+  return '.';
+}).join('');
+
+/**
+ * Word-wrap text into at most `maxLines` lines of `width` characters. Words longer than
+ * a line are split, overflow is dropped, and no line may start with ':' or '-' since
+ * those would be read as a field tag or the end of block 4.
+ */
+export const wrapSwiftLines = (value: string, width: number = 35, maxLines: number = 4): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of toSwiftCharset(value).split(' ').filter(Boolean)) {
+    let rest = word;
+    if (current && current.length + 1 + rest.length <= width) {
+      current += ` ${rest}`;
+      continue;
+    }
+    if (current) lines.push(current);
+    while (rest.length > width) {
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    current = rest;
+  }
+  if (current) lines.push(current);
+
+  return lines.slice(0, maxLines).map(l => l.replace(/^[:-]/, '.'));
+};
+
+/**
+ * Field 20 allows 16x. Transaction IDs are TX + YYYYMMDD + sequence + check digits (20
+ * characters), so the prefix and century are dropped, keeping YYMMDD + sequence + check.
+ */
+export const mt103Reference = (payment: Pick<Mt103Payment, '_id' | 'transactionId'>): string => {
+  const source = payment.transactionId && /^TX\d{18}$/.test(payment.transactionId)
+    ? payment.transactionId.slice(4)
+    : String(payment._id).slice(-16).toUpperCase();
+  return toSwiftCharset(source).replace(/\/+/g, '').slice(0, 16);
+};
+
+// SWIFT amounts use a decimal comma, which is mandatory even without decimals
+export const formatSwiftAmount = (amount: number, currency: string): string => {
+  const decimals = currencyDecimals(currency);
+  const fixed = amount.toFixed(decimals).replace('.', ',');
+  return decimals === 0 ? `${fixed},` : fixed;
+};
+
+const swiftDate = (date: Date): string => date.toISOString().slice(2, 10).replace(/-/g, '');
+
+// Logical terminal address: BIC8 + terminal code + branch (XXX when absent)
+const logicalTerminal = (bic: string, terminal: string = 'A'): string => {
+  const clean = bic.replace(/\s/g, '').toUpperCase();
+  return `${clean.slice(0, 8)}${terminal}${(clean.slice(8) || 'XXX').padEnd(3, 'X')}`;
+};
+
+const field = (tag: string, lines: string[]): string => `:${tag}:${lines.join('\r\n')}`;
+
+/**
+ * Render a payment as an MT103 single customer credit transfer (blocks 1, 2 and 4).
+ * Lines are CrLf separated as required by FIN.
+ */
+export const formatMt103 = (payment: Mt103Payment, options: IMt103Options): string => {
+  const valueDate = options.valueDate || payment.processedAt || new Date();
+  const iban = payment.recipientIBAN.replace(/\s/g, '').toUpperCase();
+  const bic = payment.recipientSWIFT.replace(/\s/g, '').toUpperCase();
+  const account = toSwiftCharset(options.orderingCustomer.account).replace(/\s/g, '').slice(0, 34);
+  const deducted = options.chargeBearer === 'BEN' ? options.deductedCharges : undefined;
+
+  const orderingLines = wrapSwiftLines(options.orderingCustomer.name, 35, 4);
+  for (const addressLine of options.orderingCustomer.addressLines || []) {
+    orderingLines.push(...wrapSwiftLines(addressLine, 35, 1));
+  }
+  const beneficiaryLines = wrapSwiftLines(payment.recipientName, 35, 4);
+  for (const addressLine of options.beneficiaryAddressLines || []) {
+    beneficiaryLines.push(...wrapSwiftLines(addressLine, 35, 1));
+  }
+
+  const block4 = [
+    field('20', [mt103Reference(payment)]),
+    field('23B', ['CRED']),
+    field('32A', [`${swiftDate(valueDate)}${payment.currency}${formatSwiftAmount(deducted ? deducted.settlementAmount : payment.amount, payment.currency)}`]),
+    ...(deducted ? [field('33B', [`${payment.currency}${formatSwiftAmount(payment.amount, payment.currency)}`])] : []),
+    field('50K', [`/${account}`, ...orderingLines.slice(0, 4)]),
+    field('57A', [bic]),
+    field('59', [`/${iban}`, ...beneficiaryLines.slice(0, 4)]),
+    field('70', wrapSwiftLines(payment.reference, 35, 4)),
+    field('71A', [options.chargeBearer || 'SHA']),
+    ...(deducted ? deducted.charges.map(c => field('71F', [`${c.currency}${formatSwiftAmount(c.amount, c.currency)}`])) : []),
+  ];
+
+  return [
+    `{1:F01${logicalTerminal(options.senderBIC)}0000000000}`,
+    `{2:I103${logicalTerminal(payment.recipientSWIFT, 'X')}N}`,
+    `{4:\r\n${block4.join('\r\n')}\r\n-}`,
+  ].join('');
+};
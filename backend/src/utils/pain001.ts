@@ -0,0 +1,127 @@
+import { el, renderXml, XmlNode } from './xml';
+
+export const PAIN001_NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.09';
+
+// ISO 4217 currencies without minor units among those we support
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW'];
+
+export const currencyDecimals = (currency: string): number => (ZERO_DECIMAL_CURRENCIES.includes(currency) ? 0 : 2);
+
+export const formatIsoAmount = (amount: number, currency: string): string => amount.toFixed(currencyDecimals(currency));
+
+/**
+ * Trim to an ISO 20022 MaxNText length, collapsing whitespace. Never returns an empty string.
+ */
+export const isoText = (value: string | null | undefined, max: number, fallback: string = 'NOTPROVIDED'): string => {
+  const text = Array.from(String(value ?? '').replace(/\s+/g, ' ').trim()).slice(0, max).join('').trim();
+  return text || fallback;
+};
+
+// ISO 20022 ISODateTime without milliseconds
+const isoDateTime = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+export interface IPain001Transaction {
+  instructionId: string;
+  endToEndId: string;
+  amount: number;
+  currency: string;
+  creditorName: string;
+  creditorIBAN: string;
+  creditorBIC: string;
+  creditorAddress?: string;
+  creditorCity?: string;
+  creditorCountry?: string;
+  remittanceInformation: string;
+  purpose?: string;
+  // DEBT, CRED, SHAR or SLEV (service level, required for SEPA)
+  chargeBearer?: string;
+}
+
+export interface IPain001PaymentInfo {
+  paymentInfoId: string;
+  requestedExecutionDate: Date;
+  currency: string;
+  debtorName: string;
+  debtorAccountId: string;
+  debtorAgentBIC: string;
+  transactions: IPain001Transaction[];
+}
+
+export interface IPain001Message {
+  messageId: string;
+  createdAt: Date;
+  initiatingPartyName: string;
+  paymentInfos: IPain001PaymentInfo[];
+}
+
+const sumAmounts = (amounts: Array<{ amount: number; currency: string }>): string => {
+  // CtrlSum is a plain decimal across currencies; sum in minor units to avoid float drift
+  const cents = amounts.reduce((sum, a) => sum + Math.round(a.amount * 100), 0);
+  return (cents / 100).toFixed(2);
+};
+
+const creditorAddress = (tx: IPain001Transaction): XmlNode | null => {
+  const country = (tx.creditorCountry || '').trim().toUpperCase();
+  const hasCountryCode = /^[A-Z]{2}$/.test(country);
+  if (!tx.creditorAddress && !tx.creditorCity && !country) return null;
+  return el('PstlAdr', [
+    tx.creditorCity ? el('TwnNm', isoText(tx.creditorCity, 35)) : null,
+    hasCountryCode ? el('Ctry', country) : null,
+    tx.creditorAddress ? el('AdrLine', isoText(tx.creditorAddress, 70)) : null,
+    // Free-text country names that are not ISO codes are kept as an address line
+    !hasCountryCode && country ? el('AdrLine', isoText(tx.creditorCountry, 70)) : null,
+  ]);
+};
+
+const creditTransfer = (tx: IPain001Transaction): XmlNode => el('CdtTrfTxInf', [
+  el('PmtId', [
+    el('InstrId', isoText(tx.instructionId, 35)),
+    el('EndToEndId', isoText(tx.endToEndId, 35)),
+  ]),
+  el('Amt', [el('InstdAmt', formatIsoAmount(tx.amount, tx.currency), { Ccy: tx.currency })]),
+  tx.chargeBearer ? el('ChrgBr', tx.chargeBearer) : null,
+  el('CdtrAgt', [el('FinInstnId', [el('BICFI', tx.creditorBIC)])]),
+  el('Cdtr', [
+    el('Nm', isoText(tx.creditorName, 140)),
+    creditorAddress(tx),
+  ]),
+  el('CdtrAcct', [el('Id', [el('IBAN', tx.creditorIBAN)])]),
+  tx.purpose ? el('Purp', [el('Prtry', isoText(tx.purpose, 35))]) : null,
+  el('RmtInf', [el('Ustrd', isoText(tx.remittanceInformation, 140))]),
+]);
+
+const paymentInformation = (info: IPain001PaymentInfo): XmlNode => el('PmtInf', [
+  el('PmtInfId', isoText(info.paymentInfoId, 35)),
+  el('PmtMtd', 'TRF'),
+  el('NbOfTxs', String(info.transactions.length)),
+  el('CtrlSum', sumAmounts(info.transactions)),
+  info.currency === 'EUR' ? el('PmtTpInf', [el('SvcLvl', [el('Cd', 'SEPA')])]) : null,
+  el('ReqdExctnDt', [el('Dt', info.requestedExecutionDate.toISOString().slice(0, 10))]),
+  el('Dbtr', [el('Nm', isoText(info.debtorName, 140))]),
+  el('DbtrAcct', [
+    el('Id', [el('Othr', [el('Id', isoText(info.debtorAccountId, 34))])]),
+    el('Ccy', info.currency),
+  ]),
+  el('DbtrAgt', [el('FinInstnId', [el('BICFI', info.debtorAgentBIC)])]),
+  ...info.transactions.map(creditTransfer),
+]);
+
+/**
+ * Render a pain.001.001.09 Customer Credit Transfer Initiation document
+ */
+export const buildPain001 = (message: IPain001Message): string => {
+  const allTransactions = message.paymentInfos.flatMap(p => p.transactions);
+
+  return renderXml(el('Document', [
+    el('CstmrCdtTrfInitn', [
+      el('GrpHdr', [
+        el('MsgId', isoText(message.messageId, 35)),
+        el('CreDtTm', isoDateTime(message.createdAt)),
+        el('NbOfTxs', String(allTransactions.length)),
+        el('CtrlSum', sumAmounts(allTransactions)),
+        el('InitgPty', [el('Nm', isoText(message.initiatingPartyName, 140))]),
+      ]),
+      ...message.paymentInfos.map(paymentInformation),
+    ]),
+  ], { xmlns: PAIN001_NAMESPACE, 'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance' }));
+};
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { PasswordResetToken } from '../models/PasswordResetToken';
+import { User } from '../models/User';
+import { passwordResetConfig, securityConfig } from '../config';
+import { sendPasswordResetEmail } from './emailService';
+import { parseDuration } from './refreshTokens';
+import { revokeAllUserTokens } from './tokenRevocation';
+import { logger } from './logger';
+
+export type PasswordResetErrorCode = 'INVALID_RESET_TOKEN';
+
+export class PasswordResetError extends Error {
+  constructor(public readonly code: PasswordResetErrorCode, message: string) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+
+  get statusCode(): number {
+    return 400;
+  }
+}
+
+export interface IPasswordResetContext {
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+// Keyed with a key derived from the JWT secret, so a leaked table cannot be matched to guessed tokens
+const hashToken = (token: string): string => (
+  crypto.createHmac('sha256', crypto.createHmac('sha256', securityConfig.jwtSecret).update('password-reset').digest())
+    .update(token)
+    .digest('hex')
+);
+
+/**
+ * Email a reset link if the address belongs to an active account. Callers answer the same way
+ * whatever happens here, so the response never reveals whether the email is registered.
+ * Only the newest link works: issuing one invalidates the earlier ones.
+ */
+export const requestPasswordReset = async (email: string, context: IPasswordResetContext = {}): Promise<void> => {
+  const user = await User.findByEmail(email.toLowerCase().trim());
+  if (!user || !user.isActive) {
+    logger.info('Password reset requested for unknown or inactive account:', { ip: context.ip });
+    return;
+  }
+
+  await PasswordResetToken.deleteMany({ userId: user.id, usedAt: null });
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + parseDuration(passwordResetConfig.tokenExpiresIn));
+  await PasswordResetToken.create({
+    tokenHash: hashToken(token),
+    userId: user.id,
+    expiresAt,
+    ip: context.ip || null,
+    userAgent: context.userAgent || null,
+  });
+
+  await sendPasswordResetEmail({
+    to: user.email,
+    resetUrl: `${passwordResetConfig.resetUrl}?token=${encodeURIComponent(token)}`,
+    expiresAt,
+  });
+  logger.info('Password reset link sent:', { userId: user.id, ip: context.ip });
+};
+
+/**
+ * Set a new password with a reset token. The token is claimed atomically so it works once;
+ * the lockout is cleared and every existing session is revoked.
+ */
+export const resetPassword = async (token: string, newPassword: string, context: IPasswordResetContext = {}): Promise<void> => {
+  const claimed = await PasswordResetToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } }
+  );
+  const user = claimed ? await User.findById(claimed.userId) : null;
+  if (!claimed || !user || !user.isActive) {
+    throw new PasswordResetError('INVALID_RESET_TOKEN', 'This password reset link is invalid or has expired. Please request a new one.');
+  }
+
+  await User.updatePassword(user.id!, newPassword);
+  await User.resetLoginAttempts(user.id!);
+  await PasswordResetToken.deleteMany({ userId: user.id, usedAt: null });
+  await revokeAllUserTokens(user.id!, 'password_reset', user.id!);
+
+  logger.warn('Password reset completed:', { userId: user.id, email: user.email, ip: context.ip, userAgent: context.userAgent });
+};
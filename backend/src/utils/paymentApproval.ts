@@ -0,0 +1,48 @@
+import { IPayment, IPaymentActor } from '../models/Payment';
+import { PaymentStatus } from '../config/paymentLifecycle';
+import { approvalConfig, transferLimitConfig } from '../config';
+import { toBaseAmount } from './transferLimits';
+
+export type ApprovalErrorCode = 'SAME_APPROVER';
+
+export class ApprovalError extends Error {
+  constructor(public readonly code: ApprovalErrorCode, message: string) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+
+  get statusCode(): number {
+    return 409;
+  }
+}
+
+export const requiresSecondApproval = (payment: IPayment): boolean => (
+  (payment.limitBaseAmount ?? toBaseAmount(payment.amount, payment.currency)) > approvalConfig.secondApprovalThreshold
+);
+
+/**
+ * Record an employee's validation without saving. Below the threshold it completes the payment;
+ * above it the first validation moves the payment to awaiting_second_approval and only a
+ * different employee can complete it. Returns the new status.
+ */
+export const approvePayment = (payment: IPayment, actor: IPaymentActor): PaymentStatus => {
+  const approvals = payment.approvals || [];
+  if (payment.status === 'awaiting_second_approval') {
+    if (approvals.some(a => a.actorId === actor.userId)) {
+      throw new ApprovalError('SAME_APPROVER', 'You gave the first approval for this payment; a different employee must give the second.');
+    }
+    const first = approvals[approvals.length - 1];
+    payment.applyTransition('completed', actor, first ? `first approval by ${first.actorName || first.actorId}` : undefined);
+  } else if (requiresSecondApproval(payment)) {
+    payment.applyTransition(
+      'awaiting_second_approval',
+      actor,
+      `above the ${approvalConfig.secondApprovalThreshold} ${transferLimitConfig.baseCurrency} four-eyes threshold`
+    );
+  } else {
+    payment.applyTransition('completed', actor);
+  }
+
+  payment.approvals = [...approvals, { actorId: actor.userId, actorName: actor.email || '', timestamp: new Date() }];
+  return payment.status;
+};
@@ -0,0 +1,264 @@
+import { Payment, IPayment } from '../models/Payment';
+import { PaymentBatch, IPaymentBatch } from '../models/PaymentBatch';
+import { IPaymentTemplate } from '../models/PaymentSchedule';
+import { ScreeningCase } from '../models/ScreeningCase';
+import { RiskAssessment } from '../models/RiskAssessment';
+import { paymentBatchConfig } from '../config';
+import { PaymentStatus } from '../config/paymentLifecycle';
+import { releaseHold, LedgerError } from './ledgerService';
+import { TransferLimitError, releaseTransferLimits } from './transferLimits';
+import { FeeError } from './feeEngine';
+import { submitPayment } from './paymentSubmission';
+import { applyBeneficiary, validatePaymentRequest, BeneficiaryUnavailableError } from './paymentRequest';
+import { parseCsvRecords } from './csv';
+import { logger } from './logger';
+
+export interface IBatchRowError {
+  // 1-based data row (CSV header excluded); null for file-level problems
+  row: number | null;
+  field: string;
+  message: string;
+}
+
+export type PaymentBatchErrorCode = 'INVALID_BATCH_FILE' | 'BATCH_VALIDATION_FAILED' | 'BATCH_CREATION_FAILED';
+
+export class PaymentBatchError extends Error {
+  constructor(
+    public readonly code: PaymentBatchErrorCode,
+    message: string,
+    public readonly errors: IBatchRowError[] = []
+  ) {
+    super(message);
+    this.name = 'PaymentBatchError';
+  }
+
+  get statusCode(): number {
+    return this.code === 'INVALID_BATCH_FILE' ? 400 : 422;
+  }
+}
+
+export type PaymentBatchStatus = 'rolled_back' | 'pending' | 'in_progress' | 'completed' | 'partially_completed' | 'failed';
+
+export interface IPaymentBatchSummary {
+  status: PaymentBatchStatus;
+  counts: Partial<Record<PaymentStatus, number>>;
+}
+
+interface IBatchRequest {
+  format?: string;
+  file?: string;
+  fileName?: string;
+  payments?: unknown;
+}
+
+/**
+ * Turn the request body into raw rows. CSV arrives as text in `file`; JSON either as a
+ * `payments` array or as the text of a JSON file in `file`.
+ */
+export const readBatchRows = (body: IBatchRequest): { source: 'csv' | 'json'; rows: any[] } => {
+  const format = String(body?.format || (Array.isArray(body?.payments) ? 'json' : '')).toLowerCase();
+
+  let rows: unknown;
+  try {
+    if (format === 'csv') {
+      if (typeof body.file !== 'string') throw new Error('file must contain the CSV text.');
+      rows = parseCsvRecords(body.file);
+    } else if (format === 'json') {
+      rows = Array.isArray(body.payments) ? body.payments : JSON.parse(String(body.file ?? ''));
+      if (rows && !Array.isArray(rows) && Array.isArray((rows as any).payments)) rows = (rows as any).payments;
+    } else {
+      throw new Error('format must be "csv" or "json".');
+    }
+  } catch (error: any) {
+    throw new PaymentBatchError('INVALID_BATCH_FILE', `Could not read batch file: ${error?.message || error}`);
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new PaymentBatchError('INVALID_BATCH_FILE', 'The batch file contains no payments.');
+  }
+  if (rows.length > paymentBatchConfig.maxRows) {
+    throw new PaymentBatchError('INVALID_BATCH_FILE', `A batch may contain at most ${paymentBatchConfig.maxRows} payments.`);
+  }
+
+  return { source: format as 'csv' | 'json', rows };
+};
+
+/**
+ * Validate every row with the single-payment rules and collect a row-by-row report
+ */
+const validateRows = async (userId: string, rows: any[]): Promise<{ errors: IBatchRowError[]; valid: IPaymentTemplate[] }> => {
+  const errors: IBatchRowError[] = [];
+  const valid: IPaymentTemplate[] = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = i + 1;
+    const raw = rows[i];
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push({ row, field: 'row', message: 'Each payment must be an object.' });
+      continue;
+    }
+
+    try {
+      const { input, beneficiary } = await applyBeneficiary(userId, raw);
+      const result = validatePaymentRequest(input);
+      result.errors.forEach(e => errors.push({ row, ...e }));
+      if (result.fields) valid.push({ ...result.fields, beneficiaryId: beneficiary ? String(beneficiary._id) : null });
+    } catch (error) {
+      if (error instanceof BeneficiaryUnavailableError) {
+        errors.push({ row, field: 'beneficiaryId', message: error.message });
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return { errors, valid };
+};
+
+/**
+ * Undo a partially created batch: release holds and limit reservations and remove the payments
+ * already written. A failed step is logged rather than thrown so the error that caused the
+ * rollback is not lost; a payment whose hold or reservation could not be released is kept for
+ * clean-up. Returns whether everything was undone.
+ */
+const rollBack = async (batch: IPaymentBatch, created: IPayment[]): Promise<boolean> => {
+  let complete = true;
+  const attempt = async (payment: IPayment, step: string, undo: () => Promise<unknown>): Promise<boolean> => {
+    try {
+      await undo();
+      return true;
+    } catch (error: any) {
+      complete = false;
+      logger.error('Payment batch rollback step failed:', { batchId: batch._id, paymentId: payment._id, step, error: error?.message || error });
+      return false;
+    }
+  };
+
+  for (const payment of created) {
+    const released = await attempt(payment, 'release hold', () => releaseHold(payment))
+      && await attempt(payment, 'release limits', () => releaseTransferLimits(payment));
+    await attempt(payment, 'delete screening case', () => ScreeningCase.deleteOne({ paymentId: String(payment._id) }));
+    await attempt(payment, 'delete risk assessment', () => RiskAssessment.deleteOne({ paymentId: String(payment._id) }));
+    if (released) await attempt(payment, 'delete payment', () => Payment.deleteOne({ _id: payment._id }));
+  }
+  return complete;
+};
+
+/**
+ * Validate and create a batch. Either every payment is created (with its hold) or none is.
+ * Mongo transactions need a replica set, so atomicity is achieved by compensating on failure.
+ * Until the batch is created its payments are kept out of employee queues.
+ */
+export const createPaymentBatch = async (
+  userId: string,
+  body: IBatchRequest
+): Promise<{ batch: IPaymentBatch; payments: IPayment[] }> => {
+  const { source, rows } = readBatchRows(body);
+  const { errors, valid } = await validateRows(userId, rows);
+  if (errors.length > 0) {
+    throw new PaymentBatchError('BATCH_VALIDATION_FAILED', `Batch rejected: ${errors.length} validation error(s). No payments were created.`, errors);
+  }
+
+  const totals = new Map<string, number>();
+  valid.forEach(p => totals.set(p.currency, Math.round(((totals.get(p.currency) || 0) + p.amount) * 100) / 100));
+
+  const batch = await PaymentBatch.create({
+    userId,
+    source,
+    fileName: body.fileName?.trim() || null,
+    rowCount: valid.length,
+    totals: [...totals.entries()].map(([currency, amount]) => ({ currency, amount })),
+  });
+
+  const created: IPayment[] = [];
+  let failureReason = 'Batch creation was interrupted.';
+  try {
+    for (let i = 0; i < valid.length; i++) {
+      const payment = new Payment({
+        userId,
+        ...valid[i],
+        status: 'pending',
+        batchId: String(batch._id),
+        batchRow: i + 1,
+      });
+
+      try {
+        await submitPayment(payment, { recipientCountry: valid[i]!.recipientCountry });
+      } catch (error: any) {
+        const amountError = error instanceof LedgerError || error instanceof TransferLimitError || error instanceof FeeError;
+        const reason = amountError ? error.message : 'Payment could not be created.';
+        logger.warn('Payment batch rolled back:', { batchId: batch._id, row: i + 1, error: error?.message || error });
+        failureReason = `Row ${i + 1}: ${reason}`;
+        throw new PaymentBatchError('BATCH_CREATION_FAILED', `Batch rejected at row ${i + 1}: ${reason} No payments were created.`, [
+          { row: i + 1, field: amountError ? 'amount' : 'row', message: reason },
+        ]);
+      }
+      created.push(payment);
+    }
+
+    batch.state = 'created';
+    await batch.save();
+  } catch (error) {
+    batch.state = await rollBack(batch, created) ? 'rolled_back' : 'failed';
+    throw error;
+  } finally {
+    // Whatever happened above, a batch that was not created must not stay in creating
+    if (batch.state !== 'created') {
+      try {
+        await PaymentBatch.updateOne(
+          { _id: batch._id },
+          { $set: { state: batch.state === 'creating' ? 'failed' : batch.state, failureReason } }
+        );
+      } catch (error: any) {
+        logger.error('Could not record payment batch outcome:', { batchId: batch._id, state: batch.state, error: error?.message || error });
+      }
+    }
+  }
+
+  return { batch, payments: created };
+};
+
+/**
+ * IDs of batches whose payments must not be worked on yet: still being created, or left
+ * behind by a rollback that did not finish
+ */
+export const unsettledBatchIds = async (): Promise<string[]> => {
+  const ids = await PaymentBatch.distinct('_id', { state: { $in: ['creating', 'failed'] } });
+  return ids.map(String);
+};
+
+/**
+ * Whether the payment belongs to a batch that is still being created or failed to roll back
+ */
+export const isInUnsettledBatch = async (payment: IPayment): Promise<boolean> => {
+  if (!payment.batchId) return false;
+  return !!await PaymentBatch.exists({ _id: payment.batchId, state: { $in: ['creating', 'failed'] } });
+};
+
+/**
+ * Aggregate status of a batch from the statuses of its payments
+ */
+export const summarizeBatch = async (batch: IPaymentBatch): Promise<IPaymentBatchSummary> => {
+  const grouped = await Payment.aggregate([
+    { $match: { batchId: String(batch._id) } },
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+  const counts: Partial<Record<PaymentStatus, number>> = {};
+  grouped.forEach(g => { counts[g._id as PaymentStatus] = g.count; });
+
+  if (batch.state === 'rolled_back') return { status: 'rolled_back', counts };
+  if (batch.state === 'failed') return { status: 'failed', counts };
+
+  const total = grouped.reduce((sum, g) => sum + g.count, 0);
+  const completed = counts.completed || 0;
+  const unsuccessful = (counts.failed || 0) + (counts.cancelled || 0);
+
+  let status: PaymentBatchStatus;
+  if (batch.state === 'creating' || (counts.pending || 0) === total) status = 'pending';
+  else if (completed === total) status = 'completed';
+  else if (unsuccessful === total) status = 'failed';
+  else if (completed + unsuccessful === total) status = 'partially_completed';
+  else status = 'in_progress';
+
+  return { status, counts };
+};
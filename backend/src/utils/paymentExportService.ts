@@ -0,0 +1,184 @@
+import { Types } from 'mongoose';
+import { Payment, IPayment } from '../models/Payment';
+import { PaymentExport, IPaymentExport } from '../models/PaymentExport';
+import { Beneficiary } from '../models/Beneficiary';
+import { User } from '../models/User';
+import { bankConfig } from '../config';
+import { buildPain001, IPain001PaymentInfo } from './pain001';
+import { logger } from './logger';
+
+export type PaymentExportErrorCode = 'INVALID_EXPORT_WINDOW' | 'NOTHING_TO_EXPORT';
+
+export class PaymentExportError extends Error {
+  constructor(public readonly code: PaymentExportErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentExportError';
+  }
+
+  get statusCode(): number {
+    return this.code === 'NOTHING_TO_EXPORT' ? 404 : 400;
+  }
+}
+
+export interface IExportWindow {
+  from: Date;
+  to: Date;
+}
+
+const parseBound = (value: unknown, endOfDay: boolean): Date | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim();
+  // Bare dates cover the whole day so "to=2025-01-31" includes payments processed on the 31st
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return new Date(`${text}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Read the processedAt window from the request; `to` defaults to now
+ */
+export const parseExportWindow = (body: { from?: unknown; to?: unknown }): IExportWindow => {
+  const from = parseBound(body?.from, false);
+  if (!from) {
+    throw new PaymentExportError('INVALID_EXPORT_WINDOW', 'from must be an ISO 8601 date or date-time.');
+  }
+  const to = body?.to === undefined ? new Date() : parseBound(body.to, true);
+  if (!to) {
+    throw new PaymentExportError('INVALID_EXPORT_WINDOW', 'to must be an ISO 8601 date or date-time.');
+  }
+  if (from > to) {
+    throw new PaymentExportError('INVALID_EXPORT_WINDOW', 'from must not be after to.');
+  }
+  return { from, to };
+};
+
+/**
+ * Name and account number of the customer a payment is debited from
+ */
+export const getDebtorDetails = async (userId: string): Promise<{ name: string; accountId: string }> => {
+  try {
+    const user = await User.findById(userId);
+    if (user) {
+      return {
+        name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || userId,
+        accountId: user.accountNumber || userId,
+      };
+    }
+  } catch (error) {
+    logger.warn('Could not load debtor for export, falling back to user ID:', { userId });
+  }
+  return { name: userId, accountId: userId };
+};
+
+const ISO_CHARGE_BEARERS: Record<string, string> = { OUR: 'DEBT', SHA: 'SHAR', BEN: 'CRED' };
+
+/**
+ * Group payments into one PmtInf block per (currency, debtor)
+ */
+const groupPayments = async (payments: IPayment[], messageId: string, executionDate: Date): Promise<IPain001PaymentInfo[]> => {
+  const beneficiaryIds = payments.map(p => p.beneficiaryId).filter((id): id is string => !!id && Types.ObjectId.isValid(id));
+  const beneficiaries = new Map(
+    (await Beneficiary.find({ _id: { $in: beneficiaryIds } })).map(b => [String(b._id), b])
+  );
+
+  const groups = new Map<string, IPayment[]>();
+  for (const payment of payments) {
+    const key = `${payment.currency}|${payment.userId}`;
+    groups.set(key, [...(groups.get(key) || []), payment]);
+  }
+
+  const infos: IPain001PaymentInfo[] = [];
+  for (const group of groups.values()) {
+    const first = group[0]!;
+    const debtor = await getDebtorDetails(first.userId);
+    infos.push({
+      paymentInfoId: `${messageId}-${infos.length + 1}`,
+      requestedExecutionDate: executionDate,
+      currency: first.currency,
+      debtorName: debtor.name,
+      debtorAccountId: debtor.accountId,
+      debtorAgentBIC: bankConfig.bic,
+      transactions: group.map(p => {
+        const beneficiary = p.beneficiaryId ? beneficiaries.get(p.beneficiaryId) : undefined;
+        return {
+          instructionId: p.transactionId || String(p._id),
+          endToEndId: p.transactionId || String(p._id),
+          amount: p.amount,
+          currency: p.currency,
+          creditorName: p.recipientName,
+          creditorIBAN: p.recipientIBAN.replace(/\s/g, ''),
+          creditorBIC: p.recipientSWIFT.replace(/\s/g, ''),
+          ...(beneficiary?.address ? { creditorAddress: beneficiary.address } : {}),
+          ...(beneficiary?.city ? { creditorCity: beneficiary.city } : {}),
+          ...(beneficiary?.country ? { creditorCountry: beneficiary.country } : {}),
+          remittanceInformation: p.reference,
+          purpose: p.purpose,
+          // EUR batches are sent as SEPA, which only allows the service-level code
+          chargeBearer: p.currency === 'EUR' ? 'SLEV' : ISO_CHARGE_BEARERS[p.chargeBearer] || 'SHAR',
+        };
+      }),
+    });
+  }
+  return infos;
+};
+
+/**
+ * Export every completed, not yet exported payment processed in the window to a
+ * pain.001.001.09 file. Payments are claimed atomically before the file is built, so
+ * concurrent exports cannot include the same payment; the claim is undone on failure.
+ */
+export const createPain001Export = async (window: IExportWindow, actorId: string): Promise<IPaymentExport> => {
+  const exportId = new Types.ObjectId();
+  const messageId = `EXP${exportId.toHexString().toUpperCase()}`;
+
+  const claimed = await Payment.updateMany(
+    {
+      status: 'completed',
+      processedAt: { $gte: window.from, $lte: window.to },
+      exportId: null,
+      deletedAt: null,
+    },
+    { $set: { exportId: String(exportId) } }
+  );
+  if (claimed.modifiedCount === 0) {
+    throw new PaymentExportError('NOTHING_TO_EXPORT', 'No unexported completed payments in this window.');
+  }
+
+  try {
+    const payments = await Payment.find({ exportId: String(exportId) }).sort({ currency: 1, userId: 1, processedAt: 1 });
+    const createdAt = new Date();
+    const paymentInfos = await groupPayments(payments, messageId, createdAt);
+    const xml = buildPain001({
+      messageId,
+      createdAt,
+      initiatingPartyName: bankConfig.name,
+      paymentInfos,
+    });
+
+    const totals = paymentInfos.reduce<Map<string, { currency: string; amount: number; count: number }>>((acc, info) => {
+      const entry = acc.get(info.currency) || { currency: info.currency, amount: 0, count: 0 };
+      for (const tx of info.transactions) {
+        entry.amount = Math.round((entry.amount + tx.amount) * 100) / 100;
+        entry.count += 1;
+      }
+      return acc.set(info.currency, entry);
+    }, new Map());
+
+    return await PaymentExport.create({
+      _id: exportId,
+      messageId,
+      windowStart: window.from,
+      windowEnd: window.to,
+      paymentIds: payments.map(p => String(p._id)),
+      paymentCount: payments.length,
+      totals: Array.from(totals.values()),
+      xml,
+      createdBy: actorId,
+    });
+  } catch (error) {
+    await Payment.updateMany({ exportId: String(exportId) }, { $set: { exportId: null } });
+    throw error;
+  }
+};
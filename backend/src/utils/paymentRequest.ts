@@ -0,0 +1,165 @@
+import { Types } from 'mongoose';
+import { Beneficiary, IBeneficiary } from '../models/Beneficiary';
+import { IPaymentTemplate } from '../models/PaymentSchedule';
+import { IPaymentRequest } from '../types';
+import { validateSWIFT, validateCurrency } from './validation';
+import { parseIBAN } from './iban';
+import { recipientBankError } from './bicDirectory';
+import { CHARGE_BEARERS, ChargeBearer, DEFAULT_CHARGE_BEARER } from '../config/feeSchedule';
+
+export interface IFieldError {
+  field: string;
+  message: string;
+}
+
+export type BeneficiaryErrorCode = 'BENEFICIARY_NOT_FOUND' | 'BENEFICIARY_COOLING_OFF';
+
+export class BeneficiaryUnavailableError extends Error {
+  constructor(public readonly code: BeneficiaryErrorCode, message: string, public readonly availableAt?: Date) {
+    super(message);
+    this.name = 'BeneficiaryUnavailableError';
+  }
+
+  get statusCode(): number {
+    return this.code === 'BENEFICIARY_NOT_FOUND' ? 404 : 409;
+  }
+}
+
+const REQUIRED_FIELDS: Array<keyof IPaymentRequest> = [
+  'recipientName', 'recipientEmail', 'recipientIBAN', 'recipientSWIFT',
+  'recipientAddress', 'recipientCity', 'recipientCountry',
+  'amount', 'currency', 'reference', 'purpose'
+];
+
+/**
+ * Read a payment amount: a finite number, or a plain decimal string such as "250" or "99.95".
+ * Anything else ("60000abc", "1e5", "") is null. The step-up threshold check and payment
+ * validation both read amounts through this, so they always agree on the value.
+ */
+export const parseAmount = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !/^\d+(\.\d+)?$/.test(value.trim())) return null;
+  return Number(value.trim());
+};
+
+/**
+ * Paying a saved beneficiary: its stored details take precedence over anything the client sent
+ */
+export const applyBeneficiary = async (
+  userId: string,
+  input: any
+): Promise<{ input: any; beneficiary: IBeneficiary | null }> => {
+  const beneficiaryId = input?.beneficiaryId;
+  if (!beneficiaryId) return { input, beneficiary: null };
+
+  const beneficiary = Types.ObjectId.isValid(String(beneficiaryId))
+    ? await Beneficiary.findOne({ _id: beneficiaryId, userId })
+    : null;
+
+  if (!beneficiary) {
+    throw new BeneficiaryUnavailableError('BENEFICIARY_NOT_FOUND', 'Beneficiary not found.');
+  }
+  if (beneficiary.isCoolingOff()) {
+    throw new BeneficiaryUnavailableError(
+      'BENEFICIARY_COOLING_OFF',
+      `This beneficiary can receive payments from ${beneficiary.coolingOffUntil.toISOString()}.`,
+      beneficiary.coolingOffUntil
+    );
+  }
+
+  return {
+    beneficiary,
+    input: {
+      ...input,
+      recipientName: beneficiary.name,
+      recipientEmail: beneficiary.email,
+      recipientIBAN: beneficiary.iban,
+      recipientSWIFT: beneficiary.swift,
+      recipientAddress: beneficiary.address,
+      recipientCity: beneficiary.city,
+      recipientCountry: beneficiary.country,
+    },
+  };
+};
+
+/**
+ * Validate a payment request and return its normalised fields.
+ * Shared by single and batch payment creation so both apply identical rules.
+ */
+export const validatePaymentRequest = (input: any): { errors: IFieldError[]; fields: IPaymentTemplate | null } => {
+  const {
+    recipientName,
+    recipientEmail,
+    recipientIBAN,
+    recipientSWIFT,
+    recipientAddress,
+    recipientCity,
+    recipientCountry,
+    amount,
+    currency,
+    reference,
+    purpose,
+    chargeBearer,
+  }: IPaymentRequest = input || {};
+
+  // Collect validation errors
+  const errors: IFieldError[] = [];
+
+  // Validate required fields (collect all missing)
+  for (const field of REQUIRED_FIELDS) {
+    if (!input?.[field]) {
+      errors.push({ field, message: `${field} is required.` });
+    }
+  }
+
+  // Validate IBAN against the country registry
+  const ibanCheck = recipientIBAN ? parseIBAN(recipientIBAN) : null;
+  if (ibanCheck && !ibanCheck.valid) {
+    errors.push({ field: 'recipientIBAN', message: ibanCheck.message });
+  }
+
+  // Validate SWIFT code format, then that the bank exists and sits in the IBAN's country
+  if (recipientSWIFT && !validateSWIFT(recipientSWIFT)) {
+    errors.push({ field: 'recipientSWIFT', message: 'Invalid SWIFT code format' });
+  } else if (recipientSWIFT) {
+    const bankError = recipientBankError(recipientSWIFT, ibanCheck?.valid ? ibanCheck.country : undefined);
+    if (bankError) errors.push({ field: 'recipientSWIFT', message: bankError });
+  }
+
+  // Validate amount
+  const numericAmount = parseAmount(amount) ?? NaN;
+  if (isNaN(numericAmount) || numericAmount <= 0) {
+    errors.push({ field: 'amount', message: 'Amount must be a positive number.' });
+  }
+
+  // Validate currency code
+  if (currency && !validateCurrency(currency)) {
+    errors.push({ field: 'currency', message: 'Unsupported currency code.' });
+  }
+
+  // Who pays the charges; shared when not given
+  const bearer = String(chargeBearer || DEFAULT_CHARGE_BEARER).toUpperCase();
+  if (!(CHARGE_BEARERS as readonly string[]).includes(bearer)) {
+    errors.push({ field: 'chargeBearer', message: `chargeBearer must be one of ${CHARGE_BEARERS.join(', ')}.` });
+  }
+
+  if (errors.length > 0) return { errors, fields: null };
+
+  return {
+    errors,
+    fields: {
+      recipientName: recipientName.trim(),
+      recipientEmail: recipientEmail.toLowerCase().trim(),
+      recipientIBAN: recipientIBAN.toUpperCase().replace(/\s/g, ''),
+      recipientSWIFT: recipientSWIFT.toUpperCase().trim(),
+      recipientAddress: recipientAddress.trim(),
+      recipientCity: recipientCity.trim(),
+      recipientCountry: recipientCountry.trim(),
+      amount: numericAmount,
+      currency: currency.toUpperCase(),
+      reference: reference.trim(),
+      purpose: purpose.trim(),
+      chargeBearer: bearer as ChargeBearer,
+    },
+  };
+};
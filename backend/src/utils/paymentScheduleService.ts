@@ -0,0 +1,185 @@
+import { Payment } from '../models/Payment';
+import { PaymentSchedule, IPaymentSchedule, IScheduleOccurrence } from '../models/PaymentSchedule';
+import { LedgerError } from './ledgerService';
+import { TransferLimitError } from './transferLimits';
+import { FeeError } from './feeEngine';
+import { submitPayment } from './paymentSubmission';
+import { nextOccurrence, firstIndexOnOrAfter, startOfUtcDay } from './recurrence';
+import { logger } from './logger';
+
+export type PaymentScheduleErrorCode = 'SCHEDULE_NOT_ACTIVE' | 'SCHEDULE_NOT_PAUSED' | 'SCHEDULE_FINISHED';
+
+export class PaymentScheduleError extends Error {
+  constructor(public readonly code: PaymentScheduleErrorCode, message: string) {
+    super(message);
+    this.name = 'PaymentScheduleError';
+  }
+
+  get statusCode(): number {
+    return 409;
+  }
+}
+
+/**
+ * Move a series past occurrence `index`, recording what happened to it.
+ * The nextIndex guard makes this a compare-and-set so two workers cannot claim the same occurrence.
+ */
+const advancePast = async (
+  schedule: IPaymentSchedule,
+  index: number,
+  occurrence: Omit<IScheduleOccurrence, 'index' | 'recordedAt'>,
+  extraFilter: Record<string, unknown> = { status: 'active' }
+): Promise<IPaymentSchedule | null> => {
+  const nextDate = nextOccurrence(schedule.startDate, schedule.recurrence, index + 1);
+  return PaymentSchedule.findOneAndUpdate(
+    { _id: schedule._id, nextIndex: index, ...extraFilter },
+    {
+      $set: {
+        nextIndex: index + 1,
+        nextRunAt: nextDate,
+        ...(nextDate ? {} : { status: 'completed' }),
+      },
+      $push: { occurrences: { ...occurrence, index, recordedAt: new Date() } },
+    },
+    { new: true }
+  );
+};
+
+/**
+ * Create the pending payment for one occurrence. Failures (e.g. insufficient funds) are
+ * recorded on the series rather than retried, matching a standing order at a bank.
+ */
+const materialiseOccurrence = async (schedule: IPaymentSchedule): Promise<IPaymentSchedule | null> => {
+  const index = schedule.nextIndex;
+  const scheduledFor = schedule.nextRunAt!;
+
+  const claimed = await advancePast(schedule, index, { scheduledFor, outcome: 'created', paymentId: null, error: null });
+  if (!claimed) return null;
+
+  const payment = new Payment({
+    userId: schedule.userId,
+    ...schedule.template,
+    status: 'pending',
+    scheduleId: String(schedule._id),
+    scheduleOccurrence: index,
+  });
+
+  let outcome: Pick<IScheduleOccurrence, 'outcome' | 'paymentId' | 'error'>;
+  try {
+    await submitPayment(payment, { recipientCountry: schedule.template.recipientCountry });
+    outcome = { outcome: 'created', paymentId: String(payment._id), error: null };
+    logger.info('Scheduled payment created:', { scheduleId: schedule._id, occurrence: index, paymentId: payment._id, transactionId: payment.transactionId });
+  } catch (error: any) {
+    outcome = { outcome: 'failed', paymentId: null, error: error instanceof LedgerError || error instanceof TransferLimitError || error instanceof FeeError ? error.code : String(error?.message || error) };
+    logger.warn('Scheduled payment failed:', { scheduleId: schedule._id, occurrence: index, error: outcome.error });
+  }
+
+  return PaymentSchedule.findOneAndUpdate(
+    { _id: schedule._id, 'occurrences.index': index },
+    {
+      $set: {
+        'occurrences.$.outcome': outcome.outcome,
+        'occurrences.$.paymentId': outcome.paymentId,
+        'occurrences.$.error': outcome.error,
+      },
+    },
+    { new: true }
+  );
+};
+
+/**
+ * Materialise every occurrence of one series that has fallen due, catching up one occurrence at a time.
+ * Returns how many payments were created; failed occurrences are recorded but not counted.
+ */
+export const processSchedule = async (schedule: IPaymentSchedule, now: Date = new Date()): Promise<number> => {
+  let created = 0;
+  let current: IPaymentSchedule | null = schedule;
+  while (current && current.status === 'active' && current.nextRunAt && current.nextRunAt.getTime() <= now.getTime()) {
+    const index = current.nextIndex;
+    current = await materialiseOccurrence(current);
+    if (current?.occurrences.some(o => o.index === index && o.outcome === 'created')) created += 1;
+  }
+  return created;
+};
+
+export const processDueSchedules = async (now: Date = new Date()): Promise<number> => {
+  let created = 0;
+  const due = await PaymentSchedule.find({ status: 'active', nextRunAt: { $lte: now } });
+
+  for (const schedule of due) {
+    created += await processSchedule(schedule, now);
+  }
+
+  if (created > 0) {
+    logger.info('Scheduled payments processed:', { occurrences: created });
+  }
+  return created;
+};
+
+/**
+ * Skip the next occurrence of an active or paused series
+ */
+export const skipNextOccurrence = async (schedule: IPaymentSchedule): Promise<IPaymentSchedule> => {
+  if (schedule.status !== 'active' && schedule.status !== 'paused') {
+    throw new PaymentScheduleError('SCHEDULE_FINISHED', `Cannot skip an occurrence of a ${schedule.status} schedule.`);
+  }
+  if (!schedule.nextRunAt) {
+    throw new PaymentScheduleError('SCHEDULE_FINISHED', 'This schedule has no further occurrences.');
+  }
+
+  const updated = await advancePast(
+    schedule,
+    schedule.nextIndex,
+    { scheduledFor: schedule.nextRunAt, outcome: 'skipped', paymentId: null, error: null },
+    { status: schedule.status }
+  );
+  if (!updated) {
+    throw new PaymentScheduleError('SCHEDULE_NOT_ACTIVE', 'The schedule changed while skipping; please retry.');
+  }
+  return updated;
+};
+
+export const pauseSchedule = async (schedule: IPaymentSchedule): Promise<IPaymentSchedule> => {
+  if (schedule.status !== 'active') {
+    throw new PaymentScheduleError('SCHEDULE_NOT_ACTIVE', `Only active schedules can be paused (current: ${schedule.status}).`);
+  }
+  schedule.status = 'paused';
+  return schedule.save();
+};
+
+/**
+ * Resume a paused series. Occurrences that fell due while paused are skipped, not paid late.
+ */
+export const resumeSchedule = async (schedule: IPaymentSchedule): Promise<IPaymentSchedule> => {
+  if (schedule.status !== 'paused') {
+    throw new PaymentScheduleError('SCHEDULE_NOT_PAUSED', `Only paused schedules can be resumed (current: ${schedule.status}).`);
+  }
+
+  const today = startOfUtcDay();
+  const index = firstIndexOnOrAfter(schedule.startDate, schedule.recurrence, schedule.nextIndex, today);
+  for (let i = schedule.nextIndex; i < index; i++) {
+    schedule.occurrences.push({
+      index: i,
+      scheduledFor: nextOccurrence(schedule.startDate, schedule.recurrence, i)!,
+      outcome: 'skipped',
+      paymentId: null,
+      error: 'paused',
+      recordedAt: new Date(),
+    });
+  }
+
+  const nextDate = nextOccurrence(schedule.startDate, schedule.recurrence, index);
+  schedule.nextIndex = index;
+  schedule.nextRunAt = nextDate;
+  schedule.status = nextDate ? 'active' : 'completed';
+  return schedule.save();
+};
+
+export const cancelSchedule = async (schedule: IPaymentSchedule): Promise<IPaymentSchedule> => {
+  if (schedule.status === 'completed' || schedule.status === 'cancelled') {
+    throw new PaymentScheduleError('SCHEDULE_FINISHED', `This schedule is already ${schedule.status}.`);
+  }
+  schedule.status = 'cancelled';
+  schedule.nextRunAt = null;
+  return schedule.save();
+};
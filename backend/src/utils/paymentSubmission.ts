@@ -0,0 +1,103 @@
+import { IPayment } from '../models/Payment';
+import { ScreeningCase } from '../models/ScreeningCase';
+import { RiskAssessment } from '../models/RiskAssessment';
+import { placeHold, releaseHold } from './ledgerService';
+import { screenPayment, holdForReview, openScreeningCase } from './screeningService';
+import { assessPaymentRisk, IRiskResult } from './amlRulesEngine';
+import { IScreeningMatch, IScreeningResult } from './sanctionsScreening';
+import { checkTransferLimits, releaseTransferLimits } from './transferLimits';
+import { calculateFees } from './feeEngine';
+import { applySettlementDates } from './businessCalendar';
+
+export interface IPaymentSubmissionContext {
+  // Not stored on the payment, but screened
+  recipientCountry?: string | null;
+}
+
+export interface IPaymentSubmissionResult {
+  screening: IScreeningResult;
+  risk: IRiskResult;
+}
+
+// Rules that held the payment, presented alongside sanctions matches in the review case
+const ruleMatches = (risk: IRiskResult): IScreeningMatch[] => risk.triggered.map(t => ({
+  type: 'rule',
+  entryId: t.ruleId,
+  listedName: t.name,
+  matchedName: null,
+  score: t.score,
+  countries: [],
+  programs: [],
+  source: `AML rules v${risk.ruleSetVersion}`,
+  countryMatch: false,
+  detail: t.detail,
+}));
+
+/**
+ * Create a new payment: check the customer's limits, price the fees, date it against the
+ * currency's cut-off, screen the recipient, run the AML rules, reserve the funds (fees
+ * included), then save.
+ * Every channel (single, scheduled, batch) goes through here so no payment skips a check.
+ * A held payment still reserves its funds; it waits on hold for a compliance decision.
+ */
+export const submitPayment = async (payment: IPayment, context: IPaymentSubmissionContext = {}): Promise<IPaymentSubmissionResult> => {
+  // Throws TransferLimitError when the payment would take the customer over a limit; otherwise reserves it
+  payment.limitBaseAmount = await checkTransferLimits(payment);
+
+  let held = false;
+  try {
+    // Throws FeeError when deducted fees would leave nothing for the recipient
+    payment.fees = calculateFees({
+      amount: payment.amount,
+      currency: payment.currency,
+      recipientIBAN: payment.recipientIBAN,
+      recipientCountry: context.recipientCountry ?? null,
+      chargeBearer: payment.chargeBearer,
+      fx: payment.fx ? { sourceCurrency: payment.fx.sourceCurrency, rate: payment.fx.rate } : null,
+    });
+    applySettlementDates(payment);
+
+    const screening = screenPayment(payment, context.recipientCountry);
+    const risk = await assessPaymentRisk(payment, { recipientCountry: context.recipientCountry ?? null });
+
+    const reviewMatches = [...screening.matches, ...(risk.action === 'hold' ? ruleMatches(risk) : [])];
+    if (screening.hit) {
+      holdForReview(payment, 'Sanctions screening', `${screening.matches.length} potential match(es), top score ${screening.matches[0]!.score}`);
+    } else if (risk.action === 'hold') {
+      holdForReview(payment, 'AML rules', `risk score ${risk.score} (rules v${risk.ruleSetVersion})`);
+    }
+    if (risk.action === 'escalate') {
+      payment.escalated = true;
+      payment.escalatedAt = new Date();
+      // Rule details stay in the risk assessment, which customers never see
+      payment.escalationNotes = `Raised by AML rules v${risk.ruleSetVersion} (risk score ${risk.score}).`;
+      payment.auditLog = [
+        ...(payment.auditLog || []),
+        { actorId: 'system', actorName: 'AML rules', action: 'escalate', timestamp: new Date(), details: `risk score ${risk.score}` },
+      ];
+    }
+
+    await placeHold(payment);
+    held = true;
+    if (reviewMatches.length > 0) await openScreeningCase(payment, { ...screening, hit: true, matches: reviewMatches });
+    await RiskAssessment.create({
+      paymentId: String(payment._id),
+      userId: payment.userId,
+      ruleSetVersion: risk.ruleSetVersion,
+      score: risk.score,
+      action: risk.action,
+      triggered: risk.triggered,
+    });
+    await payment.save();
+
+    return { screening, risk };
+  } catch (error) {
+    if (held) {
+      await releaseHold(payment);
+      await ScreeningCase.deleteOne({ paymentId: String(payment._id) });
+      await RiskAssessment.deleteOne({ paymentId: String(payment._id) });
+    }
+    await releaseTransferLimits(payment);
+    throw error;
+  }
+};
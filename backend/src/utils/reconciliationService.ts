@@ -0,0 +1,162 @@
+import { Payment, IPayment } from '../models/Payment';
+import { StatementImport, IStatementImport } from '../models/StatementImport';
+import { ReconciliationItem, IReconciliationItem, ReconciliationMismatch, ReconciliationResult } from '../models/ReconciliationItem';
+import { parseCamt, ICamtEntry } from './camt';
+import { toMinor } from './ledgerService';
+import { logger } from './logger';
+
+export type ReconciliationErrorCode = 'INVALID_STATEMENT_FILE' | 'STATEMENT_ALREADY_IMPORTED' | 'ITEM_NOT_FOUND' | 'ITEM_ALREADY_RESOLVED';
+
+export class ReconciliationError extends Error {
+  constructor(public readonly code: ReconciliationErrorCode, message: string) {
+    super(message);
+    this.name = 'ReconciliationError';
+  }
+
+  get statusCode(): number {
+    switch (this.code) {
+      case 'INVALID_STATEMENT_FILE': return 400;
+      case 'ITEM_NOT_FOUND': return 404;
+      default: return 409;
+    }
+  }
+}
+
+/**
+ * Compare a booked entry with the payment its end-to-end ID points at. Our payments
+ * leave the bank, so anything other than a debit of the same amount is a mismatch.
+ */
+const compareEntry = (entry: ICamtEntry, payment: IPayment): ReconciliationMismatch[] => {
+  const mismatches: ReconciliationMismatch[] = [];
+  if (toMinor(entry.amount) !== toMinor(payment.amount)) mismatches.push('amount');
+  if (entry.currency !== payment.currency) mismatches.push('currency');
+  if (entry.creditDebit !== 'DBIT') mismatches.push('direction');
+  if (payment.status !== 'completed') mismatches.push('status');
+  if (payment.reconciliationStatus === 'matched') mismatches.push('duplicate');
+  return mismatches;
+};
+
+const reconcileEntry = async (entry: ICamtEntry, importId: string, actorId: string): Promise<IReconciliationItem> => {
+  const payment = entry.endToEndId
+    ? await Payment.findOne({ transactionId: entry.endToEndId, deletedAt: null })
+    : null;
+  const mismatches = payment ? compareEntry(entry, payment) : [];
+  const result: ReconciliationResult = !payment ? 'unmatched' : mismatches.length > 0 ? 'mismatched' : 'matched';
+
+  const item = await ReconciliationItem.create({
+    importId,
+    entryRef: entry.entryRef,
+    endToEndId: entry.endToEndId,
+    amount: entry.amount,
+    currency: entry.currency,
+    creditDebit: entry.creditDebit,
+    bookingDate: entry.bookingDate,
+    result,
+    mismatches,
+    paymentId: payment ? String(payment._id) : null,
+    state: result === 'matched' ? 'resolved' : 'open',
+    resolvedAt: result === 'matched' ? new Date() : null,
+  });
+
+  // A duplicate booking must not overwrite the payment's earlier successful match
+  if (payment && !mismatches.includes('duplicate')) {
+    const updated = await Payment.updateOne(
+      { _id: payment._id, reconciliationStatus: { $ne: 'matched' } },
+      {
+        $set: { reconciliationStatus: result, reconciledAt: new Date(), reconciliationItemId: String(item._id) },
+        $push: {
+          auditLog: {
+            actorId,
+            actorName: 'Reconciliation',
+            action: result === 'matched' ? 'reconciled' : 'reconciliation_mismatch',
+            timestamp: new Date(),
+            details: [entry.entryRef, mismatches.join(',')].filter(Boolean).join('; '),
+          },
+        },
+      }
+    );
+    if (updated.modifiedCount === 0) {
+      // Matched by a concurrent import in the meantime
+      item.result = 'mismatched';
+      item.mismatches = [...mismatches, 'duplicate'];
+      item.state = 'open';
+      item.resolvedAt = null;
+      await item.save();
+    }
+  }
+
+  return item;
+};
+
+/**
+ * Import a camt.053 statement or camt.054 notification and match its booked entries to
+ * payments by end-to-end ID. Pending and informational entries are counted but skipped.
+ */
+export const importStatement = async (
+  xml: unknown,
+  fileName: string | undefined,
+  actorId: string
+): Promise<{ statementImport: IStatementImport; items: IReconciliationItem[] }> => {
+  if (typeof xml !== 'string' || !xml.trim()) {
+    throw new ReconciliationError('INVALID_STATEMENT_FILE', 'file must contain the camt XML text.');
+  }
+
+  let message;
+  try {
+    message = parseCamt(xml);
+  } catch (error: any) {
+    throw new ReconciliationError('INVALID_STATEMENT_FILE', `Could not read statement: ${error?.message || error}`);
+  }
+
+  let statementImport: IStatementImport;
+  try {
+    statementImport = await StatementImport.create({
+      messageType: message.type,
+      messageId: message.messageId,
+      fileName: fileName ? String(fileName).slice(0, 255) : null,
+      messageCreatedAt: message.createdAt,
+      importedBy: actorId,
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      throw new ReconciliationError('STATEMENT_ALREADY_IMPORTED', `${message.type} message ${message.messageId} was already imported.`);
+    }
+    throw error;
+  }
+
+  const booked = message.entries.filter(e => e.status === 'BOOK');
+  const items: IReconciliationItem[] = [];
+  for (const entry of booked) {
+    items.push(await reconcileEntry(entry, String(statementImport._id), actorId));
+  }
+
+  statementImport.counts = {
+    entries: message.entries.length,
+    matched: items.filter(i => i.result === 'matched').length,
+    mismatched: items.filter(i => i.result === 'mismatched').length,
+    unmatched: items.filter(i => i.result === 'unmatched').length,
+    skipped: message.entries.length - booked.length,
+  };
+  await statementImport.save();
+
+  logger.info('Statement imported:', { importId: statementImport._id, type: message.type, messageId: message.messageId, ...statementImport.counts });
+
+  return { statementImport, items };
+};
+
+/**
+ * Close a queue item once an employee has investigated it
+ */
+export const resolveReconciliationItem = async (id: string, actorId: string, note: string): Promise<IReconciliationItem> => {
+  const item = await ReconciliationItem.findOneAndUpdate(
+    { _id: id, state: 'open' },
+    { $set: { state: 'resolved', resolvedBy: actorId, resolvedAt: new Date(), resolutionNote: note } },
+    { new: true }
+  );
+  if (item) return item;
+
+  const exists = await ReconciliationItem.exists({ _id: id });
+  throw exists
+    ? new ReconciliationError('ITEM_ALREADY_RESOLVED', 'This reconciliation item is already resolved.')
+    : new ReconciliationError('ITEM_NOT_FOUND', 'Reconciliation item not found.');
+};
@@ -0,0 +1,77 @@
+export const RECURRENCE_FREQUENCIES = ['once', 'weekly', 'monthly', 'end_of_month'] as const;
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export interface IRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Series ends after whichever limit is reached first
+  endDate?: Date | null;
+  count?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Parse a YYYY-MM-DD calendar date as UTC midnight. Returns null for anything else.
+ */
+export const parseCalendarDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+};
+
+export const startOfUtcDay = (date: Date = new Date()): Date => {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+/**
+ * Date of the n-th occurrence (0-based) of a series anchored at `start`.
+ * Occurrences are computed from the anchor rather than the previous date so that
+ * monthly payments on the 31st return to the 31st after a short month.
+ */
+export const occurrenceDate = (start: Date, frequency: RecurrenceFrequency, index: number): Date => {
+  switch (frequency) {
+    case 'once':
+      return new Date(start.getTime());
+    case 'weekly':
+      return new Date(start.getTime() + index * 7 * DAY_MS);
+    case 'monthly': {
+      const monthIndex = start.getUTCMonth() + index;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), daysInMonth(year, month))));
+    }
+    case 'end_of_month': {
+      const monthIndex = start.getUTCMonth() + index;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      return new Date(Date.UTC(year, month, daysInMonth(year, month)));
+    }
+  }
+};
+
+/**
+ * Date of the n-th occurrence, or null once the series has run its course
+ */
+export const nextOccurrence = (start: Date, rule: IRecurrenceRule, index: number): Date | null => {
+  if (rule.frequency === 'once' && index > 0) return null;
+  if (rule.count && index >= rule.count) return null;
+  const date = occurrenceDate(start, rule.frequency, index);
+  if (rule.endDate && date.getTime() > rule.endDate.getTime()) return null;
+  return date;
+};
+
+/**
+ * Index of the first occurrence on or after `from` (used when resuming a paused series)
+ */
+export const firstIndexOnOrAfter = (start: Date, rule: IRecurrenceRule, fromIndex: number, from: Date): number => {
+  let index = fromIndex;
+  let date = nextOccurrence(start, rule, index);
+  while (date && date.getTime() < from.getTime()) {
+    index += 1;
+    date = nextOccurrence(start, rule, index);
+  }
+  return index;
+};
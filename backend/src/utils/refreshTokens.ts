@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { RefreshToken, RefreshTokenRevokedReason } from '../models/RefreshToken';
+import { securityConfig } from '../config';
+import { logger } from './logger';
+
+export type RefreshTokenErrorCode = 'INVALID_REFRESH_TOKEN' | 'REFRESH_TOKEN_EXPIRED' | 'REFRESH_TOKEN_REUSED';
+
+export class RefreshTokenError extends Error {
+  constructor(public readonly code: RefreshTokenErrorCode, message: string) {
+    super(message);
+    this.name = 'RefreshTokenError';
+  }
+
+  get statusCode(): number {
+    return 401;
+  }
+}
+
+export interface IIssuedRefreshToken {
+  token: string;
+  expiresAt: Date;
+}
+
+export interface IRefreshTokenContext {
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// "7d", "12h", "30m", "45s" or plain seconds, as accepted by jsonwebtoken's expiresIn
+export const parseDuration = (value: string): number => {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid duration: "${value}"`);
+  return Number(match[1]) * (DURATION_UNITS_MS[match[2] || 's'] as number);
+};
+
+// Keyed so a leaked token table cannot be checked against guessed tokens without the secret
+const hashToken = (token: string): string => (
+  crypto.createHmac('sha256', securityConfig.jwtRefreshSecret || securityConfig.jwtSecret).update(token).digest('hex')
+);
+
+const generateToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+const storeToken = async (token: string, userId: string, familyId: string, expiresAt: Date, context: IRefreshTokenContext): Promise<void> => {
+  await RefreshToken.create({
+    tokenHash: hashToken(token),
+    userId,
+    familyId,
+    expiresAt,
+    ip: context.ip || null,
+    userAgent: context.userAgent || null,
+  });
+};
+
+/**
+ * Start a new token family at login. Rotated tokens keep the family's expiry, so a login
+ * lasts at most jwtRefreshExpiresIn however often it is refreshed.
+ */
+export const issueRefreshToken = async (userId: string, context: IRefreshTokenContext = {}): Promise<IIssuedRefreshToken> => {
+  const expiresAt = new Date(Date.now() + parseDuration(securityConfig.jwtRefreshExpiresIn));
+  const token = generateToken();
+  await storeToken(token, userId, crypto.randomUUID(), expiresAt, context);
+  return { token, expiresAt };
+};
+
+export const revokeRefreshTokenFamily = async (familyId: string, reason: RefreshTokenRevokedReason): Promise<number> => {
+  const result = await RefreshToken.updateMany(
+    { familyId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount;
+};
+
+// Revoke every live token family of a user; returns how many families were affected
+export const revokeUserRefreshTokens = async (userId: string, reason: RefreshTokenRevokedReason): Promise<number> => {
+  const familyIds = await RefreshToken.distinct('familyId', { userId, revokedAt: null });
+  await RefreshToken.updateMany(
+    { userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return familyIds.length;
+};
+
+/**
+ * Exchange a refresh token for its successor. Each token can be exchanged once; presenting
+ * one that was already exchanged means it was copied, so the whole family is revoked and the
+ * legitimate holder has to log in again too.
+ */
+export const rotateRefreshToken = async (
+  token: string,
+  context: IRefreshTokenContext = {}
+): Promise<IIssuedRefreshToken & { userId: string; familyId: string }> => {
+  const tokenHash = hashToken(token);
+  const now = new Date();
+  const nextToken = generateToken();
+
+  // Claim the token atomically so two concurrent exchanges cannot both succeed
+  const current = await RefreshToken.findOneAndUpdate(
+    { tokenHash, usedAt: null, revokedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now, replacedByHash: hashToken(nextToken) } },
+    { new: true }
+  );
+
+  if (!current) {
+    const existing = await RefreshToken.findOne({ tokenHash });
+    if (!existing) {
+      throw new RefreshTokenError('INVALID_REFRESH_TOKEN', 'Invalid refresh token.');
+    }
+    if (existing.usedAt && !existing.revokedAt) {
+      const revoked = await revokeRefreshTokenFamily(existing.familyId, 'reuse_detected');
+      logger.warn('Refresh token reuse detected; token family revoked:', {
+        userId: existing.userId,
+        familyId: existing.familyId,
+        revoked,
+        ip: context.ip,
+        userAgent: context.userAgent,
+      });
+      throw new RefreshTokenError('REFRESH_TOKEN_REUSED', 'Refresh token has already been used. Please log in again.');
+    }
+    if (existing.revokedAt) {
+      throw new RefreshTokenError('INVALID_REFRESH_TOKEN', 'Refresh token has been revoked. Please log in again.');
+    }
+    throw new RefreshTokenError('REFRESH_TOKEN_EXPIRED', 'Refresh token has expired. Please log in again.');
+  }
+
+  await storeToken(nextToken, current.userId, current.familyId, current.expiresAt, context);
+
+  return { token: nextToken, expiresAt: current.expiresAt, userId: current.userId, familyId: current.familyId };
+};
+
+/**
+ * Revoke the family a refresh token belongs to (logout). Tokens of other users are ignored.
+ */
+export const revokeRefreshToken = async (token: string, userId: string, reason: RefreshTokenRevokedReason = 'logout'): Promise<boolean> => {
+  const existing = await RefreshToken.findOne({ tokenHash: hashToken(token), userId });
+  if (!existing) return false;
+  await revokeRefreshTokenFamily(existing.familyId, reason);
+  return true;
+};
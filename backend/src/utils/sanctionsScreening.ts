@@ -0,0 +1,314 @@
+import fs from 'fs';
+import path from 'path';
+import { sanctionsConfig } from '../config';
+import { parseCsv } from './csv';
+import { parseXml, xmlChildren } from './xml';
+import { parseIBAN } from './iban';
+import { logger } from './logger';
+
+export interface ISanctionsEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  countries: string[];
+  programs: string[];
+  source: string;
+}
+
+export interface IScreeningMatch {
+  // 'name': the recipient resembles a listed party; 'country': the payment touches a sanctioned jurisdiction;
+  // 'rule': an AML rule with a hold action triggered (entryId is the rule ID, score its risk score)
+  type: 'name' | 'country' | 'rule';
+  entryId: string | null;
+  listedName: string | null;
+  // The listed name or alias that scored highest
+  matchedName: string | null;
+  score: number;
+  countries: string[];
+  programs: string[];
+  source: string;
+  // The listed party is associated with one of the payment's countries
+  countryMatch: boolean;
+  detail?: string | null;
+}
+
+export interface IScreeningInput {
+  recipientName: string;
+  recipientCountry?: string | null;
+  recipientIBAN?: string | null;
+  recipientSWIFT?: string | null;
+}
+
+export interface IScreeningResult {
+  hit: boolean;
+  screenedName: string;
+  countries: string[];
+  matches: IScreeningMatch[];
+  threshold: number;
+  listEntries: number;
+  listLoadedAt: Date | null;
+}
+
+interface IIndexedName {
+  name: string;
+  tokens: string[];
+}
+
+interface IIndexedEntry {
+  entry: ISanctionsEntry;
+  names: IIndexedName[];
+}
+
+const DEFAULT_LIST_PATH = path.resolve(__dirname, '../../data/sanctions-list.csv');
+const MAX_REPORTED_MATCHES = 10;
+// Corroborating country evidence lifts a near miss over the threshold
+const COUNTRY_MATCH_BONUS = 0.05;
+
+let entries: IIndexedEntry[] = [];
+let loadedAt: Date | null = null;
+
+// Letters that Unicode decomposition leaves alone, plus Cyrillic, mapped to Latin (uppercase input)
+const TRANSLITERATION: Record<string, string> = {
+  'Æ': 'AE', 'Œ': 'OE', 'Ø': 'O', 'Ł': 'L', 'Đ': 'D', 'Þ': 'TH', 'Ð': 'D', 'Ħ': 'H',
+  'А': 'A', 'Б': 'B', 'В': 'V', 'Г': 'G', 'Ґ': 'G', 'Д': 'D', 'Е': 'E', 'Ё': 'E', 'Є': 'YE', 'Ж': 'ZH', 'З': 'Z',
+  'И': 'I', 'І': 'I', 'Ї': 'YI', 'Й': 'Y', 'К': 'K', 'Л': 'L', 'М': 'M', 'Н': 'N', 'О': 'O', 'П': 'P', 'Р': 'R',
+  'С': 'S', 'Т': 'T', 'У': 'U', 'Ф': 'F', 'Х': 'KH', 'Ц': 'TS', 'Ч': 'CH', 'Ш': 'SH', 'Щ': 'SHCH', 'Ъ': '',
+  'Ы': 'Y', 'Ь': '', 'Э': 'E', 'Ю': 'YU', 'Я': 'YA',
+};
+
+// Titles and legal-form words that say nothing about who the party is
+const NOISE_TOKENS = new Set([
+  'MR', 'MRS', 'MS', 'MISS', 'DR', 'PROF', 'SIR', 'SHEIKH',
+  'LTD', 'LIMITED', 'LLC', 'LLP', 'INC', 'CORP', 'CORPORATION', 'CO', 'COMPANY', 'PLC', 'GMBH', 'AG', 'SA', 'SAS',
+  'SARL', 'SPA', 'SRL', 'BV', 'NV', 'OOO', 'OAO', 'ZAO', 'PAO', 'JSC', 'PJSC', 'FZE', 'FZCO', 'THE', 'OF', 'AND',
+]);
+
+/**
+ * Reduce a name to comparable tokens: transliterated, accents removed, uppercase,
+ * punctuation and noise words dropped.
+ */
+export const normalizeName = (value: string): string[] => {
+  const transliterated = [...value.toUpperCase()].map(ch => TRANSLITERATION[ch] ?? ch).join('');
+  return transliterated
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !NOISE_TOKENS.has(token));
+};
+
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = true;
+      bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Similarity of two tokenised names, independent of word order. Each word of the shorter
+ * name is paired with its closest word in the longer one; names sharing only some of their
+ * words are discounted so a lone surname does not match everyone who carries it.
+ */
+export const nameSimilarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const average = shorter.reduce((sum, token) => sum + Math.max(...longer.map(other => jaroWinkler(token, other))), 0) / shorter.length;
+  const tokenScore = average * (0.7 + 0.3 * (shorter.length / longer.length));
+  // Catches names split or joined differently ("AL QAIDA" / "ALQAIDA")
+  const compactScore = jaroWinkler(a.join(''), b.join(''));
+  return Math.max(tokenScore, compactScore);
+};
+
+const splitList = (value: string | undefined, separator: RegExp = /[;|]/): string[] => (
+  (value || '').split(separator).map(v => v.trim()).filter(Boolean)
+);
+
+const countryCodes = (values: string[]): string[] => [...new Set(values.map(v => v.toUpperCase()).filter(v => /^[A-Z]{2}$/.test(v) && v !== '00'))];
+
+// Our own format: id,name,aliases,countries,programs,source (multi-valued cells separated by ';')
+const parseGenericCsv = (rows: string[][]): ISanctionsEntry[] => {
+  const [header, ...body] = rows;
+  const column = (name: string) => header!.findIndex(h => h.trim().toLowerCase() === name);
+  const idx = { id: column('id'), name: column('name'), aliases: column('aliases'), countries: column('countries'), programs: column('programs'), source: column('source') };
+  return body.map((cells, i) => ({
+    id: cells[idx.id]?.trim() || `ROW-${i + 2}`,
+    name: cells[idx.name]?.trim() || '',
+    aliases: splitList(cells[idx.aliases]),
+    countries: countryCodes(splitList(cells[idx.countries])),
+    programs: splitList(cells[idx.programs]),
+    source: cells[idx.source]?.trim() || 'LOCAL',
+  }));
+};
+
+const ofacValue = (value: string | undefined): string => (value && value.trim() !== '-0-' ? value.trim() : '');
+
+/**
+ * OFAC legacy CSV files have no header: sdn.csv rows carry 12 columns
+ * (ent_num, name, type, program, ...), alt.csv rows 5 (ent_num, alt_num, type, name, remarks).
+ * Aliases are returned separately because they may be loaded before their entries.
+ */
+const parseOfacCsv = (rows: string[][], aliases: Map<string, string[]>): ISanctionsEntry[] => {
+  const parsed: ISanctionsEntry[] = [];
+  for (const cells of rows) {
+    const id = `OFAC-${ofacValue(cells[0])}`;
+    if (cells.length <= 5) {
+      const alias = ofacValue(cells[3]);
+      if (alias) aliases.set(id, [...(aliases.get(id) || []), alias]);
+      continue;
+    }
+    parsed.push({
+      id,
+      name: ofacValue(cells[1]),
+      aliases: [],
+      countries: [],
+      programs: ofacValue(cells[3]).split(/[\[\]\s]+/).filter(Boolean),
+      source: 'OFAC',
+    });
+  }
+  return parsed;
+};
+
+// EU Financial Sanctions Files (FSF) consolidated list export
+const parseEuXml = (text: string): ISanctionsEntry[] => xmlChildren(parseXml(text), 'sanctionEntity').map(entity => {
+  const names = xmlChildren(entity, 'nameAlias').map(a => a.attrs['wholeName'] || '').filter(Boolean);
+  const countries = ['citizenship', 'address', 'birthdate'].flatMap(tag => xmlChildren(entity, tag).map(c => c.attrs['countryIso2Code'] || ''));
+  return {
+    id: `EU-${entity.attrs['euReferenceNumber'] || entity.attrs['logicalId'] || ''}`,
+    name: names[0] || '',
+    aliases: names.slice(1),
+    countries: countryCodes(countries),
+    programs: [...new Set(xmlChildren(entity, 'regulation').map(r => r.attrs['programme'] || '').filter(Boolean))],
+    source: 'EU',
+  };
+});
+
+const readListFile = (filePath: string, ofacAliases: Map<string, string[]>): ISanctionsEntry[] => {
+  const text = fs.readFileSync(filePath, 'utf8');
+  if (text.replace(/^\ufeff/, '').trimStart().startsWith('<')) return parseEuXml(text);
+
+  const rows = parseCsv(text);
+  const header = (rows[0] || []).map(h => h.trim().toLowerCase());
+  return header.includes('name') ? parseGenericCsv(rows) : parseOfacCsv(rows, ofacAliases);
+};
+
+/**
+ * Load (or reload) the sanctions list from every configured file. The previous list stays
+ * in place if any file cannot be read, so a bad update never leaves screening without one.
+ */
+export const loadSanctionsList = (filePaths: string[] = sanctionsConfig.listPaths.length > 0 ? sanctionsConfig.listPaths : [DEFAULT_LIST_PATH]): number => {
+  const ofacAliases = new Map<string, string[]>();
+  const loaded = filePaths.flatMap(filePath => readListFile(filePath, ofacAliases));
+
+  const next: IIndexedEntry[] = [];
+  for (const entry of loaded) {
+    entry.aliases.push(...(ofacAliases.get(entry.id) || []));
+    const names = [entry.name, ...entry.aliases]
+      .map(name => ({ name, tokens: normalizeName(name) }))
+      .filter(n => n.tokens.length > 0);
+    if (names.length > 0) next.push({ entry, names });
+  }
+
+  if (next.length === 0) throw new Error(`Sanctions list ${filePaths.join(', ')} contains no entries.`);
+
+  entries = next;
+  loadedAt = new Date();
+  logger.info('Sanctions list loaded:', { entries: entries.length, files: filePaths });
+  return entries.length;
+};
+
+export const isSanctionsListLoaded = (): boolean => loadedAt !== null;
+
+/**
+ * Countries a payment touches: the stated recipient country and those implied by the IBAN and BIC
+ */
+export const paymentCountries = (input: IScreeningInput): string[] => {
+  const iban = input.recipientIBAN ? parseIBAN(input.recipientIBAN) : null;
+  const swift = (input.recipientSWIFT || '').replace(/\s/g, '').toUpperCase();
+  return countryCodes([
+    (input.recipientCountry || '').trim(),
+    iban?.valid ? iban.country : '',
+    swift.length >= 6 ? swift.slice(4, 6) : '',
+  ]);
+};
+
+/**
+ * Screen a payment recipient against the loaded list and the sanctioned jurisdictions.
+ * A hit is any name scoring at or above the threshold, or any blocked country.
+ */
+export const screenRecipient = (input: IScreeningInput): IScreeningResult => {
+  const threshold = sanctionsConfig.matchThreshold;
+  const tokens = normalizeName(input.recipientName || '');
+  const countries = paymentCountries(input);
+  const matches: IScreeningMatch[] = [];
+
+  for (const country of countries.filter(c => sanctionsConfig.blockedCountries.includes(c))) {
+    matches.push({ type: 'country', entryId: null, listedName: null, matchedName: null, score: 1, countries: [country], programs: [], source: 'SANCTIONED_COUNTRIES', countryMatch: true });
+  }
+
+  for (const { entry, names } of entries) {
+    let best: IIndexedName | null = null;
+    let bestScore = 0;
+    for (const candidate of names) {
+      const score = nameSimilarity(tokens, candidate.tokens);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    if (!best) continue;
+
+    const countryMatch = entry.countries.some(c => countries.includes(c));
+    const score = Math.min(1, bestScore + (countryMatch ? COUNTRY_MATCH_BONUS : 0));
+    if (score < threshold) continue;
+
+    matches.push({
+      type: 'name',
+      entryId: entry.id,
+      listedName: entry.name,
+      matchedName: best.name,
+      score: Math.round(score * 1000) / 1000,
+      countries: entry.countries,
+      programs: entry.programs,
+      source: entry.source,
+      countryMatch,
+    });
+  }
+
+  matches.sort((a, b) => b.score - a.score);
+  return {
+    hit: matches.length > 0,
+    screenedName: tokens.join(' '),
+    countries,
+    matches: matches.slice(0, MAX_REPORTED_MATCHES),
+    threshold,
+    listEntries: entries.length,
+    listLoadedAt: loadedAt,
+  };
+};
@@ -0,0 +1,118 @@
+import { Payment, IPayment, IPaymentActor } from '../models/Payment';
+import { ScreeningCase, IScreeningCase } from '../models/ScreeningCase';
+import { screenRecipient, IScreeningResult } from './sanctionsScreening';
+import { releaseHold } from './ledgerService';
+import { releaseTransferLimits } from './transferLimits';
+import { logger } from './logger';
+
+export type ScreeningDecision = 'clear' | 'confirm';
+
+export type ScreeningErrorCode = 'CASE_NOT_FOUND' | 'CASE_ALREADY_DECIDED';
+
+export class ScreeningError extends Error {
+  constructor(public readonly code: ScreeningErrorCode, message: string) {
+    super(message);
+    this.name = 'ScreeningError';
+  }
+
+  get statusCode(): number {
+    return this.code === 'CASE_NOT_FOUND' ? 404 : 409;
+  }
+}
+
+export const screenPayment = (payment: IPayment, recipientCountry?: string | null): IScreeningResult => screenRecipient({
+  recipientName: payment.recipientName,
+  recipientCountry: recipientCountry ?? null,
+  recipientIBAN: payment.recipientIBAN,
+  recipientSWIFT: payment.recipientSWIFT,
+});
+
+/**
+ * Create a payment that has not been saved yet on hold instead of pending,
+ * recording who held it and why in its audit log.
+ */
+export const holdForReview = (payment: IPayment, actorName: string, details: string): void => {
+  payment.status = 'on_hold';
+  payment.auditLog = [
+    ...(payment.auditLog || []),
+    { actorId: 'system', actorName, action: 'screening_hold', timestamp: new Date(), details },
+  ];
+};
+
+export const openScreeningCase = async (payment: IPayment, result: IScreeningResult): Promise<IScreeningCase> => ScreeningCase.create({
+  paymentId: String(payment._id),
+  userId: payment.userId,
+  recipientName: payment.recipientName,
+  screenedName: result.screenedName,
+  countries: result.countries,
+  matches: result.matches,
+  threshold: result.threshold,
+  listEntries: result.listEntries,
+  listLoadedAt: result.listLoadedAt,
+});
+
+/**
+ * Record the compliance decision on a held payment. Clearing (false positive) releases it
+ * back to pending; confirming (true match) fails it and returns the reserved funds.
+ */
+export const decideScreeningCase = async (
+  paymentId: string,
+  decision: ScreeningDecision,
+  actor: IPaymentActor,
+  note: string
+): Promise<{ payment: IPayment; screeningCase: IScreeningCase }> => {
+  const payment = await Payment.findById(paymentId);
+  if (!payment) throw new ScreeningError('CASE_NOT_FOUND', 'Payment not found.');
+
+  // Validates the lifecycle before the case is touched; throws PaymentTransitionError
+  payment.applyTransition(
+    decision === 'clear' ? 'pending' : 'failed',
+    actor,
+    `screening ${decision}: ${note}`.slice(0, 1000),
+    decision === 'clear' ? 'clear_screening' : 'confirm_screening'
+  );
+
+  const screeningCase = await ScreeningCase.findOneAndUpdate(
+    { paymentId, state: 'open' },
+    {
+      $set: {
+        state: decision === 'clear' ? 'cleared' : 'confirmed',
+        decidedBy: actor.userId,
+        decidedByName: actor.email || null,
+        decidedAt: new Date(),
+        decisionNote: note,
+      },
+    },
+    { new: true }
+  );
+  if (!screeningCase) {
+    const exists = await ScreeningCase.exists({ paymentId });
+    throw exists
+      ? new ScreeningError('CASE_ALREADY_DECIDED', 'A decision has already been recorded for this screening case.')
+      : new ScreeningError('CASE_NOT_FOUND', 'No screening case exists for this payment.');
+  }
+
+  if (decision === 'confirm') {
+    payment.reasonCode = 'Compliance hold';
+    // Deliberately generic: the customer must not learn why the payment was stopped
+    payment.failureReason = 'The payment could not be processed.';
+  }
+
+  try {
+    await payment.save();
+  } catch (error) {
+    await ScreeningCase.updateOne(
+      { _id: screeningCase._id },
+      { $set: { state: 'open', decidedBy: null, decidedByName: null, decidedAt: null, decisionNote: null } }
+    );
+    throw error;
+  }
+
+  if (decision === 'confirm') {
+    await releaseHold(payment);
+    await releaseTransferLimits(payment);
+  }
+  logger.info('Screening decision recorded:', { paymentId, decision, caseId: screeningCase._id, actorUserId: actor.userId });
+
+  return { payment, screeningCase };
+};
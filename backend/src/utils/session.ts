@@ -0,0 +1,46 @@
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { User, IUserDocument } from '../models/User';
+import { config } from '../config';
+import { issueRefreshToken } from './refreshTokens';
+import { logger } from './logger';
+
+export interface ISessionTokens {
+  token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Generate JWT access token
+ */
+export const generateAccessToken = (userId: string, email: string, role: 'customer' | 'employee'): string => {
+  // iatMs: iat has whole seconds only, too coarse to tell a token from a revocation in the same second
+  const payload = { userId, email, role, iatMs: Date.now() };
+  // jti lets a single token be revoked at logout
+  const options: jwt.SignOptions = { expiresIn: config.jwtExpiresIn as any, jwtid: crypto.randomUUID() };
+
+  return jwt.sign(payload, config.jwtSecret, options);
+};
+
+/**
+ * Complete a login once every required factor has been checked: a short-lived access token
+ * and the first refresh token of a new family.
+ */
+export const startSession = async (user: IUserDocument, req: Request): Promise<ISessionTokens> => {
+  await User.updateLastLogin(user.id!);
+
+  const token = generateAccessToken(user.id!, user.email, user.role || 'customer');
+  const refreshToken = await issueRefreshToken(user.id!, { ip: req.ip, userAgent: req.get('User-Agent') });
+
+  logger.info('User logged in successfully:', {
+    userId: user.id,
+    email: user.email,
+    mfa: !!user.mfaEnabled,
+    ip: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  return { token, refreshToken: refreshToken.token, refreshTokenExpiresAt: refreshToken.expiresAt };
+};
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { securityConfig, stepUpConfig } from '../config';
+import { StepUpToken } from '../models/StepUpToken';
+
+// How the user re-proved their identity, strongest first
+export type StepUpMethod = 'webauthn' | 'totp' | 'password';
+
+// Derived from the JWT secret so a step-up token is useless as an access or challenge token
+const stepUpKey = (): Buffer => crypto.createHmac('sha256', securityConfig.jwtSecret).update('step-up').digest();
+
+/**
+ * Issue a single-use step-up token bound to the access token (by jti) the user confirmed with
+ */
+export const issueStepUpToken = async (
+  userId: string,
+  sessionJti: string,
+  method: StepUpMethod
+): Promise<{ stepUpToken: string; expiresAt: Date }> => {
+  const jti = crypto.randomUUID();
+  const stepUpToken = jwt.sign({ userId, purpose: 'step_up', method, sid: sessionJti }, stepUpKey(), {
+    expiresIn: stepUpConfig.tokenExpiresIn as any,
+    jwtid: jti,
+  });
+  const { exp } = jwt.decode(stepUpToken) as { exp: number };
+  const expiresAt = new Date(exp * 1000);
+
+  await StepUpToken.create({ jti, userId, sessionJti, method, expiresAt });
+  return { stepUpToken, expiresAt };
+};
+
+/**
+ * Whether the token is a current, unused step-up token for this user and access token.
+ * A valid token is claimed atomically, so it authorises exactly one action.
+ */
+export const consumeStepUpToken = async (token: string, userId: string, sessionJti: string): Promise<boolean> => {
+  let decoded: { userId?: string; purpose?: string; sid?: string; jti?: string };
+  try {
+    decoded = jwt.verify(token, stepUpKey()) as typeof decoded;
+  } catch {
+    return false;
+  }
+  if (decoded.purpose !== 'step_up' || decoded.userId !== userId || decoded.sid !== sessionJti || !decoded.jti) {
+    return false;
+  }
+
+  const claimed = await StepUpToken.findOneAndUpdate(
+    { jti: decoded.jti, userId, sessionJti, usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } }
+  );
+  return !!claimed;
+};
@@ -0,0 +1,53 @@
+import { RevokedToken, TokenRevocationReason } from '../models/RevokedToken';
+import { securityConfig } from '../config';
+import { IJWTPayload } from '../types';
+import { parseDuration, revokeUserRefreshTokens } from './refreshTokens';
+import { logger } from './logger';
+
+/**
+ * Whether an access token was revoked on its own (logout) or together with every other token
+ * of its user (password change, forced logout). Tokens are compared by their millisecond issue
+ * time, so the token handed out right after a password change stays valid. Tokens without
+ * iatMs (issued before it was added) fall back to the whole-second iat.
+ */
+export const isTokenRevoked = async (payload: IJWTPayload): Promise<boolean> => {
+  const issuedAt = new Date(payload.iatMs ?? (payload.iat || 0) * 1000);
+  const entry = await RevokedToken.exists({
+    $or: [
+      { scope: 'token', jti: payload.jti },
+      { scope: 'user', userId: payload.userId, revokedBefore: { $gt: issuedAt } },
+    ],
+  });
+  return entry !== null;
+};
+
+/**
+ * Revoke a single access token until it would have expired anyway
+ */
+export const revokeAccessToken = async (payload: IJWTPayload, reason: TokenRevocationReason, revokedBy: string | null = null): Promise<void> => {
+  if (!payload.jti) return;
+  const expiresAt = payload.exp ? new Date(payload.exp * 1000) : new Date(Date.now() + parseDuration(securityConfig.jwtExpiresIn));
+  await RevokedToken.updateOne(
+    { scope: 'token', jti: payload.jti },
+    { $setOnInsert: { scope: 'token', jti: payload.jti, userId: payload.userId, reason, revokedBy, expiresAt } },
+    { upsert: true }
+  );
+};
+
+/**
+ * Revoke every access and refresh token issued to a user so far. The entry only needs to
+ * outlive the longest-lived access token issued before it.
+ */
+export const revokeAllUserTokens = async (userId: string, reason: TokenRevocationReason, revokedBy: string | null = null): Promise<void> => {
+  const now = new Date();
+  await RevokedToken.create({
+    scope: 'user',
+    userId,
+    revokedBefore: now,
+    reason,
+    revokedBy,
+    expiresAt: new Date(now.getTime() + parseDuration(securityConfig.jwtExpiresIn)),
+  });
+  const refreshFamilies = await revokeUserRefreshTokens(userId, reason);
+  logger.info('All tokens revoked for user:', { userId, reason, revokedBy, refreshFamilies });
+};
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps: HMAC-SHA1, 30 second steps
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (data: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+export const base32Decode = (encoded: string): Buffer => {
+  const clean = encoded.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// 160-bit secret, the length RFC 4226 recommends for HMAC-SHA1
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+// HOTP (RFC 4226): dynamic truncation of HMAC-SHA1 over the 8-byte big-endian counter
+export const hotp = (key: Buffer, counter: number, digits: number = TOTP_DIGITS): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = (hmac[hmac.length - 1] as number) & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+};
+
+export const totpStep = (at: number = Date.now()): number => Math.floor(at / 1000 / TOTP_PERIOD_SECONDS);
+
+export const totpCode = (secret: string, at: number = Date.now()): string => hotp(base32Decode(secret), totpStep(at));
+
+/**
+ * Check a code against the current step and one step either side (clock drift). Returns the
+ * matching step so the caller can refuse it next time, or null. Steps at or before
+ * lastUsedStep are not accepted, so a code cannot be replayed within its validity window.
+ */
+export const verifyTotp = (secret: string, code: string, lastUsedStep: number | null = null, at: number = Date.now()): number | null => {
+  const candidate = String(code || '').replace(/\s/g, '');
+  if (!/^\d+$/.test(candidate) || candidate.length !== TOTP_DIGITS) return null;
+
+  const key = base32Decode(secret);
+  const current = totpStep(at);
+  for (const step of [current - 1, current, current + 1]) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (crypto.timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(candidate))) return step;
+  }
+  return null;
+};
+
+// Provisioning URI for authenticator apps (usually shown as a QR code)
+export const totpUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,39 @@
+import { nextSequence } from '../models/Counter';
+import { mod97 } from './validation';
+
+// Format: TX + YYYYMMDD (UTC) + 8-digit daily sequence + 2 check digits, e.g. TX202401150000012311
+const PREFIX = 'TX';
+const SEQUENCE_DIGITS = 8;
+const TRANSACTION_ID_REGEX = /^TX\d{8}\d{8}\d{2}$/;
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+/**
+ * Compute ISO 7064 MOD 97-10 check digits (same scheme as IBAN)
+ */
+export const computeCheckDigits = (body: string): string => {
+  const check = 98 - mod97(`${body}00`);
+  return check.toString().padStart(2, '0');
+};
+
+/**
+ * Verify the shape and check digits of a transaction reference
+ */
+export const isValidTransactionId = (value: string): boolean => {
+  if (!value || !TRANSACTION_ID_REGEX.test(value)) return false;
+  return mod97(value) === 1;
+};
+
+/**
+ * Generate the next transaction reference for the given day.
+ * The daily sequence is an atomic counter, so concurrent requests never share a value.
+ */
+export const generateTransactionId = async (date: Date = new Date()): Promise<string> => {
+  const day = formatDate(date);
+  const seq = await nextSequence(`transactionId:${day}`);
+  if (seq >= 10 ** SEQUENCE_DIGITS) {
+    throw new Error(`Daily transaction sequence exhausted for ${day}`);
+  }
+  const body = `${PREFIX}${day}${seq.toString().padStart(SEQUENCE_DIGITS, '0')}`;
+  return `${body}${computeCheckDigits(body)}`;
+};
@@ -0,0 +1,323 @@
+import { Payment, IPayment, IPaymentActor } from '../models/Payment';
+import { LimitOverride, ILimitOverride } from '../models/LimitOverride';
+import { LimitCounter, ILimitCounter } from '../models/LimitCounter';
+import { User } from '../models/User';
+import { transferLimitConfig } from '../config';
+import { CUSTOMER_TIERS, CustomerTier, DEFAULT_CUSTOMER_TIER, ITransferLimits, LimitPeriod, LIMIT_PERIODS, LIMIT_REFERENCE_RATES, TIER_LIMITS } from '../config/transferLimits';
+import { startOfUtcDay } from './recurrence';
+import { toMinor, fromMinor } from './ledgerService';
+import { logger } from './logger';
+
+export type TransferLimitErrorCode = 'LIMIT_EXCEEDED' | 'INVALID_OVERRIDE' | 'OVERRIDE_NOT_FOUND';
+
+export class TransferLimitError extends Error {
+  constructor(
+    public readonly code: TransferLimitErrorCode,
+    message: string,
+    public readonly period: LimitPeriod | null = null,
+    public readonly remaining: number | null = null,
+    public readonly currency: string | null = null
+  ) {
+    super(message);
+    this.name = 'TransferLimitError';
+  }
+
+  get statusCode(): number {
+    if (this.code === 'INVALID_OVERRIDE') return 400;
+    if (this.code === 'OVERRIDE_NOT_FOUND') return 404;
+    return 422;
+  }
+}
+
+export interface ILimitUsage {
+  daily: number;
+  monthly: number;
+}
+
+export interface ICurrencyLimitStatus {
+  currency: string;
+  limits: ITransferLimits;
+  usage: ILimitUsage;
+  remaining: ITransferLimits;
+}
+
+export interface ILimitStatus {
+  tier: CustomerTier;
+  baseCurrency: string;
+  // Caps in force: the tier's, replaced by any active employee override
+  limits: ITransferLimits;
+  usage: ILimitUsage;
+  remaining: ITransferLimits;
+  currencies: ICurrencyLimitStatus[];
+  override: ILimitOverride | null;
+}
+
+type LimitValues = Partial<Record<LimitPeriod, number | null>>;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const PERIOD_LABELS: Record<LimitPeriod, string> = {
+  perTransaction: 'per-payment',
+  daily: 'daily',
+  monthly: 'monthly',
+};
+
+/**
+ * Convert an amount to the limits base currency at the reference rates
+ */
+export const toBaseAmount = (amount: number, currency: string): number => {
+  const from = LIMIT_REFERENCE_RATES[currency.toUpperCase()];
+  const to = LIMIT_REFERENCE_RATES[transferLimitConfig.baseCurrency];
+  if (!from || !to) throw new Error(`No reference rate for ${from ? transferLimitConfig.baseCurrency : currency}`);
+  return round2((amount / from) * to);
+};
+
+export const customerTier = async (userId: string): Promise<CustomerTier> => {
+  const user = await User.findById(userId);
+  const tier = user?.tier;
+  return tier && (CUSTOMER_TIERS as readonly string[]).includes(tier) ? tier : DEFAULT_CUSTOMER_TIER;
+};
+
+const activeOverride = async (userId: string, now: Date): Promise<ILimitOverride | null> => {
+  const override = await LimitOverride.findOne({ userId, active: true });
+  return override && (!override.expiresAt || override.expiresAt > now) ? override : null;
+};
+
+const startOfUtcMonth = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+// Payments that still count against the limits: anything not cancelled, failed or deleted
+const paymentsThisMonth = (userId: string, now: Date) => Payment.find({
+  userId,
+  deletedAt: null,
+  status: { $nin: ['cancelled', 'failed'] },
+  createdAt: { $gte: startOfUtcMonth(now) },
+}).select('amount currency limitBaseAmount createdAt');
+
+const remainingFor = (limits: ITransferLimits, usage: ILimitUsage): ITransferLimits => {
+  const daily = limits.daily === null ? null : Math.max(0, round2(limits.daily - usage.daily));
+  const monthly = limits.monthly === null ? null : Math.max(0, round2(limits.monthly - usage.monthly));
+  const caps = [limits.perTransaction, daily, monthly].filter((c): c is number => c !== null);
+  return { perTransaction: caps.length > 0 ? Math.min(...caps) : null, daily, monthly };
+};
+
+/**
+ * Caps, usage and remaining allowance for a customer. Base caps are in the base currency;
+ * per-currency caps from the tier are reported in their own currency.
+ */
+export const getLimitStatus = async (userId: string, now: Date = new Date()): Promise<ILimitStatus> => {
+  const [tier, override, payments] = await Promise.all([customerTier(userId), activeOverride(userId, now), paymentsThisMonth(userId, now)]);
+  const tierLimits = TIER_LIMITS[tier];
+  const limits = { ...tierLimits.base };
+  if (override) LIMIT_PERIODS.forEach(period => { if (override[period] !== null) limits[period] = override[period]; });
+
+  const dayStart = startOfUtcDay(now);
+  const usage: ILimitUsage = { daily: 0, monthly: 0 };
+  const currencyUsage = new Map<string, ILimitUsage>();
+  for (const p of payments) {
+    const base = p.limitBaseAmount ?? toBaseAmount(p.amount, p.currency);
+    const own = currencyUsage.get(p.currency) || { daily: 0, monthly: 0 };
+    usage.monthly += base;
+    own.monthly += p.amount;
+    if (p.createdAt >= dayStart) {
+      usage.daily += base;
+      own.daily += p.amount;
+    }
+    currencyUsage.set(p.currency, own);
+  }
+  usage.daily = round2(usage.daily);
+  usage.monthly = round2(usage.monthly);
+
+  const currencies = Object.entries(tierLimits.currencies).map(([currency, caps]) => {
+    const own = currencyUsage.get(currency) || { daily: 0, monthly: 0 };
+    const currencyLimits: ITransferLimits = { perTransaction: caps?.perTransaction ?? null, daily: caps?.daily ?? null, monthly: caps?.monthly ?? null };
+    const currencyUsed = { daily: round2(own.daily), monthly: round2(own.monthly) };
+    return { currency, limits: currencyLimits, usage: currencyUsed, remaining: remainingFor(currencyLimits, currencyUsed) };
+  });
+
+  return { tier, baseCurrency: transferLimitConfig.baseCurrency, limits, usage, remaining: remainingFor(limits, usage), currencies, override };
+};
+
+const exceeded = (period: LimitPeriod, remaining: number, currency: string): TransferLimitError => new TransferLimitError(
+  'LIMIT_EXCEEDED',
+  period === 'perTransaction'
+    ? `This payment exceeds your ${PERIOD_LABELS[period]} limit of ${remaining.toFixed(2)} ${currency}.`
+    : `This payment exceeds your ${PERIOD_LABELS[period]} transfer limit. You can send up to ${remaining.toFixed(2)} ${currency} more ${period === 'daily' ? 'today' : 'this month'}.`,
+  period,
+  remaining,
+  currency
+);
+
+type CountedPeriod = Exclude<LimitPeriod, 'perTransaction'>;
+
+interface IReservation {
+  period: CountedPeriod;
+  // null for the base-currency counter
+  currency: string | null;
+  amount: number;
+  cap: number | null;
+  // Usage from stored payments, used when the period's counter is first created
+  seed: number;
+}
+
+const COUNTED_PERIODS: CountedPeriod[] = ['daily', 'monthly'];
+
+const periodStart = (period: CountedPeriod, at: Date): Date => (period === 'daily' ? startOfUtcDay(at) : startOfUtcMonth(at));
+
+const counterKey = (userId: string, period: CountedPeriod, currency: string | null, at: Date) => ({
+  userId,
+  period,
+  periodStart: periodStart(period, at),
+  currency,
+});
+
+/**
+ * Atomically add the amount to the period's counter if it stays within the cap; null when it would not
+ */
+const reserve = async (userId: string, reservation: IReservation, at: Date): Promise<ILimitCounter | null> => {
+  const key = counterKey(userId, reservation.period, reservation.currency, at);
+  const start = key.periodStart;
+  const periodEnd = reservation.period === 'daily'
+    ? new Date(start.getTime() + 24 * 60 * 60 * 1000)
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  try {
+    await LimitCounter.updateOne(
+      key,
+      { $setOnInsert: { usedMinor: toMinor(reservation.seed), expiresAt: new Date(periodEnd.getTime() + 24 * 60 * 60 * 1000) } },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    // A concurrent submission created the counter first
+    if (error?.code !== 11000) throw error;
+  }
+
+  const amountMinor = toMinor(reservation.amount);
+  return LimitCounter.findOneAndUpdate(
+    reservation.cap === null ? key : { ...key, usedMinor: { $lte: toMinor(reservation.cap) - amountMinor } },
+    { $inc: { usedMinor: amountMinor } },
+    { new: true }
+  );
+};
+
+const unreserve = async (userId: string, period: CountedPeriod, currency: string | null, amount: number, at: Date): Promise<void> => {
+  await LimitCounter.updateOne(counterKey(userId, period, currency, at), { $inc: { usedMinor: -toMinor(amount) } });
+};
+
+// Counters a payment counts against: the base currency, plus its own currency when the tier caps it
+const reservationsFor = (payment: IPayment, baseAmount: number, status: ILimitStatus): IReservation[] => {
+  const currencyStatus = status.currencies.find(c => c.currency === payment.currency);
+  return COUNTED_PERIODS.flatMap(period => [
+    { period, currency: null, amount: baseAmount, cap: status.limits[period], seed: status.usage[period] },
+    ...(currencyStatus
+      ? [{ period, currency: payment.currency, amount: payment.amount, cap: currencyStatus.limits[period], seed: currencyStatus.usage[period] }]
+      : []),
+  ]);
+};
+
+/**
+ * Check an unsaved payment against the customer's limits, reserve its amount in the period
+ * counters and return its amount in the base currency, which the payment records so later
+ * usage reflects the rate it counted at. Reservations are atomic, so concurrent payments
+ * cannot together exceed a cap; release them with releaseTransferLimits if the payment is
+ * not created or stops counting (cancelled, rejected).
+ */
+export const checkTransferLimits = async (payment: IPayment, now: Date = new Date()): Promise<number> => {
+  const status = await getLimitStatus(payment.userId, now);
+  const baseAmount = toBaseAmount(payment.amount, payment.currency);
+
+  for (const period of LIMIT_PERIODS) {
+    const cap = period === 'perTransaction' ? status.limits.perTransaction : status.remaining[period];
+    if (cap !== null && baseAmount > cap) throw exceeded(period, cap, status.baseCurrency);
+  }
+
+  const currencyStatus = status.currencies.find(c => c.currency === payment.currency);
+  if (currencyStatus) {
+    for (const period of LIMIT_PERIODS) {
+      const cap = period === 'perTransaction' ? currencyStatus.limits.perTransaction : currencyStatus.remaining[period];
+      if (cap !== null && payment.amount > cap) throw exceeded(period, cap, payment.currency);
+    }
+  }
+
+  const reserved: IReservation[] = [];
+  for (const reservation of reservationsFor(payment, baseAmount, status)) {
+    const counter = await reserve(payment.userId, reservation, now);
+    if (!counter) {
+      for (const done of reserved) await unreserve(payment.userId, done.period, done.currency, done.amount, now);
+      const current = await LimitCounter.findOne(counterKey(payment.userId, reservation.period, reservation.currency, now));
+      const remaining = Math.max(0, round2((reservation.cap || 0) - fromMinor(current?.usedMinor || 0)));
+      throw exceeded(reservation.period, remaining, reservation.currency || status.baseCurrency);
+    }
+    reserved.push(reservation);
+  }
+  payment.$locals['limitReservedAt'] = now;
+
+  return baseAmount;
+};
+
+/**
+ * Give back what a payment reserved in the counters of the day and month it was submitted in.
+ * Call once per payment, when it is not created after all or leaves the statuses that count.
+ */
+export const releaseTransferLimits = async (payment: IPayment): Promise<void> => {
+  const at = (payment.$locals['limitReservedAt'] as Date | undefined) || payment.createdAt;
+  if (!at) return;
+  const baseAmount = payment.limitBaseAmount ?? toBaseAmount(payment.amount, payment.currency);
+  for (const period of COUNTED_PERIODS) {
+    await unreserve(payment.userId, period, null, baseAmount, at);
+    // No-op unless the payment's currency has its own counter
+    await unreserve(payment.userId, period, payment.currency, payment.amount, at);
+  }
+};
+
+const validateOverride = (values: LimitValues, expiresAt: Date | null, now: Date): void => {
+  for (const period of LIMIT_PERIODS) {
+    const value = values[period];
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+      throw new TransferLimitError('INVALID_OVERRIDE', `${period} must be a positive number or null.`);
+    }
+  }
+  if (LIMIT_PERIODS.every(period => values[period] === undefined || values[period] === null)) {
+    throw new TransferLimitError('INVALID_OVERRIDE', 'Set at least one of perTransaction, daily or monthly.');
+  }
+  if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= now)) {
+    throw new TransferLimitError('INVALID_OVERRIDE', 'expiresAt must be a date in the future.');
+  }
+};
+
+/**
+ * Replace a customer's tier caps with employee-set ones (null keeps the tier's), optionally until a date
+ */
+export const setLimitOverride = async (
+  userId: string,
+  values: LimitValues,
+  expiresAt: Date | null,
+  reason: string,
+  actor: IPaymentActor
+): Promise<ILimitOverride> => {
+  validateOverride(values, expiresAt, new Date());
+  const caps = { perTransaction: values.perTransaction ?? null, daily: values.daily ?? null, monthly: values.monthly ?? null };
+
+  const override = await LimitOverride.findOneAndUpdate(
+    { userId },
+    {
+      $set: { ...caps, active: true, expiresAt, reason },
+      $push: { history: { action: 'set', ...caps, expiresAt, reason, actorId: actor.userId, actorName: actor.email || null, timestamp: new Date() } },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  logger.info('Transfer limit override set:', { userId, ...caps, expiresAt, actorUserId: actor.userId });
+  return override!;
+};
+
+export const removeLimitOverride = async (userId: string, reason: string, actor: IPaymentActor): Promise<ILimitOverride> => {
+  const override = await LimitOverride.findOneAndUpdate(
+    { userId, active: true },
+    {
+      $set: { active: false },
+      $push: { history: { action: 'removed', perTransaction: null, daily: null, monthly: null, expiresAt: null, reason, actorId: actor.userId, actorName: actor.email || null, timestamp: new Date() } },
+    },
+    { new: true }
+  );
+  if (!override) throw new TransferLimitError('OVERRIDE_NOT_FOUND', 'This customer has no active limit override.');
+  logger.info('Transfer limit override removed:', { userId, actorUserId: actor.userId });
+  return override;
+};
@@ -1,44 +1,15 @@
+import { parseIBAN } from './iban';
+
+export { mod97 } from './iban';
+
 /**
  * Validate IBAN (International Bank Account Number)
- * Basic validation for IBAN format and check digit
+ * Country-aware: length, BBAN structure, check digits and national check digits.
+ * Use parseIBAN for the components and the reason a value was rejected.
  */
 export const validateIBAN = (iban: string): boolean => {
   if (!iban) return false;
-
-  // Remove spaces and convert to uppercase
-  const cleanIban = iban.replace(/\s/g, '').toUpperCase();
-
-  // Check length (15-34 characters)
-  if (cleanIban.length < 15 || cleanIban.length > 34) {
-    return false;
-  }
-
-  // Check if it starts with 2 letters followed by 2 digits
-  const ibanRegex = /^[A-Z]{2}[0-9]{2}[A-Z0-9]+$/;
-  if (!ibanRegex.test(cleanIban)) {
-    return false;
-  }
-
-  // Move first 4 characters to the end
-  const rearranged = cleanIban.slice(4) + cleanIban.slice(0, 4);
-
-  // Replace letters with numbers (A=10, B=11, ..., Z=35)
-  let numericString = '';
-  for (const char of rearranged) {
-    if (char >= 'A' && char <= 'Z') {
-      numericString += (char.charCodeAt(0) - 55).toString();
-    } else {
-      numericString += char;
-    }
-  }
-
-  // Calculate mod 97
-  let remainder = 0;
-  for (let i = 0; i < numericString.length; i++) {
-    remainder = (remainder * 10 + parseInt(numericString[i] || '0')) % 97;
-  }
-
-  return remainder === 1;
+  return parseIBAN(iban).valid;
 };
 
 /**
@@ -160,10 +131,6 @@ export const validateAmount = (amount: string | number): { isValid: boolean; val
     return { isValid: false, error: 'Amount must be greater than 0' };
   }
 
-  if (numericAmount > 1000000) {
-    return { isValid: false, error: 'Amount cannot exceed 1,000,000' };
-  }
-
   // Check for more than 2 decimal places
   const decimalPlaces = (numericAmount.toString().split('.')[1] || '').length;
   if (decimalPlaces > 2) {
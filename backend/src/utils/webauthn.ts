@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import { webauthnConfig } from '../config';
+import { IUserDocument } from '../models/User';
+import { WebAuthnCredential, IWebAuthnCredential } from '../models/WebAuthnCredential';
+import { WebAuthnChallenge, WebAuthnCeremony } from '../models/WebAuthnChallenge';
+import { CborValue, decodeCbor, decodeCborFirst } from './cbor';
+import { SUPPORTED_ALGORITHMS, UnsupportedKeyError, coseToSpki, verifyAssertionSignature } from './cose';
+
+export type WebAuthnErrorCode =
+  | 'INVALID_WEBAUTHN_RESPONSE'
+  | 'WEBAUTHN_CHALLENGE_EXPIRED'
+  | 'WEBAUTHN_VERIFICATION_FAILED'
+  | 'UNKNOWN_CREDENTIAL'
+  | 'UNSUPPORTED_ALGORITHM'
+  | 'CREDENTIAL_ALREADY_REGISTERED'
+  | 'CREDENTIAL_NOT_FOUND';
+
+export class WebAuthnError extends Error {
+  constructor(public readonly code: WebAuthnErrorCode, message: string) {
+    super(message);
+    this.name = 'WebAuthnError';
+  }
+
+  get statusCode(): number {
+    switch (this.code) {
+      case 'WEBAUTHN_CHALLENGE_EXPIRED':
+      case 'WEBAUTHN_VERIFICATION_FAILED':
+      case 'UNKNOWN_CREDENTIAL': return 401;
+      case 'CREDENTIAL_NOT_FOUND': return 404;
+      case 'CREDENTIAL_ALREADY_REGISTERED': return 409;
+      default: return 400;
+    }
+  }
+}
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * Credential as posted by the browser (PublicKeyCredential with its ArrayBuffers base64url-encoded)
+ */
+export interface IWebAuthnResponse {
+  id: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject?: string;
+    authenticatorData?: string;
+    signature?: string;
+    userHandle?: string | null;
+    transports?: string[];
+  };
+}
+
+interface IAuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<CborValue, CborValue>;
+}
+
+const fromBase64Url = (value: unknown, field: string): Buffer => {
+  if (typeof value !== 'string' || !value) {
+    throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', `Missing ${field}.`);
+  }
+  return Buffer.from(value, 'base64url');
+};
+
+const sha256 = (data: Buffer | string): Buffer => crypto.createHash('sha256').update(data).digest();
+
+// The user handle stored on passkeys; lets passwordless login cross-check the credential's owner
+const userHandleFor = (userId: string): string => Buffer.from(userId, 'utf8').toString('base64url');
+
+const createChallenge = async (ceremony: WebAuthnCeremony, userId: string | null): Promise<string> => {
+  const challenge = crypto.randomBytes(32).toString('base64url');
+  await WebAuthnChallenge.create({
+    challenge,
+    ceremony,
+    userId,
+    expiresAt: new Date(Date.now() + webauthnConfig.challengeTtlSeconds * 1000),
+  });
+  return challenge;
+};
+
+/**
+ * Check clientDataJSON and consume the challenge it names, so each challenge answers one ceremony
+ */
+const consumeClientData = async (
+  clientDataJSON: Buffer,
+  type: 'webauthn.create' | 'webauthn.get',
+  ceremony: WebAuthnCeremony,
+  userId: string | null
+): Promise<void> => {
+  let clientData: { type?: string; challenge?: string; origin?: string };
+  try {
+    clientData = JSON.parse(clientDataJSON.toString('utf8'));
+  } catch {
+    throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', 'Malformed client data.');
+  }
+  if (clientData.type !== type) {
+    throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', 'Unexpected client data type.');
+  }
+  if (!clientData.origin || !webauthnConfig.origins.includes(clientData.origin)) {
+    throw new WebAuthnError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey response came from an unexpected origin.');
+  }
+
+  const challenge = await WebAuthnChallenge.findOneAndDelete({
+    challenge: String(clientData.challenge || ''),
+    ceremony,
+    expiresAt: { $gt: new Date() },
+  });
+  if (!challenge || (userId !== null && challenge.userId !== userId)) {
+    throw new WebAuthnError('WEBAUTHN_CHALLENGE_EXPIRED', 'The passkey request has expired. Please try again.');
+  }
+};
+
+const parseAuthenticatorData = (authData: Buffer): IAuthenticatorData => {
+  if (authData.length < 37) {
+    throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', 'Authenticator data is too short.');
+  }
+  const parsed: IAuthenticatorData = {
+    rpIdHash: authData.subarray(0, 32),
+    flags: authData.readUInt8(32),
+    signCount: authData.readUInt32BE(33),
+  };
+
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL) {
+    try {
+      // 16-byte AAGUID, 2-byte length, credential ID, then the COSE public key
+      const idLength = authData.readUInt16BE(53);
+      parsed.credentialId = authData.subarray(55, 55 + idLength);
+      const key = decodeCborFirst(authData, 55 + idLength).value;
+      if (!(key instanceof Map)) throw new Error('COSE key is not a map');
+      parsed.credentialPublicKey = key;
+    } catch (error) {
+      if (error instanceof WebAuthnError) throw error;
+      throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', 'Malformed attested credential data.');
+    }
+  }
+  return parsed;
+};
+
+const checkAuthenticatorData = (authData: IAuthenticatorData, requireUserVerification: boolean): void => {
+  if (!crypto.timingSafeEqual(authData.rpIdHash, sha256(webauthnConfig.rpId))) {
+    throw new WebAuthnError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey is registered for a different site.');
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new WebAuthnError('WEBAUTHN_VERIFICATION_FAILED', 'User presence was not confirmed.');
+  }
+  if (requireUserVerification && !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw new WebAuthnError('WEBAUTHN_VERIFICATION_FAILED', 'The authenticator did not verify the user (PIN or biometric).');
+  }
+};
+
+/**
+ * Options for navigator.credentials.create(); existing passkeys are excluded so an
+ * authenticator is not registered twice
+ */
+export const generateRegistrationOptions = async (user: IUserDocument) => {
+  const existing = await WebAuthnCredential.find({ userId: user.id }).select('credentialId transports').lean();
+  return {
+    challenge: await createChallenge('registration', user.id!),
+    rp: { id: webauthnConfig.rpId, name: webauthnConfig.rpName },
+    user: {
+      id: userHandleFor(user.id!),
+      name: user.email,
+      displayName: `${user.firstName} ${user.lastName}`,
+    },
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+    timeout: webauthnConfig.challengeTtlSeconds * 1000,
+    // Attestation is not checked: we trust the key, not the authenticator model
+    attestation: 'none',
+    authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+    excludeCredentials: existing.map(c => ({ type: 'public-key', id: c.credentialId, transports: c.transports })),
+  };
+};
+
+/**
+ * Verify a registration response and store the new credential
+ */
+export const verifyRegistration = async (
+  user: IUserDocument,
+  credential: IWebAuthnResponse,
+  name: string
+): Promise<IWebAuthnCredential> => {
+  const clientDataJSON = fromBase64Url(credential?.response?.clientDataJSON, 'client data');
+  const attestationObject = fromBase64Url(credential?.response?.attestationObject, 'attestation object');
+  await consumeClientData(clientDataJSON, 'webauthn.create', 'registration', user.id!);
+
+  let authDataBytes: CborValue;
+  try {
+    const attestation = decodeCbor(attestationObject);
+    authDataBytes = attestation instanceof Map ? attestation.get('authData') : undefined;
+  } catch {
+    authDataBytes = undefined;
+  }
+  if (!Buffer.isBuffer(authDataBytes)) {
+    throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', 'Malformed attestation object.');
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorData(authData, false);
+  if (!authData.credentialId || !authData.credentialPublicKey) {
+    throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', 'No credential in the registration response.');
+  }
+
+  const credentialId = authData.credentialId.toString('base64url');
+  if (credential.id && credential.id !== credentialId) {
+    throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', 'Credential ID does not match the authenticator data.');
+  }
+  if (await WebAuthnCredential.exists({ credentialId })) {
+    throw new WebAuthnError('CREDENTIAL_ALREADY_REGISTERED', 'This passkey is already registered.');
+  }
+
+  let key: { publicKey: string; algorithm: number };
+  try {
+    key = coseToSpki(authData.credentialPublicKey);
+  } catch (error) {
+    if (error instanceof UnsupportedKeyError) throw new WebAuthnError('UNSUPPORTED_ALGORITHM', error.message);
+    throw new WebAuthnError('INVALID_WEBAUTHN_RESPONSE', 'Malformed public key.');
+  }
+  const { publicKey, algorithm } = key;
+  const transports = Array.isArray(credential.response.transports)
+    ? credential.response.transports.filter((t): t is string => typeof t === 'string').slice(0, 10)
+    : [];
+
+  return WebAuthnCredential.create({
+    userId: user.id,
+    credentialId,
+    publicKey,
+    algorithm,
+    signCount: authData.signCount,
+    transports,
+    name: name.trim().slice(0, 100) || 'Passkey',
+  });
+};
+
+/**
+ * Options for navigator.credentials.get(). Login passes no user, so the browser offers
+ * discoverable passkeys; step-up lists the user's own credentials.
+ */
+export const generateAuthenticationOptions = async (ceremony: 'login' | 'step_up', userId: string | null = null) => {
+  const credentials = userId
+    ? await WebAuthnCredential.find({ userId }).select('credentialId transports').lean()
+    : [];
+  return {
+    challenge: await createChallenge(ceremony, userId),
+    rpId: webauthnConfig.rpId,
+    timeout: webauthnConfig.challengeTtlSeconds * 1000,
+    // Passwordless login must be two factors on its own; step-up follows a password login
+    userVerification: ceremony === 'login' ? 'required' : 'preferred',
+    allowCredentials: credentials.map(c => ({ type: 'public-key', id: c.credentialId, transports: c.transports })),
+  };
+};
+
+/**
+ * Verify an assertion and return the credential it was made with. For step-up the credential
+ * must belong to the given user.
+ */
+export const verifyAuthentication = async (
+  assertion: IWebAuthnResponse,
+  ceremony: 'login' | 'step_up',
+  userId: string | null = null
+): Promise<IWebAuthnCredential> => {
+  const clientDataJSON = fromBase64Url(assertion?.response?.clientDataJSON, 'client data');
+  const authenticatorData = fromBase64Url(assertion?.response?.authenticatorData, 'authenticator data');
+  const signature = fromBase64Url(assertion?.response?.signature, 'signature');
+  await consumeClientData(clientDataJSON, 'webauthn.get', ceremony, userId);
+
+  const credential = await WebAuthnCredential.findOne({ credentialId: String(assertion.id || '') });
+  if (!credential || (userId !== null && credential.userId !== userId)) {
+    throw new WebAuthnError('UNKNOWN_CREDENTIAL', 'This passkey is not registered.');
+  }
+  const userHandle = assertion.response.userHandle;
+  if (userHandle && userHandle !== userHandleFor(credential.userId)) {
+    throw new WebAuthnError('UNKNOWN_CREDENTIAL', 'This passkey is not registered.');
+  }
+
+  const authData = parseAuthenticatorData(authenticatorData);
+  checkAuthenticatorData(authData, ceremony === 'login');
+  if (!verifyAssertionSignature(credential, authenticatorData, clientDataJSON, signature)) {
+    throw new WebAuthnError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey signature is invalid.');
+  }
+
+  // A counter that does not move forward means the authenticator may have been cloned
+  if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+    throw new WebAuthnError('WEBAUTHN_VERIFICATION_FAILED', 'Passkey signature counter went backwards.');
+  }
+
+  credential.signCount = authData.signCount;
+  credential.lastUsedAt = new Date();
+  await credential.save();
+  return credential;
+};
+
+export const hasWebAuthnCredentials = async (userId: string): Promise<boolean> => (
+  !!(await WebAuthnCredential.exists({ userId }))
+);
+
+export const toCredentialSummary = (credential: IWebAuthnCredential) => ({
+  id: credential.credentialId,
+  name: credential.name,
+  transports: credential.transports,
+  createdAt: credential.createdAt,
+  lastUsedAt: credential.lastUsedAt,
+});
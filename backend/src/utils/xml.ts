@@ -0,0 +1,119 @@
+export const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+export type XmlNode = {
+  name: string;
+  attrs?: Record<string, string>;
+  children?: Array<XmlNode | null | undefined | false>;
+  text?: string;
+};
+
+/**
+ * Element helper. Null/false children are dropped so optional elements can be written inline.
+ */
+export const el = (
+  name: string,
+  content?: string | Array<XmlNode | null | undefined | false>,
+  attrs?: Record<string, string>
+): XmlNode => (typeof content === 'string'
+  ? { name, text: content, ...(attrs && { attrs }) }
+  : { name, children: content || [], ...(attrs && { attrs }) });
+
+/**
+ * Serialise a node tree with two-space indentation
+ */
+export const renderXml = (root: XmlNode): string => {
+  const render = (node: XmlNode, depth: number): string => {
+    const pad = '  '.repeat(depth);
+    const attrs = Object.entries(node.attrs || {}).map(([k, v]) => ` ${k}="${escapeXml(v)}"`).join('');
+    if (node.text !== undefined) {
+      return `${pad}<${node.name}${attrs}>${escapeXml(node.text)}</${node.name}>`;
+    }
+    const children = (node.children || []).filter((c): c is XmlNode => !!c);
+    if (children.length === 0) return `${pad}<${node.name}${attrs}/>`;
+    return `${pad}<${node.name}${attrs}>\n${children.map(c => render(c, depth + 1)).join('\n')}\n${pad}</${node.name}>`;
+  };
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${render(root, 0)}\n`;
+};
+
+export interface IXmlElement {
+  // Local name, namespace prefix removed
+  name: string;
+  attrs: Record<string, string>;
+  children: IXmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (value: string): string => value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (_m, ref: string) => {
+  if (ref.startsWith('#x')) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+  if (ref.startsWith('#')) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+  const decoded = ENTITIES[ref];
+  if (decoded === undefined) throw new Error(`Unknown entity &${ref};`);
+  return decoded;
+});
+
+const localName = (qualified: string): string => qualified.slice(qualified.indexOf(':') + 1);
+
+/**
+ * Minimal non-validating XML reader for well-formed bank messages: elements, attributes,
+ * text, CDATA and comments. Document type declarations are refused outright, so entity
+ * expansion attacks cannot reach us.
+ */
+export const parseXml = (text: string): IXmlElement => {
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|(<!DOCTYPE)|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/y;
+  const attribute = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const stack: IXmlElement[] = [];
+  let root: IXmlElement | null = null;
+
+  while (token.lastIndex < input.length) {
+    const at = token.lastIndex;
+    const match = token.exec(input);
+    if (!match) throw new Error(`Malformed XML at offset ${at}.`);
+    const [, cdata, doctype, closing, opening, attrText, selfClosing, chars] = match;
+    const parent = stack[stack.length - 1];
+
+    if (doctype) throw new Error('Document type declarations are not allowed.');
+    if (cdata !== undefined || chars !== undefined) {
+      const content = cdata !== undefined ? cdata : decodeEntities(chars!);
+      if (parent) parent.text += content;
+      else if (content.trim()) throw new Error('Text outside the root element.');
+    } else if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== localName(closing)) throw new Error(`Unexpected closing tag </${closing}>.`);
+    } else if (opening) {
+      const element: IXmlElement = { name: localName(opening), attrs: {}, children: [], text: '' };
+      for (const [, key, dq, sq] of (attrText || '').matchAll(attribute)) {
+        element.attrs[localName(key!)] = decodeEntities(dq ?? sq ?? '');
+      }
+      if (parent) parent.children.push(element);
+      else if (root) throw new Error('Multiple root elements.');
+      else root = element;
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (!root || stack.length > 0) throw new Error('Unexpected end of document.');
+  return root;
+};
+
+/**
+ * Follow a path of local names from an element; the first match is taken at each step
+ */
+export const xmlChild = (element: IXmlElement | undefined, ...path: string[]): IXmlElement | undefined => path.reduce<IXmlElement | undefined>(
+  (current, name) => current?.children.find(c => c.name === name),
+  element
+);
+
+export const xmlChildren = (element: IXmlElement | undefined, name: string): IXmlElement[] => (element?.children || []).filter(c => c.name === name);
+
+export const xmlText = (element: IXmlElement | undefined, ...path: string[]): string | undefined => {
+  const found = xmlChild(element, ...path);
+  return found ? found.text.trim() : undefined;
+};